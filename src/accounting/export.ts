@@ -0,0 +1,557 @@
+import { BigNumber } from 'bignumber.js';
+
+import { UnreachableCaseError } from '#utils';
+
+import { PayoutProgram } from '#types/enums/request';
+
+import type { RestAuthenticatedClient } from '#client/rest/authenticated';
+import type {
+  IDEXDeposit,
+  IDEXFill,
+  IDEXFundingPayment,
+  IDEXPayoutProgram,
+  IDEXWithdrawal,
+} from '#types/rest/endpoints/index';
+import type { Writable } from 'node:stream';
+
+/**
+ * The wallet history items that can be exported by {@link exportWalletHistory}.
+ */
+export type WalletHistoryExportType =
+  | 'fills'
+  | 'fundingPayments'
+  | 'deposits'
+  | 'withdrawals'
+  | 'payouts';
+
+/**
+ * - `csv` writes a header row followed by one row per item.
+ * - `ndjson` writes one JSON object per line.
+ */
+export type WalletHistoryExportFormat = 'csv' | 'ndjson';
+
+/**
+ * The columns of each export type, in the order they are written.
+ *
+ * - Columns are stable across SDK versions, new columns are only ever appended.
+ * - `time` is formatted in the requested time zone, `timestamp` is the unix timestamp in
+ *   milliseconds.
+ * - `bridge` and `sourceChain` / `targetChain` are derived from the `bridgeSource` of
+ *   deposits and `bridgeTarget` of withdrawals, e.g. `stargate` and `arbitrum` for
+ *   `stargate.arbitrum`.
+ */
+export const WALLET_HISTORY_EXPORT_COLUMNS = Object.freeze({
+  fills: [
+    'time',
+    'timestamp',
+    'fillId',
+    'orderId',
+    'clientOrderId',
+    'market',
+    'side',
+    'type',
+    'action',
+    'position',
+    'liquidity',
+    'price',
+    'quantity',
+    'quoteQuantity',
+    'realizedPnL',
+    'fee',
+    'txId',
+    'txStatus',
+  ],
+  fundingPayments: [
+    'time',
+    'timestamp',
+    'market',
+    'paymentQuantity',
+    'positionQuantity',
+    'fundingRate',
+    'indexPrice',
+  ],
+  deposits: [
+    'time',
+    'timestamp',
+    'depositId',
+    'asset',
+    'quantity',
+    'bridgeSource',
+    'bridge',
+    'sourceChain',
+    'bridgeTxId',
+    'xchainTxId',
+  ],
+  withdrawals: [
+    'time',
+    'timestamp',
+    'withdrawalId',
+    'asset',
+    'quantity',
+    'gas',
+    'bridgeTarget',
+    'bridge',
+    'targetChain',
+    'xchainTxId',
+    'xchainTxStatus',
+  ],
+  payouts: [
+    'program',
+    'assetSymbol',
+    'assetAddress',
+    'quantityEarned',
+    'quantityPaid',
+    'quantityOwed',
+  ],
+} as const);
+
+/**
+ * A normalized export row, `null` for values not present on the item.
+ */
+export type WalletHistoryExportRow = Record<string, string | number | null>;
+
+/**
+ * Options of {@link exportWalletHistory} and {@link iterateWalletHistoryRows}.
+ */
+export interface WalletHistoryExportOptions {
+  type: WalletHistoryExportType;
+  wallet: string;
+  /**
+   * Earliest timestamp to export (inclusive), not applicable to `payouts`
+   */
+  start?: number;
+  /**
+   * Latest timestamp to export (inclusive), not applicable to `payouts`
+   */
+  end?: number;
+  /**
+   * Only export `fills` or `fundingPayments` of this market
+   */
+  market?: string;
+  /**
+   * Only export `payouts` of these programs, defaults to all programs
+   */
+  programs?: PayoutProgram[];
+  /**
+   * IANA time zone of the `time` column
+   *
+   * @defaultValue 'UTC'
+   */
+  timeZone?: string;
+  /**
+   * Rounds decimal values to this many decimals, values are exported as returned by the
+   * API if not provided
+   */
+  decimals?: number;
+  /**
+   * @defaultValue '.'
+   */
+  decimalSeparator?: string;
+}
+
+/**
+ * @private
+ */
+const decimalColumns = new Set<string>([
+  'price',
+  'quantity',
+  'quoteQuantity',
+  'realizedPnL',
+  'fee',
+  'paymentQuantity',
+  'positionQuantity',
+  'fundingRate',
+  'indexPrice',
+  'gas',
+  'quantityEarned',
+  'quantityPaid',
+  'quantityOwed',
+]);
+
+/**
+ * @private
+ */
+function splitBridge(value: string): [bridge: string, chain: string | null] {
+  const [bridge, chain = null] = value.split('.');
+  return [bridge, chain];
+}
+
+/**
+ * @private
+ */
+function fillToRow(fill: IDEXFill): WalletHistoryExportRow {
+  return {
+    timestamp: fill.time,
+    fillId: fill.fillId,
+    orderId: fill.orderId ?? null,
+    clientOrderId: fill.clientOrderId ?? null,
+    market: fill.market,
+    side: fill.side,
+    type: fill.type,
+    action: fill.action,
+    position: fill.position,
+    liquidity: fill.liquidity ?? null,
+    price: fill.price,
+    quantity: fill.quantity,
+    quoteQuantity: fill.quoteQuantity,
+    realizedPnL: fill.realizedPnL,
+    fee: fill.fee ?? null,
+    txId: fill.txId,
+    txStatus: fill.txStatus,
+  };
+}
+
+/**
+ * @private
+ */
+function fundingPaymentToRow(
+  payment: IDEXFundingPayment,
+): WalletHistoryExportRow {
+  return {
+    timestamp: payment.time,
+    market: payment.market,
+    paymentQuantity: payment.paymentQuantity,
+    positionQuantity: payment.positionQuantity,
+    fundingRate: payment.fundingRate,
+    indexPrice: payment.indexPrice,
+  };
+}
+
+/**
+ * @private
+ */
+function depositToRow(deposit: IDEXDeposit): WalletHistoryExportRow {
+  const [bridge, sourceChain] = splitBridge(deposit.bridgeSource);
+  return {
+    timestamp: deposit.time,
+    depositId: deposit.depositId,
+    asset: deposit.asset,
+    quantity: deposit.quantity,
+    bridgeSource: deposit.bridgeSource,
+    bridge,
+    sourceChain,
+    bridgeTxId: deposit.bridgeTxId ?? null,
+    xchainTxId: deposit.xchainTxId,
+  };
+}
+
+/**
+ * @private
+ */
+function withdrawalToRow(withdrawal: IDEXWithdrawal): WalletHistoryExportRow {
+  const [bridge, targetChain] = splitBridge(withdrawal.bridgeTarget);
+  return {
+    timestamp: withdrawal.time,
+    withdrawalId: withdrawal.withdrawalId,
+    asset: withdrawal.asset,
+    quantity: withdrawal.quantity,
+    gas: withdrawal.gas,
+    bridgeTarget: withdrawal.bridgeTarget,
+    bridge,
+    targetChain,
+    xchainTxId: withdrawal.xchainTxId,
+    xchainTxStatus: withdrawal.xchainTxStatus,
+  };
+}
+
+/**
+ * @private
+ */
+function payoutToRow(
+  program: PayoutProgram,
+  payout: IDEXPayoutProgram,
+): WalletHistoryExportRow {
+  return {
+    program,
+    assetSymbol: payout.assetSymbol,
+    assetAddress: payout.assetAddress,
+    quantityEarned: payout.quantityEarned,
+    quantityPaid: payout.quantityPaid,
+    quantityOwed: payout.quantityOwed,
+  };
+}
+
+/**
+ * @private
+ */
+async function* iterateRawRows(
+  client: WalletHistoryExportClient,
+  options: WalletHistoryExportOptions,
+): AsyncGenerator<WalletHistoryExportRow> {
+  const { type, wallet, start, end, market } = options;
+
+  switch (type) {
+    case 'fills':
+      for await (const fill of client.iterateFills({
+        wallet,
+        start,
+        end,
+        market,
+      })) {
+        yield fillToRow(fill);
+      }
+      break;
+    case 'fundingPayments':
+      for await (const payment of client.iterateFundingPayments({
+        wallet,
+        start,
+        end,
+        market,
+      })) {
+        yield fundingPaymentToRow(payment);
+      }
+      break;
+    case 'deposits':
+      for await (const deposit of client.iterateDeposits({
+        wallet,
+        start,
+        end,
+      })) {
+        yield depositToRow(deposit);
+      }
+      break;
+    case 'withdrawals':
+      for await (const withdrawal of client.iterateWithdrawals({
+        wallet,
+        start,
+        end,
+      })) {
+        yield withdrawalToRow(withdrawal);
+      }
+      break;
+    case 'payouts':
+      for (const program of options.programs ?? Object.values(PayoutProgram)) {
+        // eslint-disable-next-line no-await-in-loop
+        const payout = await client.getPayouts({ wallet, program });
+        yield payoutToRow(program, payout);
+      }
+      break;
+    default:
+      throw new UnreachableCaseError(type, 'iterateRawRows');
+  }
+}
+
+/**
+ * Formats timestamps as ISO 8601 strings with the offset of the time zone,
+ * e.g. `2024-01-31T17:00:00.000+01:00`.
+ *
+ * @private
+ */
+function createTimeFormatter(timeZone: string) {
+  // throws a RangeError for invalid time zones before any request is made
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    fractionalSecondDigits: 3,
+    hourCycle: 'h23',
+    timeZoneName: 'longOffset',
+  });
+
+  return (timestamp: number) => {
+    const parts = Object.fromEntries(
+      formatter
+        .formatToParts(new Date(timestamp))
+        .map(({ type, value }) => [type, value]),
+    );
+    const offset = parts.timeZoneName.replace('GMT', '') || 'Z';
+
+    return `${parts.year}-${parts.month}-${parts.day}T${parts.hour}:${parts.minute}:${parts.second}.${parts.fractionalSecond}${offset}`;
+  };
+}
+
+/**
+ * The {@link RestAuthenticatedClient} methods used to export wallet history.
+ */
+export type WalletHistoryExportClient = Pick<
+  RestAuthenticatedClient,
+  | 'iterateFills'
+  | 'iterateFundingPayments'
+  | 'iterateDeposits'
+  | 'iterateWithdrawals'
+  | 'getPayouts'
+>;
+
+/**
+ * Iterates normalized and formatted export rows of a wallet's history, requesting as many
+ * pages as needed.
+ *
+ * - Rows contain exactly the {@link WALLET_HISTORY_EXPORT_COLUMNS} of the export type.
+ * - `payouts` are the current totals of each payout program and are not filtered by
+ *   `start` and `end`.
+ *
+ * @see related {@link exportWalletHistory}
+ */
+export async function* iterateWalletHistoryRows(
+  client: WalletHistoryExportClient,
+  options: WalletHistoryExportOptions,
+): AsyncGenerator<WalletHistoryExportRow> {
+  const { type, timeZone = 'UTC', decimals, decimalSeparator = '.' } = options;
+
+  const columns = WALLET_HISTORY_EXPORT_COLUMNS[type];
+  const formatTime = createTimeFormatter(timeZone);
+
+  const formatDecimal = (value: string) => {
+    const decimal =
+      decimals === undefined ? value : (
+        new BigNumber(value).toFixed(decimals, BigNumber.ROUND_HALF_UP)
+      );
+    return decimalSeparator === '.' ? decimal : (
+        decimal.replace('.', decimalSeparator)
+      );
+  };
+
+  for await (const rawRow of iterateRawRows(client, options)) {
+    const row: WalletHistoryExportRow = {};
+    for (const column of columns) {
+      const value = rawRow[column] ?? null;
+      if (column === 'time') {
+        row.time = formatTime(rawRow.timestamp as number);
+      } else if (typeof value === 'string' && decimalColumns.has(column)) {
+        row[column] = formatDecimal(value);
+      } else {
+        row[column] = value;
+      }
+    }
+    yield row;
+  }
+}
+
+/**
+ * @private
+ */
+function toCsvLine(
+  values: (string | number | null)[],
+  delimiter: string,
+): string {
+  return `${values
+    .map((value) => {
+      const field = value === null ? '' : String(value);
+      return (
+          field.includes(delimiter) ||
+            field.includes('"') ||
+            field.includes('\n') ||
+            field.includes('\r')
+        ) ?
+          `"${field.replace(/"/g, '""')}"`
+        : field;
+    })
+    .join(delimiter)}\n`;
+}
+
+/**
+ * Where {@link exportWalletHistory} writes an export to.
+ *
+ * - A Node.js `Writable`, such as a file stream created with `fs.createWriteStream`. Writes
+ *   wait for it to drain once its buffer is full.
+ * - Any object with a `write` method, such as the writer of a WHATWG `WritableStream`.
+ *   Promises returned by `write` are awaited before the next chunk is written.
+ */
+export type WalletHistoryExportOutput =
+  | Writable
+  | { write(chunk: string): unknown };
+
+/**
+ * @private
+ */
+function isWritable(output: WalletHistoryExportOutput): output is Writable {
+  return typeof (output as Writable).once === 'function';
+}
+
+/**
+ * @private
+ */
+function waitForDrain(stream: Writable) {
+  return new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      stream.off('error', onError);
+      resolve();
+    };
+    const onError = (error: Error) => {
+      stream.off('drain', onDrain);
+      reject(error);
+    };
+    stream.once('drain', onDrain);
+    stream.once('error', onError);
+  });
+}
+
+/**
+ * Exports a wallet's fills, funding payments, deposits, withdrawals or payouts as CSV or
+ * NDJSON.
+ *
+ * - Pages are requested and written one at a time so the history is never held in
+ *   memory, writes wait for the output to drain.
+ * - The `output` is not ended once the export completes, so multiple exports can be written
+ *   to it. It is up to the caller to end or close it.
+ * - Resolves with the number of exported rows.
+ *
+ * @example
+ * ```typescript
+ * import { createWriteStream } from 'node:fs';
+ *
+ * const output = createWriteStream('./fills-2024.csv');
+ *
+ * await exportWalletHistory(client, {
+ *   type: 'fills',
+ *   wallet,
+ *   start: Date.UTC(2024, 0, 1),
+ *   end: Date.UTC(2024, 11, 31, 23, 59, 59, 999),
+ *   format: 'csv',
+ *   timeZone: 'Europe/Berlin',
+ *   decimalSeparator: ',',
+ *   delimiter: ';',
+ *   output,
+ * });
+ *
+ * output.end();
+ * ```
+ */
+export async function exportWalletHistory(
+  client: WalletHistoryExportClient,
+  options: WalletHistoryExportOptions & {
+    format: WalletHistoryExportFormat;
+    /**
+     * Writable stream or sink to write the export to
+     */
+    output: WalletHistoryExportOutput;
+    /**
+     * Field delimiter of `csv` exports
+     *
+     * @defaultValue ','
+     */
+    delimiter?: string;
+  },
+): Promise<{ rowCount: number }> {
+  const { type, format, output, delimiter = ',' } = options;
+
+  const write = async (chunk: string) => {
+    if (isWritable(output)) {
+      if (!output.write(chunk)) {
+        await waitForDrain(output);
+      }
+    } else {
+      await output.write(chunk);
+    }
+  };
+
+  let rowCount = 0;
+  if (format === 'csv') {
+    await write(toCsvLine([...WALLET_HISTORY_EXPORT_COLUMNS[type]], delimiter));
+  }
+
+  for await (const row of iterateWalletHistoryRows(client, options)) {
+    await write(
+      format === 'csv' ?
+        toCsvLine(Object.values(row), delimiter)
+      : `${JSON.stringify(row)}\n`,
+    );
+    rowCount += 1;
+  }
+
+  return { rowCount };
+}
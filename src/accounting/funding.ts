@@ -0,0 +1,299 @@
+import { decimalToPip, multiplyPips } from '#pipmath';
+import { UnreachableCaseError } from '#utils';
+
+import type {
+  IDEXFundingPayment,
+  IDEXMarket,
+  IDEXPosition,
+} from '#types/rest/endpoints/index';
+
+/**
+ * Interval between funding payments in milliseconds, funding payments are made every 8 hours.
+ */
+export const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Number of funding periods in a year, derived from {@link FUNDING_INTERVAL_MS}.
+ */
+export const FUNDING_PERIODS_PER_YEAR = BigInt(
+  (365 * 24 * 60 * 60 * 1000) / FUNDING_INTERVAL_MS,
+);
+
+/**
+ * Periods funding payments can be aggregated by in {@link aggregateFundingPayments}.
+ *
+ * - Periods are in UTC and weeks start on Monday.
+ * - `all` aggregates all payments of a market into a single summary.
+ */
+export type FundingPaymentPeriod = 'day' | 'week' | 'month' | 'all';
+
+/**
+ * Projected next funding payment of a position.
+ *
+ * - All values are in pips.
+ */
+export interface ProjectedFundingPayment {
+  market: string;
+  /**
+   * Time of the next funding payment
+   */
+  time: number;
+  /**
+   * Base quantity of the position, negative for short positions
+   */
+  positionQuantity: bigint;
+  /**
+   * Current index price of the market
+   */
+  indexPrice: bigint;
+  /**
+   * Current funding rate of the market, `0` if not yet known
+   */
+  fundingRate: bigint;
+  /**
+   * {@link fundingRate} multiplied by {@link FUNDING_PERIODS_PER_YEAR}
+   */
+  annualizedFundingRate: bigint;
+  /**
+   * Projected payment in quote terms, negative if paid by the wallet and positive if
+   * received
+   */
+  paymentQuantity: bigint;
+}
+
+/**
+ * Funding payments of a market aggregated over a period.
+ *
+ * - All values are in pips.
+ */
+export interface FundingPaymentSummary {
+  market: string;
+  period: FundingPaymentPeriod;
+  /**
+   * Start of the period (inclusive), `null` for the `all` period
+   */
+  periodStart: number | null;
+  /**
+   * End of the period (exclusive), `null` for the `all` period
+   */
+  periodEnd: number | null;
+  firstPaymentTime: number;
+  lastPaymentTime: number;
+  paymentCount: number;
+  /**
+   * Total of payments made by the wallet as a positive quantity
+   */
+  paid: bigint;
+  /**
+   * Total of payments received by the wallet
+   */
+  received: bigint;
+  /**
+   * `received - paid`
+   */
+  net: bigint;
+  averageFundingRate: bigint;
+  /**
+   * {@link averageFundingRate} multiplied by {@link FUNDING_PERIODS_PER_YEAR}
+   */
+  annualizedFundingRate: bigint;
+}
+
+/**
+ * Calculates a funding payment in quote terms, negative if paid by the position and
+ * positive if received.
+ *
+ * - Long positions pay and short positions receive funding when the funding rate is
+ *   positive, and vice versa.
+ * - All arguments and the result are in pips.
+ */
+export function calculateFundingPayment(args: {
+  positionQuantity: bigint;
+  indexPrice: bigint;
+  fundingRate: bigint;
+}): bigint {
+  const { positionQuantity, indexPrice, fundingRate } = args;
+
+  return -multiplyPips(multiplyPips(positionQuantity, indexPrice), fundingRate);
+}
+
+/**
+ * Annualizes a per-period funding rate in pips.
+ */
+export function annualizeFundingRate(
+  fundingRate: bigint,
+  fundingPeriodsPerYear = FUNDING_PERIODS_PER_YEAR,
+): bigint {
+  return fundingRate * fundingPeriodsPerYear;
+}
+
+/**
+ * Projects the next funding payment of each position from the current funding rate and
+ * index price of its market.
+ *
+ * - Throws if the market of a position is not provided.
+ *
+ * @example
+ * ```typescript
+ * const projections = projectFundingPayments({
+ *   positions: await client.getPositions({}),
+ *   markets: await publicClient.getMarkets(),
+ * });
+ * ```
+ */
+export function projectFundingPayments(args: {
+  positions: Pick<IDEXPosition, 'market' | 'quantity'>[];
+  markets: Pick<
+    IDEXMarket,
+    'market' | 'indexPrice' | 'currentFundingRate' | 'nextFundingTime'
+  >[];
+}): ProjectedFundingPayment[] {
+  const { positions, markets } = args;
+
+  return positions.map((position) => {
+    const market = markets.find((m) => m.market === position.market);
+    if (!market) {
+      throw new Error(`No market data for market ${position.market}`);
+    }
+
+    const positionQuantity = decimalToPip(position.quantity);
+    const indexPrice = decimalToPip(market.indexPrice);
+    const fundingRate =
+      market.currentFundingRate === null ?
+        BigInt(0)
+      : decimalToPip(market.currentFundingRate);
+
+    return {
+      market: position.market,
+      time: market.nextFundingTime,
+      positionQuantity,
+      indexPrice,
+      fundingRate,
+      annualizedFundingRate: annualizeFundingRate(fundingRate),
+      paymentQuantity: calculateFundingPayment({
+        positionQuantity,
+        indexPrice,
+        fundingRate,
+      }),
+    };
+  });
+}
+
+/**
+ * @private
+ */
+function getPeriodBounds(
+  time: number,
+  period: FundingPaymentPeriod,
+): [start: number | null, end: number | null] {
+  const date = new Date(time);
+
+  switch (period) {
+    case 'all':
+      return [null, null];
+    case 'day': {
+      const start = Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+      );
+      return [start, start + 24 * 60 * 60 * 1000];
+    }
+    case 'week': {
+      const start = Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate() - ((date.getUTCDay() + 6) % 7),
+      );
+      return [start, start + 7 * 24 * 60 * 60 * 1000];
+    }
+    case 'month':
+      return [
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+        Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+      ];
+    default:
+      throw new UnreachableCaseError(period, 'getPeriodBounds');
+  }
+}
+
+/**
+ * Aggregates historical funding payments per market and period.
+ *
+ * - Accepts arrays as well as async iterables, such as returned by
+ *   `RestAuthenticatedClient.iterateFundingPayments`, so payments do not need to be
+ *   loaded into memory first.
+ * - Summaries are sorted by period and market.
+ *
+ * @example
+ * ```typescript
+ * const monthly = await aggregateFundingPayments(
+ *   client.iterateFundingPayments({ start: Date.UTC(2024, 0, 1) }),
+ *   { period: 'month' },
+ * );
+ * ```
+ */
+export async function aggregateFundingPayments(
+  payments: Iterable<IDEXFundingPayment> | AsyncIterable<IDEXFundingPayment>,
+  options: { period?: FundingPaymentPeriod } = {},
+): Promise<FundingPaymentSummary[]> {
+  const { period = 'all' } = options;
+
+  const summaries = new Map<
+    string,
+    FundingPaymentSummary & { totalFundingRate: bigint }
+  >();
+
+  for await (const payment of payments) {
+    const [periodStart, periodEnd] = getPeriodBounds(payment.time, period);
+    const key = `${payment.market}:${String(periodStart)}`;
+    const paymentQuantity = decimalToPip(payment.paymentQuantity);
+
+    let summary = summaries.get(key);
+    if (!summary) {
+      summary = {
+        market: payment.market,
+        period,
+        periodStart,
+        periodEnd,
+        firstPaymentTime: payment.time,
+        lastPaymentTime: payment.time,
+        paymentCount: 0,
+        paid: BigInt(0),
+        received: BigInt(0),
+        net: BigInt(0),
+        averageFundingRate: BigInt(0),
+        annualizedFundingRate: BigInt(0),
+        totalFundingRate: BigInt(0),
+      };
+      summaries.set(key, summary);
+    }
+
+    summary.firstPaymentTime = Math.min(summary.firstPaymentTime, payment.time);
+    summary.lastPaymentTime = Math.max(summary.lastPaymentTime, payment.time);
+    summary.paymentCount += 1;
+    summary.totalFundingRate += decimalToPip(payment.fundingRate);
+    if (paymentQuantity < BigInt(0)) {
+      summary.paid -= paymentQuantity;
+    } else {
+      summary.received += paymentQuantity;
+    }
+    summary.net += paymentQuantity;
+  }
+
+  return Array.from(summaries.values())
+    .map(({ totalFundingRate, ...summary }) => {
+      const averageFundingRate =
+        totalFundingRate / BigInt(summary.paymentCount);
+      return {
+        ...summary,
+        averageFundingRate,
+        annualizedFundingRate: annualizeFundingRate(averageFundingRate),
+      };
+    })
+    .sort(
+      (a, b) =>
+        (a.periodStart ?? 0) - (b.periodStart ?? 0) ||
+        a.market.localeCompare(b.market),
+    );
+}
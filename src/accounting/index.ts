@@ -0,0 +1,4 @@
+export * from '#accounting/export';
+export * from '#accounting/funding';
+export * from '#accounting/ledger';
+export * from '#accounting/utils';
@@ -0,0 +1,551 @@
+import {
+  absBigInt,
+  decimalToPip,
+  dividePips,
+  minBigInt,
+  multiplyPips,
+} from '#pipmath';
+
+import { OrderSide } from '#types/enums/request';
+
+import type {
+  IDEXDeposit,
+  IDEXFill,
+  IDEXFundingPayment,
+  IDEXPosition,
+  IDEXWithdrawal,
+} from '#types/rest/endpoints/index';
+
+/**
+ * The fields of a {@link IDEXFill} used by {@link buildPnLLedger}.
+ */
+export type PnLLedgerFill = Pick<
+  IDEXFill,
+  | 'fillId'
+  | 'market'
+  | 'side'
+  | 'price'
+  | 'quantity'
+  | 'quoteQuantity'
+  | 'realizedPnL'
+  | 'fee'
+  | 'time'
+  | 'sequence'
+>;
+
+export type PnLLedgerEntryType =
+  | 'deposit'
+  | 'withdrawal'
+  | 'fill'
+  | 'fundingPayment';
+
+/**
+ * A single replayed fill, funding payment, deposit or withdrawal.
+ *
+ * - All values are in pips.
+ */
+export interface PnLLedgerEntry {
+  type: PnLLedgerEntryType;
+  time: number;
+  /**
+   * `fillId`, `depositId` or `withdrawalId` of the item, `null` for funding payments
+   */
+  id: string | null;
+  /**
+   * Market of fills and funding payments, `null` for deposits and withdrawals
+   */
+  market: string | null;
+  /**
+   * Change of the quote balance caused by the item
+   */
+  quoteChange: bigint;
+  /**
+   * Quote balance after the item, starting from `0` or the provided `initialQuoteBalance`
+   */
+  quoteBalance: bigint;
+  /**
+   * Position quantity of the market after the item, `null` for deposits and withdrawals
+   */
+  positionQuantity: bigint | null;
+  /**
+   * Average entry price of the position after the item, `null` for deposits and
+   * withdrawals
+   */
+  entryPrice: bigint | null;
+  /**
+   * Realized PnL of a fill, excluding fees
+   */
+  realizedPnL: bigint;
+  fee: bigint;
+  funding: bigint;
+}
+
+/**
+ * Totals of the position currently open in a market, comparable to {@link IDEXPosition}.
+ *
+ * - All values are in pips.
+ */
+export interface PnLLedgerOpenPosition {
+  /**
+   * Id of the fill that opened the position
+   */
+  openedByFillId: string;
+  /**
+   * Realized PnL of fills that reduced the position, excluding fees
+   */
+  realizedPnL: bigint;
+  fees: bigint;
+  funding: bigint;
+  maximumQuantity: bigint;
+  totalOpen: bigint;
+  totalClose: bigint;
+}
+
+/**
+ * PnL of a market across all replayed items.
+ *
+ * - All values are in pips.
+ */
+export interface PnLLedgerMarket {
+  market: string;
+  /**
+   * Current position quantity, negative for short positions
+   */
+  quantity: bigint;
+  /**
+   * Average entry price of the current position, `0` if there is no open position
+   */
+  entryPrice: bigint;
+  /**
+   * Realized PnL of all fills, excluding fees
+   */
+  realizedPnL: bigint;
+  fees: bigint;
+  funding: bigint;
+  /**
+   * `realizedPnL + funding - fees`
+   */
+  netPnL: bigint;
+  /**
+   * Unrealized PnL of the current position at the provided mark price, `null` if no mark
+   * price was provided for the market
+   */
+  unrealizedPnL: bigint | null;
+  /**
+   * Totals of the currently open position, `null` if there is no open position
+   */
+  openPosition: PnLLedgerOpenPosition | null;
+}
+
+/**
+ * Result of {@link buildPnLLedger}.
+ *
+ * - All values are in pips.
+ */
+export interface PnLLedger {
+  /**
+   * All replayed items in chronological order
+   */
+  entries: PnLLedgerEntry[];
+  /**
+   * Per-market PnL sorted by market
+   */
+  markets: PnLLedgerMarket[];
+  deposits: bigint;
+  withdrawals: bigint;
+  realizedPnL: bigint;
+  fees: bigint;
+  funding: bigint;
+  /**
+   * `realizedPnL + funding - fees`
+   */
+  netPnL: bigint;
+  quoteBalance: bigint;
+}
+
+/**
+ * Differences between a {@link PnLLedgerMarket} and the {@link IDEXPosition} returned by
+ * the API for the same market.
+ *
+ * - All values are in pips, differences are `ledger - position`.
+ */
+export interface PnLLedgerReconciliation {
+  market: string;
+  quantityDifference: bigint;
+  entryPriceDifference: bigint;
+  /**
+   * Compares the realized PnL and funding of the open position to
+   * {@link IDEXPosition.realizedPnL}, which includes funding payments
+   */
+  realizedPnLDifference: bigint;
+  totalFundingDifference: bigint;
+  /**
+   * `true` if the ledger and position refer to a position opened by the same fill
+   */
+  isSamePosition: boolean;
+  /**
+   * `true` if it is the same position and all differences are within the tolerance
+   */
+  isReconciled: boolean;
+}
+
+type LedgerItem =
+  | { type: 'fill'; time: number; item: PnLLedgerFill }
+  | {
+      type: 'fundingPayment';
+      time: number;
+      item: Pick<IDEXFundingPayment, 'market' | 'paymentQuantity' | 'time'>;
+    }
+  | {
+      type: 'deposit';
+      time: number;
+      item: Pick<IDEXDeposit, 'depositId' | 'quantity' | 'time'>;
+    }
+  | {
+      type: 'withdrawal';
+      time: number;
+      item: Pick<IDEXWithdrawal, 'withdrawalId' | 'quantity' | 'time'>;
+    };
+
+/**
+ * @private
+ */
+function compareLedgerItems(a: LedgerItem, b: LedgerItem): number {
+  if (a.time !== b.time) {
+    return a.time - b.time;
+  }
+  if (
+    a.type === 'fill' &&
+    b.type === 'fill' &&
+    a.item.sequence !== undefined &&
+    b.item.sequence !== undefined
+  ) {
+    return a.item.sequence - b.item.sequence;
+  }
+  return 0;
+}
+
+/**
+ * @private
+ */
+function createMarket(market: string): PnLLedgerMarket {
+  return {
+    market,
+    quantity: BigInt(0),
+    entryPrice: BigInt(0),
+    realizedPnL: BigInt(0),
+    fees: BigInt(0),
+    funding: BigInt(0),
+    netPnL: BigInt(0),
+    unrealizedPnL: null,
+    openPosition: null,
+  };
+}
+
+/**
+ * Applies a fill to the position of its market and returns the change of the quote
+ * balance.
+ *
+ * @private
+ */
+function applyFill(state: PnLLedgerMarket, fill: PnLLedgerFill): bigint {
+  /* eslint-disable no-param-reassign */
+  const fillQuantity = decimalToPip(fill.quantity);
+  const price = decimalToPip(fill.price);
+  const quoteQuantity = decimalToPip(fill.quoteQuantity);
+  const realizedPnL = decimalToPip(fill.realizedPnL);
+  const fee = fill.fee ? decimalToPip(fill.fee) : BigInt(0);
+  const direction = fill.side === OrderSide.buy ? BigInt(1) : BigInt(-1);
+
+  const isReducing =
+    state.quantity !== BigInt(0) &&
+    state.quantity < BigInt(0) === direction > BigInt(0);
+  const closeQuantity =
+    isReducing ? minBigInt(absBigInt(state.quantity), fillQuantity) : BigInt(0);
+  const openQuantity = fillQuantity - closeQuantity;
+
+  // fees and realized PnL of a fill that closes a position and opens a new one are
+  // attributed to the closed position
+  const { openPosition } = state;
+  if (openPosition) {
+    openPosition.realizedPnL += realizedPnL;
+    openPosition.fees += fee;
+    openPosition.totalClose += closeQuantity;
+  }
+
+  state.quantity += direction * closeQuantity;
+  if (state.quantity === BigInt(0)) {
+    state.entryPrice = BigInt(0);
+    state.openPosition = null;
+  }
+
+  if (openQuantity > BigInt(0)) {
+    const absQuantity = absBigInt(state.quantity);
+    state.entryPrice = dividePips(
+      multiplyPips(absQuantity, state.entryPrice) +
+        multiplyPips(openQuantity, price),
+      absQuantity + openQuantity,
+    );
+    state.quantity += direction * openQuantity;
+
+    if (!state.openPosition) {
+      state.openPosition = {
+        openedByFillId: fill.fillId,
+        realizedPnL: BigInt(0),
+        fees: openPosition ? BigInt(0) : fee,
+        funding: BigInt(0),
+        maximumQuantity: BigInt(0),
+        totalOpen: BigInt(0),
+        totalClose: BigInt(0),
+      };
+    }
+    state.openPosition.totalOpen += openQuantity;
+    state.openPosition.maximumQuantity = absBigInt(state.quantity);
+  }
+
+  state.realizedPnL += realizedPnL;
+  state.fees += fee;
+
+  /* eslint-enable no-param-reassign */
+
+  return -direction * quoteQuantity - fee;
+}
+
+/**
+ * Replays the fills, funding payments, deposits and withdrawals of a wallet in
+ * chronological order to reconstruct per-market position history, average entry prices,
+ * realized PnL, fees paid and funding.
+ *
+ * - Items may be provided in any order, fills with the same timestamp are ordered by
+ *   `sequence`.
+ * - Realized PnL is taken from {@link IDEXFill.realizedPnL} and excludes fees.
+ * - Withdrawals reduce the quote balance by their gross quantity.
+ * - Unrealized PnL is calculated for markets with a price in `markPrices`.
+ *
+ * @example
+ * ```typescript
+ * const fills: IDEXFill[] = [];
+ * for await (const fill of client.iterateFills({})) {
+ *   fills.push(fill);
+ * }
+ *
+ * const ledger = buildPnLLedger({
+ *   fills,
+ *   fundingPayments: await client.getFundingPayments({}),
+ *   markPrices: { 'ETH-USD': decimalToPip('2000') },
+ * });
+ * ```
+ *
+ * @see related {@link reconcilePnLLedger}
+ */
+export function buildPnLLedger(args: {
+  fills?: PnLLedgerFill[];
+  fundingPayments?: Pick<
+    IDEXFundingPayment,
+    'market' | 'paymentQuantity' | 'time'
+  >[];
+  deposits?: Pick<IDEXDeposit, 'depositId' | 'quantity' | 'time'>[];
+  withdrawals?: Pick<IDEXWithdrawal, 'withdrawalId' | 'quantity' | 'time'>[];
+  initialQuoteBalance?: bigint;
+  markPrices?: Record<string, bigint>;
+}): PnLLedger {
+  const {
+    fills = [],
+    fundingPayments = [],
+    deposits = [],
+    withdrawals = [],
+    initialQuoteBalance = BigInt(0),
+    markPrices = {},
+  } = args;
+
+  const items: LedgerItem[] = [
+    ...deposits.map((item) => ({
+      type: 'deposit' as const,
+      time: item.time,
+      item,
+    })),
+    ...withdrawals.map((item) => ({
+      type: 'withdrawal' as const,
+      time: item.time,
+      item,
+    })),
+    ...fills.map((item) => ({ type: 'fill' as const, time: item.time, item })),
+    ...fundingPayments.map((item) => ({
+      type: 'fundingPayment' as const,
+      time: item.time,
+      item,
+    })),
+  ].sort(compareLedgerItems);
+
+  const markets = new Map<string, PnLLedgerMarket>();
+  const getMarket = (market: string) => {
+    let state = markets.get(market);
+    if (!state) {
+      state = createMarket(market);
+      markets.set(market, state);
+    }
+    return state;
+  };
+
+  const ledger: PnLLedger = {
+    entries: [],
+    markets: [],
+    deposits: BigInt(0),
+    withdrawals: BigInt(0),
+    realizedPnL: BigInt(0),
+    fees: BigInt(0),
+    funding: BigInt(0),
+    netPnL: BigInt(0),
+    quoteBalance: initialQuoteBalance,
+  };
+
+  for (const { type, time, item } of items) {
+    const entry: PnLLedgerEntry = {
+      type,
+      time,
+      id: null,
+      market: null,
+      quoteChange: BigInt(0),
+      quoteBalance: BigInt(0),
+      positionQuantity: null,
+      entryPrice: null,
+      realizedPnL: BigInt(0),
+      fee: BigInt(0),
+      funding: BigInt(0),
+    };
+
+    if (type === 'deposit' || type === 'withdrawal') {
+      const quantity = decimalToPip(item.quantity);
+      if (type === 'deposit') {
+        entry.id = item.depositId;
+        entry.quoteChange = quantity;
+        ledger.deposits += quantity;
+      } else {
+        entry.id = item.withdrawalId;
+        entry.quoteChange = -quantity;
+        ledger.withdrawals += quantity;
+      }
+    } else {
+      const state = getMarket(item.market);
+      if (type === 'fill') {
+        const { realizedPnL, fees } = state;
+        entry.id = item.fillId;
+        entry.quoteChange = applyFill(state, item);
+        entry.realizedPnL = state.realizedPnL - realizedPnL;
+        entry.fee = state.fees - fees;
+      } else {
+        entry.funding = decimalToPip(item.paymentQuantity);
+        entry.quoteChange = entry.funding;
+        state.funding += entry.funding;
+        if (state.openPosition) {
+          state.openPosition.funding += entry.funding;
+        }
+      }
+      entry.market = item.market;
+      entry.positionQuantity = state.quantity;
+      entry.entryPrice = state.entryPrice;
+    }
+
+    ledger.quoteBalance += entry.quoteChange;
+    entry.quoteBalance = ledger.quoteBalance;
+    ledger.entries.push(entry);
+  }
+
+  ledger.markets = Array.from(markets.values())
+    .map((state) => {
+      const markPrice = markPrices[state.market];
+      return {
+        ...state,
+        netPnL: state.realizedPnL + state.funding - state.fees,
+        unrealizedPnL:
+          markPrice === undefined ? null : (
+            multiplyPips(state.quantity, markPrice - state.entryPrice)
+          ),
+      };
+    })
+    .sort((a, b) => a.market.localeCompare(b.market));
+
+  for (const market of ledger.markets) {
+    ledger.realizedPnL += market.realizedPnL;
+    ledger.fees += market.fees;
+    ledger.funding += market.funding;
+  }
+  ledger.netPnL = ledger.realizedPnL + ledger.funding - ledger.fees;
+
+  return ledger;
+}
+
+/**
+ * Compares the open positions of a {@link PnLLedger} to the positions returned by
+ * `RestAuthenticatedClient.getPositions`, for example to detect missing fills or funding
+ * payments.
+ *
+ * - Average entry prices are rounded independently and may differ by a few pips, use
+ *   `tolerance` to allow for this.
+ * - Markets with an open position in either the ledger or `positions` are included.
+ */
+export function reconcilePnLLedger(
+  ledger: Pick<PnLLedger, 'markets'>,
+  positions: Pick<
+    IDEXPosition,
+    | 'market'
+    | 'quantity'
+    | 'entryPrice'
+    | 'realizedPnL'
+    | 'totalFunding'
+    | 'openedByFillId'
+  >[],
+  options: { tolerance?: bigint } = {},
+): PnLLedgerReconciliation[] {
+  const { tolerance = BigInt(0) } = options;
+
+  const marketSymbols = new Set([
+    ...ledger.markets
+      .filter((market) => market.openPosition)
+      .map((market) => market.market),
+    ...positions.map((position) => position.market),
+  ]);
+
+  return Array.from(marketSymbols)
+    .sort()
+    .map((marketSymbol) => {
+      const market =
+        ledger.markets.find((m) => m.market === marketSymbol) ??
+        createMarket(marketSymbol);
+      const position = positions.find((p) => p.market === marketSymbol);
+      const { openPosition } = market;
+
+      const quantityDifference =
+        market.quantity - decimalToPip(position?.quantity ?? '0');
+      const entryPriceDifference =
+        market.entryPrice - decimalToPip(position?.entryPrice ?? '0');
+      const realizedPnL = openPosition?.realizedPnL ?? BigInt(0);
+      const funding = openPosition?.funding ?? BigInt(0);
+
+      const realizedPnLDifference =
+        realizedPnL + funding - decimalToPip(position?.realizedPnL ?? '0');
+      const totalFundingDifference =
+        funding - decimalToPip(position?.totalFunding ?? '0');
+      const isSamePosition =
+        !!openPosition &&
+        !!position &&
+        openPosition.openedByFillId === position.openedByFillId;
+
+      return {
+        market: marketSymbol,
+        quantityDifference,
+        entryPriceDifference,
+        realizedPnLDifference,
+        totalFundingDifference,
+        isSamePosition,
+        isReconciled:
+          isSamePosition &&
+          [
+            quantityDifference,
+            entryPriceDifference,
+            realizedPnLDifference,
+            totalFundingDifference,
+          ].every((difference) => absBigInt(difference) <= tolerance),
+      };
+    });
+}
@@ -0,0 +1,44 @@
+import { pipToDecimal } from '#pipmath';
+
+/**
+ * Maps the `bigint` pip values of `T`, including those of nested objects and arrays, to
+ * decimal strings.
+ */
+export type PipsToDecimals<T> =
+  T extends bigint ? string
+  : T extends readonly (infer I)[] ? PipsToDecimals<I>[]
+  : T extends object ? { [K in keyof T]: PipsToDecimals<T[K]> }
+  : T;
+
+/**
+ * Converts all `bigint` pip values of an accounting result, such as a
+ * {@link FundingPaymentSummary}, to decimal strings with 8 decimals.
+ *
+ * @example
+ * ```typescript
+ * const summaries = await aggregateFundingPayments(
+ *   client.iterateFundingPayments({ start }),
+ * );
+ * // [{ market: 'ETH-USD', net: '-1.25000000', ... }]
+ * console.log(convertPipsToDecimals(summaries));
+ * ```
+ */
+export function convertPipsToDecimals<T>(value: T): PipsToDecimals<T> {
+  if (typeof value === 'bigint') {
+    return pipToDecimal(value) as PipsToDecimals<T>;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) =>
+      convertPipsToDecimals(item),
+    ) as PipsToDecimals<T>;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        convertPipsToDecimals(item),
+      ]),
+    ) as PipsToDecimals<T>;
+  }
+  return value as PipsToDecimals<T>;
+}
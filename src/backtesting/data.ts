@@ -0,0 +1,86 @@
+import { FUNDING_INTERVAL_MS } from '#accounting/funding';
+
+import type { BacktestMarketData } from '#backtesting/engine';
+import type { RestPublicClient } from '#client/rest/public';
+import type { CandleInterval } from '#types/enums/request';
+
+/**
+ * The {@link RestPublicClient} methods used by {@link loadBacktestData}
+ */
+export type BacktestDataClient = Pick<
+  RestPublicClient,
+  'getMarkets' | 'iterateCandles' | 'iterateTrades' | 'iterateFundingRates'
+>;
+
+/**
+ * Loads the historical candles, and optionally trades, and funding rates of a market for
+ * {@link runBacktest}.
+ *
+ * - Requests as many pages as needed using the `iterate*` methods of the client.
+ * - Throws if the market does not exist.
+ *
+ * @example
+ * ```typescript
+ * const data = await loadBacktestData(publicClient, {
+ *   market: 'ETH-USD',
+ *   interval: CandleInterval.FIFTEEN_MINUTES,
+ *   start: Date.UTC(2024, 0, 1),
+ *   end: Date.UTC(2024, 0, 8),
+ * });
+ * ```
+ */
+export async function loadBacktestData(
+  client: BacktestDataClient,
+  options: {
+    market: string;
+    start: number;
+    end: number;
+    /**
+     * Candles are not loaded if omitted
+     */
+    interval?: CandleInterval;
+    /**
+     * @defaultValue false
+     */
+    includeTrades?: boolean;
+  },
+): Promise<BacktestMarketData> {
+  const { market, start, end, interval, includeTrades = false } = options;
+
+  const [idexMarket] = await client.getMarkets({ market });
+  if (!idexMarket) {
+    throw new Error(`Market ${market} not found`);
+  }
+
+  const data: BacktestMarketData = { market: idexMarket, fundingRates: [] };
+
+  if (interval) {
+    data.candles = [];
+    for await (const candle of client.iterateCandles({
+      market,
+      interval,
+      start,
+      end,
+    })) {
+      data.candles.push(candle);
+    }
+  }
+
+  if (includeTrades) {
+    data.trades = [];
+    for await (const trade of client.iterateTrades({ market, start, end })) {
+      data.trades.push(trade);
+    }
+  }
+
+  // the funding rate in effect at `start` may have been set before it
+  for await (const fundingRate of client.iterateFundingRates({
+    market,
+    start: start - FUNDING_INTERVAL_MS,
+    end,
+  })) {
+    data.fundingRates?.push(fundingRate);
+  }
+
+  return data;
+}
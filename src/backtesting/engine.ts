@@ -0,0 +1,995 @@
+import {
+  absBigInt,
+  decimalToPip,
+  dividePips,
+  minBigInt,
+  multiplyPips,
+  pipToDecimal,
+} from '#pipmath';
+import { UnreachableCaseError } from '#utils';
+
+import {
+  FUNDING_INTERVAL_MS,
+  calculateFundingPayment,
+} from '#accounting/funding';
+import { calculateBacktestStats } from '#backtesting/stats';
+import { calculateWalletMargin } from '#orderbook/margin';
+import { calculateMaximumOrderQuantity } from '#orderbook/maximumQuantity';
+import { calculateGrossFillQuantities } from '#orderbook/quantities';
+import { assertOrderIsValid } from '#orders/validation';
+import { OrderSide, OrderType, TimeInForce } from '#types/enums/request';
+import {
+  FillAction,
+  LiquidityProvider,
+  OrderStatus,
+} from '#types/enums/response';
+
+import type { BacktestStats } from '#backtesting/stats';
+import type { StandingOrder } from '#orderbook/quantities';
+import type { OrderValidationOrder } from '#orders/validation';
+import type { TriggerType } from '#types/enums/response';
+import type { L2OrderBook } from '#types/orderBook';
+import type {
+  IDEXCandle,
+  IDEXFundingRate,
+  IDEXMarket,
+  IDEXTrade,
+} from '#types/rest/endpoints/index';
+
+/**
+ * How market and triggered orders are priced when they execute as a taker.
+ *
+ * - `close` - at the close of the current candle, or the price of the current trade
+ * - `mid` - at the midpoint of the high and low of the current candle, or the price of the
+ *   current trade
+ * - `depth` - against the most recent replayed L2 order book of the market, the same way
+ *   the matching engine fills orders, any quantity the book cannot fill expires
+ *
+ * Triggered stop loss and take profit market orders fill at their trigger price unless the
+ * `depth` fill model is used.
+ */
+export type BacktestFillModel = 'close' | 'mid' | 'depth';
+
+/**
+ * A replayed L2 order book snapshot used by the `depth` {@link BacktestFillModel}.
+ */
+export interface BacktestOrderBookSnapshot
+  extends Pick<L2OrderBook, 'asks' | 'bids'> {
+  time: number;
+}
+
+/**
+ * Historical data of a market to replay, as loaded by {@link loadBacktestData}.
+ *
+ * - `market` provides the fee rates, leverage parameters and funding schedule
+ *   (`nextFundingTime`) used by the backtest.
+ * - Either `candles`, `trades` or both must be provided.
+ */
+export interface BacktestMarketData {
+  market: IDEXMarket;
+  candles?: IDEXCandle[];
+  trades?: IDEXTrade[];
+  fundingRates?: IDEXFundingRate[];
+  /**
+   * Required by the `depth` {@link BacktestFillModel}
+   */
+  orderBooks?: BacktestOrderBookSnapshot[];
+}
+
+/**
+ * A historical event provided to {@link BacktestStrategy.onEvent}, in ascending time order.
+ *
+ * - Candle events occur at the `start` of the candle.
+ */
+export type BacktestEvent =
+  | { type: 'candle'; market: string; time: number; candle: IDEXCandle }
+  | { type: 'trade'; market: string; time: number; trade: IDEXTrade };
+
+/**
+ * An order submitted by a strategy, prices and quantities are in pips.
+ */
+export interface BacktestOrder {
+  orderId: string;
+  clientOrderId?: string;
+  market: string;
+  type: OrderType;
+  side: OrderSide;
+  status: OrderStatus;
+  time: number;
+  quantity: bigint;
+  executedQuantity: bigint;
+  price: bigint | null;
+  triggerPrice: bigint | null;
+  triggerType: TriggerType | null;
+  reduceOnly: boolean;
+  timeInForce: TimeInForce | null;
+}
+
+/**
+ * A simulated fill, prices and quantities are in pips.
+ */
+export interface BacktestTrade {
+  /**
+   * `null` for liquidations
+   */
+  orderId: string | null;
+  market: string;
+  side: OrderSide;
+  time: number;
+  price: bigint;
+  quantity: bigint;
+  quoteQuantity: bigint;
+  fee: bigint;
+  realizedPnL: bigint;
+  liquidity: LiquidityProvider;
+  action: FillAction;
+  isLiquidation: boolean;
+}
+
+/**
+ * A simulated funding payment, prices and quantities are in pips.
+ */
+export interface BacktestFundingPayment {
+  market: string;
+  time: number;
+  positionQuantity: bigint;
+  indexPrice: bigint;
+  fundingRate: bigint;
+  paymentQuantity: bigint;
+}
+
+/**
+ * An open position of the simulated wallet, prices and quantities are in pips.
+ */
+export interface BacktestPosition {
+  market: string;
+  /**
+   * Negative for short positions
+   */
+  quantity: bigint;
+  entryPrice: bigint;
+  /**
+   * Excludes fees and funding
+   */
+  realizedPnL: bigint;
+  fees: bigint;
+  funding: bigint;
+}
+
+/**
+ * The simulated wallet, quantities are in pips.
+ */
+export interface BacktestWallet {
+  quoteBalance: bigint;
+  equity: bigint;
+  unrealizedPnL: bigint;
+  freeCollateral: bigint;
+  maintenanceMarginRequirement: bigint;
+  positions: BacktestPosition[];
+}
+
+/**
+ * A point of the equity curve recorded after each distinct event time, in pips.
+ */
+export interface BacktestEquityPoint {
+  time: number;
+  equity: bigint;
+  quoteBalance: bigint;
+  unrealizedPnL: bigint;
+}
+
+/**
+ * Provided to a {@link BacktestStrategy} to place orders and inspect the simulated wallet.
+ */
+export interface BacktestContext {
+  /**
+   * Time of the current event
+   */
+  readonly time: number;
+  /**
+   * Submits an order, validated against market rules and the margin requirements of the
+   * simulated wallet.
+   *
+   * - Market orders, and limit orders which cross the current price, are filled immediately
+   *   using the {@link BacktestFillModel}.
+   * - Resting limit orders fill as a maker at their limit price once the price of a later
+   *   event reaches it.
+   * - Stop loss and take profit orders trigger once the price of a later event reaches their
+   *   trigger price, `index` triggers use the same prices as `last` triggers.
+   * - Throws if the order is invalid, would exceed the wallet's collateral, or is of type
+   *   `trailingStopMarket`.
+   */
+  createOrder(order: OrderValidationOrder): BacktestOrder;
+  /**
+   * Cancels open orders by `orderIds`, `market` or all open orders and returns the
+   * canceled orders.
+   */
+  cancelOrders(params?: {
+    market?: string;
+    orderIds?: string[];
+  }): BacktestOrder[];
+  getOpenOrders(market?: string): BacktestOrder[];
+  getPosition(market: string): BacktestPosition | null;
+  getWallet(): BacktestWallet;
+  /**
+   * Last price of the market, the close of its most recent candle or its most recent
+   * trade price
+   */
+  getPrice(market: string): bigint | null;
+}
+
+/**
+ * A backtested trading strategy.
+ */
+export interface BacktestStrategy {
+  onEvent(event: BacktestEvent, context: BacktestContext): void | Promise<void>;
+  onFill?(trade: BacktestTrade, context: BacktestContext): void | Promise<void>;
+}
+
+/**
+ * Options of {@link runBacktest}
+ */
+export interface BacktestOptions {
+  data: BacktestMarketData[];
+  strategy: BacktestStrategy;
+  /**
+   * Initial quote (USD) balance of the simulated wallet, e.g. `'10000'`
+   */
+  initialQuoteBalance: string;
+  /**
+   * @defaultValue 'close'
+   */
+  fillModel?: BacktestFillModel;
+}
+
+/**
+ * Result of {@link runBacktest}, prices and quantities are in pips.
+ */
+export interface BacktestResult {
+  equityCurve: BacktestEquityPoint[];
+  trades: BacktestTrade[];
+  fundingPayments: BacktestFundingPayment[];
+  orders: BacktestOrder[];
+  positions: BacktestPosition[];
+  stats: BacktestStats;
+}
+
+/**
+ * @private
+ */
+interface BacktestMarketState {
+  data: BacktestMarketData;
+  fundingRates: IDEXFundingRate[];
+  orderBooks: BacktestOrderBookSnapshot[];
+  orderBookIndex: number;
+  nextFundingTime: number;
+  lastPrice: bigint | null;
+  /**
+   * Price market orders execute at using the `close` and `mid` fill models
+   */
+  takerPrice: bigint | null;
+  fundingRateIndex: number;
+}
+
+/**
+ * @private
+ */
+function getEventPrices(event: BacktestEvent) {
+  if (event.type === 'trade') {
+    const price = decimalToPip(event.trade.price);
+    return { close: price, high: price, low: price };
+  }
+  const high = decimalToPip(event.candle.high);
+  const low = decimalToPip(event.candle.low);
+  return { close: decimalToPip(event.candle.close), high, low };
+}
+
+/**
+ * @private
+ */
+function isLimitOrderType(type: OrderType) {
+  return (
+    type === OrderType.limit ||
+    type === OrderType.stopLossLimit ||
+    type === OrderType.takeProfitLimit
+  );
+}
+
+/**
+ * @private
+ */
+function isTriggered(order: BacktestOrder, high: bigint, low: bigint) {
+  const triggerPrice = order.triggerPrice ?? BigInt(0);
+  const isStopLoss =
+    order.type === OrderType.stopLossMarket ||
+    order.type === OrderType.stopLossLimit;
+
+  // stop losses trigger when the price moves against the position they close, take
+  // profits when it moves in its favor
+  if ((order.side === OrderSide.sell) === isStopLoss) {
+    return low <= triggerPrice;
+  }
+  return high >= triggerPrice;
+}
+
+/**
+ * @private
+ */
+function toEvents(data: BacktestMarketData[]): BacktestEvent[] {
+  const events: BacktestEvent[] = [];
+
+  for (const { market, candles = [], trades = [] } of data) {
+    for (const candle of candles) {
+      events.push({
+        type: 'candle',
+        market: market.market,
+        time: candle.start,
+        candle,
+      });
+    }
+    for (const trade of trades) {
+      events.push({
+        type: 'trade',
+        market: market.market,
+        time: trade.time,
+        trade,
+      });
+    }
+  }
+
+  // stable sort keeps the order of events with the same time within a market
+  return events.sort((a, b) => a.time - b.time);
+}
+
+/**
+ * @private
+ *
+ * Holds the state of a single backtest run.
+ */
+class BacktestSimulation implements BacktestContext {
+  public time = 0;
+
+  public readonly trades: BacktestTrade[] = [];
+
+  public readonly fundingPayments: BacktestFundingPayment[] = [];
+
+  public readonly orders: BacktestOrder[] = [];
+
+  private readonly markets = new Map<string, BacktestMarketState>();
+
+  private readonly positions = new Map<string, BacktestPosition>();
+
+  private readonly pendingFills: BacktestTrade[] = [];
+
+  private quoteBalance: bigint;
+
+  private orderSequence = 0;
+
+  constructor(
+    data: BacktestMarketData[],
+    initialQuoteBalance: bigint,
+    private readonly fillModel: BacktestFillModel,
+  ) {
+    this.quoteBalance = initialQuoteBalance;
+
+    const firstEventTime = toEvents(data)[0]?.time ?? 0;
+    for (const marketData of data) {
+      const { nextFundingTime } = marketData.market;
+      // align the funding schedule of the market to the start of the backtest
+      const periods = Math.floor(
+        (nextFundingTime - firstEventTime) / FUNDING_INTERVAL_MS,
+      );
+
+      this.markets.set(marketData.market.market, {
+        data: marketData,
+        fundingRates: [...(marketData.fundingRates ?? [])].sort(
+          (a, b) => a.time - b.time,
+        ),
+        orderBooks: [...(marketData.orderBooks ?? [])].sort(
+          (a, b) => a.time - b.time,
+        ),
+        orderBookIndex: -1,
+        nextFundingTime: nextFundingTime - periods * FUNDING_INTERVAL_MS,
+        lastPrice: null,
+        takerPrice: null,
+        fundingRateIndex: -1,
+      });
+    }
+  }
+
+  public createOrder(request: OrderValidationOrder): BacktestOrder {
+    const state = this.getMarketState(request.market);
+    const price = state.takerPrice;
+    if (price === null) {
+      throw new Error(`No price for market ${request.market} yet`);
+    }
+
+    const market = { ...state.data.market, indexPrice: pipToDecimal(price) };
+    assertOrderIsValid(request, market);
+
+    if (request.type === OrderType.trailingStopMarket) {
+      throw new Error('Trailing stop orders are not supported by backtests');
+    }
+
+    let quantity = decimalToPip(request.quantity);
+    const position = this.positions.get(request.market);
+    const direction = request.side === OrderSide.buy ? BigInt(1) : BigInt(-1);
+
+    if (request.reduceOnly) {
+      const reducibleQuantity =
+        position && position.quantity * direction < BigInt(0) ?
+          absBigInt(position.quantity)
+        : BigInt(0);
+      if (reducibleQuantity === BigInt(0)) {
+        throw new Error('Reduce only order must reduce an open position');
+      }
+      quantity = minBigInt(quantity, reducibleQuantity);
+    } else {
+      const maximumQuantity = calculateMaximumOrderQuantity({
+        side: request.side,
+        limitPrice: request.price ? decimalToPip(request.price) : undefined,
+        wallet: {
+          quoteBalance: pipToDecimal(this.quoteBalance),
+          positions: this.getMarginPositions(),
+        },
+        walletsStandingOrders: this.getStandingOrders(),
+        market,
+        markets: this.getMarginMarkets(),
+      });
+      if (quantity > maximumQuantity) {
+        throw new Error(
+          `Insufficient collateral, the maximum order quantity is ${pipToDecimal(maximumQuantity)}`,
+        );
+      }
+    }
+
+    this.orderSequence += 1;
+    const order: BacktestOrder = {
+      orderId: String(this.orderSequence),
+      clientOrderId: request.clientOrderId,
+      market: request.market,
+      type: request.type,
+      side: request.side,
+      status: OrderStatus.open,
+      time: this.time,
+      quantity,
+      executedQuantity: BigInt(0),
+      price: request.price ? decimalToPip(request.price) : null,
+      triggerPrice:
+        request.triggerPrice ? decimalToPip(request.triggerPrice) : null,
+      triggerType: request.triggerPrice ? request.triggerType ?? null : null,
+      reduceOnly: !!request.reduceOnly,
+      timeInForce:
+        isLimitOrderType(request.type) ?
+          request.timeInForce ?? TimeInForce.gtc
+        : null,
+    };
+    this.orders.push(order);
+
+    if (order.triggerPrice !== null) {
+      order.status = OrderStatus.active;
+    } else {
+      this.executeTaker(order, price);
+    }
+    return { ...order };
+  }
+
+  public cancelOrders(params: { market?: string; orderIds?: string[] } = {}) {
+    const canceled = this.getOpenOrders(params.market).filter(
+      (order) => !params.orderIds || params.orderIds.includes(order.orderId),
+    );
+    for (const { orderId } of canceled) {
+      const order = this.orders.find((o) => o.orderId === orderId);
+      if (order) {
+        order.status = OrderStatus.canceled;
+      }
+    }
+    return canceled.map((order) => ({
+      ...order,
+      status: OrderStatus.canceled,
+    }));
+  }
+
+  public getOpenOrders(market?: string) {
+    return this.orders
+      .filter(
+        (order) =>
+          (order.status === OrderStatus.open ||
+            order.status === OrderStatus.active ||
+            order.status === OrderStatus.partiallyFilled) &&
+          (!market || order.market === market),
+      )
+      .map((order) => ({ ...order }));
+  }
+
+  public getPosition(market: string) {
+    const position = this.positions.get(market);
+    return position ? { ...position } : null;
+  }
+
+  public getPositions() {
+    return Array.from(this.positions.values()).map((position) => ({
+      ...position,
+    }));
+  }
+
+  public getPrice(market: string) {
+    return this.getMarketState(market).lastPrice;
+  }
+
+  public getWallet(): BacktestWallet {
+    const margin = calculateWalletMargin({
+      wallet: { quoteBalance: pipToDecimal(this.quoteBalance) },
+      positions: this.getMarginPositions(),
+      markets: this.getMarginMarkets(),
+    });
+
+    return {
+      quoteBalance: this.quoteBalance,
+      equity: margin.accountValue,
+      unrealizedPnL: margin.accountValue - this.quoteBalance,
+      freeCollateral: margin.freeCollateral,
+      maintenanceMarginRequirement: margin.maintenanceMarginRequirement,
+      positions: this.getPositions(),
+    };
+  }
+
+  /**
+   * Applies funding payments due before the event and updates the price of its market.
+   */
+  public advance(event: BacktestEvent) {
+    this.time = event.time;
+
+    for (const [market, state] of this.markets) {
+      while (state.nextFundingTime <= event.time) {
+        this.applyFunding(market, state.nextFundingTime);
+        state.nextFundingTime += FUNDING_INTERVAL_MS;
+      }
+    }
+
+    const state = this.getMarketState(event.market);
+    const { close, high, low } = getEventPrices(event);
+    state.lastPrice = close;
+    state.takerPrice =
+      this.fillModel === 'mid' ? (high + low) / BigInt(2) : close;
+    while (
+      state.orderBookIndex + 1 < state.orderBooks.length &&
+      state.orderBooks[state.orderBookIndex + 1].time <= event.time
+    ) {
+      state.orderBookIndex += 1;
+    }
+  }
+
+  /**
+   * Triggers and fills open orders of the event's market which its prices reach.
+   */
+  public matchOrders(event: BacktestEvent) {
+    const { close, high, low } = getEventPrices(event);
+
+    for (const order of this.getOpenOrders(event.market)) {
+      const current = this.orders.find((o) => o.orderId === order.orderId);
+      if (!current) {
+        // eslint-disable-next-line no-continue
+        continue;
+      }
+
+      if (current.status === OrderStatus.active) {
+        if (isTriggered(current, high, low)) {
+          current.status = OrderStatus.open;
+          if (current.price === null) {
+            this.executeTaker(
+              current,
+              this.fillModel === 'depth' ?
+                close
+              : current.triggerPrice ?? close,
+            );
+          }
+        }
+      } else if (current.price !== null) {
+        const isReached =
+          current.side === OrderSide.buy ?
+            low <= current.price
+          : high >= current.price;
+        if (isReached) {
+          this.fill(
+            current,
+            current.quantity - current.executedQuantity,
+            current.price,
+            LiquidityProvider.maker,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Closes all positions at the current prices if the wallet no longer meets its
+   * maintenance margin requirement.
+   */
+  public liquidateIfRequired() {
+    if (this.positions.size === 0) {
+      return;
+    }
+
+    const margin = calculateWalletMargin({
+      wallet: { quoteBalance: pipToDecimal(this.quoteBalance) },
+      positions: this.getMarginPositions(),
+      markets: this.getMarginMarkets(),
+    });
+    if (margin.accountValue >= margin.maintenanceMarginRequirement) {
+      return;
+    }
+
+    this.cancelOrders();
+    for (const position of this.getPositions()) {
+      const price = this.getPrice(position.market) ?? position.entryPrice;
+      this.applyFill({
+        orderId: null,
+        market: position.market,
+        side: position.quantity > BigInt(0) ? OrderSide.sell : OrderSide.buy,
+        quantity: absBigInt(position.quantity),
+        price,
+        quoteQuantity: multiplyPips(absBigInt(position.quantity), price),
+        fee: BigInt(0),
+        liquidity: LiquidityProvider.taker,
+        isLiquidation: true,
+      });
+    }
+  }
+
+  public getEquityPoint(): BacktestEquityPoint {
+    const { equity, quoteBalance, unrealizedPnL } = this.getWallet();
+    return { time: this.time, equity, quoteBalance, unrealizedPnL };
+  }
+
+  /**
+   * Returns the fills since the previous call, for {@link BacktestStrategy.onFill}.
+   */
+  public takePendingFills() {
+    return this.pendingFills.splice(0, this.pendingFills.length);
+  }
+
+  private getMarketState(market: string) {
+    const state = this.markets.get(market);
+    if (!state) {
+      throw new Error(`No backtest data for market ${market}`);
+    }
+    return state;
+  }
+
+  private getMarginMarkets() {
+    return Array.from(this.markets.values()).map(({ data }) => data.market);
+  }
+
+  private getMarginPositions() {
+    return Array.from(this.positions.values()).map((position) => ({
+      market: position.market,
+      quantity: pipToDecimal(position.quantity),
+      indexPrice: pipToDecimal(
+        this.getPrice(position.market) ?? position.entryPrice,
+      ),
+    }));
+  }
+
+  private getStandingOrders(): StandingOrder[] {
+    return this.getOpenOrders()
+      .filter((order) => order.price !== null)
+      .map((order) => ({
+        market: order.market,
+        side: order.side,
+        originalQuantity: pipToDecimal(order.quantity),
+        executedQuantity: pipToDecimal(order.executedQuantity),
+        price: pipToDecimal(order.price ?? BigInt(0)),
+      }));
+  }
+
+  private applyFunding(market: string, time: number) {
+    const state = this.getMarketState(market);
+    while (
+      state.fundingRateIndex + 1 < state.fundingRates.length &&
+      state.fundingRates[state.fundingRateIndex + 1].time <= time
+    ) {
+      state.fundingRateIndex += 1;
+    }
+
+    const position = this.positions.get(market);
+    const fundingRate = state.fundingRates[state.fundingRateIndex];
+    if (!position || !fundingRate) {
+      return;
+    }
+
+    const indexPrice = decimalToPip(fundingRate.indexPrice);
+    const rate = decimalToPip(fundingRate.fundingRate);
+    const paymentQuantity = calculateFundingPayment({
+      positionQuantity: position.quantity,
+      indexPrice,
+      fundingRate: rate,
+    });
+
+    this.quoteBalance += paymentQuantity;
+    position.funding += paymentQuantity;
+    this.fundingPayments.push({
+      market,
+      time,
+      positionQuantity: position.quantity,
+      indexPrice,
+      fundingRate: rate,
+      paymentQuantity,
+    });
+  }
+
+  /* eslint-disable no-param-reassign */
+  /**
+   * Fills an order as a taker, at `price` or against the order book using the `depth`
+   * fill model. Unfilled quantity of market, `ioc` and `fok` orders expires.
+   */
+  private executeTaker(order: BacktestOrder, price: bigint) {
+    const remainingQuantity = order.quantity - order.executedQuantity;
+    let baseQuantity = BigInt(0);
+    let quoteQuantity = BigInt(0);
+
+    switch (this.fillModel) {
+      case 'close':
+      case 'mid':
+        if (
+          order.price === null ||
+          (order.side === OrderSide.buy ?
+            price <= order.price
+          : price >= order.price)
+        ) {
+          baseQuantity = remainingQuantity;
+          quoteQuantity = multiplyPips(remainingQuantity, price);
+        }
+        break;
+      case 'depth': {
+        const state = this.getMarketState(order.market);
+        const book = state.orderBooks[state.orderBookIndex];
+        if (!book) {
+          throw new Error(
+            `No order book snapshot for market ${order.market} at ${this.time}`,
+          );
+        }
+        ({ baseQuantity, quoteQuantity } = calculateGrossFillQuantities(
+          order.side === OrderSide.buy ? book.asks : book.bids,
+          {
+            side: order.side,
+            quantity: remainingQuantity,
+            isQuantityInQuote: false,
+            limitPrice: order.price ?? undefined,
+          },
+        ));
+        break;
+      }
+      default:
+        throw new UnreachableCaseError(this.fillModel, 'fillModel');
+    }
+
+    const isImmediate =
+      order.price === null ||
+      order.timeInForce === TimeInForce.ioc ||
+      order.timeInForce === TimeInForce.fok;
+
+    if (
+      order.timeInForce === TimeInForce.fok &&
+      baseQuantity < remainingQuantity
+    ) {
+      order.status = OrderStatus.canceled;
+      return;
+    }
+    if (order.timeInForce === TimeInForce.gtx && baseQuantity > BigInt(0)) {
+      // post-only orders which would match immediately are rejected
+      order.status = OrderStatus.canceled;
+      return;
+    }
+
+    if (baseQuantity > BigInt(0)) {
+      this.fill(
+        order,
+        baseQuantity,
+        dividePips(quoteQuantity, baseQuantity),
+        LiquidityProvider.taker,
+        quoteQuantity,
+      );
+    }
+    if (isImmediate && order.executedQuantity < order.quantity) {
+      order.status = OrderStatus.canceled;
+    }
+  }
+
+  private fill(
+    order: BacktestOrder,
+    quantity: bigint,
+    price: bigint,
+    liquidity: LiquidityProvider,
+    quoteQuantity = multiplyPips(quantity, price),
+  ) {
+    const { market } = this.getMarketState(order.market).data;
+    const feeRate = decimalToPip(
+      liquidity === LiquidityProvider.maker ?
+        market.makerFeeRate
+      : market.takerFeeRate,
+    );
+
+    order.executedQuantity += quantity;
+    order.status =
+      order.executedQuantity === order.quantity ?
+        OrderStatus.filled
+      : OrderStatus.partiallyFilled;
+    /* eslint-enable no-param-reassign */
+
+    this.applyFill({
+      orderId: order.orderId,
+      market: order.market,
+      side: order.side,
+      quantity,
+      price,
+      quoteQuantity,
+      fee: multiplyPips(quoteQuantity, feeRate, true),
+      liquidity,
+      isLiquidation: false,
+    });
+  }
+
+  private applyFill(
+    fill: Omit<BacktestTrade, 'time' | 'realizedPnL' | 'action'>,
+  ) {
+    const direction = fill.side === OrderSide.buy ? BigInt(1) : BigInt(-1);
+    const position = this.positions.get(fill.market) ?? {
+      market: fill.market,
+      quantity: BigInt(0),
+      entryPrice: BigInt(0),
+      realizedPnL: BigInt(0),
+      fees: BigInt(0),
+      funding: BigInt(0),
+    };
+
+    const closeQuantity =
+      position.quantity * direction < BigInt(0) ?
+        minBigInt(absBigInt(position.quantity), fill.quantity)
+      : BigInt(0);
+    const openQuantity = fill.quantity - closeQuantity;
+    const realizedPnL =
+      multiplyPips(closeQuantity, fill.price - position.entryPrice) *
+      -direction;
+
+    let action: FillAction = FillAction.open;
+    if (closeQuantity > BigInt(0)) {
+      action =
+        openQuantity > BigInt(0) ? FillAction.closeAndOpen : FillAction.close;
+    }
+
+    this.quoteBalance += -direction * fill.quoteQuantity - fill.fee;
+
+    const absQuantity = absBigInt(position.quantity) - closeQuantity;
+    position.entryPrice =
+      openQuantity > BigInt(0) ?
+        dividePips(
+          multiplyPips(absQuantity, position.entryPrice) +
+            (closeQuantity > BigInt(0) ?
+              multiplyPips(openQuantity, fill.price)
+            : fill.quoteQuantity),
+          absQuantity + openQuantity,
+        )
+      : position.entryPrice;
+    position.quantity += direction * fill.quantity;
+    position.realizedPnL += realizedPnL;
+    position.fees += fill.fee;
+
+    if (position.quantity === BigInt(0)) {
+      this.positions.delete(fill.market);
+    } else {
+      this.positions.set(fill.market, position);
+    }
+
+    const trade: BacktestTrade = {
+      ...fill,
+      time: this.time,
+      realizedPnL,
+      action,
+    };
+    this.trades.push(trade);
+    this.pendingFills.push(trade);
+  }
+}
+
+/**
+ * Replays historical candles and trades of one or more markets through a strategy in
+ * ascending time order and simulates the resulting orders, fees, funding payments,
+ * margin and liquidations.
+ *
+ * - The backtest is deterministic, the same data, strategy and options always produce the
+ *   same result.
+ * - For each event funding payments due before it are applied, open orders of its market
+ *   are triggered and filled, the wallet is liquidated if it no longer meets its
+ *   maintenance margin requirement, and the strategy's `onEvent` is called.
+ * - Fees are charged using the `makerFeeRate` and `takerFeeRate` of each market.
+ * - Funding payments are made every 8 hours on the schedule of each market's
+ *   `nextFundingTime`, using the most recent of its `fundingRates` at that time.
+ * - Margin requirements use the leverage parameters of each market, valuing positions at
+ *   the last price of their market. Liquidations close all positions at the last price of
+ *   their markets without fees.
+ *
+ * @example
+ * ```typescript
+ * const data = await loadBacktestData(publicClient, {
+ *   market: 'ETH-USD',
+ *   interval: CandleInterval.ONE_HOUR,
+ *   start: Date.UTC(2024, 0, 1),
+ *   end: Date.UTC(2024, 1, 1),
+ * });
+ *
+ * const result = await runBacktest({
+ *   data: [data],
+ *   initialQuoteBalance: '10000',
+ *   strategy: {
+ *     onEvent(event, context) {
+ *       if (event.type === 'candle' && !context.getPosition(event.market)) {
+ *         context.createOrder({
+ *           market: event.market,
+ *           type: OrderType.market,
+ *           side: OrderSide.buy,
+ *           quantity: '1.00000000',
+ *         });
+ *       }
+ *     },
+ *   },
+ * });
+ *
+ * console.log(convertPipsToDecimals(result.stats));
+ * ```
+ */
+export async function runBacktest(
+  options: BacktestOptions,
+): Promise<BacktestResult> {
+  const { data, strategy, fillModel = 'close' } = options;
+  const initialQuoteBalance = decimalToPip(options.initialQuoteBalance);
+  const simulation = new BacktestSimulation(
+    data,
+    initialQuoteBalance,
+    fillModel,
+  );
+  const equityCurve: BacktestEquityPoint[] = [];
+
+  const notifyFills = async () => {
+    for (const trade of simulation.takePendingFills()) {
+      if (strategy.onFill) {
+        // eslint-disable-next-line no-await-in-loop
+        await strategy.onFill(trade, simulation);
+      }
+    }
+  };
+
+  const events = toEvents(data);
+  for (const [index, event] of events.entries()) {
+    simulation.advance(event);
+    simulation.matchOrders(event);
+    simulation.liquidateIfRequired();
+    // eslint-disable-next-line no-await-in-loop
+    await notifyFills();
+
+    // eslint-disable-next-line no-await-in-loop
+    await strategy.onEvent(event, simulation);
+    // eslint-disable-next-line no-await-in-loop
+    await notifyFills();
+
+    if (events[index + 1]?.time !== event.time) {
+      equityCurve.push(simulation.getEquityPoint());
+    }
+  }
+
+  const positions = simulation.getPositions();
+
+  return {
+    equityCurve,
+    trades: simulation.trades,
+    fundingPayments: simulation.fundingPayments,
+    orders: simulation.orders.map((order) => ({ ...order })),
+    positions,
+    stats: calculateBacktestStats({
+      initialEquity: initialQuoteBalance,
+      equityCurve,
+      trades: simulation.trades,
+      fundingPayments: simulation.fundingPayments,
+    }),
+  };
+}
@@ -0,0 +1,3 @@
+export * from '#backtesting/data';
+export * from '#backtesting/engine';
+export * from '#backtesting/stats';
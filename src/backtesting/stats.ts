@@ -0,0 +1,115 @@
+import { dividePips, maxBigInt, oneInPips } from '#pipmath';
+
+import type {
+  BacktestEquityPoint,
+  BacktestFundingPayment,
+  BacktestTrade,
+} from '#backtesting/engine';
+
+/**
+ * Summary statistics of a backtest, quantities and fractions are in pips.
+ */
+export interface BacktestStats {
+  initialEquity: bigint;
+  finalEquity: bigint;
+  /**
+   * `finalEquity - initialEquity`
+   */
+  netPnL: bigint;
+  /**
+   * `netPnL` as a fraction of `initialEquity`, e.g. `0.1` for a 10% return
+   */
+  totalReturn: bigint;
+  /**
+   * Realized PnL of all trades, excluding fees and funding
+   */
+  realizedPnL: bigint;
+  fees: bigint;
+  funding: bigint;
+  /**
+   * Largest decline in equity from a previous peak
+   */
+  maxDrawdown: bigint;
+  /**
+   * `maxDrawdown` as a fraction of the peak it declined from
+   */
+  maxDrawdownFraction: bigint;
+  tradeCount: number;
+  /**
+   * Trades which closed a position, or part of one, with a positive realized PnL
+   */
+  winningTrades: number;
+  /**
+   * Trades which closed a position, or part of one, with a negative realized PnL
+   */
+  losingTrades: number;
+  /**
+   * `winningTrades` as a fraction of all closing trades, `0` if there are none
+   */
+  winRate: bigint;
+  liquidationCount: number;
+}
+
+/**
+ * Calculates the {@link BacktestStats} of an equity curve and the trades and funding
+ * payments that produced it.
+ *
+ * - The drawdown is measured from `initialEquity` and each point of the equity curve.
+ */
+export function calculateBacktestStats(args: {
+  initialEquity: bigint;
+  equityCurve: BacktestEquityPoint[];
+  trades: BacktestTrade[];
+  fundingPayments: BacktestFundingPayment[];
+}): BacktestStats {
+  const { initialEquity, equityCurve, trades, fundingPayments } = args;
+
+  let peak = initialEquity;
+  let maxDrawdown = BigInt(0);
+  let maxDrawdownFraction = BigInt(0);
+  for (const { equity } of equityCurve) {
+    peak = maxBigInt(peak, equity);
+    const drawdown = peak - equity;
+    if (drawdown > maxDrawdown) {
+      maxDrawdown = drawdown;
+      maxDrawdownFraction = dividePips(drawdown, peak);
+    }
+  }
+
+  const finalEquity =
+    equityCurve[equityCurve.length - 1]?.equity ?? initialEquity;
+  const netPnL = finalEquity - initialEquity;
+  const closingTrades = trades.filter(
+    ({ realizedPnL }) => realizedPnL !== BigInt(0),
+  );
+  const winningTrades = closingTrades.filter(
+    ({ realizedPnL }) => realizedPnL > BigInt(0),
+  ).length;
+
+  return {
+    initialEquity,
+    finalEquity,
+    netPnL,
+    totalReturn: dividePips(netPnL, initialEquity),
+    realizedPnL: trades.reduce(
+      (total, { realizedPnL }) => total + realizedPnL,
+      BigInt(0),
+    ),
+    fees: trades.reduce((total, { fee }) => total + fee, BigInt(0)),
+    funding: fundingPayments.reduce(
+      (total, { paymentQuantity }) => total + paymentQuantity,
+      BigInt(0),
+    ),
+    maxDrawdown,
+    maxDrawdownFraction,
+    tradeCount: trades.length,
+    winningTrades,
+    losingTrades: closingTrades.length - winningTrades,
+    winRate:
+      closingTrades.length > 0 ?
+        (BigInt(winningTrades) * oneInPips) / BigInt(closingTrades.length)
+      : BigInt(0),
+    liquidationCount: trades.filter(({ isLiquidation }) => isLiquidation)
+      .length,
+  };
+}
@@ -1,3 +1,4 @@
 export * from '#client/rest/index';
 export * from '#client/orderBook/index';
 export * from '#client/webSocket/index';
+export * from '#client/paperTrading/index';
@@ -12,8 +12,14 @@ import {
   restResponseToL2OrderBook,
   webSocketResponseToL2OrderBook,
 } from '#orderbook/apiConversions';
+import {
+  calculateDepthFromL2OrderBook,
+  estimateFillFromL2OrderBook,
+} from '#orderbook/marketImpact';
+import { calculateOrderImpact } from '#orderbook/orderImpact';
 import { aggregateL2OrderBookAtTickSize } from '#orderbook/quantities';
 import { L2toL1OrderBook } from '#orderbook/utils';
+import { compareL2OrderBooks } from '#orderbook/verification';
 import {
   MessageEventType,
   OrderBookRealTimeClientEvent,
@@ -22,6 +28,7 @@ import {
 
 import type * as idex from '#index';
 import type { IDEXMessageEvent } from '#types/webSocket/request/subscriptions';
+import type { CreateAxiosDefaults } from 'axios';
 import type { ErrorEvent } from 'ws';
 
 /**
@@ -52,8 +59,86 @@ export interface OrderBookRealTimeClientOptions {
    */
   baseWebSocketURL?: string;
   marketsResponse?: idex.RestResponseGetMarkets;
+  /**
+   * Optionally provide additional axios configuration for the REST API client, such as a
+   * custom `adapter`
+   */
+  axiosConfig?: CreateAxiosDefaults;
+  /**
+   * Optionally create the WebSocket connection used for order book updates
+   *
+   * @see {@link idex.WebSocketClientOptionsBase.createWebSocket WebSocketClientOptions.createWebSocket}
+   */
+  createWebSocket?: idex.WebSocketClientOptionsBase['createWebSocket'];
+  /**
+   * Periodically verify the locally maintained order books against REST API snapshots.
+   *
+   * - Provide `true` to use the defaults or an {@link OrderBookVerificationOptions} object.
+   * - Results are emitted with the {@link OrderBookRealTimeClientEvent.verified verified} event
+   *   and summarized by {@link OrderBookRealTimeClient.getVerificationStats getVerificationStats}.
+   *
+   * @defaultValue false
+   */
+  verification?: OrderBookVerificationOptions | boolean;
+}
+
+/**
+ * Order book verification options
+ *
+ * @see options {@link OrderBookRealTimeClientOptions.verification}
+ */
+export interface OrderBookVerificationOptions {
+  /**
+   * How often the order book of each market is verified.
+   *
+   * - Each verification requests a level 2 snapshot from the REST API per market.
+   *
+   * @defaultValue 60_000
+   */
+  intervalMs?: number;
+  /**
+   * Maximum time to wait for the local book to reach the sequence of a snapshot which is
+   * newer than the local book, the verification is `skipped` if it does not.
+   *
+   * @defaultValue 10_000
+   */
+  timeoutMs?: number;
+  /**
+   * Number of price levels compared on each side of the book.
+   *
+   * @defaultValue 50
+   */
+  depth?: number;
+  /**
+   * Resynchronize the order book of a market from the REST API when its verification
+   * is inconsistent.
+   *
+   * - Only the affected market is resynchronized.
+   *
+   * @defaultValue true
+   */
+  resyncOnInconsistency?: boolean;
 }
 
+/**
+ * The synchronization state of the order book of a market.
+ *
+ * - `inactive` - the market is not followed by the client, or the client is not started
+ * - `syncing` - the order book is being loaded from the REST API, updates are queued until it completes
+ * - `ready` - the order book is being kept up to date by WebSocket updates
+ *
+ * @see related {@link OrderBookRealTimeClient.getMarketState}
+ */
+export type OrderBookMarketState = 'inactive' | 'syncing' | 'ready';
+
+const VERIFICATION_DEFAULTS: Required<OrderBookVerificationOptions> =
+  Object.freeze({
+    intervalMs: 60_000,
+    timeoutMs: 10_000,
+    depth: 50,
+    resyncOnInconsistency: true,
+  });
+
 /**
  * Orderbook API client
  *
@@ -111,6 +196,10 @@ export class OrderBookRealTimeClient extends EventEmitter<{
   [OrderBookRealTimeClientEvent.l1]: [market: string];
   [OrderBookRealTimeClientEvent.l2]: [market: string];
   [OrderBookRealTimeClientEvent.sync]: [market: string];
+  [OrderBookRealTimeClientEvent.verified]: [
+    market: string,
+    result: idex.OrderBookVerificationResult,
+  ];
 }> {
   private readonly l1OrderBooks: Map<string, idex.L1OrderBook> = new Map();
 
@@ -145,6 +234,34 @@ export class OrderBookRealTimeClient extends EventEmitter<{
 
   private webSocketResponseListenerConfigured = false;
 
+  private readonly verificationOptions: Required<OrderBookVerificationOptions> | null;
+
+  private verificationTimer: ReturnType<typeof setInterval> | null = null;
+
+  private isVerifying = false;
+
+  private readonly verificationStats = new Map<
+    string,
+    idex.OrderBookVerificationStats
+  >();
+
+  private readonly pendingVerifications = new Map<
+    string,
+    {
+      snapshot: idex.L2OrderBook;
+      resolve: (result: idex.OrderBookVerificationResult) => void;
+    }
+  >();
+
+  private readonly resynchronizingMarkets = new Map<string, Promise<void>>();
+
+  private readonly pendingLevel2Loads = new Map<
+    string,
+    Promise<idex.L2OrderBook>
+  >();
+
+  private readonly marketStates = new Map<string, OrderBookMarketState>();
+
   /**
    * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/OrderBookRealTimeClient.html)
    *
@@ -157,10 +274,21 @@ export class OrderBookRealTimeClient extends EventEmitter<{
 
     this.marketsResponse = options.marketsResponse;
 
+    this.verificationOptions =
+      options.verification ?
+        {
+          ...VERIFICATION_DEFAULTS,
+          ...(typeof options.verification === 'object' ?
+            options.verification
+          : {}),
+        }
+      : null;
+
     this.public = new RestPublicClient({
       sandbox,
       apiKey: options.apiKey,
       baseURL: options.baseRestApiURL,
+      axiosConfig: options.axiosConfig,
     });
 
     // monitor realtime client
@@ -170,6 +298,7 @@ export class OrderBookRealTimeClient extends EventEmitter<{
       sandbox,
       baseRestApiURL: options.baseRestApiURL,
       baseWebSocketURL: options.baseWebSocketURL,
+      createWebSocket: options.createWebSocket,
     });
   }
 
@@ -190,6 +319,7 @@ export class OrderBookRealTimeClient extends EventEmitter<{
     }
     this.mapTokensToMarkets();
     this.setupInternalWebSocket();
+    this.startVerification();
     await this.webSocketClient.connect(true);
   }
 
@@ -202,6 +332,7 @@ export class OrderBookRealTimeClient extends EventEmitter<{
    * @category Connection Management
    */
   public stop() {
+    this.stopVerification();
     if (this.webSocketClient.isConnected) {
       this.unsubscribe();
       this.webSocketClient.disconnect();
@@ -263,6 +394,196 @@ export class OrderBookRealTimeClient extends EventEmitter<{
     );
   }
 
+  /**
+   * Estimates the execution of a taker order against the current level 2 order book of this market,
+   * including the average price, worst price, levels consumed and slippage from the mid and index prices.
+   *
+   * - Quantities and prices are expressed in pips (10^-8).
+   * - Uses the full depth of the order book without aggregating by tick size.
+   *
+   * @example
+   * ```typescript
+   * const estimate = await client.estimateFill('ETH-USD', {
+   *   side: OrderSide.buy,
+   *   quantity: decimalToPip('10'),
+   * });
+   *
+   * if (!estimate.isFullyFilled || (estimate.slippageFromMid ?? 0n) > decimalToPip('0.005')) {
+   *   // reduce the order size
+   * }
+   * ```
+   *
+   * <br />
+   *
+   * ---
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/OrderBookRealTimeClient.html#estimateFill)
+   * @see related  {@link estimateFillFromL2OrderBook}
+   *
+   * @category Requests
+   */
+  public async estimateFill(market: string, order: idex.MarketImpactOrder) {
+    return estimateFillFromL2OrderBook(await this.loadLevel2(market), order);
+  }
+
+  /**
+   * Returns the cumulative base and quote liquidity on each side of the current level 2
+   * order book of this market within the given distances (in basis points) of the mid price.
+   *
+   * - Quantities and prices are expressed in pips (10^-8).
+   *
+   * @example
+   * ```typescript
+   * // liquidity within 0.1%, 0.5% and 1% of the mid price
+   * const [tenBps, fiftyBps, oneHundredBps] = await client.getDepth('ETH-USD', [10, 50, 100]);
+   * ```
+   *
+   * <br />
+   *
+   * ---
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/OrderBookRealTimeClient.html#getDepth)
+   * @see related  {@link calculateDepthFromL2OrderBook}
+   *
+   * @category Requests
+   */
+  public async getDepth(market: string, bpsFromMid: number | number[]) {
+    return calculateDepthFromL2OrderBook(
+      await this.loadLevel2(market),
+      bpsFromMid,
+    );
+  }
+
+  /**
+   * Analyzes how an order would change a wallet before it is placed, using the current level 2
+   * order book of the order's market.
+   *
+   * - Returns the resulting position, margin requirements, free collateral, leverage and
+   *   liquidation price, the estimated taker fee, and any market parameters the order
+   *   would breach.
+   * - Quantities and prices are expressed in pips (10^-8).
+   *
+   * @example
+   * ```typescript
+   * const impact = await client.getOrderImpact({
+   *   order,
+   *   wallet: (await authenticatedClient.getWallets({ wallet: order.wallet }))[0],
+   *   market,
+   * });
+   *
+   * if (impact.violations.length === 0) {
+   *   await authenticatedClient.createOrder(order);
+   * }
+   * ```
+   *
+   * <br />
+   *
+   * ---
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/OrderBookRealTimeClient.html#getOrderImpact)
+   * @see related  {@link calculateOrderImpact}
+   *
+   * @category Requests
+   */
+  public async getOrderImpact(args: Omit<idex.OrderImpactParameters, 'book'>) {
+    return calculateOrderImpact({
+      ...args,
+      book: await this.loadLevel2(args.order.market),
+    });
+  }
+
+  /**
+   * Returns the synchronization state of the order book of a market.
+   *
+   * - Each market is synchronized independently, a sequence gap in the updates of one market
+   *   only resynchronizes that market.
+   * - The {@link OrderBookRealTimeClientEvent.sync sync} and {@link OrderBookRealTimeClientEvent.ready ready}
+   *   events are emitted with the market when its state changes.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/OrderBookRealTimeClient.html#getMarketState)
+   * @see type     {@link OrderBookMarketState}
+   *
+   * @category Connection Management
+   */
+  public getMarketState(market: string): OrderBookMarketState {
+    if (!this.markets.includes(market)) {
+      return 'inactive';
+    }
+    return (
+      this.marketStates.get(market) ??
+      (this.webSocketClient.isConnected ? 'syncing' : 'inactive')
+    );
+  }
+
+  /**
+   * Verifies the locally maintained order book of a market against a level 2 snapshot
+   * from the REST API at the same sequence.
+   *
+   * - Reports mismatched levels, crossed books and empty levels, see {@link idex.OrderBookComparison OrderBookComparison}.
+   * - When the snapshot is newer than the local book, the comparison is made once the local book
+   *   reaches the sequence of the snapshot. The verification is `skipped` if it does not within the
+   *   {@link OrderBookVerificationOptions.timeoutMs timeoutMs} or if the snapshot is older than the local book.
+   * - Inconsistent order books are resynchronized unless the
+   *   {@link OrderBookVerificationOptions.resyncOnInconsistency resyncOnInconsistency} option is `false`.
+   * - Called automatically when the {@link OrderBookRealTimeClientOptions.verification verification}
+   *   option is enabled.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/OrderBookRealTimeClient.html#verifyOrderBook)
+   * @see related  {@link getVerificationStats}
+   *
+   * @category Verification
+   */
+  public async verifyOrderBook(
+    market: string,
+  ): Promise<idex.OrderBookVerificationResult> {
+    const snapshot = restResponseToL2OrderBook(
+      await this.public.getOrderBookLevel2({ market, limit: 1000 }),
+    );
+    const book = this.l2OrderBooks.get(market);
+
+    let result: idex.OrderBookVerificationResult;
+
+    if (book && book.sequence === snapshot.sequence) {
+      result = this.compareWithSnapshot(market, book, snapshot);
+    } else if (book && book.sequence < snapshot.sequence) {
+      this.skipPendingVerification(market);
+      result = await new Promise((resolve) => {
+        const timeoutId = setTimeout(
+          () => this.skipPendingVerification(market),
+          this.verificationOptions?.timeoutMs ??
+            VERIFICATION_DEFAULTS.timeoutMs,
+        );
+        this.pendingVerifications.set(market, {
+          snapshot,
+          resolve: (pendingResult) => {
+            clearTimeout(timeoutId);
+            resolve(pendingResult);
+          },
+        });
+      });
+    } else {
+      result = createSkippedVerificationResult(market, snapshot.sequence);
+    }
+
+    this.handleVerificationResult(result);
+
+    return result;
+  }
+
+  /**
+   * Returns the verification statistics of a market since the client was started.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/OrderBookRealTimeClient.html#getVerificationStats)
+   * @see related  {@link verifyOrderBook}
+   *
+   * @category Verification
+   */
+  public getVerificationStats(
+    market: string,
+  ): Readonly<idex.OrderBookVerificationStats> {
+    return { ...this.getOrCreateVerificationStats(market) };
+  }
+
   private async getOrderBooks(
     market: string,
     tickSize?: bigint | undefined,
@@ -301,23 +622,20 @@ export class OrderBookRealTimeClient extends EventEmitter<{
       // an expected next update has arrived
       else if (book.sequence + 1 === update.sequence) {
         updateL2Levels(book, update);
+        this.settlePendingVerification(market, book);
       } else {
-        // If an invalid update arrives, reset all data and synchronize anew
-        this.emit(OrderBookRealTimeClientEvent.disconnected);
+        // If an invalid update arrives, synchronize this market anew while the
+        // order books of other markets continue to be updated
         this.emit(
           OrderBookRealTimeClientEvent.error,
           new Error(
-            `Missing l2 update sequence, current book is ${book.sequence} message was ${update.sequence}, awaiting ${update.sequence - book.sequence} updates from REST API...`,
+            `Missing l2 update sequence for ${market}, current book is ${book.sequence} message was ${update.sequence}, resynchronizing ${market} from REST API...`,
           ),
         );
-        // this.unsubscribe();
-        this.resetInternalState();
-        // this.subscribe();
-
-        // eslint-disable-next-line no-await-in-loop
-        await this.synchronizeFromRestApi();
 
-        this.emit(OrderBookRealTimeClientEvent.connected);
+        this.resynchronizeMarket(market).catch((error) => {
+          this.emit(OrderBookRealTimeClientEvent.error, error);
+        });
 
         return;
       }
@@ -353,8 +671,8 @@ export class OrderBookRealTimeClient extends EventEmitter<{
         // eslint-disable-next-line no-await-in-loop
         await Promise.all([
           ...this.markets.map(async (market) => {
-            await this.loadLevel2(market);
-            this.emit(OrderBookRealTimeClientEvent.ready, market);
+            await this.synchronizeLevel2(market);
+            this.setMarketReady(market);
           }),
         ]);
 
@@ -367,17 +685,42 @@ export class OrderBookRealTimeClient extends EventEmitter<{
     }
   }
 
+  /**
+   * Returns the order book of a market, waiting for it to be resynchronized if a
+   * resynchronization is in progress.
+   */
   private async loadLevel2(market: string) {
+    const resynchronizing = this.resynchronizingMarkets.get(market);
+    if (resynchronizing) {
+      await resynchronizing;
+    }
+    return this.synchronizeLevel2(market);
+  }
+
+  /**
+   * Loads the order book of a market from the REST API unless it is already loaded, concurrent
+   * calls share a single request.
+   */
+  private async synchronizeLevel2(market: string) {
     let l2 = this.l2OrderBooks.get(market);
 
     if (!l2) {
-      this.emit(OrderBookRealTimeClientEvent.sync, market);
-      l2 = restResponseToL2OrderBook(
-        await this.public.getOrderBookLevel2({
-          market,
-          limit: 1000,
-        }),
-      );
+      let pending = this.pendingLevel2Loads.get(market);
+      if (!pending) {
+        this.marketStates.set(market, 'syncing');
+        this.emit(OrderBookRealTimeClientEvent.sync, market);
+        pending = this.public
+          .getOrderBookLevel2({
+            market,
+            limit: 1000,
+          })
+          .then(restResponseToL2OrderBook)
+          .finally(() => {
+            this.pendingLevel2Loads.delete(market);
+          });
+        this.pendingLevel2Loads.set(market, pending);
+      }
+      l2 = await pending;
     }
 
     this.l2OrderBooks.set(market, l2);
@@ -417,12 +760,186 @@ export class OrderBookRealTimeClient extends EventEmitter<{
   private resetInternalState(includeUpdates = false) {
     this.l1OrderBooks.clear();
     this.l2OrderBooks.clear();
+    this.marketStates.clear();
+    for (const market of this.pendingVerifications.keys()) {
+      this.skipPendingVerification(market);
+    }
     if (includeUpdates) {
       this.l2OrderBookUpdates.clear();
     }
     //
   }
 
+  private setMarketReady(market: string) {
+    this.marketStates.set(market, 'ready');
+    this.emit(OrderBookRealTimeClientEvent.ready, market);
+  }
+
+  /**
+   * Resynchronizes the order book of a single market from the REST API while the
+   * order books of other markets continue to be updated.
+   *
+   * - Updates received during resynchronization are queued and applied afterwards.
+   * - Requests for the order book of the market wait for the resynchronization to complete.
+   */
+  private resynchronizeMarket(market: string): Promise<void> {
+    let resynchronizing = this.resynchronizingMarkets.get(market);
+    if (!resynchronizing) {
+      resynchronizing = this.resynchronizeMarketFromRestApi(market);
+      this.resynchronizingMarkets.set(market, resynchronizing);
+    }
+    return resynchronizing;
+  }
+
+  private async resynchronizeMarketFromRestApi(market: string) {
+    this.l1OrderBooks.delete(market);
+    this.l2OrderBooks.delete(market);
+    this.marketStates.set(market, 'syncing');
+    this.skipPendingVerification(market);
+
+    let reconnectAttempt = 0;
+
+    try {
+      // eslint-disable-next-line no-constant-condition
+      while (true) {
+        const backoffSeconds = 2 ** reconnectAttempt;
+        reconnectAttempt += 1;
+        try {
+          // eslint-disable-next-line no-await-in-loop
+          await this.synchronizeLevel2(market);
+          this.setMarketReady(market);
+          break;
+        } catch (error) {
+          this.emit(OrderBookRealTimeClientEvent.error, error);
+          // eslint-disable-next-line no-await-in-loop
+          await sleep(backoffSeconds * 1000);
+        }
+      }
+    } finally {
+      this.resynchronizingMarkets.delete(market);
+    }
+
+    await this.applyOrderBookUpdates(market);
+  }
+
+  /* Verification */
+
+  private startVerification() {
+    if (!this.verificationOptions || this.verificationTimer) {
+      return;
+    }
+    this.verificationStats.clear();
+    this.verificationTimer = setInterval(() => {
+      this.verifyOrderBooks().catch((error) => {
+        this.emit(OrderBookRealTimeClientEvent.error, error);
+      });
+    }, this.verificationOptions.intervalMs);
+  }
+
+  private stopVerification() {
+    if (this.verificationTimer) {
+      clearInterval(this.verificationTimer);
+      this.verificationTimer = null;
+    }
+  }
+
+  private async verifyOrderBooks() {
+    // skip this interval if the previous verification is still in progress
+    if (this.isVerifying) {
+      return;
+    }
+    this.isVerifying = true;
+    try {
+      for (const market of this.markets) {
+        if (this.l2OrderBooks.has(market)) {
+          // verify one market at a time to avoid bursts of REST API requests
+          // eslint-disable-next-line no-await-in-loop
+          await this.verifyOrderBook(market);
+        }
+      }
+    } finally {
+      this.isVerifying = false;
+    }
+  }
+
+  private compareWithSnapshot(
+    market: string,
+    book: idex.L2OrderBook,
+    snapshot: idex.L2OrderBook,
+  ): idex.OrderBookVerificationResult {
+    const comparison = compareL2OrderBooks(
+      book,
+      snapshot,
+      this.verificationOptions?.depth ?? VERIFICATION_DEFAULTS.depth,
+    );
+
+    return {
+      market,
+      status: comparison.isConsistent ? 'consistent' : 'inconsistent',
+      sequence: snapshot.sequence,
+      comparison,
+      time: Date.now(),
+    };
+  }
+
+  private settlePendingVerification(market: string, book: idex.L2OrderBook) {
+    const pending = this.pendingVerifications.get(market);
+    if (!pending || book.sequence < pending.snapshot.sequence) {
+      return;
+    }
+
+    this.pendingVerifications.delete(market);
+    pending.resolve(
+      book.sequence === pending.snapshot.sequence ?
+        this.compareWithSnapshot(market, book, pending.snapshot)
+      : createSkippedVerificationResult(market, pending.snapshot.sequence),
+    );
+  }
+
+  private skipPendingVerification(market: string) {
+    const pending = this.pendingVerifications.get(market);
+    if (pending) {
+      this.pendingVerifications.delete(market);
+      pending.resolve(
+        createSkippedVerificationResult(market, pending.snapshot.sequence),
+      );
+    }
+  }
+
+  private getOrCreateVerificationStats(market: string) {
+    let stats = this.verificationStats.get(market);
+    if (!stats) {
+      stats = {
+        consistent: 0,
+        inconsistent: 0,
+        skipped: 0,
+        resyncs: 0,
+        lastResult: null,
+      };
+      this.verificationStats.set(market, stats);
+    }
+    return stats;
+  }
+
+  private handleVerificationResult(result: idex.OrderBookVerificationResult) {
+    const stats = this.getOrCreateVerificationStats(result.market);
+    stats[result.status] += 1;
+    stats.lastResult = result;
+
+    this.emit(OrderBookRealTimeClientEvent.verified, result.market, result);
+
+    if (
+      result.status === 'inconsistent' &&
+      (this.verificationOptions?.resyncOnInconsistency ??
+        VERIFICATION_DEFAULTS.resyncOnInconsistency)
+    ) {
+      stats.resyncs += 1;
+      this.resynchronizeMarket(result.market).catch((error) => {
+        this.emit(OrderBookRealTimeClientEvent.error, error);
+      });
+    }
+  }
+
   /* Connection management */
 
   private setupInternalWebSocket() {
@@ -443,6 +960,22 @@ export class OrderBookRealTimeClient extends EventEmitter<{
     );
   }
 
+  /**
+   * The WebSocket client replays the subscriptions it tracks after reconnecting on its own, the
+   * `l2orderbook` subscription is only requested when it is not yet tracked for every market.
+   */
+  private subscribeIfNeeded() {
+    const subscription = this.webSocketClient.subscriptions.find(
+      ({ name }) => name === SubscriptionNamePublic.l2orderbook,
+    );
+    const subscribedMarkets =
+      subscription && 'markets' in subscription ? subscription.markets : [];
+
+    if (!this.markets.every((market) => subscribedMarkets?.includes(market))) {
+      this.subscribe();
+    }
+  }
+
   private unsubscribe() {
     this.webSocketClient.unsubscribe([SubscriptionNamePublic.l2orderbook]);
   }
@@ -455,7 +988,7 @@ export class OrderBookRealTimeClient extends EventEmitter<{
       this.webSocketResponseListenerConfigured = true;
     }
 
-    this.subscribe();
+    this.subscribeIfNeeded();
 
     await this.synchronizeFromRestApi();
 
@@ -489,6 +1022,19 @@ export class OrderBookRealTimeClient extends EventEmitter<{
   }
 }
 
+function createSkippedVerificationResult(
+  market: string,
+  sequence: number,
+): idex.OrderBookVerificationResult {
+  return {
+    market,
+    status: 'skipped',
+    sequence,
+    comparison: null,
+    time: Date.now(),
+  };
+}
+
 function sleep(ms: number) {
   return new Promise((resolve) => {
     setTimeout(resolve, ms);
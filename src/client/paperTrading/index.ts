@@ -0,0 +1,1184 @@
+import { EventEmitter } from 'events';
+
+import { ethers } from 'ethers';
+import { v1 as uuidv1 } from 'uuid';
+
+import {
+  absBigInt,
+  decimalToPip,
+  dividePips,
+  maxBigInt,
+  minBigInt,
+  multiplyPips,
+  pipToDecimal,
+} from '#pipmath';
+
+import { calculateFundingPayment } from '#accounting/funding';
+import { restResponseToL2OrderBook } from '#orderbook/apiConversions';
+import { calculateWalletMargin } from '#orderbook/margin';
+import {
+  calculateHeldCollateral,
+  calculateMaximumOrderQuantity,
+} from '#orderbook/maximumQuantity';
+import { calculateGrossFillQuantities } from '#orderbook/quantities';
+import { assertOrderIsValid } from '#orders/validation';
+import {
+  ChainTransactionStatus,
+  FillAction,
+  FillType,
+  LiquidityProvider,
+  MessageEventType,
+  OrderBookRealTimeClientEvent,
+  OrderSide,
+  OrderStateChange,
+  OrderStatus,
+  OrderType,
+  PaperTradingClientEvent,
+  PositionEventStatus,
+  PositionSide,
+  SelfTradePrevention,
+  TimeInForce,
+  TriggerType,
+} from '#types/enums/index';
+
+import type { OrderBookRealTimeClient } from '#client/orderBook/realTime';
+import type * as idex from '#index';
+
+/**
+ * Paper Trading Client Options
+ *
+ * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html)
+ */
+export interface PaperTradingClientOptions {
+  /**
+   * Order book client providing the live order books orders are matched against
+   *
+   * - The client must be started separately for all markets that are traded.
+   */
+  orderBookClient: OrderBookRealTimeClient;
+  /**
+   * Initial simulated quote (USD) balance of the wallet, e.g. `'10000'`
+   */
+  quoteBalance: string;
+  /**
+   * Wallet address used in simulated responses and events, defaults to a random address
+   */
+  wallet?: string;
+  /**
+   * Maker fee rate applied to resting order fills, defaults to the market's `makerFeeRate`
+   */
+  makerFeeRate?: string;
+  /**
+   * Taker fee rate applied to taker fills, defaults to the market's `takerFeeRate`
+   */
+  takerFeeRate?: string;
+  /**
+   * How often market data, such as index prices and funding rates, is refreshed and
+   * funding payments are simulated
+   *
+   * @defaultValue 60_000
+   */
+  marketRefreshIntervalMs?: number;
+}
+
+/**
+ * @private
+ */
+interface PaperOrder {
+  order: idex.IDEXOrder;
+  quantity: bigint;
+  executedQuantity: bigint;
+  cumulativeQuoteQuantity: bigint;
+  price: bigint | null;
+  triggerPrice: bigint | null;
+  fills: idex.IDEXOrderFill[];
+}
+
+/**
+ * @private
+ */
+interface PaperPosition {
+  market: string;
+  quantity: bigint;
+  maximumQuantity: bigint;
+  entryPrice: bigint;
+  closeQuoteQuantity: bigint;
+  realizedPnL: bigint;
+  totalFunding: bigint;
+  totalOpen: bigint;
+  totalClose: bigint;
+  openedByFillId: string;
+  lastFillId: string;
+  time: number;
+}
+
+/**
+ * @private
+ */
+const openOrderStatuses = new Set<idex.OrderStatus>([
+  OrderStatus.active,
+  OrderStatus.open,
+  OrderStatus.partiallyFilled,
+]);
+
+/**
+ * @private
+ */
+function isTriggerOrderType(type: idex.OrderType) {
+  return type !== OrderType.market && type !== OrderType.limit;
+}
+
+/**
+ * @private
+ */
+function isLimitOrderType(type: idex.OrderType) {
+  return (
+    type === OrderType.limit ||
+    type === OrderType.stopLossLimit ||
+    type === OrderType.takeProfitLimit
+  );
+}
+
+/**
+ * Simulates trading on IDEX without risking funds by matching orders locally against the
+ * live order books of an {@link OrderBookRealTimeClient}.
+ *
+ * - Provides the `createOrder`, `cancelOrders`, `getOrders`, `getFills`, `getPositions`
+ *   and `getWallets` methods of {@link RestAuthenticatedClient} with the same request and
+ *   response types, requests are never signed or sent to the API.
+ * - Emits {@link PaperTradingClientEvent.message message} events with the same
+ *   {@link idex.IDEXOrderEvent IDEXOrderEvent} and
+ *   {@link idex.IDEXPositionEvent IDEXPositionEvent} shapes the `orders` and `positions`
+ *   WebSocket subscriptions provide.
+ * - Taker orders are filled against the order book using
+ *   {@link calculateGrossFillQuantities} and produce a single fill at the average price.
+ * - Resting limit orders fill at their limit price, as a maker, when the opposite side of
+ *   the book crosses it. Simulated orders do not consume order book liquidity, so the same
+ *   liquidity may fill multiple orders.
+ * - Orders are validated against market rules and rejected when the wallet has
+ *   insufficient collateral. Funding payments are applied to open positions at the
+ *   funding rate and index price of each market.
+ * - When the wallet's account value falls below its maintenance margin requirement, as
+ *   index prices are refreshed or orders fill, all open orders are canceled and all
+ *   positions are closed at their index prices with `liquidation` fills.
+ * - `trailingStopMarket` orders are not supported and are rejected by `createOrder`.
+ *
+ * @example
+ * ```typescript
+ * const orderBookClient = new OrderBookRealTimeClient();
+ * await orderBookClient.start(['ETH-USD']);
+ *
+ * const client = new PaperTradingClient({
+ *   orderBookClient,
+ *   quoteBalance: '10000',
+ * });
+ * await client.start();
+ *
+ * client.on(PaperTradingClientEvent.message, (message) => {
+ *   console.log(message.type, message.data);
+ * });
+ *
+ * await client.createOrder({
+ *   wallet: client.walletAddress,
+ *   market: 'ETH-USD',
+ *   type: OrderType.market,
+ *   side: OrderSide.buy,
+ *   quantity: '0.10000000',
+ * });
+ * ```
+ *
+ * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html)
+ * @see options  {@link PaperTradingClientOptions}
+ * @see events   {@link PaperTradingClientEvent}
+ *
+ * @category API Clients
+ */
+export class PaperTradingClient extends EventEmitter<{
+  [PaperTradingClientEvent.message]: [
+    message: idex.IDEXOrderEvent | idex.IDEXPositionEvent,
+  ];
+  [PaperTradingClientEvent.error]: [error: Error];
+}> {
+  private readonly orderBookClient: OrderBookRealTimeClient;
+
+  private readonly wallet: string;
+
+  private readonly makerFeeRate: bigint | null;
+
+  private readonly takerFeeRate: bigint | null;
+
+  private readonly marketRefreshIntervalMs: number;
+
+  private quoteBalance: bigint;
+
+  private readonly markets = new Map<string, idex.IDEXMarket>();
+
+  private readonly orders = new Map<string, PaperOrder>();
+
+  private readonly fills: idex.IDEXFill[] = [];
+
+  private readonly fundingPayments: idex.IDEXFundingPayment[] = [];
+
+  private readonly positions = new Map<string, PaperPosition>();
+
+  private fillSequence = 0;
+
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private marketRefreshTimer: ReturnType<typeof setInterval> | null = null;
+
+  private readonly handleOrderBookUpdate = (market: string) => {
+    this.enqueue(() => this.matchMarket(market)).catch((error) => {
+      this.emit(PaperTradingClientEvent.error, error);
+    });
+  };
+
+  /**
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html)
+   *
+   * @category Constructor
+   */
+  constructor(options: PaperTradingClientOptions) {
+    super();
+
+    this.orderBookClient = options.orderBookClient;
+    this.wallet = options.wallet ?? ethers.Wallet.createRandom().address;
+    this.quoteBalance = decimalToPip(options.quoteBalance);
+    this.makerFeeRate =
+      options.makerFeeRate ? decimalToPip(options.makerFeeRate) : null;
+    this.takerFeeRate =
+      options.takerFeeRate ? decimalToPip(options.takerFeeRate) : null;
+    this.marketRefreshIntervalMs = options.marketRefreshIntervalMs ?? 60_000;
+  }
+
+  /**
+   * The simulated wallet address
+   *
+   * @category Accessors
+   */
+  public get walletAddress() {
+    return this.wallet;
+  }
+
+  /**
+   * Loads market data and begins matching orders against order book updates.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#start)
+   *
+   * @category Connection Management
+   */
+  public async start(marketsResponse?: idex.RestResponseGetMarkets) {
+    await this.enqueue(() => this.refreshMarkets(marketsResponse));
+
+    this.orderBookClient.on(
+      OrderBookRealTimeClientEvent.l2,
+      this.handleOrderBookUpdate,
+    );
+
+    if (this.marketRefreshIntervalMs > 0 && !this.marketRefreshTimer) {
+      this.marketRefreshTimer = setInterval(() => {
+        this.enqueue(() => this.refreshMarkets()).catch((error) => {
+          this.emit(PaperTradingClientEvent.error, error);
+        });
+      }, this.marketRefreshIntervalMs);
+    }
+  }
+
+  /**
+   * Stops matching orders and refreshing market data, simulated state is retained.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#stop)
+   *
+   * @category Connection Management
+   */
+  public stop() {
+    this.orderBookClient.off(
+      OrderBookRealTimeClientEvent.l2,
+      this.handleOrderBookUpdate,
+    );
+    if (this.marketRefreshTimer) {
+      clearInterval(this.marketRefreshTimer);
+      this.marketRefreshTimer = null;
+    }
+  }
+
+  /**
+   * Simulates creating an order, matching it against the current order book of its market.
+   *
+   * - Throws if the order is invalid for the market, would exceed the wallet's collateral,
+   *   is a `reduceOnly` order that would not reduce a position, or is a post-only order
+   *   that would match immediately.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#createOrder)
+   * @see related  {@link RestAuthenticatedClient.createOrder}
+   *
+   * @category Orders
+   */
+  public async createOrder(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestOrder>,
+  ): Promise<idex.IDEXOrder> {
+    return this.enqueue(() => this.placeOrder(params));
+  }
+
+  /**
+   * Simulates canceling open orders of the wallet by `orderIds`, `market` or all open
+   * orders.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#cancelOrders)
+   * @see related  {@link RestAuthenticatedClient.cancelOrders}
+   *
+   * @category Orders
+   */
+  public async cancelOrders(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestCancelOrders>,
+  ): Promise<idex.RestResponseCancelOrders> {
+    return this.enqueue(async () => {
+      if (params.orderIds) {
+        return params.orderIds.map((orderId) => {
+          const paperOrder = this.findOrder(orderId);
+          if (!paperOrder || !openOrderStatuses.has(paperOrder.order.status)) {
+            return { orderId, status: OrderStatus.notFound };
+          }
+          return this.cancelOrder(paperOrder);
+        });
+      }
+
+      return Array.from(this.orders.values())
+        .filter(
+          ({ order }) =>
+            openOrderStatuses.has(order.status) &&
+            (!params.market || order.market === params.market),
+        )
+        .map((paperOrder) => this.cancelOrder(paperOrder));
+    });
+  }
+
+  /**
+   * Returns a simulated order by `orderId`, or by `client:` prefixed `clientOrderId`.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#getOrder)
+   * @see related  {@link RestAuthenticatedClient.getOrder}
+   *
+   * @category Orders
+   */
+  public async getOrder(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetOrder>,
+  ): Promise<idex.IDEXOrder> {
+    const paperOrder = this.findOrder(params.orderId);
+    if (!paperOrder) {
+      throw new Error(`Order ${params.orderId} not found`);
+    }
+    return this.toIDEXOrder(paperOrder);
+  }
+
+  /**
+   * Returns simulated open orders, or closed orders if `closed` is `true`, most recent
+   * first.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#getOrders)
+   * @see related  {@link RestAuthenticatedClient.getOrders}
+   *
+   * @category Orders
+   */
+  public async getOrders(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetOrders>,
+  ): Promise<idex.RestResponseGetOrders> {
+    const { market, closed = false, start, end, limit = 50 } = params;
+
+    return Array.from(this.orders.values())
+      .filter(
+        ({ order }) =>
+          openOrderStatuses.has(order.status) !== closed &&
+          (!market || order.market === market) &&
+          (start === undefined || order.time >= start) &&
+          (end === undefined || order.time <= end),
+      )
+      .reverse()
+      .slice(0, limit)
+      .map((paperOrder) => this.toIDEXOrder(paperOrder));
+  }
+
+  /**
+   * Returns simulated fills, most recent first.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#getFills)
+   * @see related  {@link RestAuthenticatedClient.getFills}
+   *
+   * @category Fills & Historical
+   */
+  public async getFills(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetFills>,
+  ): Promise<idex.RestResponseGetFills> {
+    const { market, start, end, limit = 50 } = params;
+
+    return this.fills
+      .filter(
+        (fill) =>
+          (!market || fill.market === market) &&
+          (start === undefined || fill.time >= start) &&
+          (end === undefined || fill.time <= end),
+      )
+      .reverse()
+      .slice(0, limit);
+  }
+
+  /**
+   * Returns simulated funding payments, most recent first.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#getFundingPayments)
+   * @see related  {@link RestAuthenticatedClient.getFundingPayments}
+   *
+   * @category Fills & Historical
+   */
+  public async getFundingPayments(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetFundingPayments>,
+  ): Promise<idex.RestResponseGetFundingPayments> {
+    const { market, start, end, limit = 50 } = params;
+
+    return this.fundingPayments
+      .filter(
+        (payment) =>
+          (!market || payment.market === market) &&
+          (start === undefined || payment.time >= start) &&
+          (end === undefined || payment.time <= end),
+      )
+      .reverse()
+      .slice(0, limit);
+  }
+
+  /**
+   * Returns the simulated open positions of the wallet valued at current index prices.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#getPositions)
+   * @see related  {@link RestAuthenticatedClient.getPositions}
+   *
+   * @category Wallets & Positions
+   */
+  public async getPositions(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetPositions>,
+  ): Promise<idex.RestResponseGetPositions> {
+    return this.calculatePositions().filter(
+      (position) => !params.market || position.market === params.market,
+    );
+  }
+
+  /**
+   * Returns the simulated wallet, including its `positions` if `includePositions` is
+   * `true`.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/PaperTradingClient.html#getWallets)
+   * @see related  {@link RestAuthenticatedClient.getWallets}
+   *
+   * @category Wallets & Positions
+   */
+  public async getWallets(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetWallets> = {},
+  ): Promise<idex.RestResponseGetWallets> {
+    const positions = this.calculatePositions();
+    const markets = Array.from(this.markets.values());
+    const margin = calculateWalletMargin({
+      wallet: { quoteBalance: pipToDecimal(this.quoteBalance) },
+      positions,
+      markets,
+    });
+    const heldCollateral = calculateHeldCollateral({
+      walletsStandingOrders: this.getStandingOrders(),
+      markets,
+    });
+    const availableCollateral = margin.freeCollateral - heldCollateral;
+    const minimumInitialMarginFraction = markets.reduce(
+      (minimum, market) =>
+        minBigInt(minimum, decimalToPip(market.initialMarginFraction)),
+      decimalToPip('1'),
+    );
+    const unrealizedPnL = positions.reduce(
+      (total, position) => total + decimalToPip(position.unrealizedPnL),
+      BigInt(0),
+    );
+    const [market] = markets;
+
+    return [
+      {
+        wallet: this.wallet,
+        equity: pipToDecimal(margin.accountValue),
+        freeCollateral: pipToDecimal(margin.freeCollateral),
+        heldCollateral: pipToDecimal(heldCollateral),
+        availableCollateral: pipToDecimal(availableCollateral),
+        buyingPower: pipToDecimal(
+          dividePips(
+            maxBigInt(availableCollateral, BigInt(0)),
+            minimumInitialMarginFraction,
+          ),
+        ),
+        leverage: pipToDecimal(margin.leverage ?? BigInt(0)),
+        marginRatio: pipToDecimal(margin.marginRatio ?? BigInt(0)),
+        quoteBalance: pipToDecimal(this.quoteBalance),
+        unrealizedPnL: pipToDecimal(unrealizedPnL),
+        makerFeeRate: pipToDecimal(
+          this.makerFeeRate ?? decimalToPip(market?.makerFeeRate ?? '0'),
+        ),
+        takerFeeRate: pipToDecimal(
+          this.takerFeeRate ?? decimalToPip(market?.takerFeeRate ?? '0'),
+        ),
+        positions: params.includePositions ? positions : undefined,
+      },
+    ];
+  }
+
+  /**
+   * Runs state changes one at a time so order book updates, timers and requests do not
+   * interleave.
+   */
+  private enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(fn);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async refreshMarkets(marketsResponse?: idex.RestResponseGetMarkets) {
+    const markets =
+      marketsResponse ?? (await this.orderBookClient.public.getMarkets());
+
+    const now = Date.now();
+    for (const market of markets) {
+      const previous = this.markets.get(market.market);
+      this.markets.set(market.market, market);
+      // a funding period has passed since the previous refresh
+      if (
+        previous &&
+        previous.nextFundingTime <= now &&
+        market.nextFundingTime > previous.nextFundingTime
+      ) {
+        this.applyFundingPayment(market, previous.nextFundingTime);
+      }
+    }
+
+    this.liquidateIfRequired();
+  }
+
+  private applyFundingPayment(market: idex.IDEXMarket, time: number) {
+    const position = this.positions.get(market.market);
+    if (!position || market.lastFundingRate === null) {
+      return;
+    }
+
+    const indexPrice = decimalToPip(market.indexPrice);
+    const fundingRate = decimalToPip(market.lastFundingRate);
+    const paymentQuantity = calculateFundingPayment({
+      positionQuantity: position.quantity,
+      indexPrice,
+      fundingRate,
+    });
+
+    this.quoteBalance += paymentQuantity;
+    position.totalFunding += paymentQuantity;
+    position.realizedPnL += paymentQuantity;
+    position.time = time;
+
+    this.fundingPayments.push({
+      time,
+      market: market.market,
+      paymentQuantity: pipToDecimal(paymentQuantity),
+      positionQuantity: pipToDecimal(position.quantity),
+      fundingRate: pipToDecimal(fundingRate),
+      indexPrice: pipToDecimal(indexPrice),
+    });
+    this.emitPosition(position);
+  }
+
+  private getMarket(market: string) {
+    const idexMarket = this.markets.get(market);
+    if (!idexMarket) {
+      throw new Error(
+        `Market ${market} not found, the client must be started before trading`,
+      );
+    }
+    return idexMarket;
+  }
+
+  private findOrder(orderId: string) {
+    if (orderId.startsWith('client:')) {
+      const clientOrderId = orderId.slice('client:'.length);
+      return Array.from(this.orders.values()).find(
+        ({ order }) => order.clientOrderId === clientOrderId,
+      );
+    }
+    return this.orders.get(orderId);
+  }
+
+  private getStandingOrders(): idex.StandingOrder[] {
+    return Array.from(this.orders.values())
+      .filter(({ order }) => openOrderStatuses.has(order.status))
+      .map((paperOrder) => this.toIDEXOrder(paperOrder));
+  }
+
+  private async loadBook(market: string) {
+    return restResponseToL2OrderBook(
+      await this.orderBookClient.getOrderBookL2(market, 1000),
+    );
+  }
+
+  private async placeOrder(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestOrder>,
+  ) {
+    const market = this.getMarket(params.market);
+    assertOrderIsValid(params, market);
+
+    if (params.type === OrderType.trailingStopMarket) {
+      throw new Error(
+        'Trailing stop orders are not supported by the paper trading client',
+      );
+    }
+
+    let quantity = decimalToPip(params.quantity);
+    const position = this.positions.get(params.market);
+    const direction = params.side === OrderSide.buy ? BigInt(1) : BigInt(-1);
+
+    if (params.reduceOnly) {
+      const reducibleQuantity =
+        position && position.quantity * direction < BigInt(0) ?
+          absBigInt(position.quantity)
+        : BigInt(0);
+      if (reducibleQuantity === BigInt(0)) {
+        throw new Error('Reduce only order must reduce an open position');
+      }
+      quantity = minBigInt(quantity, reducibleQuantity);
+    } else {
+      const maximumQuantity = calculateMaximumOrderQuantity({
+        side: params.side,
+        limitPrice: params.price ? decimalToPip(params.price) : undefined,
+        wallet: {
+          quoteBalance: pipToDecimal(this.quoteBalance),
+          positions: this.calculatePositions(),
+        },
+        walletsStandingOrders: this.getStandingOrders(),
+        market,
+        markets: Array.from(this.markets.values()),
+      });
+      if (quantity > maximumQuantity) {
+        throw new Error(
+          `Insufficient collateral, the maximum order quantity is ${pipToDecimal(maximumQuantity)}`,
+        );
+      }
+    }
+
+    const time = Date.now();
+    const paperOrder: PaperOrder = {
+      order: {
+        market: params.market,
+        orderId: uuidv1(),
+        clientOrderId: params.clientOrderId,
+        wallet: this.wallet,
+        time,
+        status: OrderStatus.open,
+        type: params.type,
+        side: params.side,
+        originalQuantity: pipToDecimal(quantity),
+        executedQuantity: pipToDecimal(BigInt(0)),
+        cumulativeQuoteQuantity: pipToDecimal(BigInt(0)),
+        price: params.price,
+        triggerPrice: params.triggerPrice,
+        triggerType:
+          params.triggerPrice ?
+            (params.triggerType as idex.IDEXOrder['triggerType'])
+          : undefined,
+        reduceOnly: !!params.reduceOnly,
+        timeInForce:
+          isLimitOrderType(params.type) ?
+            params.timeInForce ?? TimeInForce.gtc
+          : undefined,
+        selfTradePrevention:
+          params.selfTradePrevention ?? SelfTradePrevention.dc,
+      },
+      quantity,
+      executedQuantity: BigInt(0),
+      cumulativeQuoteQuantity: BigInt(0),
+      price: params.price ? decimalToPip(params.price) : null,
+      triggerPrice:
+        params.triggerPrice ? decimalToPip(params.triggerPrice) : null,
+      fills: [],
+    };
+
+    if (isTriggerOrderType(params.type)) {
+      paperOrder.order.status = OrderStatus.active;
+      this.orders.set(paperOrder.order.orderId, paperOrder);
+      this.emitOrder(paperOrder, OrderStateChange.activated);
+      return this.toIDEXOrder(paperOrder);
+    }
+
+    const book = await this.loadBook(params.market);
+    if (paperOrder.order.timeInForce === TimeInForce.gtx) {
+      const { baseQuantity } = this.calculateTakerFill(paperOrder, book);
+      if (baseQuantity > BigInt(0)) {
+        throw new Error('Post-only order would match immediately');
+      }
+    }
+
+    this.orders.set(paperOrder.order.orderId, paperOrder);
+    this.executeTakerOrder(paperOrder, book);
+    return this.toIDEXOrder(paperOrder);
+  }
+
+  private cancelOrder(paperOrder: PaperOrder): idex.IDEXCanceledOrder {
+    const { order } = paperOrder;
+    order.status = OrderStatus.canceled;
+    this.emitOrder(paperOrder, OrderStateChange.canceled);
+    return {
+      orderId: paperOrder.order.orderId,
+      clientOrderId: paperOrder.order.clientOrderId,
+      status: OrderStatus.canceled,
+    };
+  }
+
+  private calculateTakerFill(paperOrder: PaperOrder, book: idex.L2OrderBook) {
+    return calculateGrossFillQuantities(
+      paperOrder.order.side === OrderSide.buy ? book.asks : book.bids,
+      {
+        side: paperOrder.order.side,
+        quantity: paperOrder.quantity - paperOrder.executedQuantity,
+        isQuantityInQuote: false,
+        limitPrice: paperOrder.price ?? undefined,
+      },
+    );
+  }
+
+  private executeTakerOrder(paperOrder: PaperOrder, book: idex.L2OrderBook) {
+    const { order } = paperOrder;
+    const { baseQuantity, quoteQuantity } = this.calculateTakerFill(
+      paperOrder,
+      book,
+    );
+    const remainingQuantity =
+      paperOrder.quantity - paperOrder.executedQuantity - baseQuantity;
+    const isImmediate =
+      !isLimitOrderType(order.type) ||
+      order.timeInForce === TimeInForce.ioc ||
+      order.timeInForce === TimeInForce.fok;
+
+    if (
+      order.timeInForce === TimeInForce.fok &&
+      remainingQuantity > BigInt(0)
+    ) {
+      order.status = OrderStatus.canceled;
+      this.emitOrder(paperOrder, OrderStateChange.expired);
+      return;
+    }
+
+    if (baseQuantity > BigInt(0)) {
+      this.fill(
+        paperOrder,
+        baseQuantity,
+        quoteQuantity,
+        LiquidityProvider.taker,
+      );
+    } else if (!isImmediate) {
+      this.emitOrder(paperOrder, OrderStateChange.new);
+    }
+
+    if (isImmediate && remainingQuantity > BigInt(0)) {
+      order.status = OrderStatus.canceled;
+      this.emitOrder(paperOrder, OrderStateChange.expired);
+    }
+  }
+
+  private async matchMarket(market: string) {
+    const paperOrders = Array.from(this.orders.values()).filter(
+      ({ order }) =>
+        order.market === market && openOrderStatuses.has(order.status),
+    );
+    if (paperOrders.length === 0) {
+      return;
+    }
+
+    const book = await this.loadBook(market);
+    const [bestBid] = book.bids;
+    const [bestAsk] = book.asks;
+    const lastPrice =
+      bestBid && bestAsk ? (bestBid.price + bestAsk.price) / BigInt(2) : null;
+    const indexPrice = decimalToPip(this.getMarket(market).indexPrice);
+
+    for (const paperOrder of paperOrders) {
+      const { order } = paperOrder;
+
+      if (order.status === OrderStatus.active) {
+        const price =
+          order.triggerType === TriggerType.index ? indexPrice : lastPrice;
+        if (price !== null && this.isTriggered(paperOrder, price)) {
+          order.status = OrderStatus.open;
+          this.executeTakerOrder(paperOrder, book);
+        }
+      } else if (paperOrder.price !== null) {
+        // resting limit orders fill as makers at their limit price
+        const { baseQuantity } = this.calculateTakerFill(paperOrder, book);
+        if (baseQuantity > BigInt(0)) {
+          this.fill(
+            paperOrder,
+            baseQuantity,
+            multiplyPips(baseQuantity, paperOrder.price),
+            LiquidityProvider.maker,
+          );
+        }
+      }
+    }
+
+    this.liquidateIfRequired();
+  }
+
+  private isTriggered(paperOrder: PaperOrder, price: bigint) {
+    const { type, side } = paperOrder.order;
+    const triggerPrice = paperOrder.triggerPrice ?? BigInt(0);
+    const isStopLoss =
+      type === OrderType.stopLossMarket || type === OrderType.stopLossLimit;
+
+    // stop losses close positions when the price moves against them, take profits when
+    // it moves in their favor
+    if ((side === OrderSide.sell) === isStopLoss) {
+      return price <= triggerPrice;
+    }
+    return price >= triggerPrice;
+  }
+
+  private fill(
+    paperOrder: PaperOrder,
+    baseQuantity: bigint,
+    quoteQuantity: bigint,
+    liquidity: idex.LiquidityProvider,
+  ) {
+    const { order } = paperOrder;
+    const market = this.getMarket(order.market);
+    const feeRate =
+      liquidity === LiquidityProvider.maker ?
+        this.makerFeeRate ?? decimalToPip(market.makerFeeRate)
+      : this.takerFeeRate ?? decimalToPip(market.takerFeeRate);
+
+    this.fillSequence += 1;
+    const { fill, position } = this.applyFill(
+      {
+        orderId: order.orderId,
+        clientOrderId: order.clientOrderId,
+        market: order.market,
+        side: order.side,
+        makerSide:
+          liquidity === LiquidityProvider.maker ? order.side
+          : order.side === OrderSide.buy ? OrderSide.sell
+          : OrderSide.buy,
+        sequence: this.fillSequence,
+        liquidity,
+        type:
+          order.type === OrderType.market ? FillType.market : FillType.limit,
+      },
+      baseQuantity,
+      quoteQuantity,
+      multiplyPips(quoteQuantity, feeRate, true),
+    );
+
+    const {
+      market: _market,
+      orderId: _orderId,
+      clientOrderId: _clientOrderId,
+      side: _side,
+      isLiquidationAcquisition: _isLiquidationAcquisition,
+      ...orderFill
+    } = fill;
+    paperOrder.fills.push(orderFill);
+    /* eslint-disable no-param-reassign */
+    paperOrder.executedQuantity += baseQuantity;
+    paperOrder.cumulativeQuoteQuantity += quoteQuantity;
+    /* eslint-enable no-param-reassign */
+    order.status =
+      paperOrder.executedQuantity === paperOrder.quantity ?
+        OrderStatus.filled
+      : OrderStatus.partiallyFilled;
+
+    this.emitOrder(paperOrder, OrderStateChange.fill, [orderFill]);
+    if (position.quantity !== BigInt(0)) {
+      this.emitPosition(position);
+    }
+  }
+
+  /**
+   * Applies a fill to the wallet's quote balance and position and records it, emitting
+   * the position event when the fill closes the position.
+   */
+  private applyFill(
+    fillProperties: Pick<
+      idex.IDEXFill,
+      | 'orderId'
+      | 'clientOrderId'
+      | 'market'
+      | 'side'
+      | 'makerSide'
+      | 'sequence'
+      | 'liquidity'
+      | 'type'
+    >,
+    baseQuantity: bigint,
+    quoteQuantity: bigint,
+    fee: bigint,
+  ) {
+    const { market, side } = fillProperties;
+    const price = dividePips(quoteQuantity, baseQuantity);
+    const direction = side === OrderSide.buy ? BigInt(1) : BigInt(-1);
+    const fillId = uuidv1();
+    const time = Date.now();
+
+    const position = this.positions.get(market) ?? {
+      market,
+      quantity: BigInt(0),
+      maximumQuantity: BigInt(0),
+      entryPrice: BigInt(0),
+      closeQuoteQuantity: BigInt(0),
+      realizedPnL: BigInt(0),
+      totalFunding: BigInt(0),
+      totalOpen: BigInt(0),
+      totalClose: BigInt(0),
+      openedByFillId: fillId,
+      lastFillId: fillId,
+      time,
+    };
+
+    const closeQuantity =
+      position.quantity * direction < BigInt(0) ?
+        minBigInt(absBigInt(position.quantity), baseQuantity)
+      : BigInt(0);
+    const openQuantity = baseQuantity - closeQuantity;
+    const realizedPnL =
+      multiplyPips(closeQuantity, price - position.entryPrice) * -direction;
+
+    this.quoteBalance += -direction * quoteQuantity - fee;
+
+    position.realizedPnL += realizedPnL;
+    position.totalClose += closeQuantity;
+    position.closeQuoteQuantity += multiplyPips(closeQuantity, price);
+    position.quantity += direction * closeQuantity;
+    position.lastFillId = fillId;
+    position.time = time;
+
+    let action: idex.FillAction = FillAction.open;
+    if (closeQuantity > BigInt(0)) {
+      action =
+        openQuantity > BigInt(0) ? FillAction.closeAndOpen : FillAction.close;
+    }
+
+    if (closeQuantity > BigInt(0) && position.quantity === BigInt(0)) {
+      this.emitPosition(position, PositionEventStatus.closed);
+      this.positions.delete(market);
+    }
+
+    let currentPosition = position;
+    if (openQuantity > BigInt(0)) {
+      currentPosition = this.positions.get(market) ?? {
+        ...position,
+        maximumQuantity: BigInt(0),
+        entryPrice: BigInt(0),
+        closeQuoteQuantity: BigInt(0),
+        realizedPnL: BigInt(0),
+        totalFunding: BigInt(0),
+        totalOpen: BigInt(0),
+        totalClose: BigInt(0),
+        openedByFillId: fillId,
+      };
+      const absQuantity = absBigInt(currentPosition.quantity);
+      const openQuoteQuantity =
+        closeQuantity > BigInt(0) ?
+          multiplyPips(openQuantity, price)
+        : quoteQuantity;
+      currentPosition.entryPrice = dividePips(
+        multiplyPips(absQuantity, currentPosition.entryPrice) +
+          openQuoteQuantity,
+        absQuantity + openQuantity,
+      );
+      currentPosition.quantity += direction * openQuantity;
+      currentPosition.totalOpen += openQuantity;
+      currentPosition.maximumQuantity = maxBigInt(
+        currentPosition.maximumQuantity,
+        absBigInt(currentPosition.quantity),
+      );
+      this.positions.set(market, currentPosition);
+    }
+
+    let positionSide: idex.PositionSide = PositionSide.none;
+    if (currentPosition.quantity !== BigInt(0)) {
+      positionSide =
+        currentPosition.quantity > BigInt(0) ?
+          PositionSide.long
+        : PositionSide.short;
+    }
+
+    const fill: idex.IDEXFill = {
+      ...fillProperties,
+      fillId,
+      price: pipToDecimal(price),
+      quantity: pipToDecimal(baseQuantity),
+      quoteQuantity: pipToDecimal(quoteQuantity),
+      realizedPnL: pipToDecimal(realizedPnL),
+      time,
+      fee: pipToDecimal(fee),
+      action,
+      position: positionSide,
+      indexPrice: this.getMarket(market).indexPrice,
+      txId: null,
+      txStatus: ChainTransactionStatus.pending,
+    };
+    this.fills.push(fill);
+
+    return { fill, position: currentPosition };
+  }
+
+  /**
+   * Cancels all open orders and closes all positions at their index prices if the wallet
+   * no longer meets its maintenance margin requirement.
+   */
+  private liquidateIfRequired() {
+    if (this.positions.size === 0) {
+      return;
+    }
+
+    const margin = calculateWalletMargin({
+      wallet: { quoteBalance: pipToDecimal(this.quoteBalance) },
+      positions: this.calculatePositions(),
+      markets: Array.from(this.markets.values()),
+    });
+    if (margin.accountValue >= margin.maintenanceMarginRequirement) {
+      return;
+    }
+
+    for (const paperOrder of this.orders.values()) {
+      if (openOrderStatuses.has(paperOrder.order.status)) {
+        this.cancelOrder(paperOrder);
+      }
+    }
+
+    for (const position of Array.from(this.positions.values())) {
+      const quantity = absBigInt(position.quantity);
+      this.applyFill(
+        {
+          market: position.market,
+          side: position.quantity > BigInt(0) ? OrderSide.sell : OrderSide.buy,
+          type: FillType.liquidation,
+        },
+        quantity,
+        multiplyPips(
+          quantity,
+          decimalToPip(this.getMarket(position.market).indexPrice),
+        ),
+        BigInt(0),
+      );
+    }
+  }
+
+  private toIDEXOrder(paperOrder: PaperOrder): idex.IDEXOrder {
+    return {
+      ...paperOrder.order,
+      executedQuantity: pipToDecimal(paperOrder.executedQuantity),
+      cumulativeQuoteQuantity: pipToDecimal(paperOrder.cumulativeQuoteQuantity),
+      avgExecutionPrice:
+        paperOrder.executedQuantity > BigInt(0) ?
+          pipToDecimal(
+            dividePips(
+              paperOrder.cumulativeQuoteQuantity,
+              paperOrder.executedQuantity,
+            ),
+          )
+        : undefined,
+      fills: paperOrder.fills.length > 0 ? [...paperOrder.fills] : undefined,
+    };
+  }
+
+  private calculatePositions(): idex.IDEXPosition[] {
+    const positions = Array.from(this.positions.values());
+    const margin = calculateWalletMargin({
+      wallet: { quoteBalance: pipToDecimal(this.quoteBalance) },
+      positions: positions.map((position) => ({
+        market: position.market,
+        quantity: pipToDecimal(position.quantity),
+        indexPrice: this.getMarket(position.market).indexPrice,
+      })),
+      markets: Array.from(this.markets.values()),
+    });
+
+    return positions.map((position, index) => {
+      const positionMargin = margin.positions[index];
+      const value = multiplyPips(position.quantity, positionMargin.indexPrice);
+
+      return {
+        market: position.market,
+        quantity: pipToDecimal(position.quantity),
+        maximumQuantity: pipToDecimal(position.maximumQuantity),
+        entryPrice: pipToDecimal(position.entryPrice),
+        exitPrice: pipToDecimal(
+          dividePips(position.closeQuoteQuantity, position.totalClose),
+        ),
+        markPrice: pipToDecimal(positionMargin.indexPrice),
+        indexPrice: pipToDecimal(positionMargin.indexPrice),
+        liquidationPrice: pipToDecimal(positionMargin.liquidationPrice),
+        value: pipToDecimal(value),
+        realizedPnL: pipToDecimal(position.realizedPnL),
+        unrealizedPnL: pipToDecimal(
+          value - multiplyPips(position.quantity, position.entryPrice),
+        ),
+        marginRequirement: pipToDecimal(
+          positionMargin.initialMarginRequirement,
+        ),
+        leverage: pipToDecimal(
+          margin.accountValue > BigInt(0) ?
+            dividePips(positionMargin.notionalValue, margin.accountValue)
+          : BigInt(0),
+        ),
+        totalFunding: pipToDecimal(position.totalFunding),
+        totalOpen: pipToDecimal(position.totalOpen),
+        totalClose: pipToDecimal(position.totalClose),
+        adlQuintile: 0,
+        openedByFillId: position.openedByFillId,
+        lastFillId: position.lastFillId,
+        time: position.time,
+      };
+    });
+  }
+
+  private emitOrder(
+    paperOrder: PaperOrder,
+    update: idex.OrderStateChange,
+    fills?: idex.IDEXOrderFill[],
+  ) {
+    const { fills: _fills, ...order } = this.toIDEXOrder(paperOrder);
+
+    this.emit(PaperTradingClientEvent.message, {
+      type: MessageEventType.orders,
+      data: {
+        ...order,
+        executionTime: Date.now(),
+        update,
+        fills,
+      },
+    });
+  }
+
+  private emitPosition(
+    position: PaperPosition,
+    status: idex.PositionEventStatus = PositionEventStatus.open,
+  ) {
+    this.emit(PaperTradingClientEvent.message, {
+      type: MessageEventType.positions,
+      data: {
+        wallet: this.wallet,
+        market: position.market,
+        status,
+        quantity: pipToDecimal(position.quantity),
+        maximumQuantity: pipToDecimal(position.maximumQuantity),
+        entryPrice: pipToDecimal(position.entryPrice),
+        exitPrice: pipToDecimal(
+          dividePips(position.closeQuoteQuantity, position.totalClose),
+        ),
+        realizedPnL: pipToDecimal(position.realizedPnL),
+        totalFunding: pipToDecimal(position.totalFunding),
+        totalOpen: pipToDecimal(position.totalOpen),
+        totalClose: pipToDecimal(position.totalClose),
+        openedByFillId: position.openedByFillId,
+        lastFillId: position.lastFillId,
+        quoteBalance: pipToDecimal(this.quoteBalance),
+        time: position.time,
+      },
+    });
+  }
+}
@@ -24,7 +24,22 @@ import {
 } from '#utils';
 
 import { getEncodedWithdrawalPayloadForBridgeTarget } from '#bridge/bridge';
+import { RestServerClock } from '#client/rest/clock';
+import { getRequestNonce, toIDEXApiError } from '#client/rest/errors';
+import { paginate } from '#client/rest/pagination';
 import { RestPublicClient } from '#client/rest/public';
+import {
+  RestRequestPolicy,
+  type RestRateLimitOptions,
+  type RestRateLimiter,
+  type RestRetryOptions,
+} from '#client/rest/retry';
+import {
+  assertOrderIsValid,
+  OrderValidationError,
+  type OrderValidationMarket,
+  type OrderValidationOptions,
+} from '#orders/validation';
 import { BridgeTarget } from '#types/enums/request';
 
 import type * as idex from '#index';
@@ -138,6 +153,66 @@ export interface RestAuthenticatedClientOptions {
    * @internal
    */
   autoCreateHmacHeader?: boolean;
+  /**
+   * Opt-in retries for failed requests.
+   *
+   * - Provide `true` to use the defaults or a {@link RestRetryOptions} object.
+   * - Requests which change state are only retried when doing so is guaranteed to be safe,
+   *   see {@link RestRetryOptions} for details.
+   *
+   * @defaultValue
+   * ```typescript
+   * false
+   * ```
+   */
+  retry?: RestRetryOptions | boolean;
+  /**
+   * Opt-in client-side rate limiting which throttles requests before they are sent.
+   *
+   * - Provide `true` to use the defaults, a {@link RestRateLimitOptions} object, or
+   *   a {@link RestRateLimiter} instance to share a limit between multiple clients
+   *   using the same API key.
+   *
+   * @defaultValue
+   * ```typescript
+   * false
+   * ```
+   */
+  rateLimit?: RestRateLimitOptions | RestRateLimiter | boolean;
+  /**
+   * The maximum age of the sampled server time used to generate nonces aligned with
+   * the server clock when the `nonce` parameter is omitted from a request.
+   *
+   * - Sampling is lazy rather than periodic: the server time is sampled before generating a
+   *   nonce once this interval has elapsed, so no requests are made while the client is idle.
+   * - If sampling fails, the last known offset is used and sampling is retried after a delay
+   *   which doubles with each consecutive failure, up to this interval.
+   * - Provide `0` to only sample when {@link RestAuthenticatedClient.syncServerTime syncServerTime}
+   *   is called.
+   *
+   * @defaultValue
+   * ```typescript
+   * 300_000 // 5 minutes
+   * ```
+   */
+  serverTimeSyncIntervalMs?: number;
+  /**
+   * Validate orders against the rules of their market before they are signed.
+   *
+   * - When enabled, {@link RestAuthenticatedClient.createOrder createOrder} throws an
+   *   {@link idex.OrderValidationError OrderValidationError} listing all violations instead of
+   *   sending an invalid order, including orders for markets which do not exist.
+   * - Markets are loaded from the public client and cached, or provided with the `markets`
+   *   option, see {@link idex.OrderValidationOptions OrderValidationOptions}.
+   *
+   * @see related {@link idex.validateOrder validateOrder}
+   *
+   * @defaultValue
+   * ```typescript
+   * false
+   * ```
+   */
+  validateOrders?: OrderValidationOptions | boolean;
   /**
    * - This is for internal use only and may not work as expected if used.
    *
@@ -236,12 +311,28 @@ export class RestAuthenticatedClient {
 
   readonly #signer: undefined | idex.SignTypedData = undefined;
 
+  readonly #walletAddress: undefined | string = undefined;
+
   readonly #apiSecret: string;
 
   readonly #axiosConfig: RestAuthenticatedClientOptions['axiosConfig'];
 
   readonly axios: AxiosInstance;
 
+  readonly #policy: RestRequestPolicy;
+
+  readonly #clock: RestServerClock;
+
+  readonly #validateOrders: Required<OrderValidationOptions> | null;
+
+  #validationMarkets: {
+    markets: Map<string, OrderValidationMarket>;
+    time: number;
+  } | null = null;
+
+  #validationMarketsProm: null | Promise<Map<string, OrderValidationMarket>> =
+    null;
+
   #config: {
     baseURL: string;
     sandbox: boolean;
@@ -274,6 +365,17 @@ export class RestAuthenticatedClient {
     });
   }
 
+  /**
+   * The address of the wallet derived from the
+   * {@link RestAuthenticatedClientOptions.walletPrivateKey walletPrivateKey} option,
+   * `undefined` if no private key was provided.
+   *
+   * @category Accessors
+   */
+  public get walletAddress() {
+    return this.#walletAddress;
+  }
+
   /**
    * The {@link RestAuthenticatedClient} is used to make authenticated requests to the IDEX API.  It includes
    * methods that make requests on behalf of a specific wallet such as creating and cancelling orders.
@@ -342,12 +444,36 @@ export class RestAuthenticatedClient {
       autoCreateHmacHeader,
     };
 
+    this.#policy = new RestRequestPolicy({
+      retry: options.retry,
+      rateLimit: options.rateLimit,
+    });
+
+    // the public client shares the rate limit as it uses the same API key
     this.public = new RestPublicClient({
       apiKey: options.apiKey,
       baseURL,
       sandbox,
+      retry: options.retry,
+      rateLimit: this.#policy.rateLimiter ?? undefined,
+    });
+
+    this.#clock = new RestServerClock({
+      getServerTime: () => this.public.getServerTime(),
+      syncIntervalMs: options.serverTimeSyncIntervalMs,
     });
 
+    this.#validateOrders =
+      options.validateOrders ?
+        {
+          markets: [],
+          marketsRefreshIntervalMs: 60_000,
+          ...(typeof options.validateOrders === 'object' ?
+            options.validateOrders
+          : {}),
+        }
+      : null;
+
     this.#axiosConfig = Object.freeze({
       paramsSerializer(params) {
         return sanitizeSearchParams(params ?? {}).toString();
@@ -376,6 +502,7 @@ export class RestAuthenticatedClient {
 
     if (options.walletPrivateKey) {
       this.#signer = createPrivateKeyTypedDataSigner(options.walletPrivateKey);
+      this.#walletAddress = new ethers.Wallet(options.walletPrivateKey).address;
     }
 
     this.axios = Axios.create(this.#axiosConfig);
@@ -388,6 +515,50 @@ export class RestAuthenticatedClient {
     }
   }
 
+  /**
+   * Samples the server time and updates the clock offset used to generate nonces
+   * when the `nonce` parameter is omitted from a request.
+   *
+   * - Sampling happens automatically based on the
+   *   {@link RestAuthenticatedClientOptions.serverTimeSyncIntervalMs serverTimeSyncIntervalMs} option,
+   *   calling this method is only required to sample on demand.
+   *
+   * @returns
+   * - The number of milliseconds the server clock is ahead of the local clock.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestAuthenticatedClient.html#syncServerTime)
+   * @see related  {@link createNonce client.createNonce}
+   *
+   * @category Utility
+   */
+  public async syncServerTime() {
+    return this.#clock.sync();
+  }
+
+  /**
+   * Creates a uuid v1 nonce aligned with the server time.
+   *
+   * - Nonces are generated automatically when the `nonce` parameter is omitted from a request,
+   *   this method is only required when a nonce is needed ahead of time.
+   *
+   * @example
+   * ```typescript
+   * const nonce = await client.createNonce();
+   * ```
+   *
+   * <br />
+   *
+   * ---
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestAuthenticatedClient.html#createNonce)
+   * @see related  {@link syncServerTime client.syncServerTime}
+   *
+   * @category Utility
+   */
+  public async createNonce() {
+    return this.#clock.createNonce();
+  }
+
   /**
    * <br />
    *
@@ -526,11 +697,13 @@ export class RestAuthenticatedClient {
    * @category Wallets & Positions
    */
   public async associateWallet(
-    params: idex.RestRequestAssociateWallet,
+    $params: idex.RestRequestWithOptionalNonce<idex.RestRequestAssociateWallet>,
     signer: undefined | idex.SignTypedData = this.#signer,
   ) {
     ensureSigner(signer);
 
+    const params = await this.withNonce($params);
+
     const { chainId, exchangeContractAddress } =
       await this.getContractAndChainId();
 
@@ -571,8 +744,13 @@ export class RestAuthenticatedClient {
    *
    * @category Wallets & Positions
    */
-  public async getWallets(params: idex.RestRequestGetWallets) {
-    return this.get<idex.RestResponseGetWallets>('/wallets', params);
+  public async getWallets(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetWallets>,
+  ) {
+    return this.get<idex.RestResponseGetWallets>(
+      '/wallets',
+      await this.withNonce(params),
+    );
   }
 
   /**
@@ -600,8 +778,13 @@ export class RestAuthenticatedClient {
    *
    * @category Wallets & Positions
    */
-  public async getPositions(params: idex.RestRequestGetPositions) {
-    return this.get<idex.RestResponseGetPositions>('/positions', params);
+  public async getPositions(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetPositions>,
+  ) {
+    return this.get<idex.RestResponseGetPositions>(
+      '/positions',
+      await this.withNonce(params),
+    );
   }
 
   /**
@@ -628,7 +811,7 @@ export class RestAuthenticatedClient {
    *
    * @example
    * ```typescript
-   * import { OrderType, OrderSide } from '@idexio/idex-sdk';
+   * import { OrderType, OrderSide, isIDEXApiError, isIDEXInsufficientFundsError } from '@idexio/idex-sdk';
    *
    * try {
    *   const order = await client.createOrder({
@@ -645,11 +828,12 @@ export class RestAuthenticatedClient {
    *     quantity: '10.00000000'
    *   });
    * } catch(e) {
-   *   // order placement failed with an unexpected error
-   *   // you may use isAxiosError(e) for stronger typing here if desired
-   *   if (e.response?.data?.code === 'INSUFFICIENT_FUNDS') {
+   *   // order placement failed, API errors are thrown as an IDEXApiError
+   *   if (isIDEXInsufficientFundsError(e)) {
    *      // handle insufficient funds errors
    *      console.log('Insufficient funds to create order');
+   *   } else if (isIDEXApiError(e)) {
+   *      console.error('Failed to create order: ', e.code, e.message);
    *   }
    * }
    * ```
@@ -666,11 +850,29 @@ export class RestAuthenticatedClient {
    * @category Orders
    */
   public async createOrder<T extends idex.OrderType>(
-    params: idex.RestRequestOrder & { type: T },
+    $params: idex.RestRequestWithOptionalNonce<idex.RestRequestOrder> & {
+      type: T;
+    },
     signer: undefined | idex.SignTypedData = this.#signer,
   ) {
     ensureSigner(signer);
 
+    if (this.#validateOrders) {
+      const market = await this.getValidationMarket($params.market);
+      if (!market) {
+        throw new OrderValidationError([
+          {
+            code: 'UNKNOWN_MARKET',
+            field: 'market',
+            message: `Market ${$params.market} does not exist`,
+          },
+        ]);
+      }
+      assertOrderIsValid($params, market);
+    }
+
+    const params: idex.RestRequestOrder = await this.withNonce($params);
+
     const { chainId, exchangeContractAddress } =
       await this.getContractAndChainId();
 
@@ -735,7 +937,7 @@ export class RestAuthenticatedClient {
    * @category Orders
    */
   public async cancelOrders(
-    params: idex.RestRequestCancelOrders,
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestCancelOrders>,
     signer: idex.SignTypedData | undefined = this.#signer,
   ) {
     return this.makeCancelOrdersRequest('/orders', params, signer);
@@ -743,11 +945,13 @@ export class RestAuthenticatedClient {
 
   private async makeCancelOrdersRequest(
     endpoint: string,
-    params: idex.RestRequestCancelOrders,
+    $params: idex.RestRequestWithOptionalNonce<idex.RestRequestCancelOrders>,
     signer: idex.SignTypedData | undefined = this.#signer,
   ) {
     ensureSigner(signer);
 
+    const params: idex.RestRequestCancelOrders = await this.withNonce($params);
+
     const { chainId, exchangeContractAddress } =
       await this.getContractAndChainId();
 
@@ -788,8 +992,13 @@ export class RestAuthenticatedClient {
    *
    * @category Orders
    */
-  public async getOrder(params: idex.RestRequestGetOrder) {
-    return this.get<idex.RestResponseGetOrder>('/orders', params);
+  public async getOrder(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetOrder>,
+  ) {
+    return this.get<idex.RestResponseGetOrder>(
+      '/orders',
+      await this.withNonce(params),
+    );
   }
 
   /**
@@ -816,8 +1025,43 @@ export class RestAuthenticatedClient {
    *
    * @category Orders
    */
-  public async getOrders(params: idex.RestRequestGetOrders) {
-    return this.get<idex.RestResponseGetOrders>('/orders', params);
+  public async getOrders(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetOrders>,
+  ) {
+    return this.get<idex.RestResponseGetOrders>(
+      '/orders',
+      await this.withNonce(params),
+    );
+  }
+
+  /**
+   * Iterates all {@link idex.IDEXOrder IDEXOrder} items matching your request parameters by
+   * requesting as many pages of {@link getOrders client.getOrders} as needed.
+   *
+   * - Each page continues from the `fromId` of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   * - A new `nonce` is generated for each page request.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestAuthenticatedClient.html#iterateOrders)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetOrders RestRequestGetOrders}>
+   * @see type     {@link idex.IDEXOrder IDEXOrder}
+   * @see related  {@link getOrders client.getOrders}
+   *
+   * @category Orders
+   */
+  public iterateOrders(
+    params: idex.RestRequestIterate<idex.RestRequestGetOrders>,
+  ) {
+    return paginate<idex.IDEXOrder, Omit<idex.RestRequestGetOrders, 'nonce'>>(
+      params,
+      {
+        cursor: 'fromId',
+        fetchPage: (request) => this.getOrders(request),
+        getKey: (item) => item.orderId,
+        getTime: (item) => item.time,
+      },
+    );
   }
 
   /**
@@ -841,8 +1085,13 @@ export class RestAuthenticatedClient {
    *
    * @category Fills & Historical
    */
-  public async getFill(params: idex.RestRequestGetFill) {
-    return this.get<idex.RestResponseGetFill>('/fills', params);
+  public async getFill(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetFill>,
+  ) {
+    return this.get<idex.RestResponseGetFill>(
+      '/fills',
+      await this.withNonce(params),
+    );
   }
 
   /**
@@ -869,8 +1118,43 @@ export class RestAuthenticatedClient {
    *
    * @category Fills & Historical
    */
-  public async getFills(params: idex.RestRequestGetFills) {
-    return this.get<idex.RestResponseGetFills>('/fills', params);
+  public async getFills(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetFills>,
+  ) {
+    return this.get<idex.RestResponseGetFills>(
+      '/fills',
+      await this.withNonce(params),
+    );
+  }
+
+  /**
+   * Iterates all {@link idex.IDEXFill IDEXFill} items matching your request parameters by
+   * requesting as many pages of {@link getFills client.getFills} as needed.
+   *
+   * - Each page continues from the `fromId` of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   * - A new `nonce` is generated for each page request.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestAuthenticatedClient.html#iterateFills)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetFills RestRequestGetFills}>
+   * @see type     {@link idex.IDEXFill IDEXFill}
+   * @see related  {@link getFills client.getFills}
+   *
+   * @category Fills & Historical
+   */
+  public iterateFills(
+    params: idex.RestRequestIterate<idex.RestRequestGetFills>,
+  ) {
+    return paginate<idex.IDEXFill, Omit<idex.RestRequestGetFills, 'nonce'>>(
+      params,
+      {
+        cursor: 'fromId',
+        fetchPage: (request) => this.getFills(request),
+        getKey: (item) => item.fillId,
+        getTime: (item) => item.time,
+      },
+    );
   }
 
   /**
@@ -913,8 +1197,13 @@ export class RestAuthenticatedClient {
    *
    * @category Rewards & Payouts
    */
-  public async authorizePayout(params: idex.RestRequestAuthorizePayout) {
-    return this.post<idex.RestResponseAuthorizePayout>('/payouts', params);
+  public async authorizePayout(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestAuthorizePayout>,
+  ) {
+    return this.post<idex.RestResponseAuthorizePayout>(
+      '/payouts',
+      await this.withNonce(params),
+    );
   }
 
   /**
@@ -955,8 +1244,13 @@ export class RestAuthenticatedClient {
    *
    * @category Rewards & Payouts
    */
-  public async getPayouts(params: idex.RestRequestGetPayouts) {
-    return this.get<idex.RestResponseGetPayouts>('/payouts', params);
+  public async getPayouts(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetPayouts>,
+  ) {
+    return this.get<idex.RestResponseGetPayouts>(
+      '/payouts',
+      await this.withNonce(params),
+    );
   }
 
   /**
@@ -984,8 +1278,13 @@ export class RestAuthenticatedClient {
    *
    * @category Deposits & Withdrawals
    */
-  public async getDeposit(params: idex.RestRequestGetDeposit) {
-    return this.get<idex.RestResponseGetDeposit>('/deposits', params);
+  public async getDeposit(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetDeposit>,
+  ) {
+    return this.get<idex.RestResponseGetDeposit>(
+      '/deposits',
+      await this.withNonce(params),
+    );
   }
 
   /**
@@ -1017,8 +1316,43 @@ export class RestAuthenticatedClient {
    *
    * @category Deposits & Withdrawals
    */
-  public async getDeposits(params: idex.RestRequestGetDeposits) {
-    return this.get<idex.RestResponseGetDeposits>('/deposits', params);
+  public async getDeposits(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetDeposits>,
+  ) {
+    return this.get<idex.RestResponseGetDeposits>(
+      '/deposits',
+      await this.withNonce(params),
+    );
+  }
+
+  /**
+   * Iterates all {@link idex.IDEXDeposit IDEXDeposit} items matching your request parameters by
+   * requesting as many pages of {@link getDeposits client.getDeposits} as needed.
+   *
+   * - Each page continues from the `fromId` of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   * - A new `nonce` is generated for each page request.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestAuthenticatedClient.html#iterateDeposits)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetDeposits RestRequestGetDeposits}>
+   * @see type     {@link idex.IDEXDeposit IDEXDeposit}
+   * @see related  {@link getDeposits client.getDeposits}
+   *
+   * @category Deposits & Withdrawals
+   */
+  public iterateDeposits(
+    params: idex.RestRequestIterate<idex.RestRequestGetDeposits>,
+  ) {
+    return paginate<
+      idex.IDEXDeposit,
+      Omit<idex.RestRequestGetDeposits, 'nonce'>
+    >(params, {
+      cursor: 'fromId',
+      fetchPage: (request) => this.getDeposits(request),
+      getKey: (item) => item.depositId,
+      getTime: (item) => item.time,
+    });
   }
 
   /**
@@ -1179,11 +1513,17 @@ export class RestAuthenticatedClient {
    * @category Deposits & Withdrawals
    */
   public async withdraw(
-    $params: idex.RestRequestWithdrawFundsSDK | idex.RestRequestWithdrawFunds,
+    $params: idex.RestRequestWithOptionalNonce<
+      idex.RestRequestWithdrawFundsSDK | idex.RestRequestWithdrawFunds
+    >,
     signer: undefined | idex.SignTypedData = this.#signer,
   ) {
     ensureSigner(signer);
 
+    const paramsWithNonce:
+      | idex.RestRequestWithdrawFundsSDK
+      | idex.RestRequestWithdrawFunds = await this.withNonce($params);
+
     const {
       chainId,
       exchangeContractAddress,
@@ -1192,8 +1532,8 @@ export class RestAuthenticatedClient {
 
     let params: idex.RestRequestWithdrawFunds;
 
-    if ($params.bridgeTarget) {
-      const { bridgeTarget, ...rest } = $params;
+    if (paramsWithNonce.bridgeTarget) {
+      const { bridgeTarget, ...rest } = paramsWithNonce;
 
       params = {
         ...rest,
@@ -1210,7 +1550,7 @@ export class RestAuthenticatedClient {
             ),
       };
     } else {
-      params = $params;
+      params = paramsWithNonce;
     }
 
     return this.post<idex.RestResponseWithdrawFunds>('/withdrawals', {
@@ -1251,8 +1591,13 @@ export class RestAuthenticatedClient {
    *
    * @category Deposits & Withdrawals
    */
-  public async getWithdrawal(params: idex.RestRequestGetWithdrawal) {
-    return this.get<idex.RestResponseGetWithdrawal>('/withdrawals', params);
+  public async getWithdrawal(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetWithdrawal>,
+  ) {
+    return this.get<idex.RestResponseGetWithdrawal>(
+      '/withdrawals',
+      await this.withNonce(params),
+    );
   }
 
   /**
@@ -1284,8 +1629,43 @@ export class RestAuthenticatedClient {
    *
    * @category Deposits & Withdrawals
    */
-  public async getWithdrawals(params: idex.RestRequestGetWithdrawals) {
-    return this.get<idex.RestResponseGetWithdrawals>('/withdrawals', params);
+  public async getWithdrawals(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetWithdrawals>,
+  ) {
+    return this.get<idex.RestResponseGetWithdrawals>(
+      '/withdrawals',
+      await this.withNonce(params),
+    );
+  }
+
+  /**
+   * Iterates all {@link idex.IDEXWithdrawal IDEXWithdrawal} items matching your request parameters by
+   * requesting as many pages of {@link getWithdrawals client.getWithdrawals} as needed.
+   *
+   * - Each page continues from the `fromId` of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   * - A new `nonce` is generated for each page request.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestAuthenticatedClient.html#iterateWithdrawals)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetWithdrawals RestRequestGetWithdrawals}>
+   * @see type     {@link idex.IDEXWithdrawal IDEXWithdrawal}
+   * @see related  {@link getWithdrawals client.getWithdrawals}
+   *
+   * @category Deposits & Withdrawals
+   */
+  public iterateWithdrawals(
+    params: idex.RestRequestIterate<idex.RestRequestGetWithdrawals>,
+  ) {
+    return paginate<
+      idex.IDEXWithdrawal,
+      Omit<idex.RestRequestGetWithdrawals, 'nonce'>
+    >(params, {
+      cursor: 'fromId',
+      fetchPage: (request) => this.getWithdrawals(request),
+      getKey: (item) => item.withdrawalId,
+      getTime: (item) => item.time,
+    });
   }
 
   /**
@@ -1311,9 +1691,39 @@ export class RestAuthenticatedClient {
    * @category Fills & Historical
    */
   public async getFundingPayments<R = idex.RestResponseGetFundingPayments>(
-    params: idex.RestRequestGetFundingPayments,
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetFundingPayments>,
+  ) {
+    return this.get<R>('/fundingPayments', await this.withNonce(params));
+  }
+
+  /**
+   * Iterates all {@link idex.IDEXFundingPayment IDEXFundingPayment} items matching your request parameters by
+   * requesting as many pages of {@link getFundingPayments client.getFundingPayments} as needed.
+   *
+   * - Each page continues from the timestamp of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   * - A new `nonce` is generated for each page request.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestAuthenticatedClient.html#iterateFundingPayments)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetFundingPayments RestRequestGetFundingPayments}>
+   * @see type     {@link idex.IDEXFundingPayment IDEXFundingPayment}
+   * @see related  {@link getFundingPayments client.getFundingPayments}
+   *
+   * @category Fills & Historical
+   */
+  public iterateFundingPayments(
+    params: idex.RestRequestIterate<idex.RestRequestGetFundingPayments>,
   ) {
-    return this.get<R>('/fundingPayments', params);
+    return paginate<
+      idex.IDEXFundingPayment,
+      Omit<idex.RestRequestGetFundingPayments, 'nonce'>
+    >(params, {
+      cursor: 'start',
+      fetchPage: (request) => this.getFundingPayments(request),
+      getKey: (item) => `${item.market}:${item.time}`,
+      getTime: (item) => item.time,
+    });
   }
 
   /**
@@ -1338,11 +1748,13 @@ export class RestAuthenticatedClient {
   public async setInitialMarginFractionOverride<
     R = idex.RestResponseSetInitialMarginFractionOverride,
   >(
-    params: idex.RestRequestSetInitialMarginFractionOverride,
+    $params: idex.RestRequestWithOptionalNonce<idex.RestRequestSetInitialMarginFractionOverride>,
     signer: idex.SignTypedData | undefined = this.#signer,
   ) {
     ensureSigner(signer);
 
+    const params = await this.withNonce($params);
+
     const { chainId, exchangeContractAddress } =
       await this.getContractAndChainId();
 
@@ -1380,8 +1792,13 @@ export class RestAuthenticatedClient {
    */
   public async getInitialMarginFractionOverride<
     R = idex.RestResponseGetInitialMarginFractionOverride,
-  >(params: idex.RestRequestGetInitialMarginFractionOverride) {
-    return this.get<R>('/initialMarginFractionOverride', params);
+  >(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetInitialMarginFractionOverride>,
+  ) {
+    return this.get<R>(
+      '/initialMarginFractionOverride',
+      await this.withNonce(params),
+    );
   }
 
   /**
@@ -1406,13 +1823,45 @@ export class RestAuthenticatedClient {
    *
    * @category Fills & Historical
    */
-  public async getHistoricalPnL(params: idex.RestRequestGetHistoricalPnL) {
+  public async getHistoricalPnL(
+    params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetHistoricalPnL>,
+  ) {
     return this.get<idex.RestResponseGetHistoricalPnL>(
       '/historicalPnL',
-      params,
+      await this.withNonce(params),
     );
   }
 
+  /**
+   * Iterates all {@link idex.IDEXHistoricalProfitLoss IDEXHistoricalProfitLoss} items matching your request parameters by
+   * requesting as many pages of {@link getHistoricalPnL client.getHistoricalPnL} as needed.
+   *
+   * - Each page continues from the timestamp of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   * - A new `nonce` is generated for each page request.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestAuthenticatedClient.html#iterateHistoricalPnL)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetHistoricalPnL RestRequestGetHistoricalPnL}>
+   * @see type     {@link idex.IDEXHistoricalProfitLoss IDEXHistoricalProfitLoss}
+   * @see related  {@link getHistoricalPnL client.getHistoricalPnL}
+   *
+   * @category Fills & Historical
+   */
+  public iterateHistoricalPnL(
+    params: idex.RestRequestIterate<idex.RestRequestGetHistoricalPnL>,
+  ) {
+    return paginate<
+      idex.IDEXHistoricalProfitLoss,
+      Omit<idex.RestRequestGetHistoricalPnL, 'nonce'>
+    >(params, {
+      cursor: 'start',
+      fetchPage: (request) => this.getHistoricalPnL(request),
+      getKey: (item) => String(item.time),
+      getTime: (item) => item.time,
+    });
+  }
+
   /**
    * Returns a single-use authentication token as a string for access
    * to {@link idex.SubscriptionNameAuthenticated authenticated subscriptions}
@@ -1439,11 +1888,15 @@ export class RestAuthenticatedClient {
    *
    * @category WebSocket
    */
-  public async getWsToken(params: idex.RestRequestGetAuthenticationToken) {
-    if (!params.nonce || !params.wallet) {
-      throw new Error('Invalid request, nonce and wallet are required');
+  public async getWsToken(
+    $params: idex.RestRequestWithOptionalNonce<idex.RestRequestGetAuthenticationToken>,
+  ) {
+    if (!$params.wallet) {
+      throw new Error('Invalid request, wallet is required');
     }
 
+    const params = await this.withNonce($params);
+
     return (
       await this.get<idex.RestResponseGetAuthenticationToken>(
         '/wsToken',
@@ -1617,6 +2070,72 @@ export class RestAuthenticatedClient {
 
   // Internal methods exposed for advanced usage
 
+  /**
+   * @internal
+   *
+   * Provides the `nonce` parameter when it was omitted from the request.
+   */
+  private async withNonce<P extends { nonce?: string }>(
+    params: P,
+  ): Promise<P & { nonce: string }> {
+    if (params.nonce) {
+      return params as P & { nonce: string };
+    }
+
+    return { ...params, nonce: await this.#clock.createNonce() };
+  }
+
+  /**
+   * Returns the market an order is validated against, markets are loaded once for all orders
+   * and loaded again when they are older than the refresh interval or the market is unknown.
+   */
+  private async getValidationMarket(
+    market: string,
+  ): Promise<OrderValidationMarket | undefined> {
+    const options = this.#validateOrders;
+    if (!options) {
+      return undefined;
+    }
+
+    if (options.markets.length) {
+      return options.markets.find((validationMarket) => {
+        return validationMarket.market === market;
+      });
+    }
+
+    const cached = this.#validationMarkets;
+    const isExpired =
+      !cached || Date.now() - cached.time >= options.marketsRefreshIntervalMs;
+
+    // a market listed since the markets were loaded would otherwise be unknown
+    if (!isExpired && cached.markets.has(market)) {
+      return cached.markets.get(market);
+    }
+
+    if (!this.#validationMarketsProm) {
+      this.#validationMarketsProm = this.public
+        .getMarkets()
+        .then((markets) => {
+          const marketsBySymbol = new Map(
+            markets.map((validationMarket) => [
+              validationMarket.market,
+              validationMarket,
+            ]),
+          );
+          this.#validationMarkets = {
+            markets: marketsBySymbol,
+            time: Date.now(),
+          };
+          return marketsBySymbol;
+        })
+        .finally(() => {
+          this.#validationMarketsProm = null;
+        });
+    }
+
+    return (await this.#validationMarketsProm).get(market);
+  }
+
   protected async getContractAndChainId() {
     let {
       chainId,
@@ -1827,7 +2346,13 @@ export class RestAuthenticatedClient {
       );
     }
 
-    return this.axios<R>(request);
+    return this.#policy.execute(
+      () =>
+        this.axios<R>(request).catch((error) => {
+          throw toIDEXApiError(error, endpoint, request);
+        }),
+      { method: config.method ?? 'GET', nonce: getRequestNonce(request) },
+    );
   }
 }
 
@@ -0,0 +1,149 @@
+import { v1 as uuidv1 } from 'uuid';
+
+import type { RestResponseGetTime } from '#types/rest/endpoints/GetTime';
+
+/**
+ * @internal
+ */
+export const SERVER_TIME_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * @internal
+ *
+ * How long to wait before sampling again after sampling failed, doubled with each
+ * consecutive failure up to the sync interval.
+ */
+export const SERVER_TIME_SYNC_RETRY_MS = 1_000;
+
+/**
+ * @internal
+ *
+ * Estimates the offset between the server clock and the local clock, assuming
+ * the server time was sampled halfway through the request.
+ */
+export function getServerTimeOffset(
+  requestedAt: number,
+  serverTime: number,
+  receivedAt: number,
+) {
+  return Math.round(serverTime - (requestedAt + receivedAt) / 2);
+}
+
+/**
+ * @internal
+ *
+ * Maintains the offset between the local clock and the IDEX server clock so that
+ * generated nonces are aligned with server time.
+ *
+ * - The server time is sampled before generating a nonce when it has not been sampled
+ *   within `syncIntervalMs`, a `syncIntervalMs` of `0` only samples when {@link sync}
+ *   is called explicitly.
+ * - If sampling fails, the last known offset continues to be used and sampling before
+ *   generating a nonce backs off exponentially, so a degraded API does not receive an
+ *   additional request for every nonce.
+ */
+export class RestServerClock {
+  readonly #getServerTime: () => Promise<RestResponseGetTime>;
+
+  readonly #syncIntervalMs: number;
+
+  #offset = 0;
+
+  #syncedAt: number | null = null;
+
+  #failures = 0;
+
+  #retryAt = 0;
+
+  #syncing: Promise<number> | null = null;
+
+  /**
+   * The number of milliseconds the server clock is ahead of the local clock.
+   */
+  get offset() {
+    return this.#offset;
+  }
+
+  constructor(options: {
+    getServerTime: () => Promise<RestResponseGetTime>;
+    syncIntervalMs?: number;
+  }) {
+    this.#getServerTime = options.getServerTime;
+    this.#syncIntervalMs =
+      options.syncIntervalMs ?? SERVER_TIME_SYNC_INTERVAL_MS;
+  }
+
+  /**
+   * The current server time as estimated from the local clock.
+   */
+  public now() {
+    return Date.now() + this.#offset;
+  }
+
+  /**
+   * Samples the server time and updates the offset, resolving with the new offset.
+   *
+   * - Concurrent calls share the same request.
+   */
+  public async sync(): Promise<number> {
+    if (!this.#syncing) {
+      this.#syncing = this.sample().finally(() => {
+        this.#syncing = null;
+      });
+    }
+
+    return this.#syncing;
+  }
+
+  /**
+   * Creates a uuid v1 nonce using the estimated server time.
+   */
+  public async createNonce(): Promise<string> {
+    if (this.isStale()) {
+      try {
+        await this.sync();
+      } catch {
+        // fall back to the last known offset, the request itself will
+        // surface any connectivity issues
+      }
+    }
+
+    return uuidv1({ msecs: this.now() });
+  }
+
+  private isStale() {
+    if (this.#syncIntervalMs <= 0 || Date.now() < this.#retryAt) {
+      return false;
+    }
+
+    return (
+      this.#syncedAt === null ||
+      Date.now() - this.#syncedAt >= this.#syncIntervalMs
+    );
+  }
+
+  private async sample() {
+    const requestedAt = Date.now();
+    let serverTime: number;
+    try {
+      ({ serverTime } = await this.#getServerTime());
+    } catch (error) {
+      this.#failures += 1;
+      this.#retryAt =
+        Date.now() +
+        Math.min(
+          SERVER_TIME_SYNC_RETRY_MS * 2 ** (this.#failures - 1),
+          this.#syncIntervalMs,
+        );
+      throw error;
+    }
+    const receivedAt = Date.now();
+
+    this.#offset = getServerTimeOffset(requestedAt, serverTime, receivedAt);
+    this.#syncedAt = receivedAt;
+    this.#failures = 0;
+    this.#retryAt = 0;
+
+    return this.#offset;
+  }
+}
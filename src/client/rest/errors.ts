@@ -0,0 +1,360 @@
+/* eslint-disable max-classes-per-file */
+import { isAxiosError } from 'axios';
+
+import type { ErrorShortCodes } from '#types/errors';
+import type { AnyObj } from '#types/utils';
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+/**
+ * The `code` of an {@link IDEXApiError}
+ *
+ * - `UNKNOWN_ERROR` is used when the response did not include a short code and none could be
+ *   derived from its HTTP status.
+ *
+ * @category Errors
+ */
+export type IDEXApiErrorCode = ErrorShortCodes | 'UNKNOWN_ERROR';
+
+/**
+ * @internal
+ */
+export interface IDEXApiErrorDetails {
+  code: IDEXApiErrorCode;
+  message: string;
+  status: number;
+  endpoint: string;
+  method: string;
+  nonce: string | undefined;
+  response: AxiosResponse;
+  cause: unknown;
+}
+
+/**
+ * Thrown by the REST API clients when the IDEX API responds with an error.
+ *
+ * - More specific subclasses are thrown for errors which commonly require special handling:
+ *   - {@link IDEXRateLimitError}
+ *   - {@link IDEXInsufficientFundsError}
+ *   - {@link IDEXAuthenticationError}
+ *   - {@link IDEXValidationError}
+ *   - {@link IDEXNotFoundError}
+ *   - {@link IDEXServiceUnavailableError}
+ * - Requests which fail without receiving a response (network errors, timeouts) reject with
+ *   the original `axios` error.
+ *
+ * @example
+ * ```typescript
+ * import { isIDEXApiError, isIDEXInsufficientFundsError } from '@idexio/idex-sdk';
+ *
+ * try {
+ *   await client.createOrder({ ... });
+ * } catch (error) {
+ *   if (isIDEXInsufficientFundsError(error)) {
+ *     console.log('Insufficient funds to create order');
+ *   } else if (isIDEXApiError(error)) {
+ *     console.error(error.code, error.status, error.message, error.nonce);
+ *   }
+ * }
+ * ```
+ *
+ * <br />
+ *
+ * ---
+ *
+ * @see docs [Error Handling](https://api-docs-v4.idex.io/#errors)
+ *
+ * @category Errors
+ */
+export class IDEXApiError extends Error {
+  /**
+   * The error short code provided by the API, or derived from the HTTP {@link status}
+   * if the response did not include one.
+   */
+  public readonly code: IDEXApiErrorCode;
+
+  /**
+   * The HTTP status code of the response.
+   */
+  public readonly status: number;
+
+  /**
+   * The endpoint that was requested, such as `/orders`.
+   */
+  public readonly endpoint: string;
+
+  /**
+   * The HTTP method of the request.
+   */
+  public readonly method: string;
+
+  /**
+   * The `nonce` which was included in the request, if any.
+   */
+  public readonly nonce: string | undefined;
+
+  /**
+   * The raw `axios` response.
+   *
+   * - Provided so that existing checks such as `error.response?.data?.code` continue to work.
+   */
+  public readonly response: AxiosResponse;
+
+  /**
+   * @internal
+   */
+  constructor(details: IDEXApiErrorDetails) {
+    super(details.message, { cause: details.cause });
+    this.name = new.target.name;
+    this.code = details.code;
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.method = details.method;
+    this.nonce = details.nonce;
+    this.response = details.response;
+  }
+}
+
+/**
+ * The request was rejected because the API rate limit was exceeded (`EXCEEDED_RATE_LIMIT`).
+ *
+ * @see docs [Rate Limits](https://api-docs-v4.idex.io/#rate-limits)
+ *
+ * @category Errors
+ */
+export class IDEXRateLimitError extends IDEXApiError {}
+
+/**
+ * The wallet does not have sufficient funds to complete the request (`INSUFFICIENT_FUNDS`).
+ *
+ * @category Errors
+ */
+export class IDEXInsufficientFundsError extends IDEXApiError {}
+
+/**
+ * The request could not be authenticated or authorized, such as an invalid API key,
+ * HMAC signature, wallet signature or a missing API key scope.
+ *
+ * @category Errors
+ */
+export class IDEXAuthenticationError extends IDEXApiError {}
+
+/**
+ * The request parameters were rejected by the API, such as a missing or invalid parameter.
+ *
+ * @category Errors
+ */
+export class IDEXValidationError extends IDEXApiError {}
+
+/**
+ * The requested resource (order, fill, market, deposit, etc) was not found.
+ *
+ * @category Errors
+ */
+export class IDEXNotFoundError extends IDEXApiError {}
+
+/**
+ * The API is temporarily unavailable (`SERVICE_UNAVAILABLE`), the request may be retried later.
+ *
+ * @category Errors
+ */
+export class IDEXServiceUnavailableError extends IDEXApiError {}
+
+/**
+ * Type guard which returns `true` if the given value is an {@link IDEXApiError} (or one of its subclasses).
+ *
+ * @category Errors
+ */
+export function isIDEXApiError(error: unknown): error is IDEXApiError {
+  return error instanceof IDEXApiError;
+}
+
+/**
+ * Type guard for {@link IDEXRateLimitError}
+ *
+ * @category Errors
+ */
+export function isIDEXRateLimitError(
+  error: unknown,
+): error is IDEXRateLimitError {
+  return error instanceof IDEXRateLimitError;
+}
+
+/**
+ * Type guard for {@link IDEXInsufficientFundsError}
+ *
+ * @category Errors
+ */
+export function isIDEXInsufficientFundsError(
+  error: unknown,
+): error is IDEXInsufficientFundsError {
+  return error instanceof IDEXInsufficientFundsError;
+}
+
+/**
+ * Type guard for {@link IDEXAuthenticationError}
+ *
+ * @category Errors
+ */
+export function isIDEXAuthenticationError(
+  error: unknown,
+): error is IDEXAuthenticationError {
+  return error instanceof IDEXAuthenticationError;
+}
+
+/**
+ * Type guard for {@link IDEXValidationError}
+ *
+ * @category Errors
+ */
+export function isIDEXValidationError(
+  error: unknown,
+): error is IDEXValidationError {
+  return error instanceof IDEXValidationError;
+}
+
+/**
+ * Type guard for {@link IDEXNotFoundError}
+ *
+ * @category Errors
+ */
+export function isIDEXNotFoundError(
+  error: unknown,
+): error is IDEXNotFoundError {
+  return error instanceof IDEXNotFoundError;
+}
+
+/**
+ * Type guard for {@link IDEXServiceUnavailableError}
+ *
+ * @category Errors
+ */
+export function isIDEXServiceUnavailableError(
+  error: unknown,
+): error is IDEXServiceUnavailableError {
+  return error instanceof IDEXServiceUnavailableError;
+}
+
+const authenticationErrorCodes: readonly IDEXApiErrorCode[] = [
+  'INVALID_API_KEY',
+  'REQUIRED_API_KEY',
+  'INVALID_HMAC_SIGNATURE',
+  'REQUIRED_HMAC_SIGNATURE',
+  'REQUIRED_API_KEY_READ_SCOPE',
+  'REQUIRED_API_KEY_TRADE_SCOPE',
+  'REQUIRED_API_KEY_WITHDRAW_SCOPE',
+  'INVALID_WALLET_SIGNATURE',
+  'WALLET_NOT_ASSOCIATED',
+];
+
+const validationErrorCodes: readonly IDEXApiErrorCode[] = [
+  'BAD_REQUEST',
+  'INVALID_API_VERSION',
+  'REQUIRED_PARAMETER',
+  'INVALID_PARAMETER',
+  'INVALID_WITHDRAWAL_QUANTITY',
+  'INVALID_ORDER_QUANTITY',
+];
+
+/**
+ * Used when the response does not include an error short code.
+ */
+const errorCodesByStatus: Readonly<Record<number, IDEXApiErrorCode>> = {
+  400: 'BAD_REQUEST',
+  404: 'ENDPOINT_NOT_FOUND',
+  429: 'EXCEEDED_RATE_LIMIT',
+  500: 'INTERNAL_SERVER_ERROR',
+  503: 'SERVICE_UNAVAILABLE',
+};
+
+function getErrorClass(code: IDEXApiErrorCode, status: number) {
+  if (code === 'EXCEEDED_RATE_LIMIT') {
+    return IDEXRateLimitError;
+  }
+  if (code === 'INSUFFICIENT_FUNDS') {
+    return IDEXInsufficientFundsError;
+  }
+  if (code === 'SERVICE_UNAVAILABLE') {
+    return IDEXServiceUnavailableError;
+  }
+  if (code.endsWith('_NOT_FOUND')) {
+    return IDEXNotFoundError;
+  }
+  if (authenticationErrorCodes.includes(code) || [401, 403].includes(status)) {
+    return IDEXAuthenticationError;
+  }
+  if (validationErrorCodes.includes(code)) {
+    return IDEXValidationError;
+  }
+  return IDEXApiError;
+}
+
+function parseJSON(value: string): AnyObj | undefined {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * @internal
+ *
+ * Signed requests provide the `nonce` within their `parameters` object.
+ */
+export function getRequestNonce(config: AxiosRequestConfig | undefined) {
+  if (!config) {
+    return undefined;
+  }
+
+  const data: AnyObj | undefined =
+    typeof config.data === 'string' ? parseJSON(config.data) : config.data;
+
+  const nonce =
+    data?.parameters?.nonce ??
+    data?.nonce ??
+    (config.params instanceof URLSearchParams ?
+      config.params.get('nonce')
+    : config.params?.nonce);
+
+  return typeof nonce === 'string' ? nonce : undefined;
+}
+
+/**
+ * @internal
+ *
+ * Converts errors which include an API response into the matching {@link IDEXApiError},
+ * all other errors are returned as-is.
+ */
+export function toIDEXApiError(
+  error: unknown,
+  endpoint: string,
+  config: AxiosRequestConfig,
+): unknown {
+  if (!isAxiosError(error) || !error.response) {
+    return error;
+  }
+
+  const { response } = error;
+  const data: { code?: unknown; message?: unknown } | undefined =
+    typeof response.data === 'object' && response.data !== null ?
+      response.data
+    : undefined;
+
+  const code =
+    typeof data?.code === 'string' ?
+      (data.code as IDEXApiErrorCode)
+    : errorCodesByStatus[response.status] ?? 'UNKNOWN_ERROR';
+
+  const ErrorClass = getErrorClass(code, response.status);
+
+  return new ErrorClass({
+    code,
+    message: typeof data?.message === 'string' ? data.message : error.message,
+    status: response.status,
+    endpoint,
+    method: (config.method ?? 'GET').toUpperCase(),
+    nonce: getRequestNonce(error.config ?? config),
+    response,
+    cause: error,
+  });
+}
@@ -1,2 +1,5 @@
 export * from '#client/rest/public';
 export * from '#client/rest/authenticated';
+export * from '#client/rest/errors';
+export * from '#client/rest/retry';
+export * from '#client/rest/pagination';
@@ -0,0 +1,141 @@
+import type { RestRequestPaginationWithFromId } from '#types/rest/common/common';
+
+/**
+ * Options accepted by the `iterate*` methods of the REST API clients in addition
+ * to the request parameters of the endpoint being iterated.
+ *
+ * @example
+ * ```typescript
+ * for await (const fill of client.iterateFills({
+ *   wallet,
+ *   start: Date.now() - 7 * 24 * 60 * 60 * 1000,
+ *   maxItems: 10_000,
+ * })) {
+ *   console.log(fill.fillId);
+ * }
+ * ```
+ *
+ * @category API Clients
+ */
+export interface RestPaginationOptions {
+  /**
+   * Stops iterating once this many items have been yielded.
+   *
+   * - When not provided, iterates until {@link RestRequestPaginationWithFromId.end end} (if provided)
+   *   or until all available items have been yielded.
+   */
+  maxItems?: number;
+}
+
+/**
+ * The request parameters accepted by an `iterate*` method.
+ *
+ * - {@link RestRequestPaginationWithFromId.limit limit} is used as the page size of each request and
+ *   defaults to the maximum of `1000`.
+ * - Iteration walks forward in ascending time order from {@link RestRequestPaginationWithFromId.start start}
+ *   (or {@link RestRequestPaginationWithFromId.fromId fromId}), or from the oldest available item when neither
+ *   is provided.
+ * - The `nonce` of authenticated requests is generated for each page.
+ *
+ * @category API Clients
+ */
+export type RestRequestIterate<R> = Omit<R, 'nonce' | 'page'> &
+  RestPaginationOptions;
+
+/**
+ * @internal
+ */
+export const REST_PAGINATION_MAX_LIMIT = 1000;
+
+/**
+ * @internal
+ */
+export interface RestPaginationConfig<T, P> {
+  /**
+   * - `fromId` endpoints continue from the identifier of the last item of each page
+   * - `start` endpoints continue from the timestamp of the last item of each page
+   */
+  cursor: 'fromId' | 'start';
+  fetchPage(params: P): Promise<T[]>;
+  /**
+   * Uniquely identifies an item, used to remove the items repeated at page boundaries
+   * as both `fromId` and `start` are inclusive.
+   */
+  getKey(item: T): string;
+  getTime(item: T): number;
+}
+
+/**
+ * @internal
+ *
+ * Requests pages of an endpoint which supports {@link RestRequestPaginationWithFromId} parameters
+ * and yields their items in ascending time order.
+ */
+export async function* paginate<T, P extends RestRequestPaginationWithFromId>(
+  params: P & RestPaginationOptions,
+  config: RestPaginationConfig<T, P>,
+): AsyncGenerator<T, void, undefined> {
+  const { maxItems, start, fromId, ...request } = params;
+  const { end } = request;
+  const limit = request.limit ?? REST_PAGINATION_MAX_LIMIT;
+
+  let cursor: RestRequestPaginationWithFromId =
+    fromId !== undefined ? { fromId } : { start: start ?? 0 };
+  let previousKeys = new Set<string>();
+  let count = 0;
+
+  if (maxItems !== undefined && maxItems <= 0) {
+    return;
+  }
+
+  for (;;) {
+    // eslint-disable-next-line no-await-in-loop
+    const page = await config.fetchPage({
+      ...request,
+      ...cursor,
+      limit,
+    } as P);
+
+    const keys = new Set<string>();
+    let added = 0;
+
+    for (const item of page) {
+      const key = config.getKey(item);
+      keys.add(key);
+
+      // eslint-disable-next-line no-continue
+      if (previousKeys.has(key)) continue;
+
+      if (end !== undefined && config.getTime(item) > end) {
+        return;
+      }
+
+      yield item;
+
+      added += 1;
+      count += 1;
+
+      if (maxItems !== undefined && count >= maxItems) {
+        return;
+      }
+    }
+
+    const last = page[page.length - 1];
+
+    if (page.length < limit || !last) {
+      return;
+    }
+
+    if (added === 0) {
+      throw new Error(
+        `paginate: unable to advance past ${limit} items at the same cursor, increase the "limit" parameter`,
+      );
+    }
+
+    cursor =
+      config.cursor === 'fromId' ?
+        { fromId: config.getKey(last) }
+      : { start: config.getTime(last) };
+    previousKeys = keys;
+  }
+}
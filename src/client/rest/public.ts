@@ -11,6 +11,17 @@ import {
   sanitizeSearchParams,
 } from '#utils';
 
+import { getRequestNonce, toIDEXApiError } from '#client/rest/errors';
+import { paginate } from '#client/rest/pagination';
+import {
+  DEFAULT_REQUESTS_PER_SECOND,
+  DEFAULT_REQUESTS_PER_SECOND_WITHOUT_API_KEY,
+  RestRequestPolicy,
+  type RestRateLimitOptions,
+  type RestRateLimiter,
+  type RestRetryOptions,
+} from '#client/rest/retry';
+
 import type * as idex from '#index';
 import type { AnyObj } from '#types/utils';
 import type {
@@ -45,6 +56,33 @@ export interface RestPublicClientOptions {
    */
   apiKey?: string;
 
+  /**
+   * Opt-in retries for failed requests.
+   *
+   * - Provide `true` to use the defaults or a {@link RestRetryOptions} object.
+   * - Requests which change state are only retried when doing so is guaranteed to be safe,
+   *   see {@link RestRetryOptions} for details.
+   *
+   * @defaultValue
+   * ```typescript
+   * false
+   * ```
+   */
+  retry?: RestRetryOptions | boolean;
+  /**
+   * Opt-in client-side rate limiting which throttles requests before they are sent.
+   *
+   * - Provide `true` to use the defaults, a {@link RestRateLimitOptions} object, or
+   *   a {@link RestRateLimiter} instance to share a limit between multiple clients
+   *   using the same API key.
+   *
+   * @defaultValue
+   * ```typescript
+   * false
+   * ```
+   */
+  rateLimit?: RestRateLimitOptions | RestRateLimiter | boolean;
+
   /**
    * Override the API url
    *
@@ -161,6 +199,15 @@ export class RestPublicClient {
       );
     }
 
+    this.#policy = new RestRequestPolicy({
+      retry: options.retry,
+      rateLimit: options.rateLimit,
+      defaultRequestsPerSecond:
+        options.apiKey ?
+          DEFAULT_REQUESTS_PER_SECOND
+        : DEFAULT_REQUESTS_PER_SECOND_WITHOUT_API_KEY,
+    });
+
     this.#axiosConfig = Object.freeze({
       paramsSerializer(params) {
         return sanitizeSearchParams(params ?? {}).toString();
@@ -383,6 +430,32 @@ export class RestPublicClient {
     return this.get<idex.RestResponseGetCandles>('/candles', params);
   }
 
+  /**
+   * Iterates all {@link idex.IDEXCandle IDEXCandle} items matching your request parameters by
+   * requesting as many pages of {@link getCandles client.getCandles} as needed.
+   *
+   * - Each page continues from the timestamp of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestPublicClient.html#iterateCandles)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetCandles RestRequestGetCandles}>
+   * @see type     {@link idex.IDEXCandle IDEXCandle}
+   * @see related  {@link getCandles client.getCandles}
+   *
+   * @category Exchange Data
+   */
+  public iterateCandles(
+    params: idex.RestRequestIterate<idex.RestRequestGetCandles>,
+  ) {
+    return paginate<idex.IDEXCandle, idex.RestRequestGetCandles>(params, {
+      cursor: 'start',
+      fetchPage: (request) => this.getCandles(request),
+      getKey: (item) => String(item.start),
+      getTime: (item) => item.start,
+    });
+  }
+
   /**
    * Returns trade data for a market. In this documentation, "trades" refers to public information about trades, whereas "fills" refers to detailed non-public information about trades resulting from orders placed by the API account.
    *
@@ -416,6 +489,32 @@ export class RestPublicClient {
     return this.get<idex.RestResponseGetTrades>('/trades', params);
   }
 
+  /**
+   * Iterates all {@link idex.IDEXTrade IDEXTrade} items matching your request parameters by
+   * requesting as many pages of {@link getTrades client.getTrades} as needed.
+   *
+   * - Each page continues from the `fromId` of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestPublicClient.html#iterateTrades)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetTrades RestRequestGetTrades}>
+   * @see type     {@link idex.IDEXTrade IDEXTrade}
+   * @see related  {@link getTrades client.getTrades}
+   *
+   * @category Exchange Data
+   */
+  public iterateTrades(
+    params: idex.RestRequestIterate<idex.RestRequestGetTrades>,
+  ) {
+    return paginate<idex.IDEXTrade, idex.RestRequestGetTrades>(params, {
+      cursor: 'fromId',
+      fetchPage: (request) => this.getTrades(request),
+      getKey: (item) => item.fillId,
+      getTime: (item) => item.time,
+    });
+  }
+
   /**
    * Returns a level-1 order book of a market.
    *
@@ -497,6 +596,35 @@ export class RestPublicClient {
     return this.get<idex.RestResponseGetLiquidations>('/liquidations', params);
   }
 
+  /**
+   * Iterates all {@link idex.IDEXLiquidation IDEXLiquidation} items matching your request parameters by
+   * requesting as many pages of {@link getLiquidations client.getLiquidations} as needed.
+   *
+   * - Each page continues from the `fromId` of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestPublicClient.html#iterateLiquidations)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetLiquidations RestRequestGetLiquidations}>
+   * @see type     {@link idex.IDEXLiquidation IDEXLiquidation}
+   * @see related  {@link getLiquidations client.getLiquidations}
+   *
+   * @category Exchange Data
+   */
+  public iterateLiquidations(
+    params: idex.RestRequestIterate<idex.RestRequestGetLiquidations>,
+  ) {
+    return paginate<idex.IDEXLiquidation, idex.RestRequestGetLiquidations>(
+      params,
+      {
+        cursor: 'fromId',
+        fetchPage: (request) => this.getLiquidations(request),
+        getKey: (item) => item.fillId,
+        getTime: (item) => item.time,
+      },
+    );
+  }
+
   /**
    * Get Funding Rates
    *
@@ -523,6 +651,35 @@ export class RestPublicClient {
     return this.get<idex.RestResponseGetFundingRates>('/fundingRates', params);
   }
 
+  /**
+   * Iterates all {@link idex.IDEXFundingRate IDEXFundingRate} items matching your request parameters by
+   * requesting as many pages of {@link getFundingRates client.getFundingRates} as needed.
+   *
+   * - Each page continues from the timestamp of the last item of each page, items repeated at page boundaries are only yielded once.
+   * - Iteration stops at {@link idex.RestRequestPagination.end end} or after
+   *   {@link idex.RestPaginationOptions.maxItems maxItems} items, if provided.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/RestPublicClient.html#iterateFundingRates)
+   * @see request  {@link idex.RestRequestIterate RestRequestIterate}<{@link idex.RestRequestGetFundingRates RestRequestGetFundingRates}>
+   * @see type     {@link idex.IDEXFundingRate IDEXFundingRate}
+   * @see related  {@link getFundingRates client.getFundingRates}
+   *
+   * @category Exchange Data
+   */
+  public iterateFundingRates(
+    params: idex.RestRequestIterate<idex.RestRequestGetFundingRates>,
+  ) {
+    return paginate<idex.IDEXFundingRate, idex.RestRequestGetFundingRates>(
+      params,
+      {
+        cursor: 'start',
+        fetchPage: (request) => this.getFundingRates(request),
+        getKey: (item) => String(item.time),
+        getTime: (item) => item.time,
+      },
+    );
+  }
+
   /**
    * - All requests within the internal symbol are undocumented internal methods which may change or be removed without notice.
    * - API handling of the parameters used within these methods is likely to change without notice without changes to the SDK to match.
@@ -572,11 +729,19 @@ export class RestPublicClient {
       request.headers['IDEX-Web-Client'] = 'realtime-sdk';
     }
 
-    return this.axios<R>(request);
+    return this.#policy.execute(
+      () =>
+        this.axios<R>(request).catch((error) => {
+          throw toIDEXApiError(error, endpoint, request);
+        }),
+      { method: request.method, nonce: getRequestNonce(request) },
+    );
   }
 
   readonly axios: AxiosInstance;
 
+  readonly #policy: RestRequestPolicy;
+
   readonly #axiosConfig: RestPublicClientOptions['axiosConfig'] & {};
 }
 
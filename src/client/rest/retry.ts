@@ -0,0 +1,309 @@
+/* eslint-disable max-classes-per-file */
+import { IDEXApiError } from '#client/rest/errors';
+
+/**
+ * Opt-in retry policy for the REST API clients.
+ *
+ * - `GET` requests are retried on rate limit errors, `5xx` errors and network errors.
+ * - Requests which change state (`POST`, `DELETE`, etc) are only retried when they include a `nonce`
+ *   and the API responded with `EXCEEDED_RATE_LIMIT` or `SERVICE_UNAVAILABLE`, which guarantees the
+ *   request was not processed. The exact same signed request (and `nonce`) is sent again, so a retried
+ *   request can never be processed twice.
+ * - The `Retry-After` response header is honored when provided, otherwise the delay is computed using
+ *   an exponential backoff with jitter.
+ *
+ * @example
+ * ```typescript
+ * const client = new RestAuthenticatedClient({
+ *   // ...
+ *   retry: { maxAttempts: 5, baseDelayMs: 250 },
+ * });
+ * ```
+ *
+ * @category API Clients
+ */
+export interface RestRetryOptions {
+  /**
+   * The maximum number of attempts, including the initial request.
+   *
+   * @defaultValue
+   * ```typescript
+   * 3
+   * ```
+   */
+  maxAttempts?: number;
+  /**
+   * The delay before the first retry, doubled on each subsequent retry.
+   *
+   * @defaultValue
+   * ```typescript
+   * 500
+   * ```
+   */
+  baseDelayMs?: number;
+  /**
+   * The maximum delay between attempts, including delays requested by a `Retry-After` header.
+   *
+   * @defaultValue
+   * ```typescript
+   * 10_000
+   * ```
+   */
+  maxDelayMs?: number;
+}
+
+/**
+ * Options for the client-side token bucket which throttles requests before they are sent
+ * so that the API rate limits are not exceeded.
+ *
+ * @see docs [Rate Limits](https://api-docs-v4.idex.io/#rate-limits)
+ *
+ * @category API Clients
+ */
+export interface RestRateLimitOptions {
+  /**
+   * The sustained number of requests allowed per second.
+   *
+   * @defaultValue
+   * ```typescript
+   * // 5 for public clients created without an apiKey
+   * 10
+   * ```
+   */
+  requestsPerSecond?: number;
+  /**
+   * The maximum number of requests which may be sent at once before throttling.
+   *
+   * @defaultValue {@link requestsPerSecond}
+   */
+  burst?: number;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RestRetryOptions> = Object.freeze({
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+});
+
+/**
+ * @internal
+ */
+export const DEFAULT_REQUESTS_PER_SECOND = 10;
+
+/**
+ * @internal
+ */
+export const DEFAULT_REQUESTS_PER_SECOND_WITHOUT_API_KEY = 5;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+}
+
+/**
+ * A token bucket used to throttle requests made by the REST API clients.
+ *
+ * - A single instance may be provided to the `rateLimit` option of multiple clients
+ *   which share the same API key so that all of their requests count toward the same limit.
+ *
+ * @example
+ * ```typescript
+ * const rateLimit = new RestRateLimiter({ requestsPerSecond: 10 });
+ *
+ * const publicClient = new RestPublicClient({ apiKey, rateLimit });
+ * const authenticatedClient = new RestAuthenticatedClient({ apiKey, apiSecret, rateLimit });
+ * ```
+ *
+ * @category API Clients
+ */
+export class RestRateLimiter {
+  readonly #capacity: number;
+
+  readonly #tokensPerMs: number;
+
+  #tokens: number;
+
+  #lastRefillAt: number;
+
+  constructor(options: RestRateLimitOptions = {}) {
+    const requestsPerSecond =
+      options.requestsPerSecond ?? DEFAULT_REQUESTS_PER_SECOND;
+
+    if (requestsPerSecond <= 0) {
+      throw new Error('RestRateLimiter: requestsPerSecond must be positive');
+    }
+
+    this.#capacity = Math.max(1, options.burst ?? requestsPerSecond);
+    this.#tokensPerMs = requestsPerSecond / 1000;
+    this.#tokens = this.#capacity;
+    this.#lastRefillAt = Date.now();
+  }
+
+  /**
+   * Resolves once a request may be sent.
+   *
+   * - Tokens are reserved in the order requested so concurrent requests are sent in order.
+   */
+  public async acquire(): Promise<void> {
+    this.refill();
+
+    this.#tokens -= 1;
+
+    if (this.#tokens >= 0) {
+      return;
+    }
+
+    await sleep(Math.ceil(-this.#tokens / this.#tokensPerMs));
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.#tokens = Math.min(
+      this.#capacity,
+      this.#tokens + (now - this.#lastRefillAt) * this.#tokensPerMs,
+    );
+    this.#lastRefillAt = now;
+  }
+}
+
+/**
+ * @internal
+ *
+ * The retry and rate limit handling used by the REST API clients, created from
+ * their `retry` and `rateLimit` options.
+ */
+export class RestRequestPolicy {
+  readonly #retry: Required<RestRetryOptions> | null;
+
+  readonly #rateLimiter: RestRateLimiter | null;
+
+  /**
+   * The rate limiter used by this policy, if any.
+   */
+  get rateLimiter() {
+    return this.#rateLimiter;
+  }
+
+  constructor(options: {
+    retry?: RestRetryOptions | boolean;
+    rateLimit?: RestRateLimitOptions | RestRateLimiter | boolean;
+    defaultRequestsPerSecond?: number;
+  }) {
+    const { retry, rateLimit } = options;
+
+    this.#retry =
+      retry ?
+        {
+          ...DEFAULT_RETRY_OPTIONS,
+          ...(typeof retry === 'object' ? retry : {}),
+        }
+      : null;
+
+    if (rateLimit instanceof RestRateLimiter) {
+      this.#rateLimiter = rateLimit;
+    } else if (rateLimit) {
+      this.#rateLimiter = new RestRateLimiter({
+        requestsPerSecond: options.defaultRequestsPerSecond,
+        ...(typeof rateLimit === 'object' ? rateLimit : {}),
+      });
+    } else {
+      this.#rateLimiter = null;
+    }
+  }
+
+  /**
+   * Executes the request, throttling and retrying it as configured.
+   */
+  public async execute<T>(
+    send: () => Promise<T>,
+    request: { method: string; nonce: string | undefined },
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt += 1) {
+      if (this.#rateLimiter) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.#rateLimiter.acquire();
+      }
+
+      try {
+        // eslint-disable-next-line no-await-in-loop
+        return await send();
+      } catch (error) {
+        if (
+          !this.#retry ||
+          attempt >= this.#retry.maxAttempts ||
+          !isRetryableRequestError(error, request)
+        ) {
+          throw error;
+        }
+
+        // eslint-disable-next-line no-await-in-loop
+        await sleep(getRetryDelayMs(error, attempt, this.#retry));
+      }
+    }
+  }
+}
+
+/**
+ * @internal
+ *
+ * Determines if a failed request can be safely retried.
+ */
+export function isRetryableRequestError(
+  error: unknown,
+  request: { method: string; nonce: string | undefined },
+): boolean {
+  const isRejectedBeforeProcessing =
+    error instanceof IDEXApiError &&
+    (error.code === 'EXCEEDED_RATE_LIMIT' ||
+      error.code === 'SERVICE_UNAVAILABLE');
+
+  if (request.method.toUpperCase() !== 'GET') {
+    // it is only safe to resend the same request when the nonce guarantees
+    // it can not be processed twice
+    return !!request.nonce && isRejectedBeforeProcessing;
+  }
+
+  if (error instanceof IDEXApiError) {
+    return isRejectedBeforeProcessing || error.status >= 500;
+  }
+
+  // network errors and timeouts
+  return true;
+}
+
+/**
+ * @internal
+ *
+ * Uses the `Retry-After` header when provided, otherwise exponential backoff with jitter.
+ */
+export function getRetryDelayMs(
+  error: unknown,
+  attempt: number,
+  options: Required<RestRetryOptions>,
+  now = Date.now(),
+): number {
+  const retryAfter =
+    error instanceof IDEXApiError ?
+      error.response.headers?.['retry-after']
+    : undefined;
+
+  if (retryAfter !== undefined && retryAfter !== null) {
+    const seconds = Number(retryAfter);
+    const retryAfterMs =
+      Number.isFinite(seconds) ?
+        seconds * 1000
+      : new Date(String(retryAfter)).getTime() - now;
+
+    if (Number.isFinite(retryAfterMs)) {
+      return Math.min(options.maxDelayMs, Math.max(0, retryAfterMs));
+    }
+  }
+
+  const delayMs = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (attempt - 1),
+  );
+
+  return delayMs / 2 + Math.random() * (delayMs / 2);
+}
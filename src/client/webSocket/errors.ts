@@ -0,0 +1,80 @@
+/* eslint-disable max-classes-per-file */
+import type { WebSocketClient as _WebSocketClient } from '#client/webSocket/index';
+import type {
+  IDEXErrorEvent as _IDEXErrorEvent,
+  WebSocketClientOptions as _WebSocketClientOptions,
+} from '#types/webSocket/index';
+
+/**
+ * Error codes produced by the {@link _WebSocketClient WebSocketClient} itself rather than the server.
+ *
+ * - `REQUEST_TIMEOUT` the server did not respond to the request within the configured
+ *   {@link _WebSocketClientOptions.requestTimeoutMs requestTimeoutMs}.
+ * - `CONNECTION_CLOSED` the connection was closed before the server responded to the request.
+ *
+ * @category WebSocket - Errors
+ */
+export type WebSocketRequestErrorClientCode =
+  | 'REQUEST_TIMEOUT'
+  | 'CONNECTION_CLOSED';
+
+/**
+ * Rejection reason for the promise-returning request methods of the {@link _WebSocketClient WebSocketClient}
+ * such as {@link _WebSocketClient.subscribePublicAsync subscribePublicAsync}.
+ *
+ * - When the server responded with an {@link _IDEXErrorEvent IDEXErrorEvent}, the `code` and `message`
+ *   are those provided by the server.
+ * - Otherwise `code` will be one of {@link WebSocketRequestErrorClientCode}.
+ *
+ * @example
+ * ```typescript
+ *  try {
+ *    await client.subscribePublicAsync([{ name: SubscriptionNamePublic.tickers }], ['ETH-USD']);
+ *  } catch (error) {
+ *    if (error instanceof WebSocketRequestError) {
+ *      console.error('Subscribe Failed: ', error.code, error.message, error.cid);
+ *    }
+ *  }
+ * ```
+ *
+ * @category WebSocket - Errors
+ */
+export class WebSocketRequestError extends Error {
+  /**
+   * The error short code provided by the server or one of {@link WebSocketRequestErrorClientCode}
+   */
+  public readonly code: string;
+
+  /**
+   * The `cid` of the request which failed.
+   */
+  public readonly cid: string;
+
+  constructor(code: string, message: string, cid: string) {
+    super(message);
+    this.name = 'WebSocketRequestError';
+    this.code = code;
+    this.cid = cid;
+  }
+}
+
+/**
+ * Thrown by a {@link _WebSocketClient.stream stream} using the `error` overflow policy when
+ * an update is received while its buffer is full.
+ *
+ * @category WebSocket - Errors
+ */
+export class WebSocketStreamOverflowError extends Error {
+  /**
+   * The size of the buffer which overflowed.
+   */
+  public readonly bufferSize: number;
+
+  constructor(bufferSize: number) {
+    super(
+      `WebSocket: Stream buffer of ${bufferSize} updates overflowed, updates are not being consumed fast enough`,
+    );
+    this.name = 'WebSocketStreamOverflowError';
+    this.bufferSize = bufferSize;
+  }
+}
@@ -4,16 +4,27 @@ import { v1 as uuidv1 } from 'uuid';
 import { deriveBaseURL, isNode } from '#utils';
 
 import { RestAuthenticatedClient } from '#client/rest/authenticated';
+import { WebSocketRequestError } from '#client/webSocket/errors';
 import * as guards from '#client/webSocket/guards';
+import {
+  WEBSOCKET_STREAM_BUFFER_SIZE,
+  WebSocketStream,
+} from '#client/webSocket/stream';
+import {
+  getSubscriptionKey,
+  getSubscriptionReferenceKeys,
+  trackSubscriptions,
+  untrackSubscriptions,
+} from '#client/webSocket/subscriptions';
 import { transformWebsocketShortResponseMessage } from '#client/webSocket/transform';
 import {
+  SubscriptionNamePublic,
   WebSocketRequestMethod,
-  type SubscriptionNamePublic as _SubscriptionNamePublic,
   type SubscriptionNameAuthenticated as _SubscriptionNameAuthenticated,
 } from '#types/enums/request';
+import { MessageEventType } from '#types/enums/response';
 
 import type * as idex from '#index';
-import type { MessageEventType as _MessageEventType } from '#types/enums/response';
 import type {
   WebSocketClientOptions,
   WebSocketClientOptionsWithAPIKey,
@@ -21,15 +32,22 @@ import type {
   WebSocketRequest,
   WebSocketRequestUnsubscribeShortNames,
   IDEXMessageEvent,
+  IDEXSubscriptionsListEvent,
+  IDEXSubscriptionEvent,
   IDEXSubscribeTypeAuthenticated,
   IDEXSubscribeTypePublic,
   IDEXSubscribeType,
   WebSocketClientOptionsInitialized,
   WebSocketRequestUnsubscribeSubscription,
   WebSocketClientOptionsPublicOnly as _WebSocketClientOptionsPublicOnly,
+  WebSocketStreamEventData,
+  WebSocketStreamName,
+  WebSocketStreamOptions,
 } from '#types/webSocket/index';
 
+export * from '#client/webSocket/errors';
 export * from '#client/webSocket/guards';
+export { WebSocketStream } from '#client/webSocket/stream';
 
 export { transformWebsocketShortResponseMessage };
 
@@ -49,6 +67,15 @@ let autoId = 1;
  */
 export const WEBSOCKET_PING_TIMEOUT_MS = 30_000;
 
+/**
+ * @internal
+ *
+ * How long to wait for the server to respond to a request made with one of the
+ * promise-returning request methods (in milliseconds) unless overridden by the
+ * `requestTimeoutMs` option.
+ */
+export const WEBSOCKET_REQUEST_TIMEOUT_MS = 10_000;
+
 /**
  * WebSocket Client handler for the `onConnect` method
  */
@@ -72,6 +99,15 @@ export type WebSocketHandlerError = (error: WebSocket.ErrorEvent) => unknown;
  */
 export type WebSocketHandlerMessage = (message: IDEXMessageEvent) => unknown;
 
+/**
+ * WebSocket Client handler for the `onResubscribed` method
+ *
+ * - Receives the subscriptions which were replayed after the client reconnected.
+ */
+export type WebSocketHandlerResubscribed = (
+  subscriptions: IDEXSubscribeType[],
+) => unknown;
+
 /**
  * ### WebSocket API client
  *
@@ -200,6 +236,63 @@ export class WebSocketClient {
     disconnectHandlers: new Set<WebSocketHandlerDisconnect>(),
     errorHandlers: new Set<WebSocketHandlerError>(),
     messageHandlers: new Set<WebSocketHandlerMessage>(),
+    resubscribedHandlers: new Set<WebSocketHandlerResubscribed>(),
+    /**
+     * The subscriptions which are currently active, keyed by subscription name (and
+     * interval for candles) so that they can be replayed after a reconnect.
+     * @private
+     */
+    subscriptions: new Map<string, IDEXSubscribeType>(),
+    /**
+     * Set to true when the connection was lost unexpectedly and the tracked
+     * subscriptions should be replayed once the connection is re-established.
+     * @private
+     */
+    shouldResubscribe: false,
+    /**
+     * Requests made with the promise-returning request methods which are awaiting
+     * a response from the server, keyed by their `cid`.
+     * @private
+     */
+    pendingRequests: new Map<
+      string,
+      {
+        resolve: (message: IDEXSubscriptionsListEvent) => void;
+        reject: (error: WebSocketRequestError | Error) => void;
+        timeoutId: ReturnType<typeof setTimeout>;
+      }
+    >(),
+    /**
+     * Subscriptions requested with {@link subscribePublic} and {@link subscribeAuthenticated}
+     * which are awaiting confirmation from the server, keyed by the `cid` of their request.
+     * They are only tracked once the server has confirmed them.
+     * @private
+     */
+    pendingSubscriptions: new Map<
+      string,
+      Array<{ subscriptions: IDEXSubscribeType[]; markets?: string[] }>
+    >(),
+    /**
+     * Streams which have started iterating along with a filter which determines which
+     * subscription events should be provided to them.
+     * @private
+     */
+    streams: new Map<
+      WebSocketStream<unknown>,
+      (event: IDEXSubscriptionEvent) => boolean
+    >(),
+    /**
+     * The number of open streams using each subscription (and market), the subscription
+     * is only unsubscribed once no streams are using it.
+     * @private
+     */
+    streamReferences: new Map<string, number>(),
+    /**
+     * The subscriptions (and markets) which were also subscribed to directly rather than
+     * by a stream, closing a stream never unsubscribes them.
+     * @private
+     */
+    directReferences: new Set<string>(),
   };
 
   readonly #websocketCustomAuthTokenFetcher:
@@ -266,6 +359,23 @@ export class WebSocketClient {
     return this.ws.readyState === this.ws.OPEN;
   }
 
+  /**
+   * The subscriptions this client has requested which are currently considered active.
+   *
+   * - Updated once the server confirms the subscriptions requested by {@link subscribePublic}
+   *   and {@link subscribeAuthenticated}, subscriptions the server rejects are not tracked.
+   * - Updated when calling {@link unsubscribe}.
+   * - These are the subscriptions that are replayed when the client reconnects, see
+   *   {@link idex.WebSocketClientOptions.shouldResubscribeAutomatically shouldResubscribeAutomatically}.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/WebSocketClient.html#subscriptions)
+   *
+   * @category Accessors
+   */
+  get subscriptions(): IDEXSubscribeType[] {
+    return Array.from(this.#state.subscriptions.values());
+  }
+
   /**
    * ### WebSocket API client
    *
@@ -373,6 +483,10 @@ export class WebSocketClient {
       baseRestApiURL,
       shouldReconnectAutomatically:
         options.shouldReconnectAutomatically ?? true,
+      shouldResubscribeAutomatically:
+        options.shouldResubscribeAutomatically ?? true,
+      requestTimeoutMs:
+        options.requestTimeoutMs ?? WEBSOCKET_REQUEST_TIMEOUT_MS,
       // eslint-disable-next-line no-plusplus
       clientId: options.clientId ?? `${autoId++}`,
     };
@@ -405,6 +519,15 @@ export class WebSocketClient {
     }
   }
 
+  private throwIfPublicOnly(method: string) {
+    if (this.isPublicOnly) {
+      throw new Error(
+        `[${method}] Cannot subscribe to authenticated subscriptions ` +
+          'without providing the apiKey, apiSecret, and wallet options during client construction',
+      );
+    }
+  }
+
   private throwIfTerminated() {
     if (this.terminated) {
       throw new Error(
@@ -444,6 +567,7 @@ export class WebSocketClient {
     // connect and await connection to succeed
     const connectionProm = this.createWebSocketIfNeeded(true).then(() => {
       this.#state.connectHandlers.forEach((listener) => listener());
+      this.resubscribeIfNeeded();
     });
 
     if (awaitConnected) {
@@ -459,6 +583,7 @@ export class WebSocketClient {
    * - If `terminate` is `true`, the WebSocket will be disconnected immediately and this client will
    *   cease to work or connect.
    *   - All listeners will be cleared and all methods will throw errors once terminated.
+   * - Active {@link subscriptions} are forgotten and will not be replayed if you connect again.
    *
    * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/WebSocketClient.html#disconnect)
    *
@@ -471,44 +596,16 @@ export class WebSocketClient {
       return this;
     }
 
-    this.#state.doNotReconnect = true;
-
-    this.log('info', 'Disconnecting from WebSocket');
-
-    this.stopPinging();
-
-    this.cancelReconnect();
-
-    if (!this.#ws) {
-      if (terminate) {
-        this.#terminated = true;
-      }
-      return this; // Already disconnected
-    }
-
-    this.#state.doNotReconnect = true;
+    this.#state.subscriptions.clear();
+    this.#state.shouldResubscribe = false;
 
-    if (terminate) {
-      this.#options.shouldReconnectAutomatically = false;
-      this.#terminated = true;
+    this.closeWebSocket(terminate);
 
-      // handlers are not called when terminating
-      this.#state.connectHandlers.clear();
-      this.#state.disconnectHandlers.clear();
-      this.#state.errorHandlers.clear();
-      this.#state.disconnectHandlers.clear();
-      this.#state.messageHandlers.clear();
-
-      if (typeof this.#ws.terminate === 'function') {
-        this.#ws.terminate();
-      } else {
-        this.#ws.close();
-      }
-    } else {
-      this.#ws.close();
-    }
-
-    this.#ws = null;
+    // streams end once disconnected as their subscriptions will not be replayed
+    Array.from(this.#state.streams.keys()).forEach((stream) => stream.close());
+    this.#state.streams.clear();
+    this.#state.streamReferences.clear();
+    this.#state.directReferences.clear();
 
     return this;
   }
@@ -695,6 +792,52 @@ export class WebSocketClient {
     return this;
   }
 
+  /**
+   * Subscribe a handler to be called after the client has replayed its active
+   * {@link subscriptions} following an automatic reconnect.
+   *
+   * - The handler is called once the server has confirmed the replayed subscriptions, if it rejects
+   *   them the error is provided to the {@link onError} handlers instead.
+   * - Updates which occurred while the client was disconnected are not replayed, receiving this
+   *   event indicates a gap may have occurred and any local state should be re-synchronized.
+   *
+   * ---
+   * @param handler
+   *  - A handler function matching {@link WebSocketHandlerResubscribed} that will receive events.
+   * @param replaceAll
+   *  - Replaces all current handlers with the provided handler.
+   * @returns
+   *  - `this` to allow chaining with other methods or requests.
+   * ---
+   *
+   * @example
+   * ```typescript
+   *  websocketClient.onResubscribed((subscriptions) => {
+   *   console.warn('WebSocket Resubscribed, refreshing state: ', subscriptions)
+   *  })
+   * ```
+   *
+   * <br />
+   *
+   * ---
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/WebSocketClient.html#onResubscribed)
+   * @see related  {@link idex.WebSocketClientOptions.shouldResubscribeAutomatically shouldResubscribeAutomatically}
+   *
+   * @category Event Handling
+   */
+  public onResubscribed(
+    handler: WebSocketHandlerResubscribed,
+    replaceAll?: boolean,
+  ): this {
+    this.throwIfTerminated();
+    if (replaceAll) {
+      this.#state.resubscribedHandlers.clear();
+    }
+    this.#state.resubscribedHandlers.add(handler);
+    return this;
+  }
+
   /**
    * Creates new {@link IDEXSubscribeTypeAuthenticated authenticated subscriptions} based on the provided parameters.
    *
@@ -774,12 +917,7 @@ export class WebSocketClient {
     cid?: string,
   ): this {
     this.throwIfTerminated();
-    if (this.isPublicOnly) {
-      throw new Error(
-        '[subscribeAuthenticated] Cannot subscribe to authenticated subscriptions ' +
-          'without providing the apiKey, apiSecret, and wallet options during client construction',
-      );
-    }
+    this.throwIfPublicOnly('subscribeAuthenticated');
     this.subscribe(subscriptions, undefined, cid);
 
     return this;
@@ -887,12 +1025,15 @@ export class WebSocketClient {
     cid?: string,
   ): this {
     this.throwIfTerminated();
-    return this.sendMessage({
+    this.sendMessage({
       cid,
       method: WebSocketRequestMethod.unsubscribe,
       markets,
       subscriptions,
     });
+    untrackSubscriptions(this.#state.subscriptions, subscriptions, markets);
+    this.pruneDirectReferences();
+    return this;
   }
 
   /**
@@ -926,6 +1067,321 @@ export class WebSocketClient {
     });
   }
 
+  /**
+   * Same as {@link subscribeAuthenticated} but returns a promise which resolves once the server
+   * has confirmed the subscriptions.
+   *
+   * - Resolves with the {@link idex.IDEXSubscriptionsListEvent IDEXSubscriptionsListEvent} response
+   *   listing all active subscriptions.
+   * - Rejects with a {@link WebSocketRequestError} if the server responds with an error, does not respond
+   *   within {@link idex.WebSocketClientOptions.requestTimeoutMs requestTimeoutMs} or the connection is closed
+   *   before a response is received.
+   * - The response is also provided to your {@link onMessage} handlers as usual.
+   *
+   * ---
+   * @param subscriptions
+   *  - An array of {@link IDEXSubscribeTypeAuthenticated} subscription objects.
+   * @param cid
+   *  - Optionally provide the `cid` to use for the request, one is generated when not provided.
+   * ---
+   *
+   * @example
+   * ```typescript
+   *  const response = await client.subscribeAuthenticatedAsync([
+   *    { name: SubscriptionNameAuthenticated.positions },
+   *    { name: SubscriptionNameAuthenticated.orders },
+   *  ]);
+   *
+   *  console.log('Active Subscriptions: ', response.subscriptions);
+   * ```
+   *
+   * <br />
+   *
+   * ---
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/WebSocketClient.html#subscribeAuthenticatedAsync)
+   * @see related  {@link subscribeAuthenticated client.subscribeAuthenticated}
+   *
+   * @category Subscription Management
+   */
+  public async subscribeAuthenticatedAsync(
+    subscriptions: IDEXSubscribeTypeAuthenticated[],
+    cid?: string,
+  ): Promise<IDEXSubscriptionsListEvent> {
+    this.throwIfTerminated();
+    this.throwIfPublicOnly('subscribeAuthenticatedAsync');
+
+    const response = await this.subscribeAsync(subscriptions, undefined, cid);
+    this.addDirectReferences(subscriptions);
+
+    return response;
+  }
+
+  /**
+   * Same as {@link subscribePublic} but returns a promise which resolves once the server
+   * has confirmed the subscriptions.
+   *
+   * - Resolves with the {@link idex.IDEXSubscriptionsListEvent IDEXSubscriptionsListEvent} response
+   *   listing all active subscriptions.
+   * - Rejects with a {@link WebSocketRequestError} if the server responds with an error, does not respond
+   *   within {@link idex.WebSocketClientOptions.requestTimeoutMs requestTimeoutMs} or the connection is closed
+   *   before a response is received.
+   * - The response is also provided to your {@link onMessage} handlers as usual.
+   *
+   * ---
+   * @param subscriptions
+   *  - An array of {@link IDEXSubscribeTypePublic} subscription objects.
+   * @param markets
+   *  - Optionally provide top-level markets, see {@link subscribePublic}.
+   * @param cid
+   *  - Optionally provide the `cid` to use for the request, one is generated when not provided.
+   * ---
+   *
+   * @example
+   * ```typescript
+   *  try {
+   *    await client.subscribePublicAsync(
+   *      [{ name: SubscriptionNamePublic.tickers }],
+   *      ['ETH-USD'],
+   *    );
+   *  } catch (error) {
+   *    console.error('Failed to subscribe: ', error.code, error.message);
+   *  }
+   * ```
+   *
+   * <br />
+   *
+   * ---
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/WebSocketClient.html#subscribePublicAsync)
+   * @see related  {@link subscribePublic client.subscribePublic}
+   *
+   * @category Subscription Management
+   */
+  public async subscribePublicAsync(
+    subscriptions: IDEXSubscribeTypePublic[],
+    markets?: string[],
+    cid?: string,
+  ): Promise<IDEXSubscriptionsListEvent> {
+    this.throwIfTerminated();
+
+    const response = await this.subscribeAsync(subscriptions, markets, cid);
+    this.addDirectReferences(subscriptions, markets);
+
+    return response;
+  }
+
+  /**
+   * Same as {@link unsubscribe} but returns a promise which resolves with the server's
+   * {@link idex.IDEXSubscriptionsListEvent IDEXSubscriptionsListEvent} response listing all
+   * remaining subscriptions.
+   *
+   * - Rejects with a {@link WebSocketRequestError} if the server responds with an error, does not respond
+   *   within {@link idex.WebSocketClientOptions.requestTimeoutMs requestTimeoutMs} or the connection is closed
+   *   before a response is received.
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/WebSocketClient.html#unsubscribeAsync)
+   * @see related  {@link unsubscribe client.unsubscribe}
+   *
+   * @category Subscription Management
+   */
+  public async unsubscribeAsync(
+    subscriptions?: Array<
+      | WebSocketRequestUnsubscribeShortNames
+      | WebSocketRequestUnsubscribeSubscription
+    >,
+    markets?: string[],
+    cid?: string,
+  ): Promise<IDEXSubscriptionsListEvent> {
+    this.throwIfTerminated();
+
+    const response = await this.sendRequest(cid, (requestCid) =>
+      this.sendMessage({
+        cid: requestCid,
+        method: WebSocketRequestMethod.unsubscribe,
+        markets,
+        subscriptions,
+      }),
+    );
+
+    untrackSubscriptions(this.#state.subscriptions, subscriptions, markets);
+    this.pruneDirectReferences();
+
+    return response;
+  }
+
+  /**
+   * Same as {@link listSubscriptions} but returns a promise which resolves with the server's
+   * {@link idex.IDEXSubscriptionsListEvent IDEXSubscriptionsListEvent} response.
+   *
+   * - Rejects with a {@link WebSocketRequestError} if the server responds with an error, does not respond
+   *   within {@link idex.WebSocketClientOptions.requestTimeoutMs requestTimeoutMs} or the connection is closed
+   *   before a response is received.
+   *
+   * @example
+   * ```typescript
+   *  const { subscriptions } = await client.listSubscriptionsAsync();
+   * ```
+   *
+   * <br />
+   *
+   * ---
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/WebSocketClient.html#listSubscriptionsAsync)
+   * @see related  {@link listSubscriptions client.listSubscriptions}
+   *
+   * @category Subscription Management
+   */
+  public async listSubscriptionsAsync(
+    cid?: string,
+  ): Promise<IDEXSubscriptionsListEvent> {
+    this.throwIfTerminated();
+
+    return this.sendRequest(cid, (requestCid) =>
+      this.sendMessage({
+        method: WebSocketRequestMethod.subscriptions,
+        cid: requestCid,
+      }),
+    );
+  }
+
+  /**
+   * Creates a {@link WebSocketStream} which yields the `data` of each update for the given subscription
+   * and can be consumed using `for await`.
+   *
+   * - Subscribes on first iteration and unsubscribes when iteration is stopped, subscriptions
+   *   which are still used by other streams or were subscribed to directly (such as with
+   *   {@link subscribePublic}) remain subscribed.
+   * - Updates are buffered until consumed, see the `bufferSize` and `overflow` options to control
+   *   what happens when updates are not consumed fast enough.
+   *   - Public streams drop their oldest updates by default, which suits market data where only
+   *     the latest state matters.
+   *   - Authenticated streams (such as `orders`, `positions` or `fills`) end with a
+   *     {@link idex.WebSocketStreamOverflowError WebSocketStreamOverflowError} by default, as a
+   *     missed account update leaves local state incorrect. Re-synchronize from the REST API and
+   *     create a new stream when this happens.
+   * - Streams end when the client is {@link disconnect disconnected}, they continue after an automatic
+   *   reconnect (see {@link onResubscribed}).
+   *
+   * ---
+   * @param name
+   *  - The subscription name to stream, one of {@link idex.SubscriptionNamePublic SubscriptionNamePublic}
+   *    or {@link idex.SubscriptionNameAuthenticated SubscriptionNameAuthenticated}.
+   * @param options
+   *  - {@link idex.WebSocketStreamOptions WebSocketStreamOptions}, public subscriptions require `markets`
+   *    and `candles` additionally requires an `interval`.
+   * ---
+   *
+   * @throws
+   * >  This method will **throw an error** if an authenticated subscription is requested but you did not
+   *    provide the {@link idex.WebSocketClientOptionsWithAPIKey.auth auth} option to the constructor.
+   *
+   * ---
+   *
+   * @example
+   * ```typescript
+   *  import { WebSocketClient, SubscriptionNamePublic } from '@idexio/idex-sdk';
+   *
+   *  const client = new WebSocketClient();
+   *
+   *  await client.connect();
+   *
+   *  const trades = client.stream(SubscriptionNamePublic.trades, {
+   *    markets: ['ETH-USD'],
+   *    bufferSize: 100,
+   *    overflow: 'dropOldest',
+   *  });
+   *
+   *  for await (const trade of trades) {
+   *    // trade matches IDEXTradeEventData
+   *    console.log('Trade: ', trade.market, trade.price, trade.quantity);
+   *  }
+   * ```
+   *
+   * <br />
+   *
+   * ---
+   *
+   * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/WebSocketClient.html#stream)
+   * @see type     {@link idex.WebSocketStreamEventData WebSocketStreamEventData}
+   *
+   * @category Subscription Management
+   */
+  public stream<N extends WebSocketStreamName>(
+    name: N,
+    options: WebSocketStreamOptions<N>,
+  ): WebSocketStream<WebSocketStreamEventData<N>> {
+    this.throwIfTerminated();
+
+    const isPublic = guards.isWebSocketPublicSubscription({
+      name,
+    } as IDEXSubscribeType);
+
+    if (!isPublic) {
+      this.throwIfPublicOnly('stream');
+    }
+
+    const { markets = [], interval } = options;
+
+    if (isPublic && markets.length === 0) {
+      throw new Error(`[stream] "${name}" requires at least one market`);
+    }
+
+    if (name === SubscriptionNamePublic.candles && !interval) {
+      throw new Error('[stream] "candles" requires an interval');
+    }
+
+    const subscription = {
+      name,
+      ...(interval && { interval }),
+    } as IDEXSubscribeType;
+    const subscriptionKey = getSubscriptionKey(subscription);
+    const referenceKeys =
+      isPublic ?
+        markets.map((market) => `${subscriptionKey}|${market}`)
+      : [subscriptionKey];
+
+    const matches = (event: IDEXSubscriptionEvent) => {
+      if (event.type !== name) {
+        return false;
+      }
+      const data = event.data as { market?: string; interval?: string };
+      if (isPublic && (!data.market || !markets.includes(data.market))) {
+        return false;
+      }
+      return !interval || data.interval === interval;
+    };
+
+    // streams are only registered once they start iterating, so a stream which is never
+    // iterated is not retained by the client
+    const stream = new WebSocketStream<WebSocketStreamEventData<N>>({
+      bufferSize: options.bufferSize ?? WEBSOCKET_STREAM_BUFFER_SIZE,
+      // dropping account updates would silently corrupt the consumer's state
+      overflow: options.overflow ?? (isPublic ? 'dropOldest' : 'error'),
+      subscribe: async () => {
+        this.#state.streams.set(stream as WebSocketStream<unknown>, matches);
+        this.acquireStreamReferences(referenceKeys);
+
+        return this.subscribeAsync([
+          isPublic ?
+            ({ ...subscription, markets } as IDEXSubscribeTypePublic)
+          : subscription,
+        ]);
+      },
+      unsubscribe: (isSubscribed) => {
+        this.#state.streams.delete(stream as WebSocketStream<unknown>);
+        this.releaseStreamReferences(
+          subscription,
+          referenceKeys,
+          isPublic ? markets : undefined,
+          isSubscribed,
+        );
+      },
+    });
+
+    return stream;
+  }
+
   /* Private / Protected */
 
   /**
@@ -937,12 +1393,126 @@ export class WebSocketClient {
     cid?: string,
   ): this {
     this.throwIfTerminated();
-    this.subscribeRequest(subscriptions, markets, cid).catch((error) => {
+
+    // a cid is required to match the server's response to the request
+    const requestCid = cid ?? uuidv1();
+    const pending = { subscriptions, markets };
+    const pendingSubscriptions =
+      this.#state.pendingSubscriptions.get(requestCid) ?? [];
+    pendingSubscriptions.push(pending);
+    this.#state.pendingSubscriptions.set(requestCid, pendingSubscriptions);
+
+    this.subscribeRequest(subscriptions, markets, requestCid).catch((error) => {
+      this.removePendingSubscriptions(requestCid, pending);
       this.handleWebSocketError(error);
     });
     return this;
   }
 
+  /**
+   * Subscribes and tracks the subscriptions once the server has confirmed them.
+   *
+   * @internal
+   */
+  private async subscribeAsync(
+    subscriptions: IDEXSubscribeType[],
+    markets?: string[],
+    cid?: string,
+  ): Promise<IDEXSubscriptionsListEvent> {
+    const response = await this.sendRequest(cid, (requestCid) =>
+      this.subscribeRequest(subscriptions, markets, requestCid),
+    );
+
+    trackSubscriptions(this.#state.subscriptions, subscriptions, markets);
+
+    return response;
+  }
+
+  /**
+   * Tracks the subscriptions of the request matching the `cid` of the given message once
+   * confirmed by the server, they are dropped if the server responds with an error instead.
+   *
+   * @internal
+   */
+  private settlePendingSubscriptions(message: IDEXMessageEvent): void {
+    const pending =
+      message.cid ?
+        this.#state.pendingSubscriptions.get(message.cid)?.[0]
+      : undefined;
+
+    if (
+      !message.cid ||
+      !pending ||
+      (message.type !== MessageEventType.subscriptions &&
+        message.type !== MessageEventType.error)
+    ) {
+      return;
+    }
+
+    this.removePendingSubscriptions(message.cid, pending);
+
+    if (message.type === MessageEventType.subscriptions) {
+      trackSubscriptions(
+        this.#state.subscriptions,
+        pending.subscriptions,
+        pending.markets,
+      );
+      this.addDirectReferences(pending.subscriptions, pending.markets);
+    }
+  }
+
+  private removePendingSubscriptions(
+    cid: string,
+    pending: { subscriptions: IDEXSubscribeType[]; markets?: string[] },
+  ): void {
+    const pendingSubscriptions = (
+      this.#state.pendingSubscriptions.get(cid) ?? []
+    ).filter((entry) => entry !== pending);
+
+    if (pendingSubscriptions.length > 0) {
+      this.#state.pendingSubscriptions.set(cid, pendingSubscriptions);
+    } else {
+      this.#state.pendingSubscriptions.delete(cid);
+    }
+  }
+
+  /**
+   * Replays the tracked subscriptions after the connection was re-established,
+   * a fresh WebSocket Token is fetched if any of them are authenticated.
+   *
+   * - Resubscribed handlers are only called once the server has confirmed the subscriptions,
+   *   error handlers receive the error if the server rejects them.
+   *
+   * @internal
+   */
+  private resubscribeIfNeeded(): void {
+    if (!this.#state.shouldResubscribe || !this.isConnected) {
+      return;
+    }
+
+    this.#state.shouldResubscribe = false;
+
+    const { subscriptions } = this;
+
+    if (!subscriptions.length) {
+      return;
+    }
+
+    this.log('info', `Resubscribing to ${subscriptions.length} subscriptions`);
+
+    this.sendRequest(undefined, (requestCid) =>
+      this.subscribeRequest(subscriptions, undefined, requestCid),
+    )
+      .then(() => {
+        this.#state.resubscribedHandlers.forEach((listener) =>
+          listener(subscriptions),
+        );
+      })
+      .catch((error) => {
+        this.handleWebSocketError(error);
+      });
+  }
+
   private async subscribeRequest(
     subscriptions: IDEXSubscribeType[],
     markets?: string[],
@@ -1000,6 +1570,247 @@ export class WebSocketClient {
     });
   }
 
+  /**
+   * Sends a request and resolves with the `subscriptions` response from the server
+   * which includes the request's `cid`.
+   *
+   * @internal
+   */
+  private sendRequest(
+    cid: string | undefined,
+    send: (cid: string) => unknown,
+  ): Promise<IDEXSubscriptionsListEvent> {
+    const requestCid = cid ?? uuidv1();
+
+    if (this.#state.pendingRequests.has(requestCid)) {
+      throw new Error(
+        `WebSocket: A request with cid "${requestCid}" is already awaiting a response`,
+      );
+    }
+
+    return new Promise<IDEXSubscriptionsListEvent>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this.#state.pendingRequests.delete(requestCid);
+        reject(
+          new WebSocketRequestError(
+            'REQUEST_TIMEOUT',
+            `WebSocket: Request timed out after ${this.#options.requestTimeoutMs}ms`,
+            requestCid,
+          ),
+        );
+      }, this.#options.requestTimeoutMs);
+
+      this.#state.pendingRequests.set(requestCid, {
+        resolve,
+        reject,
+        timeoutId,
+      });
+
+      Promise.resolve()
+        .then(() => send(requestCid))
+        .catch((error) => {
+          clearTimeout(timeoutId);
+          this.#state.pendingRequests.delete(requestCid);
+          reject(error);
+        });
+    });
+  }
+
+  /**
+   * Settles the pending request matching the `cid` of the given message, if any.
+   *
+   * @internal
+   */
+  private settlePendingRequest(message: IDEXMessageEvent): void {
+    const pending =
+      message.cid ? this.#state.pendingRequests.get(message.cid) : undefined;
+
+    if (!message.cid || !pending) {
+      return;
+    }
+
+    if (message.type === MessageEventType.error) {
+      clearTimeout(pending.timeoutId);
+      this.#state.pendingRequests.delete(message.cid);
+      pending.reject(
+        new WebSocketRequestError(
+          message.data.code,
+          message.data.message,
+          message.cid,
+        ),
+      );
+    } else if (message.type === MessageEventType.subscriptions) {
+      clearTimeout(pending.timeoutId);
+      this.#state.pendingRequests.delete(message.cid);
+      pending.resolve(message);
+    }
+  }
+
+  private rejectPendingRequests(): void {
+    this.#state.pendingRequests.forEach((pending, cid) => {
+      clearTimeout(pending.timeoutId);
+      pending.reject(
+        new WebSocketRequestError(
+          'CONNECTION_CLOSED',
+          'WebSocket: Connection closed before a response was received',
+          cid,
+        ),
+      );
+    });
+    this.#state.pendingRequests.clear();
+    // unconfirmed subscriptions are not replayed as the server may have rejected them
+    this.#state.pendingSubscriptions.clear();
+  }
+
+  private addDirectReferences(
+    subscriptions: IDEXSubscribeType[],
+    markets?: string[],
+  ): void {
+    subscriptions.forEach((subscription) => {
+      getSubscriptionReferenceKeys(subscription, markets).forEach((key) => {
+        this.#state.directReferences.add(key);
+      });
+    });
+  }
+
+  /**
+   * Forgets the direct subscriptions (and markets) which are no longer tracked after an
+   * `unsubscribe` request.
+   *
+   * @internal
+   */
+  private pruneDirectReferences(): void {
+    const trackedKeys = new Set(
+      this.subscriptions.flatMap((subscription) =>
+        getSubscriptionReferenceKeys(subscription),
+      ),
+    );
+
+    this.#state.directReferences.forEach((key) => {
+      if (!trackedKeys.has(key)) {
+        this.#state.directReferences.delete(key);
+      }
+    });
+  }
+
+  private acquireStreamReferences(referenceKeys: string[]): void {
+    referenceKeys.forEach((key) => {
+      this.#state.streamReferences.set(
+        key,
+        (this.#state.streamReferences.get(key) ?? 0) + 1,
+      );
+    });
+  }
+
+  /**
+   * Unsubscribes from the markets (or the authenticated subscription) of a closed stream
+   * which are no longer used by any other stream and were not subscribed to directly.
+   *
+   * - Nothing is unsubscribed when the stream's subscribe request was rejected.
+   *
+   * @internal
+   */
+  private releaseStreamReferences(
+    subscription: IDEXSubscribeType,
+    referenceKeys: string[],
+    markets: string[] | undefined,
+    isSubscribed: boolean,
+  ): void {
+    const unusedMarkets: string[] = [];
+    let isUnused = false;
+
+    referenceKeys.forEach((key, index) => {
+      const count = (this.#state.streamReferences.get(key) ?? 0) - 1;
+      if (count > 0) {
+        this.#state.streamReferences.set(key, count);
+        return;
+      }
+      this.#state.streamReferences.delete(key);
+      if (this.#state.directReferences.has(key)) {
+        return;
+      }
+      isUnused = true;
+      if (markets) {
+        unusedMarkets.push(markets[index]);
+      }
+    });
+
+    if (!isUnused || !isSubscribed || this.terminated) {
+      return;
+    }
+
+    const unsubscribeSubscription = {
+      name: subscription.name,
+      interval: subscription.interval,
+      markets: markets ? unusedMarkets : undefined,
+    } as WebSocketRequestUnsubscribeSubscription;
+
+    if (!this.isConnected) {
+      untrackSubscriptions(this.#state.subscriptions, [
+        unsubscribeSubscription,
+      ]);
+      return;
+    }
+
+    try {
+      this.unsubscribe([unsubscribeSubscription]);
+    } catch (error) {
+      this.log('warn', 'Failed to unsubscribe closed stream: ', error);
+    }
+  }
+
+  /**
+   * Closes the WebSocket without forgetting the active subscriptions so that they
+   * can be replayed by {@link reconnect}.
+   *
+   * @internal
+   */
+  private closeWebSocket(terminate?: boolean): this {
+    this.#state.doNotReconnect = true;
+
+    this.log('info', 'Disconnecting from WebSocket');
+
+    this.stopPinging();
+
+    this.cancelReconnect();
+
+    this.rejectPendingRequests();
+
+    if (!this.#ws) {
+      if (terminate) {
+        this.#terminated = true;
+      }
+      return this; // Already disconnected
+    }
+
+    this.#state.doNotReconnect = true;
+
+    if (terminate) {
+      this.#options.shouldReconnectAutomatically = false;
+      this.#terminated = true;
+
+      // handlers are not called when terminating
+      this.#state.connectHandlers.clear();
+      this.#state.disconnectHandlers.clear();
+      this.#state.errorHandlers.clear();
+      this.#state.disconnectHandlers.clear();
+      this.#state.messageHandlers.clear();
+      this.#state.resubscribedHandlers.clear();
+
+      if (typeof this.#ws.terminate === 'function') {
+        this.#ws.terminate();
+      } else {
+        this.#ws.close();
+      }
+    } else {
+      this.#ws.close();
+    }
+
+    this.#ws = null;
+
+    return this;
+  }
+
   private async createWebSocketIfNeeded(awaitConnect = false) {
     try {
       this.throwIfTerminated();
@@ -1009,14 +1820,17 @@ export class WebSocketClient {
         return this.#ws;
       }
 
-      const ws = new WebSocket(
-        this.#options.baseWebSocketURL,
-        isNode ?
-          {
-            headers: { 'User-Agent': 'idex-sdk-js' },
-          }
-        : undefined,
-      );
+      const ws =
+        this.#options.createWebSocket ?
+          this.#options.createWebSocket(this.#options.baseWebSocketURL)
+        : new WebSocket(
+            this.#options.baseWebSocketURL,
+            isNode ?
+              {
+                headers: { 'User-Agent': 'idex-sdk-js' },
+              }
+            : undefined,
+          );
 
       this.#ws = ws;
 
@@ -1094,7 +1908,7 @@ export class WebSocketClient {
           return;
         }
         if (this.#ws === ws) {
-          this.disconnect();
+          this.closeWebSocket();
           reject(new Error('timed out while waiting for WebSocket to connect'));
         }
       }, timeout);
@@ -1158,15 +1972,20 @@ export class WebSocketClient {
   private handleWebSocketClose(event: WebSocket.CloseEvent): void {
     this.stopPinging();
     this.#ws = null;
+    this.rejectPendingRequests();
     this.#state.disconnectHandlers.forEach((listener) =>
       listener(event.code, event.reason),
     );
 
-    if (
-      !this.terminated &&
-      this.#options.shouldReconnectAutomatically &&
-      !this.#state.doNotReconnect
-    ) {
+    if (this.terminated || this.#state.doNotReconnect) {
+      return;
+    }
+
+    // the connection was lost unexpectedly, replay subscriptions on the next connect
+    this.#state.shouldResubscribe =
+      this.#options.shouldResubscribeAutomatically;
+
+    if (this.#options.shouldReconnectAutomatically) {
       this.reconnect();
     }
   }
@@ -1188,6 +2007,17 @@ export class WebSocketClient {
       JSON.parse(String(event.data)),
     );
 
+    this.settlePendingRequest(message);
+    this.settlePendingSubscriptions(message);
+
+    if (this.#state.streams.size > 0) {
+      this.#state.streams.forEach((matches, stream) => {
+        if (matches(message as IDEXSubscriptionEvent)) {
+          stream.push((message as IDEXSubscriptionEvent).data);
+        }
+      });
+    }
+
     this.#state.messageHandlers.forEach((listener) => listener(message));
   }
 
@@ -1204,9 +2034,11 @@ export class WebSocketClient {
       !this.#state.doNotReconnect &&
       !this.terminated
     ) {
-      this.disconnect();
+      this.closeWebSocket();
       this.#state.doNotReconnect = false;
       this.#state.isReconnecting = true;
+      this.#state.shouldResubscribe =
+        this.#options.shouldResubscribeAutomatically;
 
       const backoffSeconds = 2 ** this.#state.reconnectAttempt;
       this.#state.reconnectAttempt += 1;
@@ -1275,7 +2107,6 @@ function createDefaultWebSocketTokenFetcher({
 
   return async function autoWebSocketTokenFetcher() {
     return client.getWsToken({
-      nonce: uuidv1(),
       wallet: auth.wallet ?? wallet,
     });
   };
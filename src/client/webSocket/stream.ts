@@ -0,0 +1,234 @@
+import { WebSocketStreamOverflowError } from '#client/webSocket/errors';
+
+import type { WebSocketClient as _WebSocketClient } from '#client/webSocket/index';
+import type { WebSocketStreamOverflowPolicy } from '#types/webSocket/index';
+
+/**
+ * @internal
+ *
+ * The default number of updates a stream will buffer while waiting to be consumed.
+ */
+export const WEBSOCKET_STREAM_BUFFER_SIZE = 1_000;
+
+/**
+ * @internal
+ */
+export interface WebSocketStreamConfig {
+  bufferSize: number;
+  overflow: WebSocketStreamOverflowPolicy;
+  /**
+   * Called on the first iteration of the stream, the stream starts receiving updates
+   * once the returned promise resolves.
+   */
+  subscribe: () => Promise<unknown>;
+  /**
+   * Called once when a stream which has started iterating is closed.
+   *
+   * - `isSubscribed` is `false` when the `subscribe` promise rejected, in which case there is
+   *   nothing to unsubscribe from.
+   */
+  unsubscribe: (isSubscribed: boolean) => void;
+}
+
+/**
+ * An `AsyncIterableIterator` which yields the updates of a single subscription, created
+ * using {@link _WebSocketClient.stream WebSocketClient.stream}.
+ *
+ * - Subscribes when it is first iterated, or when {@link subscribe} is called.
+ * - Unsubscribes when iteration is stopped (`break` in a `for await` loop or calling `return()`).
+ * - Ends once the client is {@link _WebSocketClient.disconnect disconnected}.
+ *
+ * @example
+ * ```typescript
+ *  const trades = client.stream(SubscriptionNamePublic.trades, {
+ *    markets: ['ETH-USD'],
+ *  });
+ *
+ *  for await (const trade of trades) {
+ *    console.log('Trade: ', trade.price, trade.quantity);
+ *  }
+ * ```
+ *
+ * <br />
+ *
+ * ---
+ *
+ * @see typedoc  [Reference Documentation](https://sdk-js-docs-v4.idex.io/classes/WebSocketStream.html)
+ *
+ * @category WebSocket - Streams
+ */
+export class WebSocketStream<T> implements AsyncIterableIterator<T> {
+  readonly #config: WebSocketStreamConfig;
+
+  readonly #buffer: T[] = [];
+
+  readonly #waiting: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+  }> = [];
+
+  #status: 'idle' | 'subscribing' | 'open' | 'closed' = 'idle';
+
+  #subscribing: Promise<void> | null = null;
+
+  #error: Error | null = null;
+
+  #subscribeError: Error | null = null;
+
+  /**
+   * @internal
+   */
+  constructor(config: WebSocketStreamConfig) {
+    this.#config = config;
+  }
+
+  /**
+   * `true` once the stream has ended and will not yield any further updates.
+   *
+   * @category Accessors
+   */
+  get closed(): boolean {
+    return this.#status === 'closed';
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  public async next(): Promise<IteratorResult<T>> {
+    if (this.#error) {
+      const error = this.#error;
+      this.#error = null;
+      throw error;
+    }
+
+    if (this.#buffer.length > 0) {
+      return { done: false, value: this.#buffer.shift() as T };
+    }
+
+    if (this.#status === 'closed') {
+      return { done: true, value: undefined };
+    }
+
+    if (this.#status === 'idle') {
+      this.#subscribing = this.start();
+    }
+
+    await this.#subscribing;
+
+    if (this.#buffer.length > 0 || this.#error || this.closed) {
+      return this.next();
+    }
+
+    return new Promise<IteratorResult<T>>((resolve, reject) => {
+      this.#waiting.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Subscribes without waiting for the first update, resolving once the subscription has been
+   * confirmed, updates received before the stream is iterated are buffered.
+   *
+   * - Rejects, and closes the stream, if the subscription is rejected.
+   */
+  public async subscribe(): Promise<void> {
+    if (this.#status === 'idle') {
+      this.#subscribing = this.start();
+    }
+    await this.#subscribing;
+    if (this.#subscribeError) {
+      throw this.#subscribeError;
+    }
+  }
+
+  public async return(): Promise<IteratorResult<T>> {
+    this.close();
+    this.#buffer.length = 0;
+    return { done: true, value: undefined };
+  }
+
+  /**
+   * Provides an update to the stream.
+   *
+   * @internal
+   */
+  public push(value: T): void {
+    if (this.#status !== 'open' && this.#status !== 'subscribing') {
+      return;
+    }
+
+    const waiting = this.#waiting.shift();
+
+    if (waiting) {
+      waiting.resolve({ done: false, value });
+      return;
+    }
+
+    if (this.#buffer.length < this.#config.bufferSize) {
+      this.#buffer.push(value);
+      return;
+    }
+
+    switch (this.#config.overflow) {
+      case 'dropOldest':
+        this.#buffer.shift();
+        this.#buffer.push(value);
+        break;
+      case 'dropNewest':
+        break;
+      case 'error':
+        this.#buffer.length = 0;
+        this.close(new WebSocketStreamOverflowError(this.#config.bufferSize));
+        break;
+      default:
+        break;
+    }
+  }
+
+  /**
+   * Ends the stream, any buffered updates will still be yielded before the stream
+   * completes unless an `error` is provided which is thrown on the next iteration instead.
+   *
+   * @internal
+   */
+  public close(error?: Error): void {
+    if (this.#status === 'closed') {
+      return;
+    }
+
+    const wasStarted = this.#status !== 'idle';
+
+    this.#status = 'closed';
+
+    if (wasStarted) {
+      this.#config.unsubscribe(!this.#subscribeError);
+    }
+
+    const waiting = this.#waiting.splice(0);
+
+    if (error) {
+      if (waiting.length > 0) {
+        waiting.forEach(({ reject }) => reject(error));
+      } else {
+        this.#error = error;
+      }
+      return;
+    }
+
+    waiting.forEach(({ resolve }) => resolve({ done: true, value: undefined }));
+  }
+
+  private async start(): Promise<void> {
+    this.#status = 'subscribing';
+
+    try {
+      await this.#config.subscribe();
+      if (this.#status === 'subscribing') {
+        this.#status = 'open';
+      }
+    } catch (error) {
+      this.#subscribeError = error;
+      this.close(error);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { isWebSocketPublicSubscription } from '#client/webSocket/guards';
+import { SubscriptionNamePublic } from '#types/enums/request';
+
+import type {
+  IDEXSubscribeType,
+  WebSocketRequestUnsubscribeShortNames,
+  WebSocketRequestUnsubscribeSubscription,
+} from '#types/webSocket/index';
+
+/**
+ * @internal
+ *
+ * Subscriptions are tracked by their name, `candles` subscriptions are additionally
+ * keyed by their `interval` as each interval is a distinct subscription on the server.
+ */
+export function getSubscriptionKey(
+  subscription: Pick<
+    WebSocketRequestUnsubscribeSubscription,
+    'name' | 'interval'
+  >,
+): string {
+  if (
+    subscription.name === SubscriptionNamePublic.candles &&
+    subscription.interval
+  ) {
+    return `${subscription.name}:${subscription.interval}`;
+  }
+  return subscription.name;
+}
+
+/**
+ * @internal
+ *
+ * Only public subscriptions (other than `webclient`) are filtered by markets.
+ */
+function isMarketSubscription(
+  subscription: IDEXSubscribeType | WebSocketRequestUnsubscribeSubscription,
+) {
+  return (
+    subscription.name !== SubscriptionNamePublic.webclient &&
+    isWebSocketPublicSubscription(subscription as IDEXSubscribeType)
+  );
+}
+
+/**
+ * @internal
+ *
+ * Returns the keys used to count the owners of a subscription, public subscriptions are
+ * owned per market.
+ */
+export function getSubscriptionReferenceKeys(
+  subscription: IDEXSubscribeType,
+  markets?: string[],
+): string[] {
+  const key = getSubscriptionKey(subscription);
+
+  if (!isWebSocketPublicSubscription(subscription)) {
+    return [key];
+  }
+
+  return (subscription.markets ?? markets ?? []).map(
+    (market) => `${key}|${market}`,
+  );
+}
+
+/**
+ * @internal
+ *
+ * Merges the given subscriptions into the tracked subscriptions map so that it
+ * reflects the subscriptions the server will have active after a `subscribe` request.
+ *
+ * - Subscriptions without their own `markets` inherit the top-level `markets`.
+ * - Markets are merged into any existing subscription of the same name (and interval).
+ */
+export function trackSubscriptions(
+  tracked: Map<string, IDEXSubscribeType>,
+  subscriptions: IDEXSubscribeType[],
+  markets?: string[],
+): void {
+  for (const subscription of subscriptions) {
+    const key = getSubscriptionKey(subscription);
+
+    if (!isMarketSubscription(subscription)) {
+      tracked.set(key, { ...subscription });
+      // eslint-disable-next-line no-continue
+      continue;
+    }
+
+    const existingMarkets = tracked.get(key)?.markets ?? [];
+    const subscriptionMarkets = subscription.markets ?? markets ?? [];
+
+    tracked.set(key, {
+      ...subscription,
+      markets: Array.from(
+        new Set([...existingMarkets, ...subscriptionMarkets]),
+      ),
+    } as IDEXSubscribeType);
+  }
+}
+
+/**
+ * @internal
+ *
+ * Removes the given subscriptions from the tracked subscriptions map so that it
+ * reflects the subscriptions the server will have active after an `unsubscribe` request.
+ *
+ * - When no `subscriptions` are given, all tracked subscriptions are targeted.
+ * - When a target (or the top-level `markets`) specifies markets, only those markets are
+ *   removed and the subscription is dropped once it no longer has any markets.
+ */
+export function untrackSubscriptions(
+  tracked: Map<string, IDEXSubscribeType>,
+  subscriptions?: Array<
+    | WebSocketRequestUnsubscribeShortNames
+    | WebSocketRequestUnsubscribeSubscription
+  >,
+  markets?: string[],
+): void {
+  const targets: WebSocketRequestUnsubscribeSubscription[] =
+    subscriptions ?
+      subscriptions.map((subscription) =>
+        typeof subscription === 'string' ?
+          { name: subscription }
+        : subscription,
+      )
+    : Array.from(tracked.values(), ({ name, interval }) => ({
+        name,
+        interval,
+      }));
+
+  for (const target of targets) {
+    const keys =
+      (
+        target.name === SubscriptionNamePublic.candles &&
+        !target.interval &&
+        !tracked.has(target.name)
+      ) ?
+        // unsubscribing from candles without an interval removes every interval
+        Array.from(tracked.keys()).filter((key) =>
+          key.startsWith(`${SubscriptionNamePublic.candles}:`),
+        )
+      : [getSubscriptionKey(target)];
+
+    const marketsToRemove = target.markets ?? markets;
+
+    for (const key of keys) {
+      const existing = tracked.get(key);
+
+      if (!existing) {
+        // eslint-disable-next-line no-continue
+        continue;
+      }
+
+      if (!marketsToRemove) {
+        tracked.delete(key);
+        // eslint-disable-next-line no-continue
+        continue;
+      }
+
+      if (!existing.markets) {
+        // subscriptions which are not filtered by market are unaffected by
+        // market-specific unsubscribe requests
+        // eslint-disable-next-line no-continue
+        continue;
+      }
+
+      const remainingMarkets = existing.markets.filter(
+        (market) => !marketsToRemove.includes(market),
+      );
+
+      if (remainingMarkets.length === 0) {
+        tracked.delete(key);
+      } else {
+        tracked.set(key, {
+          ...existing,
+          markets: remainingMarkets,
+        } as IDEXSubscribeType);
+      }
+    }
+  }
+}
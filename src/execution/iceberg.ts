@@ -0,0 +1,528 @@
+import { EventEmitter } from 'events';
+
+import { v1 as uuidv1 } from 'uuid';
+
+import {
+  decimalToPip,
+  dividePips,
+  maxBigInt,
+  multiplyPips,
+  oneInPips,
+  pipToDecimal,
+} from '#pipmath';
+
+import {
+  cancelOpenChildOrders,
+  SerialQueue,
+  consumeStream,
+  roundDownToStepSize,
+  toError,
+  updateChildOrder,
+} from '#execution/utils';
+import {
+  IcebergOrderEvent,
+  IcebergOrderStatus,
+  OrderSide,
+  OrderType,
+  SubscriptionNameAuthenticated,
+  TimeInForce,
+} from '#types/enums/index';
+
+import type { WebSocketStream } from '#client/webSocket/stream';
+import type {
+  ExecutionMarket,
+  ExecutionRestClient,
+  ExecutionWebSocketClient,
+} from '#execution/types';
+import type { ExecutionChildOrder } from '#execution/utils';
+import type * as idex from '#index';
+
+/**
+ * Options of an {@link IcebergOrder}
+ */
+export interface IcebergOrderOptions {
+  /**
+   * Client used to place and cancel slices
+   */
+  client: ExecutionRestClient;
+  /**
+   * Client used to track slices through the `orders` subscription
+   *
+   * - The client must be connected before the iceberg order is started.
+   */
+  webSocketClient: ExecutionWebSocketClient;
+  /**
+   * Wallet placing the slices
+   */
+  wallet: string;
+  market: ExecutionMarket;
+  side: idex.OrderSide;
+  /**
+   * Total quantity to execute in base terms, e.g. `'10.00000000'`
+   */
+  quantity: string;
+  /**
+   * Limit price of the slices
+   */
+  price: string;
+  /**
+   * Quantity of each visible slice in base terms, e.g. `'1.00000000'`
+   */
+  displayQuantity: string;
+  /**
+   * Time in force of the slices, use `gtx` to ensure slices are never filled as a taker
+   *
+   * @defaultValue TimeInForce.gtc
+   */
+  timeInForce?: typeof TimeInForce.gtc | typeof TimeInForce.gtx;
+  selfTradePrevention?: idex.SelfTradePrevention;
+  reduceOnly?: boolean;
+  /**
+   * Randomizes the quantity of each slice by up to this fraction of
+   * {@link displayQuantity}, e.g. `'0.20000000'` for ±20%
+   *
+   * @defaultValue '0'
+   */
+  displayQuantityVariance?: string;
+  /**
+   * Randomizes the price of each slice by up to this many ticks away from {@link price},
+   * lower for buys and higher for sells, so slices are never priced more aggressively
+   *
+   * @defaultValue 0
+   */
+  priceOffsetTicks?: number;
+  /**
+   * Source of randomness returning numbers in the range `[0, 1)`
+   *
+   * @defaultValue Math.random
+   */
+  random?: () => number;
+}
+
+/**
+ * Progress of an {@link IcebergOrder}, quantities are in base terms
+ */
+export interface IcebergOrderProgress {
+  status: IcebergOrderStatus;
+  market: string;
+  side: idex.OrderSide;
+  /**
+   * Total quantity
+   */
+  quantity: string;
+  executedQuantity: string;
+  /**
+   * Total quantity not yet executed
+   */
+  remainingQuantity: string;
+  /**
+   * Unfilled quantity of the resting slice
+   */
+  displayedQuantity: string;
+  /**
+   * Quote quantity of all slice fills
+   */
+  cumulativeQuoteQuantity: string;
+  /**
+   * `null` until a slice has been filled
+   */
+  avgExecutionPrice: string | null;
+  /**
+   * Number of slices placed
+   */
+  slices: number;
+}
+
+/**
+ * Emulates an iceberg order, which IDEX does not support natively, by keeping a `limit` order
+ * for a visible slice of the total quantity resting on the order book.
+ *
+ * - Once a slice is filled, as reported by the `orders` subscription, the next slice is placed
+ *   until the total quantity is executed.
+ * - Slice quantities are rounded down to the market's `stepSize` and are at least the market's
+ *   `makerOrderMinimum`. A remainder too small to be placed on its own is added to the last
+ *   slice.
+ * - Slice quantities and prices can be randomized with
+ *   {@link IcebergOrderOptions.displayQuantityVariance displayQuantityVariance} and
+ *   {@link IcebergOrderOptions.priceOffsetTicks priceOffsetTicks} to make the order harder to
+ *   detect.
+ * - Open slices are canceled by `orderIds` when the iceberg order is stopped, or when placing a
+ *   slice fails or a slice is closed before it was filled, such as by self-trade prevention.
+ * - The `orders` stream is closed once the iceberg order is done.
+ *
+ * @example
+ * ```typescript
+ * const [market] = await client.public.getMarkets({ market: 'ETH-USD' });
+ *
+ * const iceberg = new IcebergOrder({
+ *   client,
+ *   webSocketClient,
+ *   wallet: '0x...',
+ *   market,
+ *   side: OrderSide.sell,
+ *   quantity: '100.00000000',
+ *   price: '2500.00000000',
+ *   displayQuantity: '5.00000000',
+ *   displayQuantityVariance: '0.20000000',
+ *   priceOffsetTicks: 3,
+ *   timeInForce: TimeInForce.gtx,
+ * });
+ *
+ * iceberg.on(IcebergOrderEvent.done, (progress) => {
+ *   console.log(progress.status, progress.avgExecutionPrice);
+ * });
+ *
+ * await webSocketClient.connect();
+ * await iceberg.start();
+ * ```
+ *
+ * @see options  {@link IcebergOrderOptions}
+ * @see events   {@link IcebergOrderEvent}
+ */
+export class IcebergOrder extends EventEmitter<{
+  [IcebergOrderEvent.progress]: [progress: IcebergOrderProgress];
+  [IcebergOrderEvent.done]: [progress: IcebergOrderProgress];
+  [IcebergOrderEvent.error]: [error: Error];
+}> {
+  private readonly options: IcebergOrderOptions;
+
+  private readonly quantity: bigint;
+
+  private readonly price: bigint;
+
+  private readonly displayQuantity: bigint;
+
+  private readonly displayQuantityVariance: bigint;
+
+  private readonly tickSize: bigint;
+
+  private readonly stepSize: bigint;
+
+  private readonly minimumQuantity: bigint;
+
+  private readonly random: () => number;
+
+  private readonly slices = new Map<string, ExecutionChildOrder>();
+
+  private status: IcebergOrderStatus = IcebergOrderStatus.pending;
+
+  private isFinished = false;
+
+  /**
+   * Runs slice placement and cancellation one at a time
+   */
+  private readonly queue = new SerialQueue();
+
+  private orders: WebSocketStream<idex.IDEXOrderEventData> | null = null;
+
+  private readonly handleOrder = (order: idex.IDEXOrderEventData) => {
+    const slice =
+      order.type && order.clientOrderId ?
+        this.slices.get(order.clientOrderId)
+      : undefined;
+    if (slice && order.type) {
+      updateChildOrder(slice, order);
+      this.emit(IcebergOrderEvent.progress, this.getProgress());
+      this.replenishSoon();
+    }
+  };
+
+  constructor(options: IcebergOrderOptions) {
+    super();
+
+    this.options = options;
+    this.quantity = decimalToPip(options.quantity);
+    this.price = decimalToPip(options.price);
+    this.displayQuantity = decimalToPip(options.displayQuantity);
+    this.displayQuantityVariance = decimalToPip(
+      options.displayQuantityVariance ?? '0',
+    );
+    this.tickSize = decimalToPip(options.market.tickSize);
+    this.stepSize = decimalToPip(options.market.stepSize);
+    this.minimumQuantity = maxBigInt(
+      this.stepSize,
+      decimalToPip(options.market.makerOrderMinimum),
+    );
+    this.random = options.random ?? Math.random;
+
+    if (this.quantity < this.minimumQuantity) {
+      throw new Error(
+        `Invalid quantity ${options.quantity}, must be at least ${pipToDecimal(this.minimumQuantity)}`,
+      );
+    }
+    if (this.displayQuantity < this.minimumQuantity) {
+      throw new Error(
+        `Invalid display quantity ${options.displayQuantity}, must be at least ${pipToDecimal(this.minimumQuantity)}`,
+      );
+    }
+    if (this.price <= BigInt(0) || this.price % this.tickSize !== BigInt(0)) {
+      throw new Error(
+        `Invalid price ${options.price}, must be a positive multiple of the tick size ${options.market.tickSize}`,
+      );
+    }
+    if (
+      this.displayQuantityVariance < BigInt(0) ||
+      this.displayQuantityVariance >= oneInPips
+    ) {
+      throw new Error(
+        `Invalid display quantity variance ${options.displayQuantityVariance}, must be at least 0 and less than 1`,
+      );
+    }
+    if (
+      options.priceOffsetTicks !== undefined &&
+      (!Number.isInteger(options.priceOffsetTicks) ||
+        options.priceOffsetTicks < 0)
+    ) {
+      throw new Error(
+        `Invalid price offset ${options.priceOffsetTicks}, must be a non-negative integer`,
+      );
+    }
+  }
+
+  /**
+   * Streams the `orders` subscription and places the first slice.
+   *
+   * - Throws if the iceberg order has already been started.
+   * - Failing to place the first slice is reported through the
+   *   {@link IcebergOrderEvent.error error} event.
+   */
+  public async start() {
+    if (this.status !== IcebergOrderStatus.pending) {
+      throw new Error(`Iceberg order is already ${this.status}`);
+    }
+
+    const orders = this.options.webSocketClient.stream(
+      SubscriptionNameAuthenticated.orders,
+      {},
+    );
+    this.orders = orders;
+    try {
+      await orders.subscribe();
+    } catch (error) {
+      this.closeStream();
+      throw error;
+    }
+    consumeStream(orders, this.handleOrder).catch((error) => {
+      this.emit(IcebergOrderEvent.error, toError(error));
+    });
+
+    this.setStatus(IcebergOrderStatus.working);
+    await this.queue
+      .enqueue(() => this.replenish())
+      .catch((error) => this.fail(error));
+  }
+
+  /**
+   * Stops placing slices and cancels open slices.
+   *
+   * - Resolves with the final progress once open slices have been canceled.
+   */
+  public async stop(): Promise<IcebergOrderProgress> {
+    if (this.isFinished || this.status !== IcebergOrderStatus.working) {
+      return this.getProgress();
+    }
+    this.status = IcebergOrderStatus.stopped;
+
+    return this.queue.enqueue(async () => {
+      try {
+        await this.cancelOpenSlices();
+      } finally {
+        this.finish(IcebergOrderStatus.stopped);
+      }
+      return this.getProgress();
+    });
+  }
+
+  /**
+   * Current progress of the iceberg order
+   */
+  public getProgress(): IcebergOrderProgress {
+    let executedQuantity = BigInt(0);
+    let displayedQuantity = BigInt(0);
+    let cumulativeQuoteQuantity = BigInt(0);
+    for (const slice of this.slices.values()) {
+      executedQuantity += slice.executedQuantity;
+      cumulativeQuoteQuantity += slice.cumulativeQuoteQuantity;
+      if (!slice.isClosed) {
+        displayedQuantity += slice.quantity - slice.executedQuantity;
+      }
+    }
+
+    return {
+      status: this.status,
+      market: this.options.market.market,
+      side: this.options.side,
+      quantity: pipToDecimal(this.quantity),
+      executedQuantity: pipToDecimal(executedQuantity),
+      remainingQuantity: pipToDecimal(
+        maxBigInt(BigInt(0), this.quantity - executedQuantity),
+      ),
+      displayedQuantity: pipToDecimal(displayedQuantity),
+      cumulativeQuoteQuantity: pipToDecimal(cumulativeQuoteQuantity),
+      avgExecutionPrice:
+        executedQuantity > BigInt(0) ?
+          pipToDecimal(dividePips(cumulativeQuoteQuantity, executedQuantity))
+        : null,
+      slices: this.slices.size,
+    };
+  }
+
+  /**
+   * Places the next slice once no slice is resting
+   */
+  private async replenish() {
+    if (this.status !== IcebergOrderStatus.working) {
+      return;
+    }
+
+    let executedQuantity = BigInt(0);
+    for (const slice of this.slices.values()) {
+      if (!slice.isClosed) {
+        return;
+      }
+      if (slice.executedQuantity < slice.quantity) {
+        throw new Error(
+          `Iceberg slice ${slice.orderId} was closed before it was filled`,
+        );
+      }
+      executedQuantity += slice.executedQuantity;
+    }
+
+    const remainingQuantity = roundDownToStepSize(
+      this.quantity - executedQuantity,
+      this.stepSize,
+    );
+    if (remainingQuantity < this.minimumQuantity) {
+      this.finish(IcebergOrderStatus.completed);
+      return;
+    }
+
+    await this.placeSlice(this.getSliceQuantity(remainingQuantity));
+  }
+
+  private replenishSoon() {
+    this.queue
+      .enqueue(() => this.replenish())
+      .catch((error) => this.fail(error));
+  }
+
+  private getSliceQuantity(remainingQuantity: bigint) {
+    let quantity = this.displayQuantity;
+    if (this.displayQuantityVariance > BigInt(0)) {
+      // a random fraction of the variance in the range [-variance, variance)
+      const variance = multiplyPips(
+        this.displayQuantityVariance,
+        BigInt(Math.floor((this.random() * 2 - 1) * Number(oneInPips))),
+      );
+      quantity = maxBigInt(
+        this.minimumQuantity,
+        roundDownToStepSize(
+          multiplyPips(this.displayQuantity, oneInPips + variance),
+          this.stepSize,
+        ),
+      );
+    }
+
+    return remainingQuantity - quantity < this.minimumQuantity ?
+        remainingQuantity
+      : quantity;
+  }
+
+  private getSlicePrice() {
+    const offset =
+      BigInt(
+        Math.floor(this.random() * ((this.options.priceOffsetTicks ?? 0) + 1)),
+      ) * this.tickSize;
+
+    return this.options.side === OrderSide.buy ?
+        maxBigInt(this.tickSize, this.price - offset)
+      : this.price + offset;
+  }
+
+  private async placeSlice(quantity: bigint) {
+    const { options } = this;
+    const clientOrderId = uuidv1();
+    const slice: ExecutionChildOrder = {
+      orderId: null,
+      quantity,
+      executedQuantity: BigInt(0),
+      cumulativeQuoteQuantity: BigInt(0),
+      isClosed: false,
+    };
+    // tracked before it is placed as order events may arrive before the response
+    this.slices.set(clientOrderId, slice);
+
+    try {
+      const order = await options.client.createOrder({
+        wallet: options.wallet,
+        market: options.market.market,
+        type: OrderType.limit,
+        side: options.side,
+        quantity: pipToDecimal(quantity),
+        price: pipToDecimal(this.getSlicePrice()),
+        timeInForce: options.timeInForce ?? TimeInForce.gtc,
+        clientOrderId,
+        ...(options.selfTradePrevention && {
+          selfTradePrevention: options.selfTradePrevention,
+        }),
+        ...(options.reduceOnly && { reduceOnly: true }),
+      });
+      updateChildOrder(slice, order);
+    } catch (error) {
+      this.slices.delete(clientOrderId);
+      throw error;
+    }
+
+    this.emit(IcebergOrderEvent.progress, this.getProgress());
+    // the slice may have been filled immediately
+    if (slice.isClosed) {
+      this.replenishSoon();
+    }
+  }
+
+  private async cancelOpenSlices() {
+    await cancelOpenChildOrders(
+      this.options.client,
+      this.options.wallet,
+      this.slices.values(),
+    );
+  }
+
+  private async fail(error: unknown) {
+    if (this.isFinished || this.status === IcebergOrderStatus.failed) {
+      return;
+    }
+    this.status = IcebergOrderStatus.failed;
+    this.emit(IcebergOrderEvent.error, toError(error));
+
+    try {
+      await this.cancelOpenSlices();
+    } catch (cancelError) {
+      this.emit(IcebergOrderEvent.error, toError(cancelError));
+    }
+    this.finish(IcebergOrderStatus.failed);
+  }
+
+  private finish(status: IcebergOrderStatus) {
+    if (this.isFinished) {
+      return;
+    }
+    this.isFinished = true;
+    this.closeStream();
+    this.setStatus(status);
+    this.emit(IcebergOrderEvent.done, this.getProgress());
+  }
+
+  /**
+   * Closes the `orders` stream, unsubscribing if it is no longer used by other streams
+   */
+  private closeStream() {
+    this.orders?.close();
+    this.orders = null;
+  }
+
+  private setStatus(status: IcebergOrderStatus) {
+    this.status = status;
+    this.emit(IcebergOrderEvent.progress, this.getProgress());
+  }
+}
@@ -0,0 +1,4 @@
+export * from '#execution/iceberg';
+export * from '#execution/orderGroups';
+export * from '#execution/scheduler';
+export * from '#execution/types';
@@ -0,0 +1,794 @@
+import { EventEmitter } from 'events';
+
+import { v1 as uuidv1 } from 'uuid';
+
+import { decimalToPip, minBigInt, pipToDecimal } from '#pipmath';
+
+import { isIDEXNotFoundError } from '#client/rest/errors';
+import {
+  cancelOpenChildOrders,
+  SerialQueue,
+  consumeStream,
+  toError,
+  updateChildOrder,
+} from '#execution/utils';
+import {
+  OrderGroupManagerEvent,
+  OrderGroupType,
+  OrderStatus,
+  SubscriptionNameAuthenticated,
+} from '#types/enums/index';
+
+import type { WebSocketStream } from '#client/webSocket/stream';
+import type {
+  ExecutionWebSocketClient,
+  OrderGroupRestClient,
+} from '#execution/types';
+import type { ExecutionChildOrder } from '#execution/utils';
+import type * as idex from '#index';
+
+/**
+ * Options of an {@link OrderGroupManager}
+ */
+export interface OrderGroupManagerOptions {
+  /**
+   * Client used to place, cancel and reconcile orders
+   */
+  client: OrderGroupRestClient;
+  /**
+   * Client used to track orders through the `orders` subscription
+   *
+   * - The client must be connected before the manager is started.
+   */
+  webSocketClient: ExecutionWebSocketClient;
+  /**
+   * Wallet of the grouped orders
+   */
+  wallet: string;
+}
+
+/**
+ * Order parameters of a group, the `wallet` defaults to the manager's wallet
+ */
+export type OrderGroupOrderParameters = Omit<
+  idex.RestRequestWithOptionalNonce<idex.RestRequestOrder>,
+  'wallet'
+> & { wallet?: string };
+
+/**
+ * Orders to place as a group with {@link OrderGroupManager.createGroup}
+ */
+export type OrderGroupDefinition =
+  | {
+      type: typeof OrderGroupType.oneCancelsOther;
+      orders: OrderGroupOrderParameters[];
+    }
+  | {
+      type: typeof OrderGroupType.bracket;
+      entry: OrderGroupOrderParameters;
+      exits: OrderGroupOrderParameters[];
+    };
+
+/**
+ * Existing orders to link as a group with {@link OrderGroupManager.linkOrders}
+ */
+export type OrderGroupLinkDefinition =
+  | {
+      type: typeof OrderGroupType.oneCancelsOther;
+      orderIds: string[];
+    }
+  | {
+      type: typeof OrderGroupType.bracket;
+      entryOrderId: string;
+      exitOrderIds: string[];
+    };
+
+/**
+ * An order of an {@link OrderGroup}, quantities are in base terms
+ */
+export interface OrderGroupOrder {
+  /**
+   * Current order, replaced by a new order when the order is resized
+   *
+   * - `null` while the replacement order is being placed
+   */
+  orderId: string | null;
+  /**
+   * Quantity to execute, including the quantity executed by replaced orders
+   */
+  quantity: string;
+  /**
+   * Quantity executed, including the quantity executed by replaced orders
+   */
+  executedQuantity: string;
+  /**
+   * Quantity executed by replaced orders
+   */
+  replacedExecutedQuantity: string;
+  isClosed: boolean;
+  /**
+   * Whether the order was canceled by the manager, rather than filled or canceled otherwise
+   */
+  isCanceledByGroup: boolean;
+}
+
+/**
+ * A group of linked orders managed by an {@link OrderGroupManager}
+ *
+ * - Groups are plain objects which can be serialized as JSON, persist the group of each
+ *   {@link OrderGroupManagerEvent.updated updated} event to restore it with
+ *   {@link OrderGroupManager.restoreGroups} after a restart.
+ */
+export interface OrderGroup {
+  groupId: string;
+  type: OrderGroupType;
+  /**
+   * Entry order of a {@link OrderGroupType.bracket bracket} group
+   */
+  entry?: OrderGroupOrder;
+  /**
+   * Competing orders of a {@link OrderGroupType.oneCancelsOther oneCancelsOther} group, or exit
+   * orders of a {@link OrderGroupType.bracket bracket} group
+   */
+  orders: OrderGroupOrder[];
+}
+
+/**
+ * @private
+ */
+interface ManagedOrder {
+  order: ExecutionChildOrder;
+  clientOrderId: string | undefined;
+  quantity: bigint;
+  replacedExecutedQuantity: bigint;
+  isCanceledByGroup: boolean;
+}
+
+/**
+ * @private
+ */
+interface ManagedGroup {
+  groupId: string;
+  type: OrderGroupType;
+  entry: ManagedOrder | null;
+  orders: ManagedOrder[];
+}
+
+/**
+ * @private
+ */
+function createManagedOrder(
+  order: Pick<
+    idex.IDEXOrder,
+    | 'orderId'
+    | 'clientOrderId'
+    | 'status'
+    | 'originalQuantity'
+    | 'executedQuantity'
+    | 'cumulativeQuoteQuantity'
+  >,
+): ManagedOrder {
+  const managedOrder: ManagedOrder = {
+    order: {
+      orderId: order.orderId,
+      quantity: decimalToPip(order.originalQuantity),
+      executedQuantity: BigInt(0),
+      cumulativeQuoteQuantity: BigInt(0),
+      isClosed: false,
+    },
+    clientOrderId: order.clientOrderId,
+    quantity: decimalToPip(order.originalQuantity),
+    replacedExecutedQuantity: BigInt(0),
+    isCanceledByGroup: false,
+  };
+  updateChildOrder(managedOrder.order, order);
+  return managedOrder;
+}
+
+/**
+ * @private
+ */
+function getExecutedQuantity(managedOrder: ManagedOrder) {
+  return (
+    managedOrder.replacedExecutedQuantity + managedOrder.order.executedQuantity
+  );
+}
+
+/**
+ * @private
+ */
+function toOrderGroupOrder(managedOrder: ManagedOrder): OrderGroupOrder {
+  return {
+    orderId: managedOrder.order.orderId,
+    quantity: pipToDecimal(managedOrder.quantity),
+    executedQuantity: pipToDecimal(getExecutedQuantity(managedOrder)),
+    replacedExecutedQuantity: pipToDecimal(
+      managedOrder.replacedExecutedQuantity,
+    ),
+    isClosed: managedOrder.order.isClosed,
+    isCanceledByGroup: managedOrder.isCanceledByGroup,
+  };
+}
+
+/**
+ * @private
+ */
+function toOrderGroup(group: ManagedGroup): OrderGroup {
+  return {
+    groupId: group.groupId,
+    type: group.type,
+    ...(group.entry && { entry: toOrderGroupOrder(group.entry) }),
+    orders: group.orders.map(toOrderGroupOrder),
+  };
+}
+
+/**
+ * The parameters of an order replacing the given order with a smaller quantity
+ *
+ * @private
+ */
+function getReplacementOrderParameters(
+  order: idex.IDEXOrder,
+  quantity: bigint,
+  clientOrderId: string,
+) {
+  return {
+    wallet: order.wallet,
+    market: order.market,
+    type: order.type,
+    side: order.side,
+    quantity: pipToDecimal(quantity),
+    clientOrderId,
+    ...(order.price && { price: order.price }),
+    ...(order.triggerPrice && { triggerPrice: order.triggerPrice }),
+    ...(order.triggerType && { triggerType: order.triggerType }),
+    ...(order.callbackRate && { callbackRate: order.callbackRate }),
+    ...(order.timeInForce && { timeInForce: order.timeInForce }),
+    ...(order.reduceOnly && { reduceOnly: true }),
+    selfTradePrevention: order.selfTradePrevention,
+  } as idex.RestRequestOrder;
+}
+
+/**
+ * Links orders into groups which are managed client-side, such as one-cancels-other orders
+ * or brackets of an entry order with take profit and stop loss exit orders.
+ *
+ * - When an order of a group is filled or canceled, as reported by the `orders` subscription,
+ *   the other orders of the group are canceled or resized according to its
+ *   {@link OrderGroupType}.
+ * - Orders are resized by canceling them and placing a new order with the same parameters and
+ *   the remaining quantity, since orders cannot be amended.
+ * - Groups only exist in memory, persist the groups of
+ *   {@link OrderGroupManagerEvent.updated updated} events and provide them to
+ *   {@link restoreGroups} after a restart to reconcile them with the orders returned by
+ *   `getOrders`. Fills which occurred while the manager was not running are applied once the
+ *   groups are restored.
+ * - Call {@link stop} once groups no longer need to be managed to close the `orders` stream.
+ *
+ * @example
+ * ```typescript
+ * const manager = new OrderGroupManager({ client, webSocketClient, wallet: '0x...' });
+ *
+ * manager.on(OrderGroupManagerEvent.updated, (group) => {
+ *   saveGroup(group);
+ * });
+ *
+ * await webSocketClient.connect();
+ * await manager.start();
+ * await manager.restoreGroups(loadGroups());
+ *
+ * await manager.createGroup({
+ *   type: OrderGroupType.bracket,
+ *   entry: {
+ *     market: 'ETH-USD',
+ *     type: OrderType.limit,
+ *     side: OrderSide.buy,
+ *     quantity: '1.00000000',
+ *     price: '2000.00000000',
+ *   },
+ *   exits: [
+ *     {
+ *       market: 'ETH-USD',
+ *       type: OrderType.takeProfitLimit,
+ *       side: OrderSide.sell,
+ *       quantity: '1.00000000',
+ *       price: '2200.00000000',
+ *       triggerPrice: '2200.00000000',
+ *       triggerType: TriggerType.last,
+ *       reduceOnly: true,
+ *     },
+ *     {
+ *       market: 'ETH-USD',
+ *       type: OrderType.stopLossLimit,
+ *       side: OrderSide.sell,
+ *       quantity: '1.00000000',
+ *       price: '1900.00000000',
+ *       triggerPrice: '1900.00000000',
+ *       triggerType: TriggerType.last,
+ *       reduceOnly: true,
+ *     },
+ *   ],
+ * });
+ * ```
+ *
+ * @see options  {@link OrderGroupManagerOptions}
+ * @see events   {@link OrderGroupManagerEvent}
+ */
+export class OrderGroupManager extends EventEmitter<{
+  [OrderGroupManagerEvent.updated]: [group: OrderGroup];
+  [OrderGroupManagerEvent.done]: [group: OrderGroup];
+  [OrderGroupManagerEvent.error]: [error: Error];
+}> {
+  private readonly options: OrderGroupManagerOptions;
+
+  private readonly groups = new Map<string, ManagedGroup>();
+
+  private isStarted = false;
+
+  /**
+   * Runs order cancellation and replacement one at a time
+   */
+  private readonly queue = new SerialQueue();
+
+  private orders: WebSocketStream<idex.IDEXOrderEventData> | null = null;
+
+  private readonly handleOrder = (order: idex.IDEXOrderEventData) => {
+    if (!order.type) {
+      return;
+    }
+
+    for (const group of this.groups.values()) {
+      for (const managedOrder of this.getManagedOrders(group)) {
+        if (
+          order.orderId === managedOrder.order.orderId ||
+          (!!order.clientOrderId &&
+            order.clientOrderId === managedOrder.clientOrderId)
+        ) {
+          updateChildOrder(managedOrder.order, order);
+          this.reconcileSoon(group);
+          return;
+        }
+      }
+    }
+  };
+
+  constructor(options: OrderGroupManagerOptions) {
+    super();
+
+    this.options = options;
+  }
+
+  /**
+   * Streams the `orders` subscription.
+   */
+  public async start() {
+    if (this.isStarted) {
+      return;
+    }
+    this.isStarted = true;
+
+    const orders = this.options.webSocketClient.stream(
+      SubscriptionNameAuthenticated.orders,
+      {},
+    );
+    this.orders = orders;
+    try {
+      await orders.subscribe();
+    } catch (error) {
+      this.isStarted = false;
+      this.closeStream();
+      throw error;
+    }
+    consumeStream(orders, this.handleOrder).catch((error) => {
+      this.emit(OrderGroupManagerEvent.error, toError(error));
+    });
+  }
+
+  /**
+   * Stops managing groups and closes the `orders` stream, unsubscribing if it is no longer used
+   * by other streams. Open orders are not canceled.
+   *
+   * - Resolves once pending resizes and cancellations have completed.
+   * - Groups are forgotten, restore the persisted groups with {@link restoreGroups} after
+   *   starting again to apply fills which occurred while stopped.
+   */
+  public async stop() {
+    if (!this.isStarted) {
+      return;
+    }
+    this.isStarted = false;
+    this.closeStream();
+
+    await this.queue.enqueue(async () => {
+      this.groups.clear();
+    });
+  }
+
+  /**
+   * Places the orders of a group and begins managing them.
+   *
+   * - Orders are placed one at a time, the entry order of a bracket first. If an order cannot be
+   *   placed, the orders already placed are canceled and the error is thrown.
+   */
+  public async createGroup(definition: OrderGroupDefinition) {
+    const group: ManagedGroup = {
+      groupId: uuidv1(),
+      type: definition.type,
+      entry: null,
+      orders: [],
+    };
+
+    try {
+      if (definition.type === OrderGroupType.bracket) {
+        group.entry = await this.placeOrder(definition.entry);
+        for (const parameters of definition.exits) {
+          // eslint-disable-next-line no-await-in-loop
+          group.orders.push(await this.placeOrder(parameters));
+        }
+      } else {
+        for (const parameters of definition.orders) {
+          // eslint-disable-next-line no-await-in-loop
+          group.orders.push(await this.placeOrder(parameters));
+        }
+      }
+    } catch (error) {
+      await cancelOpenChildOrders(
+        this.options.client,
+        this.options.wallet,
+        this.getManagedOrders(group).map(({ order }) => order),
+      );
+      throw error;
+    }
+
+    return this.addGroup(group);
+  }
+
+  /**
+   * Links existing orders of the wallet as a group and begins managing them.
+   */
+  public async linkOrders(definition: OrderGroupLinkDefinition) {
+    const getManagedOrder = async (orderId: string) =>
+      createManagedOrder(
+        await this.options.client.getOrder({
+          wallet: this.options.wallet,
+          orderId,
+        }),
+      );
+
+    const group: ManagedGroup = {
+      groupId: uuidv1(),
+      type: definition.type,
+      entry:
+        definition.type === OrderGroupType.bracket ?
+          await getManagedOrder(definition.entryOrderId)
+        : null,
+      orders: await Promise.all(
+        (definition.type === OrderGroupType.bracket ?
+          definition.exitOrderIds
+        : definition.orderIds
+        ).map(getManagedOrder),
+      ),
+    };
+
+    return this.addGroup(group);
+  }
+
+  /**
+   * Restores persisted groups, reconciling their orders with the open orders returned by
+   * `getOrders`.
+   *
+   * - Orders which are no longer open are requested individually to apply the fills that
+   *   occurred while the groups were not managed. Orders which are not found are considered
+   *   canceled.
+   * - Resolves with the reconciled groups, groups whose orders are all closed are not restored.
+   */
+  public async restoreGroups(groups: OrderGroup[]) {
+    const { client, wallet } = this.options;
+    const openOrders = new Map(
+      (await client.getOrders({ wallet, closed: false, limit: 1000 })).map(
+        (order) => [order.orderId, order],
+      ),
+    );
+
+    const restoreOrder = async (
+      orderGroupOrder: OrderGroupOrder,
+    ): Promise<ManagedOrder> => {
+      const replacedExecutedQuantity = decimalToPip(
+        orderGroupOrder.replacedExecutedQuantity,
+      );
+      const managedOrder: ManagedOrder = {
+        order: {
+          orderId: orderGroupOrder.orderId,
+          quantity:
+            decimalToPip(orderGroupOrder.quantity) - replacedExecutedQuantity,
+          executedQuantity:
+            decimalToPip(orderGroupOrder.executedQuantity) -
+            replacedExecutedQuantity,
+          cumulativeQuoteQuantity: BigInt(0),
+          isClosed: orderGroupOrder.isClosed || !orderGroupOrder.orderId,
+        },
+        clientOrderId: undefined,
+        quantity: decimalToPip(orderGroupOrder.quantity),
+        replacedExecutedQuantity,
+        isCanceledByGroup: orderGroupOrder.isCanceledByGroup,
+      };
+
+      const { orderId } = orderGroupOrder;
+      if (!orderId || orderGroupOrder.isClosed) {
+        return managedOrder;
+      }
+
+      try {
+        const order =
+          openOrders.get(orderId) ??
+          (await client.getOrder({ wallet, orderId }));
+        managedOrder.clientOrderId = order.clientOrderId;
+        managedOrder.order.quantity = decimalToPip(order.originalQuantity);
+        updateChildOrder(managedOrder.order, order);
+      } catch (error) {
+        if (!isIDEXNotFoundError(error)) {
+          throw error;
+        }
+        managedOrder.order.isClosed = true;
+      }
+      return managedOrder;
+    };
+
+    const restoredGroups: OrderGroup[] = [];
+    for (const group of groups) {
+      // eslint-disable-next-line no-await-in-loop
+      const entry = group.entry ? await restoreOrder(group.entry) : null;
+      // eslint-disable-next-line no-await-in-loop
+      const orders = await Promise.all(group.orders.map(restoreOrder));
+      // eslint-disable-next-line no-await-in-loop
+      const restoredGroup = await this.addGroup({
+        groupId: group.groupId,
+        type: group.type,
+        entry,
+        orders,
+      });
+      if (this.groups.has(group.groupId)) {
+        restoredGroups.push(restoredGroup);
+      }
+    }
+
+    return restoredGroups;
+  }
+
+  /**
+   * Cancels the open orders of a group and stops managing it.
+   */
+  public async cancelGroup(groupId: string) {
+    return this.queue.enqueue(async () => {
+      const group = this.groups.get(groupId);
+      if (!group) {
+        return;
+      }
+
+      const managedOrders = this.getManagedOrders(group).filter(
+        ({ order }) => !order.isClosed,
+      );
+      for (const managedOrder of managedOrders) {
+        managedOrder.isCanceledByGroup = true;
+      }
+      await cancelOpenChildOrders(
+        this.options.client,
+        this.options.wallet,
+        managedOrders.map(({ order }) => order),
+      );
+      this.emitUpdated(group);
+    });
+  }
+
+  /**
+   * Groups which are currently managed
+   */
+  public getGroups(): OrderGroup[] {
+    return Array.from(this.groups.values()).map(toOrderGroup);
+  }
+
+  private async addGroup(group: ManagedGroup) {
+    this.groups.set(group.groupId, group);
+    return this.queue.enqueue(async () => {
+      await this.reconcile(group);
+      return toOrderGroup(group);
+    });
+  }
+
+  private async placeOrder(
+    parameters: OrderGroupOrderParameters,
+  ): Promise<ManagedOrder> {
+    const clientOrderId = parameters.clientOrderId ?? uuidv1();
+    const order = await this.options.client.createOrder({
+      ...parameters,
+      wallet: parameters.wallet ?? this.options.wallet,
+      clientOrderId,
+    } as idex.RestRequestWithOptionalNonce<idex.RestRequestOrder>);
+
+    return createManagedOrder(order);
+  }
+
+  private getManagedOrders(group: ManagedGroup) {
+    return group.entry ? [group.entry, ...group.orders] : group.orders;
+  }
+
+  /**
+   * Quantity each open order of the group should execute in total
+   */
+  private getTargetQuantities(group: ManagedGroup) {
+    const { entry, orders } = group;
+    const targetQuantities = new Map<ManagedOrder, bigint>();
+
+    // an order closed before it was filled, other than by the manager, voids the others
+    const isVoided = orders.some(
+      (managedOrder) =>
+        managedOrder.order.isClosed &&
+        !managedOrder.isCanceledByGroup &&
+        getExecutedQuantity(managedOrder) < managedOrder.quantity,
+    );
+    const executedQuantity = orders.reduce(
+      (sum, managedOrder) => sum + getExecutedQuantity(managedOrder),
+      BigInt(0),
+    );
+
+    // exit orders of a bracket execute the quantity of the entry order
+    let entryQuantity: bigint | null = null;
+    if (entry) {
+      entryQuantity =
+        entry.order.isClosed ? getExecutedQuantity(entry) : entry.quantity;
+    }
+
+    for (const managedOrder of orders) {
+      const quantity = entryQuantity ?? managedOrder.quantity;
+      targetQuantities.set(
+        managedOrder,
+        isVoided ?
+          BigInt(0)
+        : minBigInt(
+            managedOrder.quantity,
+            quantity - (executedQuantity - getExecutedQuantity(managedOrder)),
+          ),
+      );
+    }
+
+    if (entry) {
+      targetQuantities.set(
+        entry,
+        orders.every(({ order }) => order.isClosed) ?
+          BigInt(0)
+        : entry.quantity,
+      );
+    }
+
+    return targetQuantities;
+  }
+
+  private async reconcile(group: ManagedGroup) {
+    if (!this.groups.has(group.groupId)) {
+      return;
+    }
+
+    const ordersToCancel: ManagedOrder[] = [];
+    const ordersToResize: [ManagedOrder, bigint][] = [];
+    for (const [managedOrder, quantity] of this.getTargetQuantities(group)) {
+      if (managedOrder.order.isClosed || !managedOrder.order.orderId) {
+        // eslint-disable-next-line no-continue
+        continue;
+      }
+      if (quantity <= getExecutedQuantity(managedOrder)) {
+        ordersToCancel.push(managedOrder);
+      } else if (quantity < managedOrder.quantity) {
+        ordersToResize.push([managedOrder, quantity]);
+      }
+    }
+
+    let hasChanged = false;
+    try {
+      if (ordersToCancel.length) {
+        for (const managedOrder of ordersToCancel) {
+          managedOrder.isCanceledByGroup = true;
+        }
+        await cancelOpenChildOrders(
+          this.options.client,
+          this.options.wallet,
+          ordersToCancel.map(({ order }) => order),
+        );
+        hasChanged = true;
+      }
+      for (const [managedOrder, quantity] of ordersToResize) {
+        // eslint-disable-next-line no-await-in-loop
+        await this.resizeOrder(managedOrder, quantity);
+        hasChanged = true;
+      }
+    } catch (error) {
+      this.emit(OrderGroupManagerEvent.error, toError(error));
+    }
+
+    this.emitUpdated(group);
+    if (hasChanged) {
+      // orders closed while canceling may require further changes
+      this.reconcileSoon(group);
+    }
+  }
+
+  private async resizeOrder(managedOrder: ManagedOrder, quantity: bigint) {
+    const { client, wallet } = this.options;
+    const orderId = managedOrder.order.orderId as string;
+
+    const [canceledOrder] = await client.cancelOrders({
+      wallet,
+      orderIds: [orderId],
+    });
+    // the final executed quantity of the canceled order
+    const order = await client.getOrder({ wallet, orderId });
+    updateChildOrder(managedOrder.order, order);
+    /* eslint-disable no-param-reassign */
+    managedOrder.order.isClosed = true;
+    if (canceledOrder?.status !== OrderStatus.canceled) {
+      // closed before it could be canceled
+      return;
+    }
+
+    const executedQuantity = getExecutedQuantity(managedOrder);
+    managedOrder.quantity = quantity;
+    if (quantity <= executedQuantity) {
+      managedOrder.isCanceledByGroup = true;
+      return;
+    }
+
+    const clientOrderId = uuidv1();
+    managedOrder.replacedExecutedQuantity = executedQuantity;
+    managedOrder.clientOrderId = clientOrderId;
+    managedOrder.order = {
+      orderId: null,
+      quantity: quantity - executedQuantity,
+      executedQuantity: BigInt(0),
+      cumulativeQuoteQuantity: BigInt(0),
+      isClosed: false,
+    };
+
+    try {
+      updateChildOrder(
+        managedOrder.order,
+        await client.createOrder(
+          getReplacementOrderParameters(
+            order,
+            quantity - executedQuantity,
+            clientOrderId,
+          ),
+        ),
+      );
+    } catch (error) {
+      managedOrder.order.isClosed = true;
+      managedOrder.isCanceledByGroup = true;
+      throw error;
+    }
+    /* eslint-enable no-param-reassign */
+  }
+
+  private emitUpdated(group: ManagedGroup) {
+    const orderGroup = toOrderGroup(group);
+    this.emit(OrderGroupManagerEvent.updated, orderGroup);
+
+    if (
+      this.groups.has(group.groupId) &&
+      this.getManagedOrders(group).every(({ order }) => order.isClosed)
+    ) {
+      this.groups.delete(group.groupId);
+      this.emit(OrderGroupManagerEvent.done, orderGroup);
+    }
+  }
+
+  private closeStream() {
+    this.orders?.close();
+    this.orders = null;
+  }
+
+  private reconcileSoon(group: ManagedGroup) {
+    this.queue
+      .enqueue(() => this.reconcile(group))
+      .catch((error) => {
+        this.emit(OrderGroupManagerEvent.error, toError(error));
+      });
+  }
+}
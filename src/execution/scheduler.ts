@@ -0,0 +1,666 @@
+import { EventEmitter } from 'events';
+
+import { v1 as uuidv1 } from 'uuid';
+
+import {
+  decimalToPip,
+  dividePips,
+  maxBigInt,
+  minBigInt,
+  multiplyPips,
+  oneInPips,
+  pipToDecimal,
+} from '#pipmath';
+
+import {
+  cancelOpenChildOrders,
+  SerialQueue,
+  consumeStream,
+  roundDownToStepSize,
+  toError,
+  updateChildOrder,
+} from '#execution/utils';
+import {
+  ExecutionAlgorithm,
+  ExecutionSchedulerEvent,
+  ExecutionSchedulerStatus,
+  OrderType,
+  SubscriptionNameAuthenticated,
+  SubscriptionNamePublic,
+  TimeInForce,
+} from '#types/enums/index';
+
+import type { WebSocketStream } from '#client/webSocket/stream';
+import type {
+  ExecutionMarket,
+  ExecutionRestClient,
+  ExecutionWebSocketClient,
+} from '#execution/types';
+import type { ExecutionChildOrder } from '#execution/utils';
+import type * as idex from '#index';
+
+/**
+ * Options shared by all {@link ExecutionSchedulerOptions}
+ */
+export interface ExecutionSchedulerOptionsBase {
+  /**
+   * Client used to place and cancel child orders
+   */
+  client: ExecutionRestClient;
+  /**
+   * Client used to track child orders through the `orders` subscription, and observe market
+   * volume through the `trades` subscription
+   *
+   * - The client must be connected before the scheduler is started.
+   */
+  webSocketClient: ExecutionWebSocketClient;
+  /**
+   * Wallet placing the child orders
+   */
+  wallet: string;
+  market: ExecutionMarket;
+  side: idex.OrderSide;
+  /**
+   * Parent quantity to execute in base terms, e.g. `'10.00000000'`
+   */
+  quantity: string;
+  /**
+   * Limit price of child orders, child orders are `market` orders when omitted
+   */
+  price?: string;
+  /**
+   * Time in force of `limit` child orders
+   *
+   * @defaultValue TimeInForce.gtc
+   */
+  timeInForce?: idex.TimeInForce;
+  selfTradePrevention?: idex.SelfTradePrevention;
+  reduceOnly?: boolean;
+  /**
+   * How often child orders are placed
+   *
+   * @defaultValue 30_000
+   */
+  intervalMs?: number;
+}
+
+/**
+ * Options of a {@link ExecutionAlgorithm.twap twap} {@link ExecutionScheduler}
+ */
+export interface ExecutionSchedulerTWAPOptions
+  extends ExecutionSchedulerOptionsBase {
+  algorithm: typeof ExecutionAlgorithm.twap;
+  /**
+   * Duration over which the parent quantity is executed, split into a child order every
+   * {@link ExecutionSchedulerOptionsBase.intervalMs intervalMs}
+   */
+  durationMs: number;
+}
+
+/**
+ * Options of a {@link ExecutionAlgorithm.vwap vwap} {@link ExecutionScheduler}
+ */
+export interface ExecutionSchedulerVWAPOptions
+  extends ExecutionSchedulerOptionsBase {
+  algorithm: typeof ExecutionAlgorithm.vwap;
+  /**
+   * Share of the market's traded volume to execute, e.g. `'0.10000000'` for 10%
+   */
+  participationRate: string;
+  /**
+   * Maximum duration of the execution, runs until the parent quantity is executed when omitted
+   */
+  durationMs?: number;
+}
+
+/**
+ * Options of an {@link ExecutionScheduler}
+ */
+export type ExecutionSchedulerOptions =
+  | ExecutionSchedulerTWAPOptions
+  | ExecutionSchedulerVWAPOptions;
+
+/**
+ * Progress of an {@link ExecutionScheduler}, quantities are in base terms
+ */
+export interface ExecutionProgress {
+  status: ExecutionSchedulerStatus;
+  algorithm: ExecutionAlgorithm;
+  market: string;
+  side: idex.OrderSide;
+  /**
+   * Parent quantity
+   */
+  quantity: string;
+  executedQuantity: string;
+  /**
+   * Parent quantity not yet executed
+   */
+  remainingQuantity: string;
+  /**
+   * Unfilled quantity of open child orders
+   */
+  workingQuantity: string;
+  /**
+   * Quote quantity of all child order fills
+   */
+  cumulativeQuoteQuantity: string;
+  /**
+   * `null` until a child order has been filled
+   */
+  avgExecutionPrice: string | null;
+  /**
+   * Number of child orders placed
+   */
+  childOrders: number;
+}
+
+/**
+ * Works a parent order over time by slicing it into child `limit` or `market` orders.
+ *
+ * - {@link ExecutionAlgorithm.twap twap} divides the parent quantity evenly into a child order
+ *   every {@link ExecutionSchedulerOptionsBase.intervalMs intervalMs} over
+ *   {@link ExecutionSchedulerTWAPOptions.durationMs durationMs}, starting immediately.
+ * - {@link ExecutionAlgorithm.vwap vwap} places a child order every interval to keep the executed
+ *   quantity at {@link ExecutionSchedulerVWAPOptions.participationRate participationRate} of the
+ *   volume of the `trades` subscription since the scheduler was started, excluding the fills of
+ *   its own child orders. Volume traded while paused is not counted.
+ * - Child quantities are rounded down to the market's `stepSize`. Slices below the market's order
+ *   minimum are carried over to the next interval.
+ * - Unfilled `limit` child orders remain open, only quantity that is neither executed nor working
+ *   is placed in later slices. Open child orders are canceled when the duration elapses, the
+ *   scheduler is canceled or placing a child order fails.
+ * - Child orders are identified by a generated `clientOrderId` and their fills are tracked through
+ *   the `orders` subscription, which the scheduler streams along with `trades` for
+ *   {@link ExecutionAlgorithm.vwap vwap}. The streams are closed once the execution is done.
+ *
+ * @example
+ * ```typescript
+ * const [market] = await client.public.getMarkets({ market: 'ETH-USD' });
+ *
+ * const scheduler = new ExecutionScheduler({
+ *   algorithm: ExecutionAlgorithm.twap,
+ *   client,
+ *   webSocketClient,
+ *   wallet: '0x...',
+ *   market,
+ *   side: OrderSide.buy,
+ *   quantity: '10.00000000',
+ *   durationMs: 60 * 60 * 1000,
+ *   intervalMs: 60_000,
+ * });
+ *
+ * scheduler.on(ExecutionSchedulerEvent.progress, (progress) => {
+ *   console.log(progress.executedQuantity, progress.avgExecutionPrice);
+ * });
+ *
+ * await webSocketClient.connect();
+ * await scheduler.start();
+ * ```
+ *
+ * @see options  {@link ExecutionSchedulerOptions}
+ * @see events   {@link ExecutionSchedulerEvent}
+ */
+export class ExecutionScheduler extends EventEmitter<{
+  [ExecutionSchedulerEvent.progress]: [progress: ExecutionProgress];
+  [ExecutionSchedulerEvent.done]: [progress: ExecutionProgress];
+  [ExecutionSchedulerEvent.error]: [error: Error];
+}> {
+  private readonly options: ExecutionSchedulerOptions;
+
+  private readonly quantity: bigint;
+
+  private readonly stepSize: bigint;
+
+  private readonly minimumQuantity: bigint;
+
+  private readonly intervalMs: number;
+
+  /**
+   * Number of intervals after which open child orders are canceled
+   */
+  private readonly intervals: number | null;
+
+  private readonly childOrders = new Map<string, ExecutionChildOrder>();
+
+  private status: ExecutionSchedulerStatus = ExecutionSchedulerStatus.pending;
+
+  private interval = 0;
+
+  private observedVolume = BigInt(0);
+
+  /**
+   * Quantity executed by child orders while observing volume, which is included in the
+   * observed volume
+   */
+  private ownVolume = BigInt(0);
+
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  private isFinished = false;
+
+  /**
+   * Runs child order placement and cancellation one at a time
+   */
+  private readonly queue = new SerialQueue();
+
+  private streams: Pick<WebSocketStream<unknown>, 'subscribe' | 'close'>[] = [];
+
+  private readonly handleOrder = (order: idex.IDEXOrderEventData) => {
+    const childOrder =
+      order.type && order.clientOrderId ?
+        this.childOrders.get(order.clientOrderId)
+      : undefined;
+    if (!childOrder || !order.type) {
+      return;
+    }
+
+    this.updateChildOrder(childOrder, order);
+    this.emit(ExecutionSchedulerEvent.progress, this.getProgress());
+    this.completeIfExecuted();
+  };
+
+  private readonly handleTrade = (trade: idex.IDEXTradeEventData) => {
+    if (this.status === ExecutionSchedulerStatus.running) {
+      this.observedVolume += decimalToPip(trade.quantity);
+    }
+  };
+
+  constructor(options: ExecutionSchedulerOptions) {
+    super();
+
+    this.options = options;
+    this.quantity = decimalToPip(options.quantity);
+    this.stepSize = decimalToPip(options.market.stepSize);
+    this.minimumQuantity = maxBigInt(
+      this.stepSize,
+      decimalToPip(
+        options.price ?
+          options.market.makerOrderMinimum
+        : options.market.takerOrderMinimum,
+      ),
+    );
+    this.intervalMs = options.intervalMs ?? 30_000;
+    this.intervals =
+      options.durationMs === undefined ?
+        null
+      : Math.max(1, Math.ceil(options.durationMs / this.intervalMs));
+
+    if (this.quantity < this.minimumQuantity) {
+      throw new Error(
+        `Invalid quantity ${options.quantity}, must be at least ${pipToDecimal(this.minimumQuantity)}`,
+      );
+    }
+    if (
+      options.price &&
+      decimalToPip(options.price) % decimalToPip(options.market.tickSize) !==
+        BigInt(0)
+    ) {
+      throw new Error(
+        `Invalid price ${options.price}, must be a multiple of the tick size ${options.market.tickSize}`,
+      );
+    }
+    if (options.algorithm === ExecutionAlgorithm.vwap) {
+      const participationRate = decimalToPip(options.participationRate);
+      if (participationRate <= BigInt(0) || participationRate > oneInPips) {
+        throw new Error(
+          `Invalid participation rate ${options.participationRate}, must be greater than 0 and at most 1`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Subscribes to the `orders`, and for {@link ExecutionAlgorithm.vwap vwap} `trades`,
+   * subscriptions and places the first child order.
+   *
+   * - Throws if the scheduler has already been started.
+   */
+  public async start() {
+    if (this.status !== ExecutionSchedulerStatus.pending) {
+      throw new Error(`Execution scheduler is already ${this.status}`);
+    }
+
+    const { webSocketClient, market } = this.options;
+    const orders = webSocketClient.stream(
+      SubscriptionNameAuthenticated.orders,
+      {},
+    );
+    const trades =
+      this.options.algorithm === ExecutionAlgorithm.vwap ?
+        webSocketClient.stream(SubscriptionNamePublic.trades, {
+          markets: [market.market],
+        })
+      : null;
+    this.streams = trades ? [orders, trades] : [orders];
+
+    try {
+      await Promise.all(this.streams.map((stream) => stream.subscribe()));
+    } catch (error) {
+      this.closeStreams();
+      throw error;
+    }
+
+    this.consume(orders, this.handleOrder);
+    if (trades) {
+      this.consume(trades, this.handleTrade);
+    }
+
+    this.setStatus(ExecutionSchedulerStatus.running);
+    this.scheduleInterval(0);
+  }
+
+  /**
+   * Stops placing child orders until {@link resume} is called, open child orders are not
+   * canceled.
+   *
+   * - The remaining intervals of a {@link ExecutionAlgorithm.twap twap} schedule are delayed by
+   *   the time spent paused.
+   */
+  public pause() {
+    if (this.status !== ExecutionSchedulerStatus.running) {
+      return;
+    }
+    this.clearTimer();
+    this.setStatus(ExecutionSchedulerStatus.paused);
+  }
+
+  /**
+   * Resumes placing child orders, the next child order is placed after one interval.
+   */
+  public resume() {
+    if (this.status !== ExecutionSchedulerStatus.paused) {
+      return;
+    }
+    this.setStatus(ExecutionSchedulerStatus.running);
+    if (!this.timer) {
+      this.scheduleInterval(this.intervalMs);
+    }
+  }
+
+  /**
+   * Stops placing child orders and cancels open child orders.
+   *
+   * - Resolves with the final progress once open child orders have been canceled.
+   */
+  public async cancel(): Promise<ExecutionProgress> {
+    if (this.isDone()) {
+      return this.getProgress();
+    }
+    this.clearTimer();
+    this.status = ExecutionSchedulerStatus.canceled;
+
+    return this.queue.enqueue(async () => {
+      try {
+        await this.cancelOpenChildOrders();
+      } finally {
+        this.finish(ExecutionSchedulerStatus.canceled);
+      }
+      return this.getProgress();
+    });
+  }
+
+  /**
+   * Current progress of the execution
+   */
+  public getProgress(): ExecutionProgress {
+    let executedQuantity = BigInt(0);
+    let workingQuantity = BigInt(0);
+    let cumulativeQuoteQuantity = BigInt(0);
+    for (const childOrder of this.childOrders.values()) {
+      executedQuantity += childOrder.executedQuantity;
+      cumulativeQuoteQuantity += childOrder.cumulativeQuoteQuantity;
+      if (!childOrder.isClosed) {
+        workingQuantity += childOrder.quantity - childOrder.executedQuantity;
+      }
+    }
+
+    return {
+      status: this.status,
+      algorithm: this.options.algorithm,
+      market: this.options.market.market,
+      side: this.options.side,
+      quantity: pipToDecimal(this.quantity),
+      executedQuantity: pipToDecimal(executedQuantity),
+      remainingQuantity: pipToDecimal(
+        maxBigInt(BigInt(0), this.quantity - executedQuantity),
+      ),
+      workingQuantity: pipToDecimal(workingQuantity),
+      cumulativeQuoteQuantity: pipToDecimal(cumulativeQuoteQuantity),
+      avgExecutionPrice:
+        executedQuantity > BigInt(0) ?
+          pipToDecimal(dividePips(cumulativeQuoteQuantity, executedQuantity))
+        : null,
+      childOrders: this.childOrders.size,
+    };
+  }
+
+  private async runInterval() {
+    if (this.status !== ExecutionSchedulerStatus.running) {
+      return;
+    }
+
+    const { interval } = this;
+    this.interval += 1;
+
+    if (this.intervals !== null && interval >= this.intervals) {
+      await this.cancelOpenChildOrders();
+      this.finish(ExecutionSchedulerStatus.completed);
+      return;
+    }
+
+    const quantity = roundDownToStepSize(
+      this.getTargetQuantity(interval) - this.getCommittedQuantity(),
+      this.stepSize,
+    );
+    if (quantity >= this.minimumQuantity) {
+      await this.placeChildOrder(quantity);
+    }
+
+    this.completeIfExecuted();
+    if (this.status === ExecutionSchedulerStatus.running && !this.timer) {
+      this.scheduleInterval(this.intervalMs);
+    }
+  }
+
+  /**
+   * Quantity which should be executed or working after the given interval
+   */
+  private getTargetQuantity(interval: number) {
+    const { options } = this;
+
+    if (options.algorithm === ExecutionAlgorithm.vwap) {
+      // the scheduler's own fills are not part of the volume it participates in
+      return minBigInt(
+        this.quantity,
+        multiplyPips(
+          maxBigInt(BigInt(0), this.observedVolume - this.ownVolume),
+          decimalToPip(options.participationRate),
+        ),
+      );
+    }
+
+    const intervals = this.intervals ?? 1;
+    if (interval >= intervals - 1) {
+      return this.quantity;
+    }
+    return roundDownToStepSize(
+      (this.quantity * BigInt(interval + 1)) / BigInt(intervals),
+      this.stepSize,
+    );
+  }
+
+  /**
+   * Quantity which has been executed or is working
+   */
+  private getCommittedQuantity() {
+    let quantity = BigInt(0);
+    for (const childOrder of this.childOrders.values()) {
+      quantity +=
+        childOrder.isClosed ? childOrder.executedQuantity : childOrder.quantity;
+    }
+    return quantity;
+  }
+
+  private async placeChildOrder(quantity: bigint) {
+    const { options } = this;
+    const clientOrderId = uuidv1();
+    const childOrder: ExecutionChildOrder = {
+      orderId: null,
+      quantity,
+      executedQuantity: BigInt(0),
+      cumulativeQuoteQuantity: BigInt(0),
+      isClosed: false,
+    };
+    // tracked before it is placed as order events may arrive before the response
+    this.childOrders.set(clientOrderId, childOrder);
+
+    const parameters = {
+      wallet: options.wallet,
+      market: options.market.market,
+      side: options.side,
+      quantity: pipToDecimal(quantity),
+      clientOrderId,
+      ...(options.selfTradePrevention && {
+        selfTradePrevention: options.selfTradePrevention,
+      }),
+      ...(options.reduceOnly && { reduceOnly: true }),
+    };
+
+    try {
+      const order = await options.client.createOrder(
+        options.price ?
+          {
+            ...parameters,
+            type: OrderType.limit,
+            price: options.price,
+            timeInForce: options.timeInForce ?? TimeInForce.gtc,
+          }
+        : { ...parameters, type: OrderType.market },
+      );
+      this.updateChildOrder(childOrder, order);
+    } catch (error) {
+      this.childOrders.delete(clientOrderId);
+      await this.fail(error);
+      return;
+    }
+
+    this.emit(ExecutionSchedulerEvent.progress, this.getProgress());
+  }
+
+  private updateChildOrder(
+    childOrder: ExecutionChildOrder,
+    order: Parameters<typeof updateChildOrder>[1],
+  ) {
+    const { executedQuantity } = childOrder;
+    updateChildOrder(childOrder, order);
+    // fills are counted in the observed volume while running
+    if (this.status === ExecutionSchedulerStatus.running) {
+      this.ownVolume += childOrder.executedQuantity - executedQuantity;
+    }
+  }
+
+  private async cancelOpenChildOrders() {
+    await cancelOpenChildOrders(
+      this.options.client,
+      this.options.wallet,
+      this.childOrders.values(),
+    );
+  }
+
+  /**
+   * Completes the execution once the remaining quantity can no longer be placed and no child
+   * orders are open.
+   */
+  private completeIfExecuted() {
+    if (
+      this.status !== ExecutionSchedulerStatus.running &&
+      this.status !== ExecutionSchedulerStatus.paused
+    ) {
+      return;
+    }
+
+    const { executedQuantity, workingQuantity } = this.getProgress();
+    const remainingQuantity = roundDownToStepSize(
+      this.quantity - decimalToPip(executedQuantity),
+      this.stepSize,
+    );
+    if (
+      decimalToPip(workingQuantity) === BigInt(0) &&
+      remainingQuantity < this.minimumQuantity
+    ) {
+      this.finish(ExecutionSchedulerStatus.completed);
+    }
+  }
+
+  private async fail(error: unknown) {
+    this.clearTimer();
+    this.status = ExecutionSchedulerStatus.failed;
+    this.emit(ExecutionSchedulerEvent.error, toError(error));
+
+    try {
+      await this.cancelOpenChildOrders();
+    } catch (cancelError) {
+      this.emit(ExecutionSchedulerEvent.error, toError(cancelError));
+    }
+    this.finish(ExecutionSchedulerStatus.failed);
+  }
+
+  private finish(status: ExecutionSchedulerStatus) {
+    this.clearTimer();
+    if (this.isFinished) {
+      return;
+    }
+    this.isFinished = true;
+    this.closeStreams();
+    this.setStatus(status);
+    this.emit(ExecutionSchedulerEvent.done, this.getProgress());
+  }
+
+  private consume<T>(
+    stream: WebSocketStream<T>,
+    onUpdate: (update: T) => void,
+  ) {
+    consumeStream(stream, onUpdate).catch((error) => {
+      this.emit(ExecutionSchedulerEvent.error, toError(error));
+    });
+  }
+
+  /**
+   * Closes the scheduler's streams, unsubscribing from subscriptions no longer used by other
+   * streams
+   */
+  private closeStreams() {
+    this.streams.forEach((stream) => stream.close());
+    this.streams = [];
+  }
+
+  private isDone() {
+    return (
+      this.status === ExecutionSchedulerStatus.completed ||
+      this.status === ExecutionSchedulerStatus.canceled ||
+      this.status === ExecutionSchedulerStatus.failed
+    );
+  }
+
+  private setStatus(status: ExecutionSchedulerStatus) {
+    this.status = status;
+    this.emit(ExecutionSchedulerEvent.progress, this.getProgress());
+  }
+
+  private scheduleInterval(delayMs: number) {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.queue
+        .enqueue(() => this.runInterval())
+        .catch((error) => this.fail(error));
+    }, delayMs);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import type { RestAuthenticatedClient } from '#client/rest/authenticated';
+import type { WebSocketClient } from '#client/webSocket/index';
+import type { IDEXMarket } from '#types/rest/endpoints/index';
+
+/**
+ * The {@link RestAuthenticatedClient} methods used to place and cancel child orders
+ *
+ * - A {@link PaperTradingClient} also provides these methods.
+ */
+export type ExecutionRestClient = Pick<
+  RestAuthenticatedClient,
+  'createOrder' | 'cancelOrders'
+>;
+
+/**
+ * The {@link RestAuthenticatedClient} methods used to place, cancel and reconcile the orders
+ * of an {@link OrderGroupManager}
+ *
+ * - A {@link PaperTradingClient} also provides these methods.
+ */
+export type OrderGroupRestClient = ExecutionRestClient &
+  Pick<RestAuthenticatedClient, 'getOrder' | 'getOrders'>;
+
+/**
+ * The {@link WebSocketClient} methods used to track child orders and market activity
+ *
+ * - The client must be connected and authenticated for the wallet of the child orders.
+ * - Updates are received through {@link WebSocketClient.stream streams}, which are closed once
+ *   an execution is done or an {@link OrderGroupManager} is stopped so that subscriptions which
+ *   are no longer used are unsubscribed.
+ */
+export type ExecutionWebSocketClient = Pick<WebSocketClient, 'stream'>;
+
+/**
+ * The market of child orders, as returned by {@link RestPublicClient.getMarkets}
+ */
+export type ExecutionMarket = Pick<
+  IDEXMarket,
+  'market' | 'tickSize' | 'stepSize' | 'makerOrderMinimum' | 'takerOrderMinimum'
+>;
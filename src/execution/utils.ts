@@ -0,0 +1,154 @@
+import { decimalToPip } from '#pipmath';
+
+import { OrderStatus } from '#types/enums/response';
+
+import type { ExecutionRestClient } from '#execution/types';
+import type { IDEXOrder } from '#types/rest/endpoints/index';
+
+/**
+ * @internal
+ */
+const closedOrderStatuses = new Set<OrderStatus>([
+  OrderStatus.canceled,
+  OrderStatus.filled,
+  OrderStatus.notFound,
+]);
+
+/**
+ * @internal
+ *
+ * Whether an order with the given status can no longer be filled.
+ */
+export function isClosedOrderStatus(status: OrderStatus) {
+  return closedOrderStatuses.has(status);
+}
+
+/**
+ * @internal
+ *
+ * Rounds a quantity in pips down to a multiple of the step size.
+ */
+export function roundDownToStepSize(quantity: bigint, stepSize: bigint) {
+  if (quantity <= BigInt(0)) {
+    return BigInt(0);
+  }
+  return quantity - (quantity % stepSize);
+}
+
+/**
+ * @internal
+ *
+ * An order placed by an execution manager, identified by the generated `clientOrderId` it was
+ * placed with so that its order events can be matched before the order is created.
+ */
+export interface ExecutionChildOrder {
+  orderId: string | null;
+  quantity: bigint;
+  executedQuantity: bigint;
+  cumulativeQuoteQuantity: bigint;
+  isClosed: boolean;
+}
+
+/**
+ * @internal
+ *
+ * Applies an order from a REST response or `orders` subscription event to a child order.
+ *
+ * - Updates may be received out of order, executed quantities only increase.
+ */
+export function updateChildOrder(
+  childOrder: ExecutionChildOrder,
+  order: Pick<
+    IDEXOrder,
+    'orderId' | 'status' | 'executedQuantity' | 'cumulativeQuoteQuantity'
+  >,
+) {
+  const executedQuantity = decimalToPip(order.executedQuantity);
+
+  /* eslint-disable no-param-reassign */
+  childOrder.orderId = order.orderId;
+  if (executedQuantity > childOrder.executedQuantity) {
+    childOrder.executedQuantity = executedQuantity;
+    childOrder.cumulativeQuoteQuantity = decimalToPip(
+      order.cumulativeQuoteQuantity,
+    );
+  }
+  if (isClosedOrderStatus(order.status)) {
+    childOrder.isClosed = true;
+  }
+  /* eslint-enable no-param-reassign */
+}
+
+/**
+ * @internal
+ *
+ * Cancels the open child orders by `orderIds` and marks them closed.
+ *
+ * - `notFound` orders were closed before they could be canceled.
+ */
+export async function cancelOpenChildOrders(
+  client: ExecutionRestClient,
+  wallet: string,
+  childOrders: Iterable<ExecutionChildOrder>,
+) {
+  const openChildOrders = new Map<string, ExecutionChildOrder>();
+  for (const childOrder of childOrders) {
+    if (!childOrder.isClosed && childOrder.orderId) {
+      openChildOrders.set(childOrder.orderId, childOrder);
+    }
+  }
+  if (!openChildOrders.size) {
+    return;
+  }
+
+  const canceledOrders = await client.cancelOrders({
+    wallet,
+    orderIds: Array.from(openChildOrders.keys()),
+  });
+  for (const { orderId } of canceledOrders) {
+    const childOrder = orderId && openChildOrders.get(orderId);
+    if (childOrder) {
+      childOrder.isClosed = true;
+    }
+  }
+}
+
+/**
+ * @internal
+ *
+ * Calls `onUpdate` with each update of a stream until the stream is closed.
+ */
+export async function consumeStream<T>(
+  stream: AsyncIterable<T>,
+  onUpdate: (update: T) => void,
+) {
+  for await (const update of stream) {
+    onUpdate(update);
+  }
+}
+
+/**
+ * @internal
+ *
+ * Runs tasks one at a time in the order they were enqueued, a failed task does not prevent
+ * later tasks from running.
+ */
+export class SerialQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Runs `fn` once all previously enqueued tasks have settled, resolving with its result.
+   */
+  public async enqueue<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(fn);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * @internal
+ */
+export function toError(error: unknown) {
+  return error instanceof Error ? error : new Error(String(error));
+}
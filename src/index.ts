@@ -1,7 +1,11 @@
+export * from '#accounting/index';
+export * from '#backtesting/index';
 export * from '#bridge/index';
 export * from '#client/index';
 export * from '#constants';
+export * from '#execution/index';
 export * from '#orderbook/index';
+export * from '#orders/index';
 export * from '#pipmath';
 export * from '#signatures';
 export * from '#types/index';
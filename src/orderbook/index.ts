@@ -1,2 +1,7 @@
+export * from '#orderbook/margin';
+export * from '#orderbook/marketImpact';
+export * from '#orderbook/maximumQuantity';
+export * from '#orderbook/orderImpact';
 export * from '#orderbook/quantities';
 export * from '#orderbook/utils';
+export * from '#orderbook/verification';
@@ -0,0 +1,258 @@
+import { absBigInt, decimalToPip, dividePips, multiplyPips } from '#pipmath';
+
+import {
+  calculateInitialMarginFractionWithOverride,
+  convertToLeverageParametersBigInt,
+} from '#orderbook/quantities';
+
+import type {
+  LeverageParameters,
+  LeverageParametersBigInt,
+} from '#orderbook/quantities';
+import type {
+  IDEXInitialMarginFractionOverride,
+  IDEXMarket,
+  IDEXPosition,
+  IDEXWallet,
+} from '#types/rest/endpoints/index';
+
+/**
+ * The market symbol and leverage parameters of a {@link IDEXMarket}, such as returned by
+ * `RestPublicClient.getMarkets`.
+ */
+export type MarginMarket = Pick<IDEXMarket, 'market'> & LeverageParameters;
+
+/**
+ * The fields of a {@link IDEXPosition} used for margin calculations.
+ */
+export type MarginPosition = Pick<
+  IDEXPosition,
+  'market' | 'quantity' | 'indexPrice'
+>;
+
+/**
+ * Margin details of a single position.
+ *
+ * - All values are in pips.
+ */
+export interface PositionMargin {
+  market: string;
+  /**
+   * Base quantity, negative for short positions
+   */
+  quantity: bigint;
+  /**
+   * Index price the position was valued at
+   */
+  indexPrice: bigint;
+  /**
+   * Absolute position notional value at the index price
+   */
+  notionalValue: bigint;
+  /**
+   * Initial margin fraction of the position, including any wallet override
+   */
+  initialMarginFraction: bigint;
+  maintenanceMarginFraction: bigint;
+  initialMarginRequirement: bigint;
+  maintenanceMarginRequirement: bigint;
+  /**
+   * Index price of the market at which the wallet would become liquidatable, assuming the
+   * index prices of all other markets remain unchanged
+   *
+   * - `0` if no positive index price would result in liquidation.
+   */
+  liquidationPrice: bigint;
+}
+
+/**
+ * Margin details of a wallet, calculated from its quote balance and positions.
+ *
+ * - All values are in pips.
+ */
+export interface WalletMargin {
+  /**
+   * `quoteBalance + sum(position quantity * index price)`
+   */
+  accountValue: bigint;
+  initialMarginRequirement: bigint;
+  maintenanceMarginRequirement: bigint;
+  /**
+   * `accountValue - initialMarginRequirement`, negative when the wallet is below its initial
+   * margin requirement
+   */
+  freeCollateral: bigint;
+  /**
+   * `maintenanceMarginRequirement / accountValue`, `null` if the account value is not positive
+   */
+  marginRatio: bigint | null;
+  /**
+   * `total position notional value / accountValue`, `null` if the account value is not positive
+   */
+  leverage: bigint | null;
+  /**
+   * `true` if the account value is below the maintenance margin requirement
+   */
+  isLiquidatable: boolean;
+  positions: PositionMargin[];
+}
+
+/**
+ * @private
+ */
+function calculateLiquidationPrice(args: {
+  quantity: bigint;
+  maintenanceMarginFraction: bigint;
+  otherAccountValue: bigint;
+  otherMaintenanceMarginRequirement: bigint;
+}): bigint {
+  const {
+    quantity,
+    maintenanceMarginFraction,
+    otherAccountValue,
+    otherMaintenanceMarginRequirement,
+  } = args;
+
+  // Solves `otherAccountValue + quantity * price =
+  //   otherMaintenanceMarginRequirement + abs(quantity) * price * maintenanceMarginFraction`
+  const numerator = otherMaintenanceMarginRequirement - otherAccountValue;
+  const denominator =
+    quantity - multiplyPips(absBigInt(quantity), maintenanceMarginFraction);
+
+  const liquidationPrice =
+    denominator < BigInt(0) ?
+      dividePips(-numerator, -denominator)
+    : dividePips(numerator, denominator);
+
+  return liquidationPrice > BigInt(0) ? liquidationPrice : BigInt(0);
+}
+
+/**
+ * Calculates the account value, margin requirements, margin ratio and per-position
+ * liquidation prices of a wallet, mirroring the
+ * `loadTotalMaintenanceMarginRequirementFromIndexPrices` logic of the Exchange contract.
+ *
+ * - Positions are valued at their index price unless a hypothetical price is provided for
+ *   the market in `indexPrices`.
+ * - `positions` defaults to the `positions` of the wallet, which are only present if they
+ *   were requested.
+ * - Throws if no leverage parameters are provided for the market of a position.
+ *
+ * @example
+ * ```typescript
+ * // margin details if the index price of ETH-USD dropped to 2000
+ * const margin = calculateWalletMargin({
+ *   wallet,
+ *   markets: await publicClient.getMarkets(),
+ *   indexPrices: { 'ETH-USD': decimalToPip('2000') },
+ * });
+ * ```
+ */
+export function calculateWalletMargin(args: {
+  wallet: Pick<IDEXWallet, 'quoteBalance' | 'positions'>;
+  positions?: MarginPosition[];
+  markets: MarginMarket[];
+  initialMarginFractionOverrides?: IDEXInitialMarginFractionOverride[];
+  indexPrices?: Record<string, bigint>;
+}): WalletMargin {
+  const {
+    wallet,
+    positions = wallet.positions ?? [],
+    markets,
+    initialMarginFractionOverrides = [],
+    indexPrices = {},
+  } = args;
+
+  const leverageParametersByMarket = new Map<string, LeverageParametersBigInt>(
+    markets.map((market) => [
+      market.market,
+      convertToLeverageParametersBigInt(market),
+    ]),
+  );
+
+  let accountValue = decimalToPip(wallet.quoteBalance);
+  let initialMarginRequirement = BigInt(0);
+  let maintenanceMarginRequirement = BigInt(0);
+  let totalNotionalValue = BigInt(0);
+
+  const positionMargins = positions.map((position) => {
+    const leverageParameters = leverageParametersByMarket.get(position.market);
+    if (!leverageParameters) {
+      throw new Error(`No leverage parameters for market ${position.market}`);
+    }
+
+    const override = initialMarginFractionOverrides.find(
+      (imfo) => imfo.market === position.market,
+    )?.initialMarginFractionOverride;
+
+    const quantity = decimalToPip(position.quantity);
+    const indexPrice =
+      indexPrices[position.market] ?? decimalToPip(position.indexPrice);
+    const notionalValue = absBigInt(multiplyPips(quantity, indexPrice));
+    const initialMarginFraction = calculateInitialMarginFractionWithOverride({
+      baseQuantity: quantity,
+      initialMarginFractionOverride: override ? decimalToPip(override) : null,
+      leverageParameters,
+    });
+
+    const positionMargin: PositionMargin = {
+      market: position.market,
+      quantity,
+      indexPrice,
+      notionalValue,
+      initialMarginFraction,
+      maintenanceMarginFraction: leverageParameters.maintenanceMarginFraction,
+      initialMarginRequirement: multiplyPips(
+        notionalValue,
+        initialMarginFraction,
+      ),
+      maintenanceMarginRequirement: multiplyPips(
+        notionalValue,
+        leverageParameters.maintenanceMarginFraction,
+      ),
+      liquidationPrice: BigInt(0),
+    };
+
+    accountValue += multiplyPips(quantity, indexPrice);
+    initialMarginRequirement += positionMargin.initialMarginRequirement;
+    maintenanceMarginRequirement += positionMargin.maintenanceMarginRequirement;
+    totalNotionalValue += notionalValue;
+
+    return positionMargin;
+  });
+
+  // Liquidation prices depend on the totals of all other positions
+  for (const positionMargin of positionMargins) {
+    if (positionMargin.quantity !== BigInt(0)) {
+      positionMargin.liquidationPrice = calculateLiquidationPrice({
+        quantity: positionMargin.quantity,
+        maintenanceMarginFraction: positionMargin.maintenanceMarginFraction,
+        otherAccountValue:
+          accountValue -
+          multiplyPips(positionMargin.quantity, positionMargin.indexPrice),
+        otherMaintenanceMarginRequirement:
+          maintenanceMarginRequirement -
+          positionMargin.maintenanceMarginRequirement,
+      });
+    }
+  }
+
+  const isAccountValuePositive = accountValue > BigInt(0);
+
+  return {
+    accountValue,
+    initialMarginRequirement,
+    maintenanceMarginRequirement,
+    freeCollateral: accountValue - initialMarginRequirement,
+    marginRatio:
+      isAccountValuePositive ?
+        dividePips(maintenanceMarginRequirement, accountValue)
+      : null,
+    leverage:
+      isAccountValuePositive ?
+        dividePips(totalNotionalValue, accountValue)
+      : null,
+    isLiquidatable: accountValue < maintenanceMarginRequirement,
+    positions: positionMargins,
+  };
+}
@@ -0,0 +1,268 @@
+import { decimalToPip, dividePips, multiplyPips, oneInPips } from '#pipmath';
+
+import { calculateGrossFillQuantities } from '#orderbook/quantities';
+import { OrderSide } from '#types/enums/request';
+
+import type { L2OrderBook, OrderBookLevelL2 } from '#types/orderBook';
+
+/**
+ * A taker order to estimate the execution of against an order book.
+ *
+ * - Provide either `quantity` (base) or `quoteQuantity`, in pips.
+ * - When `limitPrice` is provided, levels priced worse than the limit are not consumed.
+ */
+export type MarketImpactOrder = {
+  side: OrderSide;
+  limitPrice?: bigint;
+} & (
+  | { quantity: bigint; quoteQuantity?: undefined }
+  | { quoteQuantity: bigint; quantity?: undefined }
+);
+
+/**
+ * The estimated execution of a taker order against the current order book.
+ *
+ * - All values are in pips, slippage values are fractions (`10000000` = 10%).
+ * - Slippage is positive when the average price is worse than the reference price.
+ */
+export interface MarketImpactEstimate {
+  /**
+   * Base quantity which would be filled
+   */
+  baseQuantity: bigint;
+  /**
+   * Quote quantity which would be filled
+   */
+  quoteQuantity: bigint;
+  /**
+   * `true` if the order book has enough liquidity to fill the requested quantity
+   */
+  isFullyFilled: boolean;
+  /**
+   * Volume-weighted average fill price, `null` if nothing would be filled
+   */
+  averagePrice: bigint | null;
+  /**
+   * Price of the last level consumed, `null` if nothing would be filled
+   */
+  worstPrice: bigint | null;
+  /**
+   * Number of price levels consumed, including a partially consumed last level
+   */
+  levelsConsumed: number;
+  /**
+   * Mid price of the order book, `null` if either side of the book is empty
+   */
+  midPrice: bigint | null;
+  /**
+   * Slippage of {@link averagePrice} relative to {@link midPrice}
+   */
+  slippageFromMid: bigint | null;
+  /**
+   * Slippage of {@link averagePrice} relative to the index price of the order book
+   */
+  slippageFromIndex: bigint | null;
+}
+
+/**
+ * Cumulative liquidity within a distance of the mid price on one side of the order book.
+ */
+export interface OrderBookDepthSide {
+  /**
+   * The worst price of the levels included in the band, or the band boundary
+   * price if no levels are included
+   */
+  price: bigint;
+  baseQuantity: bigint;
+  quoteQuantity: bigint;
+}
+
+/**
+ * Cumulative liquidity within {@link bpsFromMid} basis points of the mid price.
+ *
+ * - All values are in pips.
+ */
+export interface OrderBookDepthBand {
+  bpsFromMid: number;
+  bids: OrderBookDepthSide;
+  asks: OrderBookDepthSide;
+}
+
+const BPS_IN_ONE = BigInt(10_000);
+
+/**
+ * Mid price of the order book, `null` if either side is empty.
+ */
+export function calculateMidPrice(book: L2OrderBook): bigint | null {
+  const [bestAsk] = book.asks;
+  const [bestBid] = book.bids;
+
+  if (!bestAsk || !bestBid) {
+    return null;
+  }
+
+  return (bestAsk.price + bestBid.price) / BigInt(2);
+}
+
+/**
+ * @private
+ */
+function calculateSlippage(
+  side: OrderSide,
+  averagePrice: bigint | null,
+  referencePrice: bigint | null,
+): bigint | null {
+  if (averagePrice === null || !referencePrice) {
+    return null;
+  }
+
+  const difference =
+    side === OrderSide.buy ?
+      averagePrice - referencePrice
+    : referencePrice - averagePrice;
+
+  return dividePips(difference, referencePrice);
+}
+
+/**
+ * Estimates the execution of a taker order against the given order book, including its
+ * average price, worst price, number of levels consumed and slippage.
+ *
+ * - Buy orders are matched against `asks` and sell orders against `bids`, which are expected to
+ *   be sorted by best price as they are in {@link L2OrderBook}.
+ * - Fill quantities are calculated by {@link calculateGrossFillQuantities}.
+ */
+export function estimateFillFromL2OrderBook(
+  book: L2OrderBook,
+  order: MarketImpactOrder,
+): MarketImpactEstimate {
+  const levels = order.side === OrderSide.buy ? book.asks : book.bids;
+  const isQuantityInQuote = order.quoteQuantity !== undefined;
+  const requestedQuantity = order.quoteQuantity ?? order.quantity;
+
+  const filled2p = calculateGrossFillQuantities(
+    levels,
+    {
+      side: order.side,
+      quantity: requestedQuantity,
+      isQuantityInQuote,
+      limitPrice: order.limitPrice,
+    },
+    true,
+  );
+  const filledInRequestedUnit2p =
+    isQuantityInQuote ? filled2p.quoteQuantity : filled2p.baseQuantity;
+
+  let levelsConsumed = 0;
+  let worstPrice: bigint | null = null;
+  let cumulative2p = BigInt(0);
+
+  for (const level of levels) {
+    if (cumulative2p >= filledInRequestedUnit2p) {
+      break;
+    }
+    const levelBase2p = level.size * oneInPips;
+    cumulative2p +=
+      isQuantityInQuote ? multiplyPips(levelBase2p, level.price) : levelBase2p;
+    levelsConsumed += 1;
+    worstPrice = level.price;
+  }
+
+  const baseQuantity = filled2p.baseQuantity / oneInPips;
+  const quoteQuantity = filled2p.quoteQuantity / oneInPips;
+  const averagePrice =
+    filled2p.baseQuantity > BigInt(0) ?
+      dividePips(filled2p.quoteQuantity, filled2p.baseQuantity)
+    : null;
+  const midPrice = calculateMidPrice(book);
+  const indexPrice = book.indexPrice ? decimalToPip(book.indexPrice) : null;
+
+  return {
+    baseQuantity,
+    quoteQuantity,
+    isFullyFilled: filledInRequestedUnit2p >= requestedQuantity * oneInPips,
+    averagePrice,
+    worstPrice,
+    levelsConsumed,
+    midPrice,
+    slippageFromMid: calculateSlippage(order.side, averagePrice, midPrice),
+    slippageFromIndex: calculateSlippage(order.side, averagePrice, indexPrice),
+  };
+}
+
+/**
+ * @private
+ */
+function sumLevelsWithinPrice(
+  levels: OrderBookLevelL2[],
+  isWithinPrice: (price: bigint) => boolean,
+  boundaryPrice: bigint,
+): OrderBookDepthSide {
+  const depth: OrderBookDepthSide = {
+    price: boundaryPrice,
+    baseQuantity: BigInt(0),
+    quoteQuantity: BigInt(0),
+  };
+
+  for (const level of levels) {
+    if (!isWithinPrice(level.price)) {
+      break;
+    }
+    depth.price = level.price;
+    depth.baseQuantity += level.size;
+    depth.quoteQuantity += multiplyPips(level.size, level.price);
+  }
+
+  return depth;
+}
+
+/**
+ * Calculates the cumulative base and quote liquidity on each side of the order book within
+ * the given distances (in basis points) of the mid price.
+ *
+ * - Returns an empty array if either side of the book is empty.
+ *
+ * @example
+ * ```typescript
+ * // liquidity within 0.1%, 0.5% and 1% of the mid price
+ * const bands = calculateDepthFromL2OrderBook(book, [10, 50, 100]);
+ * ```
+ */
+export function calculateDepthFromL2OrderBook(
+  book: L2OrderBook,
+  bpsFromMid: number | number[],
+): OrderBookDepthBand[] {
+  const midPrice = calculateMidPrice(book);
+
+  if (midPrice === null) {
+    return [];
+  }
+
+  return (Array.isArray(bpsFromMid) ? bpsFromMid : [bpsFromMid]).map((bps) => {
+    if (!Number.isFinite(bps) || bps < 0) {
+      throw new Error(
+        `Invalid bpsFromMid ${bps}, must be a non-negative number`,
+      );
+    }
+
+    // hundredths of a basis point allow fractional bps values
+    const distance =
+      (midPrice * BigInt(Math.round(bps * 100))) / (BPS_IN_ONE * BigInt(100));
+    const maxAskPrice = midPrice + distance;
+    const minBidPrice = midPrice - distance;
+
+    return {
+      bpsFromMid: bps,
+      asks: sumLevelsWithinPrice(
+        book.asks,
+        (price) => price <= maxAskPrice,
+        maxAskPrice,
+      ),
+      bids: sumLevelsWithinPrice(
+        book.bids,
+        (price) => price >= minBidPrice,
+        minBidPrice,
+      ),
+    };
+  });
+}
@@ -0,0 +1,213 @@
+import { absBigInt, decimalToPip, multiplyPips } from '#pipmath';
+
+import { calculateWalletMargin } from '#orderbook/margin';
+import {
+  calculateInitialMarginFractionWithOverride,
+  convertToActiveStandingOrderBigInt,
+  convertToLeverageParametersBigInt,
+  isActiveStandingOrder,
+} from '#orderbook/quantities';
+import { OrderSide } from '#types/enums/request';
+
+import type { MarginMarket, MarginPosition } from '#orderbook/margin';
+import type { StandingOrder } from '#orderbook/quantities';
+import type {
+  IDEXInitialMarginFractionOverride,
+  IDEXMarket,
+  IDEXWallet,
+} from '#types/rest/endpoints/index';
+
+/**
+ * @private
+ */
+function findInitialMarginFractionOverride(
+  market: string,
+  initialMarginFractionOverrides: IDEXInitialMarginFractionOverride[],
+): bigint | null {
+  const override = initialMarginFractionOverrides.find(
+    (imfo) => imfo.market === market,
+  )?.initialMarginFractionOverride;
+
+  return override ? decimalToPip(override) : null;
+}
+
+/**
+ * Returns the initial margin held for the wallet's standing orders, assuming each
+ * order is margined at its limit price.
+ *
+ * - Throws if no leverage parameters are provided for the market of an order.
+ */
+export function calculateHeldCollateral(args: {
+  walletsStandingOrders: StandingOrder[];
+  markets: MarginMarket[];
+  initialMarginFractionOverrides?: IDEXInitialMarginFractionOverride[];
+}): bigint {
+  const {
+    walletsStandingOrders,
+    markets,
+    initialMarginFractionOverrides = [],
+  } = args;
+
+  let heldCollateral = BigInt(0);
+
+  for (const order of walletsStandingOrders.filter(isActiveStandingOrder)) {
+    const market = markets.find((m) => m.market === order.market);
+    if (!market) {
+      throw new Error(`No leverage parameters for market ${order.market}`);
+    }
+    const { openQuantity, price } = convertToActiveStandingOrderBigInt(order);
+
+    heldCollateral += multiplyPips(
+      multiplyPips(openQuantity, price),
+      calculateInitialMarginFractionWithOverride({
+        baseQuantity: openQuantity,
+        initialMarginFractionOverride: findInitialMarginFractionOverride(
+          order.market,
+          initialMarginFractionOverrides,
+        ),
+        leverageParameters: convertToLeverageParametersBigInt(market),
+      }),
+    );
+  }
+
+  return heldCollateral;
+}
+
+/**
+ * Returns the largest order quantity the wallet can place on the given side of a market,
+ * the SDK equivalent of the "max buy/sell" sizes of the IDEX web UI.
+ *
+ * - The order is assumed to execute at `limitPrice`, or at the index price of the market if
+ *   no limit price is given, and the resulting position is margined at the index price
+ *   including the incremental initial margin fraction tiers of the market.
+ * - Initial margin held for the wallet's standing orders is calculated by
+ *   {@link calculateHeldCollateral}, and active standing orders on the same side of the
+ *   market count towards the maximum position size.
+ * - Quantity which reduces the current position is always available, even if the wallet
+ *   does not have enough free collateral.
+ * - The result is rounded down to the step size of the market.
+ * - `markets` must include the leverage parameters of every market the wallet has a
+ *   position or standing order in, and defaults to `[market]`.
+ *
+ * @see related {@link determineMaximumReduceOnlyQuantityAvailableAtPriceLevel}
+ */
+export function calculateMaximumOrderQuantity(args: {
+  side: OrderSide;
+  limitPrice?: bigint;
+  wallet: Pick<IDEXWallet, 'quoteBalance'> & { positions?: MarginPosition[] };
+  walletsStandingOrders: StandingOrder[];
+  market: MarginMarket & Pick<IDEXMarket, 'indexPrice' | 'stepSize'>;
+  markets?: MarginMarket[];
+  initialMarginFractionOverrides?: IDEXInitialMarginFractionOverride[];
+}): bigint {
+  const {
+    side,
+    wallet,
+    walletsStandingOrders,
+    market,
+    markets = [market],
+    initialMarginFractionOverrides = [],
+  } = args;
+
+  const leverageParameters = convertToLeverageParametersBigInt(market);
+  const initialMarginFractionOverride = findInitialMarginFractionOverride(
+    market.market,
+    initialMarginFractionOverrides,
+  );
+  const stepSize = decimalToPip(market.stepSize);
+  const indexPrice = decimalToPip(market.indexPrice);
+  const price = args.limitPrice ?? indexPrice;
+  const direction = side === OrderSide.buy ? BigInt(1) : BigInt(-1);
+
+  const positions = (wallet.positions ?? []).filter(
+    (position) => position.market !== market.market,
+  );
+  const position = wallet.positions?.find((p) => p.market === market.market);
+  const positionQuantity =
+    position ? decimalToPip(position.quantity) : BigInt(0);
+
+  // Margin of all other positions, the position in this market is re-evaluated for
+  // each candidate quantity
+  const margin = calculateWalletMargin({
+    wallet: { quoteBalance: wallet.quoteBalance },
+    positions: [
+      ...positions,
+      {
+        market: market.market,
+        quantity: position?.quantity ?? '0',
+        indexPrice: market.indexPrice,
+      },
+    ],
+    markets,
+    initialMarginFractionOverrides,
+  });
+  const otherInitialMarginRequirement =
+    margin.initialMarginRequirement -
+    (margin.positions.find((p) => p.market === market.market)
+      ?.initialMarginRequirement ?? BigInt(0));
+  const heldCollateral = calculateHeldCollateral({
+    walletsStandingOrders,
+    markets,
+    initialMarginFractionOverrides,
+  });
+
+  const calculateFreeCollateral = (quantity: bigint) => {
+    const resultingQuantity = positionQuantity + direction * quantity;
+    const initialMarginRequirement = multiplyPips(
+      absBigInt(multiplyPips(resultingQuantity, indexPrice)),
+      calculateInitialMarginFractionWithOverride({
+        baseQuantity: resultingQuantity,
+        initialMarginFractionOverride,
+        leverageParameters,
+      }),
+    );
+
+    return (
+      margin.accountValue +
+      multiplyPips(direction * quantity, indexPrice - price) -
+      otherInitialMarginRequirement -
+      initialMarginRequirement -
+      heldCollateral
+    );
+  };
+
+  const sameSideOpenQuantity = walletsStandingOrders
+    .filter(isActiveStandingOrder)
+    .filter((order) => order.market === market.market && order.side === side)
+    .reduce(
+      (sum, order) =>
+        sum + convertToActiveStandingOrderBigInt(order).openQuantity,
+      BigInt(0),
+    );
+
+  // Quantity which reduces the position, and the quantity available before the maximum
+  // position size is reached
+  const reducingQuantity =
+    positionQuantity * direction < BigInt(0) ?
+      absBigInt(positionQuantity)
+    : BigInt(0);
+  const positionLimitQuantity =
+    leverageParameters.maximumPositionSize -
+    direction * positionQuantity -
+    sameSideOpenQuantity;
+
+  let low = reducingQuantity / stepSize;
+  let high = positionLimitQuantity / stepSize;
+
+  if (high <= low || calculateFreeCollateral(low * stepSize) < BigInt(0)) {
+    return low * stepSize;
+  }
+
+  // Free collateral decreases as the position grows, so search for the largest step count
+  // with non-negative free collateral
+  while (low < high) {
+    const middle = (low + high + BigInt(1)) / BigInt(2);
+    if (calculateFreeCollateral(middle * stepSize) >= BigInt(0)) {
+      low = middle;
+    } else {
+      high = middle - BigInt(1);
+    }
+  }
+
+  return low * stepSize;
+}
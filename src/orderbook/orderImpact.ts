@@ -0,0 +1,297 @@
+import {
+  absBigInt,
+  decimalToPip,
+  dividePips,
+  multiplyPips,
+  pipToDecimal,
+} from '#pipmath';
+
+import { calculateWalletMargin } from '#orderbook/margin';
+import { estimateFillFromL2OrderBook } from '#orderbook/marketImpact';
+import { OrderSide } from '#types/enums/request';
+
+import type {
+  MarginMarket,
+  MarginPosition,
+  WalletMargin,
+} from '#orderbook/margin';
+import type { MarketImpactEstimate } from '#orderbook/marketImpact';
+import type { L2OrderBook } from '#types/orderBook';
+import type {
+  IDEXInitialMarginFractionOverride,
+  IDEXMarket,
+  IDEXPosition,
+  IDEXWallet,
+  RestRequestOrderBase,
+} from '#types/rest/endpoints/index';
+
+/**
+ * The fields of a {@link RestRequestOrder} used to analyze its impact, any
+ * {@link RestRequestOrder} may be provided.
+ */
+export type OrderImpactOrder = Pick<
+  RestRequestOrderBase,
+  'market' | 'side' | 'quantity' | 'price' | 'triggerPrice'
+>;
+
+/**
+ * The fields of a {@link IDEXMarket} used to analyze the impact of an order.
+ */
+export type OrderImpactMarket = MarginMarket &
+  Pick<
+    IDEXMarket,
+    | 'indexPrice'
+    | 'stepSize'
+    | 'tickSize'
+    | 'makerOrderMinimum'
+    | 'takerOrderMinimum'
+  >;
+
+/**
+ * Market parameters an order would breach if it were placed.
+ *
+ * - `maximumPositionSize` - the resulting position would exceed the maximum position size
+ * - `takerOrderMinimum` - the order would take liquidity and is smaller than the taker minimum
+ * - `makerOrderMinimum` - the order would rest on the book and is smaller than the maker minimum
+ * - `stepSize` - the quantity is not a multiple of the step size
+ * - `tickSize` - the price or trigger price is not a multiple of the tick size
+ * - `freeCollateral` - the wallet would not have enough free collateral after the order
+ */
+export type OrderImpactViolation =
+  | 'maximumPositionSize'
+  | 'takerOrderMinimum'
+  | 'makerOrderMinimum'
+  | 'stepSize'
+  | 'tickSize'
+  | 'freeCollateral';
+
+/**
+ * The estimated impact of an order on a wallet, assuming the order is fully executed.
+ *
+ * - All values are in pips.
+ */
+export interface OrderImpact {
+  /**
+   * Estimated immediate execution of the order against the order book
+   */
+  fill: MarketImpactEstimate;
+  /**
+   * Base quantity of a limit order which would rest on the book at its limit price
+   */
+  restingQuantity: bigint;
+  /**
+   * Estimated taker fee of the immediate execution at the wallet's taker fee rate
+   */
+  estimatedTakerFee: bigint;
+  /**
+   * Position quantity of the market after the order, negative for short positions
+   */
+  positionQuantity: bigint;
+  /**
+   * Average entry price of the position after the order, `null` if the position is closed
+   */
+  entryPrice: bigint | null;
+  initialMarginRequirement: bigint;
+  freeCollateral: bigint;
+  /**
+   * Wallet leverage after the order, `null` if the account value is not positive
+   */
+  leverage: bigint | null;
+  /**
+   * Liquidation price of the position after the order, `0` if there is none
+   */
+  liquidationPrice: bigint;
+  marginBefore: WalletMargin;
+  marginAfter: WalletMargin;
+  violations: OrderImpactViolation[];
+}
+
+/**
+ * Parameters of {@link calculateOrderImpact}.
+ */
+export interface OrderImpactParameters {
+  order: OrderImpactOrder;
+  wallet: Pick<IDEXWallet, 'quoteBalance' | 'takerFeeRate'> & {
+    positions?: Pick<
+      IDEXPosition,
+      'market' | 'quantity' | 'indexPrice' | 'entryPrice'
+    >[];
+  };
+  market: OrderImpactMarket;
+  markets?: MarginMarket[];
+  book: L2OrderBook;
+  initialMarginFractionOverrides?: IDEXInitialMarginFractionOverride[];
+}
+
+/**
+ * @private
+ */
+function calculateEntryPrice(
+  positionQuantity: bigint,
+  entryPrice: bigint,
+  tradeQuantity: bigint, // Signed
+  tradeQuoteQuantity: bigint,
+): bigint | null {
+  const resultingQuantity = positionQuantity + tradeQuantity;
+
+  if (resultingQuantity === BigInt(0)) {
+    return null;
+  }
+  // position is opened or increased
+  if (
+    positionQuantity === BigInt(0) ||
+    positionQuantity > BigInt(0) === tradeQuantity > BigInt(0)
+  ) {
+    return dividePips(
+      multiplyPips(absBigInt(positionQuantity), entryPrice) +
+        tradeQuoteQuantity,
+      absBigInt(resultingQuantity),
+    );
+  }
+  // position is reduced
+  if (absBigInt(tradeQuantity) < absBigInt(positionQuantity)) {
+    return entryPrice;
+  }
+  // position is flipped
+  return dividePips(tradeQuoteQuantity, absBigInt(tradeQuantity));
+}
+
+/**
+ * Analyzes how an order would change a wallet before it is placed: the resulting position,
+ * margin requirements, free collateral, leverage and liquidation price, the estimated taker
+ * fee, and any market parameters the order would breach.
+ *
+ * - The immediate execution is estimated by {@link estimateFillFromL2OrderBook}, limit orders
+ *   are matched up to their limit price and the remainder is assumed to execute at the
+ *   limit price.
+ * - Margin is calculated by {@link calculateWalletMargin} at the index price of `market`.
+ *   `markets` must include the leverage parameters of every market the wallet has a
+ *   position in, and defaults to `[market]`.
+ * - Does not make any requests, use `OrderBookRealTimeClient.getOrderImpact` to analyze an
+ *   order against the live order book.
+ */
+export function calculateOrderImpact(args: OrderImpactParameters): OrderImpact {
+  const {
+    order,
+    wallet,
+    market,
+    markets = [market],
+    book,
+    initialMarginFractionOverrides,
+  } = args;
+
+  const quantity = decimalToPip(order.quantity);
+  const limitPrice = order.price ? decimalToPip(order.price) : undefined;
+  const positions: MarginPosition[] = wallet.positions ?? [];
+  const position = wallet.positions?.find((p) => p.market === market.market);
+
+  const fill = estimateFillFromL2OrderBook(book, {
+    side: order.side,
+    quantity,
+    limitPrice,
+  });
+  const restingQuantity =
+    limitPrice === undefined ? BigInt(0) : quantity - fill.baseQuantity;
+  const estimatedTakerFee = multiplyPips(
+    fill.quoteQuantity,
+    decimalToPip(wallet.takerFeeRate),
+  );
+
+  const tradeBaseQuantity = fill.baseQuantity + restingQuantity;
+  const tradeQuoteQuantity =
+    fill.quoteQuantity +
+    (limitPrice === undefined ?
+      BigInt(0)
+    : multiplyPips(restingQuantity, limitPrice));
+  const direction = order.side === OrderSide.buy ? BigInt(1) : BigInt(-1);
+
+  const currentQuantity =
+    position ? decimalToPip(position.quantity) : BigInt(0);
+  const positionQuantity = currentQuantity + direction * tradeBaseQuantity;
+  const entryPrice = calculateEntryPrice(
+    currentQuantity,
+    position ? decimalToPip(position.entryPrice) : BigInt(0),
+    direction * tradeBaseQuantity,
+    tradeQuoteQuantity,
+  );
+
+  const marginBefore = calculateWalletMargin({
+    wallet: { quoteBalance: wallet.quoteBalance },
+    positions,
+    markets,
+    initialMarginFractionOverrides,
+  });
+  const marginAfter = calculateWalletMargin({
+    wallet: {
+      quoteBalance: pipToDecimal(
+        decimalToPip(wallet.quoteBalance) -
+          direction * tradeQuoteQuantity -
+          estimatedTakerFee,
+      ),
+    },
+    positions: [
+      ...positions.filter((p) => p.market !== market.market),
+      {
+        market: market.market,
+        quantity: pipToDecimal(positionQuantity),
+        indexPrice: market.indexPrice,
+      },
+    ],
+    markets,
+    initialMarginFractionOverrides,
+  });
+  const positionMargin = marginAfter.positions.find(
+    (p) => p.market === market.market,
+  );
+
+  const violations: OrderImpactViolation[] = [];
+
+  if (absBigInt(positionQuantity) > decimalToPip(market.maximumPositionSize)) {
+    violations.push('maximumPositionSize');
+  }
+  if (
+    fill.baseQuantity > BigInt(0) &&
+    quantity < decimalToPip(market.takerOrderMinimum)
+  ) {
+    violations.push('takerOrderMinimum');
+  }
+  if (
+    restingQuantity > BigInt(0) &&
+    quantity < decimalToPip(market.makerOrderMinimum)
+  ) {
+    violations.push('makerOrderMinimum');
+  }
+  if (quantity % decimalToPip(market.stepSize) !== BigInt(0)) {
+    violations.push('stepSize');
+  }
+  const tickSize = decimalToPip(market.tickSize);
+  if (
+    (limitPrice !== undefined && limitPrice % tickSize !== BigInt(0)) ||
+    (order.triggerPrice &&
+      decimalToPip(order.triggerPrice) % tickSize !== BigInt(0))
+  ) {
+    violations.push('tickSize');
+  }
+  // orders which reduce the requirement of an undercollateralized wallet are allowed
+  if (
+    marginAfter.freeCollateral < BigInt(0) &&
+    marginAfter.freeCollateral < marginBefore.freeCollateral
+  ) {
+    violations.push('freeCollateral');
+  }
+
+  return {
+    fill,
+    restingQuantity,
+    estimatedTakerFee,
+    positionQuantity,
+    entryPrice,
+    initialMarginRequirement: marginAfter.initialMarginRequirement,
+    freeCollateral: marginAfter.freeCollateral,
+    leverage: marginAfter.leverage,
+    liquidationPrice: positionMargin?.liquidationPrice ?? BigInt(0),
+    marginBefore,
+    marginAfter,
+    violations,
+  };
+}
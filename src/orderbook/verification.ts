@@ -0,0 +1,174 @@
+import { absBigInt, maxBigInt } from '#pipmath';
+
+import type { L2OrderBook, OrderBookLevelL2 } from '#types/orderBook';
+
+/**
+ * The result of comparing a locally maintained {@link L2OrderBook} against a snapshot
+ * of the same market at the same sequence.
+ *
+ * - Quantities are in pips.
+ */
+export interface OrderBookComparison {
+  /**
+   * `true` when no mismatched levels were found and the local book is neither crossed
+   * nor contains empty levels
+   */
+  isConsistent: boolean;
+  /**
+   * `true` if the best bid of the local book is greater than or equal to its best ask
+   */
+  isCrossed: boolean;
+  /**
+   * Number of local levels with a size or number of orders of zero
+   */
+  zeroSizeLevels: number;
+  /**
+   * Number of price levels compared on both sides of the book
+   */
+  comparedLevels: number;
+  /**
+   * Number of compared price levels which are missing from one of the books or
+   * have a different size
+   */
+  mismatchedLevels: number;
+  /**
+   * Largest absolute size difference of the mismatched levels
+   */
+  maxSizeDifference: bigint;
+}
+
+/**
+ * @private
+ */
+function compareL2Side(
+  isAscending: boolean,
+  localLevels: OrderBookLevelL2[],
+  snapshotLevels: OrderBookLevelL2[],
+  depth: number,
+): Pick<
+  OrderBookComparison,
+  'comparedLevels' | 'mismatchedLevels' | 'maxSizeDifference'
+> {
+  const comparedSnapshotLevels = snapshotLevels.slice(0, depth);
+  const lastSnapshotLevel =
+    comparedSnapshotLevels[comparedSnapshotLevels.length - 1];
+
+  // snapshots are limited in depth, so only local levels within the price range of
+  // the compared snapshot levels can be compared
+  const isWithinRange = (level: OrderBookLevelL2) =>
+    comparedSnapshotLevels.length < depth ||
+    (isAscending ?
+      level.price <= lastSnapshotLevel.price
+    : level.price >= lastSnapshotLevel.price);
+
+  const sizesByPrice = new Map<bigint, bigint>();
+  for (const level of comparedSnapshotLevels) {
+    sizesByPrice.set(level.price, level.size);
+  }
+
+  let comparedLevels = comparedSnapshotLevels.length;
+  let mismatchedLevels = 0;
+  let maxSizeDifference = BigInt(0);
+
+  for (const level of localLevels) {
+    if (!isWithinRange(level)) {
+      break;
+    }
+
+    const snapshotSize = sizesByPrice.get(level.price);
+    sizesByPrice.delete(level.price);
+
+    if (snapshotSize === undefined) {
+      comparedLevels += 1;
+    }
+
+    const difference = absBigInt(level.size - (snapshotSize ?? BigInt(0)));
+    if (difference > BigInt(0)) {
+      mismatchedLevels += 1;
+      maxSizeDifference = maxBigInt(maxSizeDifference, difference);
+    }
+  }
+
+  // snapshot levels which are missing from the local book
+  for (const size of sizesByPrice.values()) {
+    mismatchedLevels += 1;
+    maxSizeDifference = maxBigInt(maxSizeDifference, size);
+  }
+
+  return { comparedLevels, mismatchedLevels, maxSizeDifference };
+}
+
+/**
+ * Compares the top `depth` price levels of each side of a locally maintained order book
+ * against a snapshot at the same sequence, such as one returned by
+ * `RestPublicClient.getOrderBookLevel2`, and checks the local book for crossed
+ * prices and empty levels.
+ *
+ * - The API does not currently provide an order book checksum, so a snapshot is required.
+ */
+export function compareL2OrderBooks(
+  local: L2OrderBook,
+  snapshot: L2OrderBook,
+  depth = 50,
+): OrderBookComparison {
+  const asks = compareL2Side(true, local.asks, snapshot.asks, depth);
+  const bids = compareL2Side(false, local.bids, snapshot.bids, depth);
+
+  const isCrossed =
+    local.asks.length > 0 &&
+    local.bids.length > 0 &&
+    local.bids[0].price >= local.asks[0].price;
+
+  const zeroSizeLevels = [...local.asks, ...local.bids].filter(
+    (level) => level.size <= BigInt(0) || level.numOrders <= 0,
+  ).length;
+
+  const mismatchedLevels = asks.mismatchedLevels + bids.mismatchedLevels;
+
+  return {
+    isConsistent: !isCrossed && zeroSizeLevels === 0 && mismatchedLevels === 0,
+    isCrossed,
+    zeroSizeLevels,
+    comparedLevels: asks.comparedLevels + bids.comparedLevels,
+    mismatchedLevels,
+    maxSizeDifference: maxBigInt(
+      asks.maxSizeDifference,
+      bids.maxSizeDifference,
+    ),
+  };
+}
+
+/**
+ * The result of verifying the order book of a market, emitted with the
+ * `OrderBookRealTimeClientEvent.verified` event.
+ *
+ * - `skipped` when no snapshot at the same sequence as the local book could be compared,
+ *   such as when the snapshot was older than the local book.
+ */
+export interface OrderBookVerificationResult {
+  market: string;
+  status: 'consistent' | 'inconsistent' | 'skipped';
+  /**
+   * The sequence of the snapshot the local book was compared against
+   */
+  sequence: number;
+  /**
+   * `null` when the verification was skipped
+   */
+  comparison: OrderBookComparison | null;
+  time: number;
+}
+
+/**
+ * Verification statistics of a market since the client was started.
+ */
+export interface OrderBookVerificationStats {
+  consistent: number;
+  inconsistent: number;
+  skipped: number;
+  /**
+   * Number of resynchronizations triggered by inconsistent verifications
+   */
+  resyncs: number;
+  lastResult: OrderBookVerificationResult | null;
+}
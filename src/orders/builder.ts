@@ -0,0 +1,428 @@
+import { BigNumber } from 'bignumber.js';
+
+import { decimalToPip, exchangeDecimals, pipToDecimal } from '#pipmath';
+
+import {
+  adjustPriceToTickSize,
+  asksTickRoundingMode,
+  bidsTickRoundingMode,
+} from '#orderbook/quantities';
+import {
+  OrderSide,
+  OrderType,
+  SelfTradePrevention,
+  TimeInForce,
+  TriggerType,
+} from '#types/enums/index';
+
+import type { RestAuthenticatedClient } from '#client/rest/authenticated';
+import type { RestRequestWithOptionalNonce } from '#types/rest/common/common';
+import type {
+  IDEXMarket,
+  RestRequestOrderBase,
+  RestRequestOrderOfType,
+  RestRequestOrderTypeAllLimit,
+} from '#types/rest/endpoints/index';
+
+/**
+ * A quantity or price given to an {@link OrderBuilder}.
+ *
+ * - `bigint` values are expressed in pips (10^-8).
+ * - `string`, `number` and `BigNumber` values are expressed in decimal terms.
+ */
+export type OrderBuilderValue = string | number | bigint | BigNumber;
+
+/**
+ * The market of an {@link OrderBuilder}.
+ *
+ * - When a {@link IDEXMarket} is given, prices are rounded to its `tickSize` and quantities to
+ *   its `stepSize`, otherwise values are only rounded to 8 decimals.
+ */
+export type OrderBuilderMarket =
+  | string
+  | Pick<IDEXMarket, 'market' | 'tickSize' | 'stepSize'>;
+
+/**
+ * Order types which require a limit `price`.
+ */
+export type OrderBuilderLimitOrderType = RestRequestOrderTypeAllLimit['type'];
+
+/**
+ * Order types which require a `triggerPrice` and `triggerType`.
+ */
+export type OrderBuilderTriggerOrderType = Exclude<
+  OrderType,
+  typeof OrderType.limit | typeof OrderType.market
+>;
+
+type MutableOrderParameters = {
+  -readonly [K in keyof RestRequestOrderBase]?: RestRequestOrderBase[K];
+};
+
+const limitOrderTypes: readonly OrderType[] = [
+  OrderType.limit,
+  OrderType.stopLossLimit,
+  OrderType.takeProfitLimit,
+];
+
+/**
+ * @private
+ */
+function toBigNumber(name: string, value: OrderBuilderValue): BigNumber {
+  const bn =
+    typeof value === 'bigint' ?
+      new BigNumber(value.toString()).shiftedBy(-exchangeDecimals)
+    : new BigNumber(value);
+
+  if (!bn.isFinite() || bn.isLessThanOrEqualTo(0)) {
+    throw new Error(`Invalid ${name} ${String(value)}, must be positive`);
+  }
+
+  return bn;
+}
+
+/**
+ * Rounds a value to a multiple of the given increment and formats it with 8 decimals.
+ *
+ * @private
+ */
+function roundToIncrement(
+  value: BigNumber,
+  increment: string | undefined,
+  roundingMode: BigNumber.RoundingMode,
+): string {
+  const pips = BigInt(
+    value.shiftedBy(exchangeDecimals).integerValue(roundingMode).toFixed(0),
+  );
+
+  return pipToDecimal(
+    increment ?
+      adjustPriceToTickSize(pips, decimalToPip(increment), roundingMode)
+    : pips,
+  );
+}
+
+/**
+ * A fluent builder for {@link RestRequestOrder} parameters which formats and rounds quantities
+ * and prices to the precision the API expects.
+ *
+ * - Prices are rounded to the market's tick size down for buys and up for sells, using
+ *   {@link bidsTickRoundingMode} and {@link asksTickRoundingMode}, so that rounding never
+ *   results in a more aggressive price. Trigger prices are rounded to the nearest tick.
+ * - Quantities are rounded down to the market's step size.
+ * - {@link build} returns the parameters without a `nonce`, which is generated by
+ *   `RestAuthenticatedClient.createOrder` when omitted. {@link buildFor} fills in the
+ *   nonce and wallet from a client.
+ *
+ * @example
+ * ```typescript
+ * import { OrderBuilder } from '@idexio/idex-sdk';
+ *
+ * const [market] = await client.public.getMarkets({ market: 'ETH-USD' });
+ *
+ * const order = OrderBuilder.limit(market)
+ *   .buy()
+ *   .quantity(1.2345)
+ *   .price('2501.23')
+ *   .postOnly()
+ *   .wallet('0xA71C4aeeAabBBB8D2910F41C2ca3964b81F7310d')
+ *   .build();
+ *
+ * await client.createOrder(order);
+ * ```
+ */
+export class OrderBuilder<T extends OrderType> {
+  readonly #type: T;
+
+  readonly #market: OrderBuilderMarket;
+
+  #side: OrderSide | undefined;
+
+  #quantity: BigNumber | undefined;
+
+  #price: BigNumber | undefined;
+
+  #triggerPrice: BigNumber | undefined;
+
+  #triggerType: TriggerType | undefined;
+
+  #callbackRate: BigNumber | undefined;
+
+  readonly #parameters: MutableOrderParameters = {};
+
+  public constructor(type: T, market: OrderBuilderMarket) {
+    this.#type = type;
+    this.#market = market;
+  }
+
+  public static limit(market: OrderBuilderMarket) {
+    return new OrderBuilder(OrderType.limit, market);
+  }
+
+  public static market(market: OrderBuilderMarket) {
+    return new OrderBuilder(OrderType.market, market);
+  }
+
+  public static stopLossMarket(market: OrderBuilderMarket) {
+    return new OrderBuilder(OrderType.stopLossMarket, market);
+  }
+
+  public static stopLossLimit(market: OrderBuilderMarket) {
+    return new OrderBuilder(OrderType.stopLossLimit, market);
+  }
+
+  public static takeProfitMarket(market: OrderBuilderMarket) {
+    return new OrderBuilder(OrderType.takeProfitMarket, market);
+  }
+
+  public static takeProfitLimit(market: OrderBuilderMarket) {
+    return new OrderBuilder(OrderType.takeProfitLimit, market);
+  }
+
+  public static trailingStopMarket(market: OrderBuilderMarket) {
+    return new OrderBuilder(OrderType.trailingStopMarket, market);
+  }
+
+  public side(side: OrderSide) {
+    this.#side = side;
+    return this;
+  }
+
+  public buy() {
+    return this.side(OrderSide.buy);
+  }
+
+  public sell() {
+    return this.side(OrderSide.sell);
+  }
+
+  /**
+   * Order quantity in base terms, rounded down to the market's step size.
+   */
+  public quantity(quantity: OrderBuilderValue) {
+    this.#quantity = toBigNumber('quantity', quantity);
+    return this;
+  }
+
+  /**
+   * Limit price in quote terms, rounded to the market's tick size based on the order side.
+   */
+  public price(
+    this: OrderBuilder<T & OrderBuilderLimitOrderType>,
+    price: OrderBuilderValue,
+  ): OrderBuilder<T & OrderBuilderLimitOrderType> {
+    this.#price = toBigNumber('price', price);
+    return this;
+  }
+
+  /**
+   * Stop loss, take profit or activation price in quote terms, rounded to the nearest tick.
+   */
+  public triggerPrice(
+    this: OrderBuilder<T & OrderBuilderTriggerOrderType>,
+    triggerPrice: OrderBuilderValue,
+    triggerType: TriggerType = TriggerType.last,
+  ): OrderBuilder<T & OrderBuilderTriggerOrderType> {
+    this.#triggerPrice = toBigNumber('triggerPrice', triggerPrice);
+    this.#triggerType = triggerType;
+    return this;
+  }
+
+  /**
+   * Trailing stop callback rate as a fraction, such as `0.01` for 1%.
+   */
+  public callbackRate(
+    this: OrderBuilder<T & typeof OrderType.trailingStopMarket>,
+    callbackRate: OrderBuilderValue,
+  ): OrderBuilder<T & typeof OrderType.trailingStopMarket> {
+    this.#callbackRate = toBigNumber('callbackRate', callbackRate);
+    return this;
+  }
+
+  public timeInForce(
+    this: OrderBuilder<T & OrderBuilderLimitOrderType>,
+    timeInForce: TimeInForce,
+  ): OrderBuilder<T & OrderBuilderLimitOrderType> {
+    this.#parameters.timeInForce = timeInForce;
+    return this;
+  }
+
+  /**
+   * Only add liquidity to the order book, sets {@link TimeInForce.gtx}.
+   */
+  public postOnly(
+    this: OrderBuilder<T & OrderBuilderLimitOrderType>,
+  ): OrderBuilder<T & OrderBuilderLimitOrderType> {
+    return this.timeInForce(TimeInForce.gtx);
+  }
+
+  /**
+   * Sets {@link TimeInForce.ioc}.
+   */
+  public immediateOrCancel(
+    this: OrderBuilder<T & OrderBuilderLimitOrderType>,
+  ): OrderBuilder<T & OrderBuilderLimitOrderType> {
+    return this.timeInForce(TimeInForce.ioc);
+  }
+
+  /**
+   * Sets {@link TimeInForce.fok} and the {@link SelfTradePrevention.cn} policy it requires.
+   */
+  public fillOrKill(
+    this: OrderBuilder<T & OrderBuilderLimitOrderType>,
+  ): OrderBuilder<T & OrderBuilderLimitOrderType> {
+    return this.timeInForce(TimeInForce.fok).selfTradePrevention(
+      SelfTradePrevention.cn,
+    );
+  }
+
+  public reduceOnly(reduceOnly = true) {
+    this.#parameters.reduceOnly = reduceOnly;
+    return this;
+  }
+
+  public selfTradePrevention(selfTradePrevention: SelfTradePrevention) {
+    this.#parameters.selfTradePrevention = selfTradePrevention;
+    return this;
+  }
+
+  public clientOrderId(clientOrderId: string) {
+    this.#parameters.clientOrderId = clientOrderId;
+    return this;
+  }
+
+  public wallet(wallet: string) {
+    this.#parameters.wallet = wallet;
+    return this;
+  }
+
+  public nonce(nonce: string) {
+    this.#parameters.nonce = nonce;
+    return this;
+  }
+
+  public delegatedKey(delegatedKey: string) {
+    this.#parameters.delegatedKey = delegatedKey;
+    return this;
+  }
+
+  /**
+   * Returns the order parameters.
+   *
+   * - Throws if the side, quantity, wallet or a field required by the order type is missing,
+   *   or if the quantity or a price rounds to zero.
+   */
+  public build(): RestRequestWithOptionalNonce<RestRequestOrderOfType<T>> {
+    return this.buildOrder(this.#parameters);
+  }
+
+  /**
+   * Returns the order parameters with the `nonce` and, if not set, the `wallet` filled
+   * in from the client.
+   *
+   * - The nonce is created by {@link RestAuthenticatedClient.createNonce} unless one was set.
+   * - The wallet is the client's {@link RestAuthenticatedClient.walletAddress walletAddress},
+   *   the builder itself is not changed so later calls to {@link build} are unaffected.
+   */
+  public async buildFor(
+    client: Pick<RestAuthenticatedClient, 'createNonce' | 'walletAddress'>,
+  ): Promise<RestRequestOrderOfType<T>> {
+    const order = this.buildOrder({
+      ...this.#parameters,
+      wallet: this.#parameters.wallet ?? client.walletAddress,
+    });
+
+    return {
+      ...order,
+      nonce: order.nonce ?? (await client.createNonce()),
+    } as RestRequestOrderOfType<T>;
+  }
+
+  private buildOrder(
+    parameters: MutableOrderParameters,
+  ): RestRequestWithOptionalNonce<RestRequestOrderOfType<T>> {
+    const { wallet, ...otherParameters } = parameters;
+    const market =
+      typeof this.#market === 'string' ?
+        { market: this.#market }
+      : this.#market;
+
+    if (!this.#side) {
+      throw new Error('Order side is required, call buy() or sell()');
+    }
+    if (!this.#quantity) {
+      throw new Error('Order quantity is required');
+    }
+    if (!wallet) {
+      throw new Error('Order wallet is required');
+    }
+    if (limitOrderTypes.includes(this.#type) && !this.#price) {
+      throw new Error(`Order price is required for ${this.#type} orders`);
+    }
+    if (
+      this.#type !== OrderType.market &&
+      this.#type !== OrderType.limit &&
+      !this.#triggerPrice
+    ) {
+      throw new Error(
+        `Order trigger price is required for ${this.#type} orders`,
+      );
+    }
+
+    const quantity = roundToIncrement(
+      this.#quantity,
+      'stepSize' in market ? market.stepSize : undefined,
+      BigNumber.ROUND_DOWN,
+    );
+    if (decimalToPip(quantity) === BigInt(0)) {
+      throw new Error(
+        `Order quantity ${this.#quantity.toString()} rounds down to zero`,
+      );
+    }
+
+    const tickSize = 'tickSize' in market ? market.tickSize : undefined;
+
+    const price =
+      this.#price &&
+      roundToIncrement(
+        this.#price,
+        tickSize,
+        this.#side === OrderSide.buy ?
+          bidsTickRoundingMode
+        : asksTickRoundingMode,
+      );
+    if (price && decimalToPip(price) === BigInt(0)) {
+      throw new Error(`Order price ${String(this.#price)} rounds to zero`);
+    }
+
+    const triggerPrice =
+      this.#triggerPrice &&
+      roundToIncrement(this.#triggerPrice, tickSize, BigNumber.ROUND_HALF_UP);
+    if (triggerPrice && decimalToPip(triggerPrice) === BigInt(0)) {
+      throw new Error(
+        `Order trigger price ${String(this.#triggerPrice)} rounds to zero`,
+      );
+    }
+
+    return {
+      ...otherParameters,
+      wallet,
+      market: market.market,
+      type: this.#type,
+      side: this.#side,
+      quantity,
+      ...(price && { price }),
+      ...(triggerPrice && {
+        triggerPrice,
+        triggerType: this.#triggerType,
+      }),
+      ...(this.#callbackRate && {
+        callbackRate: roundToIncrement(
+          this.#callbackRate,
+          undefined,
+          BigNumber.ROUND_DOWN,
+        ),
+      }),
+    } as RestRequestWithOptionalNonce<RestRequestOrderOfType<T>>;
+  }
+}
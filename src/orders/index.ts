@@ -0,0 +1,2 @@
+export * from '#orders/builder';
+export * from '#orders/validation';
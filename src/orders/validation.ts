@@ -0,0 +1,510 @@
+import { BigNumber } from 'bignumber.js';
+
+import { decimalToPip, exchangeDecimals, multiplyPips } from '#pipmath';
+
+import {
+  MarketStatus,
+  OrderSide,
+  OrderType,
+  SelfTradePrevention,
+  TimeInForce,
+  TriggerType,
+} from '#types/enums/index';
+
+import type {
+  IDEXMarket,
+  RestRequestOrderBase,
+} from '#types/rest/endpoints/index';
+
+/**
+ * The fields of a {@link RestRequestOrder} which are validated, any {@link RestRequestOrder}
+ * may be provided with or without its `nonce`.
+ */
+export type OrderValidationOrder = Omit<
+  RestRequestOrderBase,
+  'nonce' | 'wallet' | 'delegatedKey'
+>;
+
+/**
+ * The fields of a {@link IDEXMarket} orders are validated against.
+ */
+export type OrderValidationMarket = Pick<
+  IDEXMarket,
+  | 'market'
+  | 'status'
+  | 'stepSize'
+  | 'tickSize'
+  | 'indexPrice'
+  | 'makerOrderMinimum'
+  | 'takerOrderMinimum'
+  | 'maximumPositionSize'
+  | 'marketOrderExecutionPriceLimit'
+  | 'limitOrderExecutionPriceLimit'
+>;
+
+/**
+ * Options of the `validateOrders` option of `RestAuthenticatedClient`
+ */
+export interface OrderValidationOptions {
+  /**
+   * The markets orders are validated against, markets are otherwise loaded from the
+   * public client and cached.
+   */
+  markets?: OrderValidationMarket[];
+  /**
+   * How long loaded markets are cached before they are loaded again, as market status and
+   * the index price used to check price limits change over time.
+   *
+   * - Ignored when {@link markets} are provided.
+   *
+   * @defaultValue 60_000
+   */
+  marketsRefreshIntervalMs?: number;
+}
+
+/**
+ * The `code` of an {@link OrderValidationViolation}
+ *
+ * @category Errors
+ */
+export type OrderValidationViolationCode =
+  | 'UNKNOWN_MARKET'
+  | 'MARKET_MISMATCH'
+  | 'MARKET_STATUS'
+  | 'INVALID_QUANTITY'
+  | 'QUANTITY_STEP_SIZE'
+  | 'QUANTITY_BELOW_MINIMUM'
+  | 'QUANTITY_ABOVE_MAXIMUM'
+  | 'PRICE_REQUIRED'
+  | 'PRICE_NOT_ALLOWED'
+  | 'INVALID_PRICE'
+  | 'PRICE_TICK_SIZE'
+  | 'PRICE_OUTSIDE_LIMIT'
+  | 'TRIGGER_REQUIRED'
+  | 'TRIGGER_NOT_ALLOWED'
+  | 'INVALID_TRIGGER_PRICE'
+  | 'TRIGGER_PRICE_TICK_SIZE'
+  | 'TIME_IN_FORCE'
+  | 'SELF_TRADE_PREVENTION'
+  | 'REDUCE_ONLY'
+  | 'LIQUIDATION_ACQUISITION_ONLY'
+  | 'CALLBACK_RATE_REQUIRED'
+  | 'CALLBACK_RATE'
+  | 'CONDITIONAL_ORDER_ID';
+
+/**
+ * A market rule which an order breaks.
+ *
+ * @category Errors
+ */
+export interface OrderValidationViolation {
+  code: OrderValidationViolationCode;
+  /**
+   * The order parameter which breaks the rule, `null` if the rule applies to the order as a whole
+   */
+  field: keyof OrderValidationOrder | null;
+  message: string;
+}
+
+/**
+ * Thrown by {@link assertOrderIsValid}, and by `RestAuthenticatedClient.createOrder` when
+ * its `validateOrders` option is enabled, before an invalid order is signed.
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.createOrder({ ... });
+ * } catch (error) {
+ *   if (isOrderValidationError(error)) {
+ *     for (const violation of error.violations) {
+ *       console.log(violation.code, violation.field, violation.message);
+ *     }
+ *   }
+ * }
+ * ```
+ *
+ * @category Errors
+ */
+export class OrderValidationError extends Error {
+  /**
+   * All rules the order breaks.
+   */
+  public readonly violations: OrderValidationViolation[];
+
+  constructor(violations: OrderValidationViolation[]) {
+    super(
+      `Invalid order: ${violations.map((violation) => violation.message).join(', ')}`,
+    );
+    this.name = new.target.name;
+    this.violations = violations;
+  }
+}
+
+/**
+ * Type guard for {@link OrderValidationError}
+ *
+ * @category Errors
+ */
+export function isOrderValidationError(
+  error: unknown,
+): error is OrderValidationError {
+  return error instanceof OrderValidationError;
+}
+
+const limitPriceOrderTypes: readonly OrderType[] = [
+  OrderType.limit,
+  OrderType.stopLossLimit,
+  OrderType.takeProfitLimit,
+];
+
+const triggerOrderTypes: readonly OrderType[] = [
+  OrderType.stopLossMarket,
+  OrderType.stopLossLimit,
+  OrderType.takeProfitMarket,
+  OrderType.takeProfitLimit,
+  OrderType.trailingStopMarket,
+];
+
+const conditionalOrderTypes: readonly OrderType[] = [
+  OrderType.stopLossMarket,
+  OrderType.stopLossLimit,
+  OrderType.trailingStopMarket,
+];
+
+const minimumCallbackRate = decimalToPip('0.001');
+const maximumCallbackRate = decimalToPip('0.05');
+
+/**
+ * Parses a positive decimal string with at most 8 decimals, `null` if invalid.
+ *
+ * @private
+ */
+function parsePositiveDecimal(value: string): bigint | null {
+  const bn = new BigNumber(value);
+  if (
+    !bn.isFinite() ||
+    bn.isLessThanOrEqualTo(0) ||
+    (bn.decimalPlaces() ?? 0) > exchangeDecimals
+  ) {
+    return null;
+  }
+  return decimalToPip(value);
+}
+
+/**
+ * @private
+ */
+function isMultipleOf(value: bigint, increment: bigint): boolean {
+  return increment <= BigInt(0) || value % increment === BigInt(0);
+}
+
+/**
+ * Validates an order against the rules of its market before it is signed, returning all rules
+ * the order breaks. An empty array is returned for valid orders.
+ *
+ * - Checks `quantity` against the market's `stepSize`, order minimums and maximum position
+ *   size, and `price` and `triggerPrice` against its `tickSize`.
+ * - Checks the `price` of `limit` orders against the `limitOrderExecutionPriceLimit` band around
+ *   the index price. The `marketOrderExecutionPriceLimit` band is enforced on the execution
+ *   price of market orders by the matching engine and can not be checked in advance.
+ * - Checks the fields required or allowed by the order `type`, the compatibility of
+ *   `timeInForce`, `reduceOnly`, `selfTradePrevention` and `isLiquidationAcquisitionOnly`,
+ *   and whether the market status accepts the order.
+ * - Position-dependent rules such as `reduceOnly` availability and margin requirements are
+ *   not checked, see {@link calculateOrderImpact}.
+ *
+ * @example
+ * ```typescript
+ * const [market] = await publicClient.getMarkets({ market: 'ETH-USD' });
+ * const violations = validateOrder(order, market);
+ *
+ * if (violations.length) {
+ *   console.error(violations);
+ * }
+ * ```
+ *
+ * @see related {@link assertOrderIsValid}
+ */
+export function validateOrder(
+  order: OrderValidationOrder,
+  market: OrderValidationMarket,
+): OrderValidationViolation[] {
+  const violations: OrderValidationViolation[] = [];
+  const addViolation = (
+    code: OrderValidationViolationCode,
+    field: OrderValidationViolation['field'],
+    message: string,
+  ) => {
+    violations.push({ code, field, message });
+  };
+
+  const isLimitPriceOrder = limitPriceOrderTypes.includes(order.type);
+  const isTriggerOrder = triggerOrderTypes.includes(order.type);
+  const timeInForce = order.timeInForce ?? TimeInForce.gtc;
+  const selfTradePrevention =
+    order.selfTradePrevention ?? SelfTradePrevention.dc;
+
+  if (order.market !== market.market) {
+    addViolation(
+      'MARKET_MISMATCH',
+      'market',
+      `Order market ${order.market} does not match ${market.market}`,
+    );
+  }
+
+  // Market status
+  if (
+    market.status === MarketStatus.inactive ||
+    market.status === MarketStatus.cancelsOnly
+  ) {
+    addViolation(
+      'MARKET_STATUS',
+      null,
+      `Market ${market.market} does not accept orders while ${market.status}`,
+    );
+  } else if (
+    market.status === MarketStatus.limitMakerOnly &&
+    (order.type !== OrderType.limit || timeInForce !== TimeInForce.gtx)
+  ) {
+    addViolation(
+      'MARKET_STATUS',
+      null,
+      `Market ${market.market} only accepts gtx limit orders while ${market.status}`,
+    );
+  }
+
+  // Quantity
+  const quantity = parsePositiveDecimal(order.quantity);
+  if (quantity === null) {
+    addViolation(
+      'INVALID_QUANTITY',
+      'quantity',
+      `Quantity ${order.quantity} must be a positive decimal with at most ${exchangeDecimals} decimals`,
+    );
+  } else {
+    if (!isMultipleOf(quantity, decimalToPip(market.stepSize))) {
+      addViolation(
+        'QUANTITY_STEP_SIZE',
+        'quantity',
+        `Quantity ${order.quantity} must be a multiple of the step size ${market.stepSize}`,
+      );
+    }
+    const minimum =
+      order.type === OrderType.limit && timeInForce === TimeInForce.gtx ?
+        market.makerOrderMinimum
+      : market.takerOrderMinimum;
+    if (quantity < decimalToPip(minimum)) {
+      addViolation(
+        'QUANTITY_BELOW_MINIMUM',
+        'quantity',
+        `Quantity ${order.quantity} must be at least ${minimum}`,
+      );
+    }
+    if (quantity > decimalToPip(market.maximumPositionSize)) {
+      addViolation(
+        'QUANTITY_ABOVE_MAXIMUM',
+        'quantity',
+        `Quantity ${order.quantity} must not exceed the maximum position size ${market.maximumPositionSize}`,
+      );
+    }
+  }
+
+  // Price
+  if (!isLimitPriceOrder && order.price !== undefined) {
+    addViolation(
+      'PRICE_NOT_ALLOWED',
+      'price',
+      `Price is not allowed for ${order.type} orders`,
+    );
+  } else if (isLimitPriceOrder && order.price === undefined) {
+    addViolation(
+      'PRICE_REQUIRED',
+      'price',
+      `Price is required for ${order.type} orders`,
+    );
+  } else if (order.price !== undefined) {
+    const price = parsePositiveDecimal(order.price);
+    if (price === null) {
+      addViolation(
+        'INVALID_PRICE',
+        'price',
+        `Price ${order.price} must be a positive decimal with at most ${exchangeDecimals} decimals`,
+      );
+    } else {
+      if (!isMultipleOf(price, decimalToPip(market.tickSize))) {
+        addViolation(
+          'PRICE_TICK_SIZE',
+          'price',
+          `Price ${order.price} must be a multiple of the tick size ${market.tickSize}`,
+        );
+      }
+      const indexPrice = decimalToPip(market.indexPrice);
+      if (order.type === OrderType.limit && indexPrice > BigInt(0)) {
+        const band = multiplyPips(
+          indexPrice,
+          decimalToPip(market.limitOrderExecutionPriceLimit),
+        );
+        if (
+          (order.side === OrderSide.buy && price > indexPrice + band) ||
+          (order.side === OrderSide.sell && price < indexPrice - band)
+        ) {
+          addViolation(
+            'PRICE_OUTSIDE_LIMIT',
+            'price',
+            `Price ${order.price} is outside of the execution price limit of ${market.limitOrderExecutionPriceLimit} from the index price ${market.indexPrice}`,
+          );
+        }
+      }
+    }
+  }
+
+  // Trigger
+  if (isTriggerOrder) {
+    if (order.triggerPrice === undefined || order.triggerType === undefined) {
+      addViolation(
+        'TRIGGER_REQUIRED',
+        order.triggerPrice === undefined ? 'triggerPrice' : 'triggerType',
+        `Trigger price and trigger type are required for ${order.type} orders`,
+      );
+    } else if (order.triggerType === TriggerType.none) {
+      addViolation(
+        'TRIGGER_REQUIRED',
+        'triggerType',
+        `Trigger type ${order.triggerType} is not allowed for ${order.type} orders`,
+      );
+    }
+    if (order.triggerPrice !== undefined) {
+      const triggerPrice = parsePositiveDecimal(order.triggerPrice);
+      if (triggerPrice === null) {
+        addViolation(
+          'INVALID_TRIGGER_PRICE',
+          'triggerPrice',
+          `Trigger price ${order.triggerPrice} must be a positive decimal with at most ${exchangeDecimals} decimals`,
+        );
+      } else if (!isMultipleOf(triggerPrice, decimalToPip(market.tickSize))) {
+        addViolation(
+          'TRIGGER_PRICE_TICK_SIZE',
+          'triggerPrice',
+          `Trigger price ${order.triggerPrice} must be a multiple of the tick size ${market.tickSize}`,
+        );
+      }
+    }
+  } else if (
+    order.triggerPrice !== undefined ||
+    order.triggerType !== undefined
+  ) {
+    addViolation(
+      'TRIGGER_NOT_ALLOWED',
+      order.triggerPrice !== undefined ? 'triggerPrice' : 'triggerType',
+      `Trigger price and trigger type are not allowed for ${order.type} orders`,
+    );
+  }
+
+  // Time in force & self-trade prevention
+  if (!isLimitPriceOrder && order.timeInForce !== undefined) {
+    addViolation(
+      'TIME_IN_FORCE',
+      'timeInForce',
+      `Time in force is not allowed for ${order.type} orders`,
+    );
+  }
+  if (
+    timeInForce === TimeInForce.fok &&
+    selfTradePrevention !== SelfTradePrevention.cn
+  ) {
+    addViolation(
+      'SELF_TRADE_PREVENTION',
+      'selfTradePrevention',
+      `Self-trade prevention must be ${SelfTradePrevention.cn} for ${TimeInForce.fok} orders`,
+    );
+  }
+
+  // Liquidation acquisition only
+  if (order.isLiquidationAcquisitionOnly) {
+    if (order.type !== OrderType.market && order.type !== OrderType.limit) {
+      addViolation(
+        'LIQUIDATION_ACQUISITION_ONLY',
+        'isLiquidationAcquisitionOnly',
+        `Liquidation acquisition only is not allowed for ${order.type} orders`,
+      );
+    }
+    if (order.type === OrderType.limit && timeInForce !== TimeInForce.gtx) {
+      addViolation(
+        'TIME_IN_FORCE',
+        'timeInForce',
+        `Time in force must be ${TimeInForce.gtx} for liquidation acquisition only limit orders`,
+      );
+    }
+    if (order.reduceOnly) {
+      addViolation(
+        'REDUCE_ONLY',
+        'reduceOnly',
+        'Reduce only is not allowed for liquidation acquisition only orders',
+      );
+    }
+    if (selfTradePrevention !== SelfTradePrevention.dc) {
+      addViolation(
+        'SELF_TRADE_PREVENTION',
+        'selfTradePrevention',
+        `Self-trade prevention must be ${SelfTradePrevention.dc} for liquidation acquisition only orders`,
+      );
+    }
+  }
+
+  // Trailing stop & conditional orders
+  if (
+    order.type === OrderType.trailingStopMarket &&
+    order.callbackRate === undefined
+  ) {
+    addViolation(
+      'CALLBACK_RATE_REQUIRED',
+      'callbackRate',
+      `Callback rate is required for ${order.type} orders`,
+    );
+  } else if (order.callbackRate !== undefined) {
+    const callbackRate = parsePositiveDecimal(order.callbackRate);
+    if (order.type !== OrderType.trailingStopMarket) {
+      addViolation(
+        'CALLBACK_RATE',
+        'callbackRate',
+        `Callback rate is not allowed for ${order.type} orders`,
+      );
+    } else if (
+      callbackRate === null ||
+      callbackRate < minimumCallbackRate ||
+      callbackRate > maximumCallbackRate
+    ) {
+      addViolation(
+        'CALLBACK_RATE',
+        'callbackRate',
+        `Callback rate ${order.callbackRate} must be between 0.001 and 0.05`,
+      );
+    }
+  }
+  if (
+    order.conditionalOrderId !== undefined &&
+    !conditionalOrderTypes.includes(order.type)
+  ) {
+    addViolation(
+      'CONDITIONAL_ORDER_ID',
+      'conditionalOrderId',
+      `Conditional order id is not allowed for ${order.type} orders`,
+    );
+  }
+
+  return violations;
+}
+
+/**
+ * Throws an {@link OrderValidationError} with all rules the order breaks if
+ * {@link validateOrder} returns any violations.
+ */
+export function assertOrderIsValid(
+  order: OrderValidationOrder,
+  market: OrderValidationMarket,
+): void {
+  const violations = validateOrder(order, market);
+  if (violations.length) {
+    throw new OrderValidationError(violations);
+  }
+}
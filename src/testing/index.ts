@@ -0,0 +1,3 @@
+export * from '#testing/mockServer/index';
+export * from '#testing/recording';
+export * from '#testing/replay';
@@ -0,0 +1,1085 @@
+/* eslint-disable max-classes-per-file */
+import { createServer } from 'node:http';
+
+import { ethers } from 'ethers';
+import { v1 as uuidv1, v4 as uuidv4 } from 'uuid';
+import { WebSocketServer } from 'ws';
+
+import { REST_API_KEY_HEADER, REST_HMAC_SIGNATURE_HEADER } from '#constants';
+import {
+  getOrderCancellationSignatureTypedData,
+  getOrderSignatureTypedData,
+  getWalletAssociationSignatureTypedData,
+} from '#signatures';
+import {
+  assertNonceIsValid,
+  createHmacRestRequestSignatureHeader,
+} from '#utils';
+
+import { isWebSocketPublicSubscription } from '#client/webSocket/guards';
+import {
+  trackSubscriptions,
+  untrackSubscriptions,
+} from '#client/webSocket/subscriptions';
+import { transformWebSocketLongResponseMessage } from '#testing/mockServer/transform';
+import {
+  SelfTradePrevention,
+  SubscriptionNamePublic,
+  WebSocketRequestMethod,
+} from '#types/enums/request';
+import {
+  MessageEventType,
+  OrderStateChange,
+  OrderStatus,
+} from '#types/enums/response';
+
+import type { SignTypedData } from '#signatures';
+import type { ErrorShortCodes } from '#types/errors';
+import type * as idex from '#types/index';
+import type { AnyObj } from '#types/utils';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { WebSocket } from 'ws';
+
+/**
+ * The data served by a {@link MockIDEXServer}.
+ *
+ * - Fixtures may be modified at any time through {@link MockIDEXServer.fixtures}, changes are
+ *   reflected by subsequent requests.
+ * - Orders created and canceled through the REST API are added to and updated in {@link orders}.
+ */
+export interface MockIDEXServerFixtures {
+  /**
+   * Overrides the default response of the "Get Exchange" endpoint
+   */
+  exchange: Partial<idex.IDEXExchange>;
+  markets: idex.IDEXMarket[];
+  wallets: idex.IDEXWallet[];
+  orders: idex.IDEXOrder[];
+  fills: MockIDEXServerFill[];
+}
+
+/**
+ * A fill served by a {@link MockIDEXServer}, the `wallet` is omitted from responses.
+ */
+export type MockIDEXServerFill = idex.IDEXFill & { wallet: string };
+
+/**
+ * An API key accepted by a {@link MockIDEXServer}.
+ */
+export interface MockIDEXServerAPIKey {
+  apiKey: string;
+  apiSecret: string;
+  /**
+   * Wallets associated with the API key, wallets associated using the "Associate Wallet"
+   * endpoint are added.
+   *
+   * @defaultValue []
+   */
+  wallets?: string[];
+}
+
+/**
+ * Options of {@link MockIDEXServer}
+ */
+export interface MockIDEXServerOptions {
+  /**
+   * Port to listen on, a random port is used by default.
+   *
+   * @defaultValue 0
+   */
+  port?: number;
+  /**
+   * API keys accepted by the authenticated endpoints.
+   */
+  apiKeys?: MockIDEXServerAPIKey[];
+  /**
+   * If `true`, EIP-712 signatures are verified using the sandbox domain, matching clients created
+   * with the `sandbox` option.
+   *
+   * @defaultValue false
+   */
+  sandbox?: boolean;
+  /**
+   * The maximum difference (in milliseconds) between the time of a request's `nonce` and the
+   * server time.
+   *
+   * @defaultValue 60_000
+   */
+  nonceToleranceMs?: number;
+  fixtures?: Partial<MockIDEXServerFixtures>;
+  /**
+   * Called with each order accepted by the "Create Order" endpoint before it is stored and
+   * published.
+   *
+   * - Orders are accepted as `open`, or `active` when a trigger price is provided, and are never
+   *   matched by the mock server; return an updated order to script its execution.
+   */
+  onOrder?: (
+    order: idex.IDEXOrder,
+    parameters: idex.RestRequestOrder,
+  ) => idex.IDEXOrder | undefined | Promise<idex.IDEXOrder | undefined>;
+}
+
+/**
+ * @internal
+ */
+interface MockIDEXServerRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: AnyObj;
+}
+
+/**
+ * @internal
+ */
+interface MockIDEXServerConnection {
+  ws: WebSocket;
+  subscriptions: Map<string, idex.IDEXSubscribeType>;
+  wallet?: string;
+}
+
+/**
+ * @internal
+ *
+ * Responded to requests as an API error.
+ */
+class MockIDEXServerRequestError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: ErrorShortCodes,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'MockIDEXServerRequestError';
+  }
+}
+
+const DEFAULT_PAGE_LIMIT = 50;
+
+const MAX_PAGE_LIMIT = 1000;
+
+/**
+ * 100 nanosecond intervals between the UUID epoch (1582-10-15) and the unix epoch
+ */
+const UUID_EPOCH_OFFSET = BigInt(122_192_928_000_000_000);
+
+const openOrderStatuses: readonly idex.OrderStatus[] = [
+  OrderStatus.active,
+  OrderStatus.inactive,
+  OrderStatus.open,
+  OrderStatus.partiallyFilled,
+];
+
+/**
+ * Returns the time (in milliseconds) a uuid v1 `nonce` was created.
+ */
+function getNonceTime(nonce: string) {
+  const [low, mid, high] = nonce.split('-');
+  // the version is the first digit of the high field
+  const timestamp = BigInt(`0x${high.slice(1)}${mid}${low}`);
+  return Number((timestamp - UUID_EPOCH_OFFSET) / BigInt(10_000));
+}
+
+function isSameAddress(a: string | undefined, b: string | undefined) {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+function getOptionalNumber(query: URLSearchParams, name: string) {
+  const value = query.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (!Number.isSafeInteger(number)) {
+    throw new MockIDEXServerRequestError(
+      400,
+      'INVALID_PARAMETER',
+      `Invalid value for parameter "${name}"`,
+    );
+  }
+  return number;
+}
+
+/**
+ * Applies the `start`, `end`, `limit` and `fromId` pagination parameters to the items of a
+ * list endpoint.
+ *
+ * - Items are returned in ascending time order from `start` or `fromId` when either is
+ *   provided, otherwise the most recent items are returned first.
+ */
+function paginateItems<T>(
+  items: T[],
+  query: URLSearchParams,
+  getKey: (item: T) => string,
+  getTime: (item: T) => number,
+): T[] {
+  const start = getOptionalNumber(query, 'start');
+  const end = getOptionalNumber(query, 'end');
+  const limit = getOptionalNumber(query, 'limit') ?? DEFAULT_PAGE_LIMIT;
+  const fromId = query.get('fromId');
+
+  if (limit < 1 || limit > MAX_PAGE_LIMIT) {
+    throw new MockIDEXServerRequestError(
+      400,
+      'INVALID_PARAMETER',
+      `"limit" must be between 1 and ${MAX_PAGE_LIMIT}`,
+    );
+  }
+
+  let selected = items
+    .filter(
+      (item) =>
+        (start === undefined || getTime(item) >= start) &&
+        (end === undefined || getTime(item) <= end),
+    )
+    .sort((a, b) => getTime(a) - getTime(b));
+
+  if (fromId) {
+    const index = selected.findIndex((item) => getKey(item) === fromId);
+    selected = index === -1 ? [] : selected.slice(index);
+  }
+
+  if (fromId || start !== undefined) {
+    return selected.slice(0, limit);
+  }
+  return selected.slice(-limit).reverse();
+}
+
+/**
+ * An in-process mock of the v4 REST and WebSocket APIs for integration testing, which the SDK
+ * clients connect to using their `baseURL`, `baseRestApiURL` and `baseWebSocketURL` options.
+ *
+ * - Serves the "Ping", "Get Time", "Get Exchange" and "Get Markets" public endpoints.
+ * - Serves the "Get Wallets", "Associate Wallet", "Get Orders", "Create Order", "Cancel Orders",
+ *   "Get Fills" and "Get Authentication Token" authenticated endpoints, which validate the API
+ *   key, HMAC signature and `nonce` of each request, and the EIP-712 wallet signature of signed
+ *   requests.
+ * - List endpoints support the `start`, `end`, `limit` and `fromId` pagination parameters.
+ * - WebSocket connections may subscribe to all subscriptions, authenticated subscriptions require
+ *   a token from the "Get Authentication Token" endpoint. Events are pushed to subscribers using
+ *   {@link publish} or {@link publishShort}, and for orders created or canceled through the REST API.
+ * - Error responses match those of the API, so clients throw the same {@link IDEXApiError}s.
+ * - Node.js only, available from the `@idexio/idex-sdk/testing` export.
+ *
+ * @example
+ * ```typescript
+ * import { MockIDEXServer } from '@idexio/idex-sdk/testing';
+ *
+ * const server = new MockIDEXServer({
+ *   apiKeys: [{ apiKey, apiSecret, wallets: [wallet.address] }],
+ *   fixtures: { markets: [market] },
+ * });
+ * await server.start();
+ *
+ * const client = new RestAuthenticatedClient({
+ *   apiKey,
+ *   apiSecret,
+ *   walletPrivateKey: wallet.privateKey,
+ *   baseURL: server.baseURL,
+ * });
+ * await client.createOrder({ ... });
+ *
+ * await server.stop();
+ * ```
+ */
+export class MockIDEXServer {
+  /**
+   * The data served by the server, see {@link MockIDEXServerFixtures}
+   */
+  public readonly fixtures: MockIDEXServerFixtures;
+
+  private readonly options: MockIDEXServerOptions;
+
+  private readonly apiKeys = new Map<
+    string,
+    { apiSecret: string; wallets: Set<string> }
+  >();
+
+  private readonly usedNonces = new Set<string>();
+
+  private readonly webSocketTokens = new Map<string, string>();
+
+  private readonly connections = new Set<MockIDEXServerConnection>();
+
+  private readonly server: Server;
+
+  private readonly webSocketServer: WebSocketServer;
+
+  constructor(options: MockIDEXServerOptions = {}) {
+    this.options = options;
+    this.fixtures = {
+      exchange: {},
+      markets: [],
+      wallets: [],
+      orders: [],
+      fills: [],
+      ...options.fixtures,
+    };
+
+    for (const { apiKey, apiSecret, wallets = [] } of options.apiKeys ?? []) {
+      this.apiKeys.set(apiKey, {
+        apiSecret,
+        wallets: new Set(wallets.map((wallet) => wallet.toLowerCase())),
+      });
+    }
+
+    this.server = createServer((request, response) => {
+      this.handleRequest(request, response);
+    });
+    this.webSocketServer = new WebSocketServer({
+      server: this.server,
+      path: '/v4',
+    });
+    this.webSocketServer.on('connection', (ws) => {
+      this.handleConnection(ws);
+    });
+  }
+
+  /**
+   * The REST API base URL to provide as the `baseURL` or `baseRestApiURL` client option.
+   */
+  public get baseURL() {
+    return `http://127.0.0.1:${this.port}/v4`;
+  }
+
+  /**
+   * The WebSocket API base URL to provide as the `baseWebSocketURL` client option.
+   */
+  public get baseWebSocketURL() {
+    return `ws://127.0.0.1:${this.port}/v4`;
+  }
+
+  /**
+   * Starts listening for connections.
+   */
+  public async start() {
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? 0, '127.0.0.1', () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    return this;
+  }
+
+  /**
+   * Closes all connections and stops listening.
+   */
+  public async stop() {
+    this.connections.forEach(({ ws }) => ws.terminate());
+    this.connections.clear();
+    this.webSocketServer.close();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => {
+      this.server.close(() => resolve());
+    });
+  }
+
+  /**
+   * Pushes a subscription event to the matching subscribers, converted to the short-form
+   * message sent by the WebSocket API.
+   */
+  public publish(event: idex.IDEXSubscriptionEvent) {
+    this.publishShort(transformWebSocketLongResponseMessage(event));
+  }
+
+  /**
+   * Pushes a short-form subscription message to the matching subscribers as-is.
+   */
+  public publishShort(message: idex.WebSocketResponseSubscriptionMessageShort) {
+    const payload = JSON.stringify(message);
+    this.connections.forEach((connection) => {
+      if (this.isSubscribed(connection, message)) {
+        connection.ws.send(payload);
+      }
+    });
+  }
+
+  private get port() {
+    const address = this.server.address() as AddressInfo | null;
+    if (!address) {
+      throw new Error('MockIDEXServer has not been started');
+    }
+    return address.port;
+  }
+
+  private isSubscribed(
+    { subscriptions, wallet }: MockIDEXServerConnection,
+    message: idex.WebSocketResponseSubscriptionMessageShort,
+  ) {
+    const data = message.data as AnyObj;
+    const subscription = subscriptions.get(
+      message.type === MessageEventType.candles ?
+        `${message.type}:${data.i}`
+      : message.type,
+    );
+
+    if (!subscription) {
+      return false;
+    }
+    if (subscription.name === SubscriptionNamePublic.webclient) {
+      return true;
+    }
+    if (!isWebSocketPublicSubscription(subscription)) {
+      return isSameAddress(data.w, wallet);
+    }
+    return !!subscription.markets?.includes(data.m);
+  }
+
+  private handleConnection(ws: WebSocket) {
+    const connection: MockIDEXServerConnection = {
+      ws,
+      subscriptions: new Map(),
+    };
+    this.connections.add(connection);
+
+    ws.on('message', (data) => {
+      this.handleWebSocketRequest(connection, String(data));
+    });
+    ws.on('close', () => {
+      this.connections.delete(connection);
+    });
+  }
+
+  private handleWebSocketRequest(
+    connection: MockIDEXServerConnection,
+    data: string,
+  ) {
+    let request:
+      | idex.WebSocketRequest
+      | { method: typeof WebSocketRequestMethod.ping; cid?: string };
+    try {
+      request = JSON.parse(data);
+    } catch {
+      this.sendWebSocketError(
+        connection,
+        undefined,
+        'BAD_REQUEST',
+        'Malformed request',
+      );
+      return;
+    }
+
+    const { cid } = request;
+
+    switch (request.method) {
+      case WebSocketRequestMethod.subscribe: {
+        const isAuthenticated = request.subscriptions.some(
+          (subscription) => !isWebSocketPublicSubscription(subscription),
+        );
+        if (isAuthenticated) {
+          const wallet =
+            request.token ? this.webSocketTokens.get(request.token) : undefined;
+          if (!wallet) {
+            this.sendWebSocketError(
+              connection,
+              cid,
+              request.token ? 'INVALID_PARAMETER' : 'REQUIRED_PARAMETER',
+              'A valid "token" is required for authenticated subscriptions',
+            );
+            return;
+          }
+          // eslint-disable-next-line no-param-reassign
+          connection.wallet = wallet;
+        }
+        trackSubscriptions(
+          connection.subscriptions,
+          request.subscriptions,
+          request.markets,
+        );
+        break;
+      }
+      case WebSocketRequestMethod.unsubscribe:
+        untrackSubscriptions(
+          connection.subscriptions,
+          request.subscriptions,
+          request.markets,
+        );
+        break;
+      case WebSocketRequestMethod.subscriptions:
+        break;
+      // browser clients ping using messages
+      case WebSocketRequestMethod.ping:
+        return;
+      default:
+        this.sendWebSocketError(
+          connection,
+          cid,
+          'INVALID_PARAMETER',
+          'Invalid request method',
+        );
+        return;
+    }
+
+    connection.ws.send(
+      JSON.stringify({
+        type: MessageEventType.subscriptions,
+        ...(cid && { cid }),
+        subscriptions: Array.from(connection.subscriptions.values()),
+      } satisfies idex.IDEXSubscriptionsListEvent),
+    );
+  }
+
+  private sendWebSocketError(
+    connection: MockIDEXServerConnection,
+    cid: string | undefined,
+    code: ErrorShortCodes,
+    message: string,
+  ) {
+    connection.ws.send(
+      JSON.stringify({
+        type: MessageEventType.error,
+        ...(cid && { cid }),
+        data: { code, message },
+      } satisfies idex.IDEXErrorEvent),
+    );
+  }
+
+  private async handleRequest(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ) {
+    let status = 200;
+    let body: unknown;
+
+    try {
+      body = await this.route(await this.readRequest(request), request);
+    } catch (error) {
+      if (error instanceof MockIDEXServerRequestError) {
+        status = error.status;
+        body = { code: error.code, message: error.message };
+      } else {
+        status = 500;
+        body = {
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  private async readRequest(
+    request: IncomingMessage,
+  ): Promise<MockIDEXServerRequest & { rawBody: string }> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk);
+    }
+    const rawBody = Buffer.concat(chunks).toString();
+
+    const url = new URL(request.url ?? '/', 'http://127.0.0.1');
+    if (!url.pathname.startsWith('/v4/')) {
+      throw new MockIDEXServerRequestError(
+        400,
+        'INVALID_API_VERSION',
+        'Invalid API version',
+      );
+    }
+
+    let body: AnyObj = {};
+    if (rawBody) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        throw new MockIDEXServerRequestError(
+          400,
+          'BAD_REQUEST',
+          'Malformed request body',
+        );
+      }
+    }
+
+    return {
+      method: request.method ?? 'GET',
+      path: url.pathname.slice('/v4'.length),
+      query: url.searchParams,
+      body,
+      rawBody,
+    };
+  }
+
+  private async route(
+    request: MockIDEXServerRequest & { rawBody: string },
+    incoming: IncomingMessage,
+  ) {
+    const { query } = request;
+
+    switch (`${request.method} ${request.path}`) {
+      case 'GET /ping':
+        return {};
+      case 'GET /time':
+        return { serverTime: Date.now() } satisfies idex.RestResponseGetTime;
+      case 'GET /exchange':
+        return this.getExchange();
+      case 'GET /markets': {
+        const market = query.get('market');
+        return this.fixtures.markets.filter(
+          (item) => !market || item.market === market,
+        );
+      }
+      default:
+        break;
+    }
+
+    const wallets = this.authenticate(request, incoming);
+
+    switch (`${request.method} ${request.path}`) {
+      case 'GET /wallets':
+        return this.getWallets(query, wallets);
+      case 'POST /wallets':
+        return this.associateWallet(request.body, wallets);
+      case 'GET /orders':
+        return this.getOrders(query, wallets);
+      case 'POST /orders':
+        return this.createOrder(request.body, wallets);
+      case 'DELETE /orders':
+        return this.cancelOrders(request.body, wallets);
+      case 'GET /fills':
+        return this.getFills(query, wallets);
+      case 'GET /wsToken': {
+        const wallet = this.getAssociatedWallet(query.get('wallet'), wallets);
+        const token = uuidv4();
+        this.webSocketTokens.set(token, wallet);
+        return { token } satisfies idex.RestResponseGetAuthenticationToken;
+      }
+      default:
+        throw new MockIDEXServerRequestError(
+          404,
+          'ENDPOINT_NOT_FOUND',
+          `Endpoint ${request.method} ${request.path} not found`,
+        );
+    }
+  }
+
+  /**
+   * Validates the API key, HMAC signature and `nonce` of an authenticated request and returns
+   * the wallets associated with the API key.
+   */
+  private authenticate(
+    request: MockIDEXServerRequest & { rawBody: string },
+    incoming: IncomingMessage,
+  ) {
+    const apiKey = incoming.headers[REST_API_KEY_HEADER];
+    if (typeof apiKey !== 'string') {
+      throw new MockIDEXServerRequestError(
+        401,
+        'REQUIRED_API_KEY',
+        'API key is required',
+      );
+    }
+    const key = this.apiKeys.get(apiKey);
+    if (!key) {
+      throw new MockIDEXServerRequestError(
+        401,
+        'INVALID_API_KEY',
+        'Invalid API key',
+      );
+    }
+
+    const hmacSignature = incoming.headers[REST_HMAC_SIGNATURE_HEADER];
+    if (typeof hmacSignature !== 'string') {
+      throw new MockIDEXServerRequestError(
+        401,
+        'REQUIRED_HMAC_SIGNATURE',
+        'HMAC signature is required',
+      );
+    }
+    const payload =
+      request.method === 'GET' ? request.query.toString() : request.rawBody;
+    const expected = createHmacRestRequestSignatureHeader(
+      payload,
+      key.apiSecret,
+    )[REST_HMAC_SIGNATURE_HEADER];
+    if (hmacSignature !== expected) {
+      throw new MockIDEXServerRequestError(
+        401,
+        'INVALID_HMAC_SIGNATURE',
+        'Invalid HMAC signature',
+      );
+    }
+
+    const nonce =
+      request.method === 'GET' ?
+        request.query.get('nonce')
+      : request.body.parameters?.nonce;
+    this.useNonce(nonce, apiKey);
+
+    return key.wallets;
+  }
+
+  private useNonce(nonce: unknown, apiKey: string) {
+    if (typeof nonce !== 'string' || !nonce) {
+      throw new MockIDEXServerRequestError(
+        400,
+        'REQUIRED_PARAMETER',
+        '"nonce" is required',
+      );
+    }
+    try {
+      assertNonceIsValid(nonce);
+    } catch (error) {
+      throw new MockIDEXServerRequestError(
+        400,
+        'INVALID_PARAMETER',
+        error.message,
+      );
+    }
+
+    const toleranceMs = this.options.nonceToleranceMs ?? 60_000;
+    if (Math.abs(getNonceTime(nonce) - Date.now()) > toleranceMs) {
+      throw new MockIDEXServerRequestError(
+        400,
+        'INVALID_PARAMETER',
+        '"nonce" is too far from the server time',
+      );
+    }
+
+    const key = `${apiKey}:${nonce}`;
+    if (this.usedNonces.has(key)) {
+      throw new MockIDEXServerRequestError(
+        400,
+        'INVALID_PARAMETER',
+        '"nonce" has already been used',
+      );
+    }
+    this.usedNonces.add(key);
+  }
+
+  /**
+   * Verifies the EIP-712 signature of a signed request was created by one of `signers`.
+   */
+  private assertSignatureIsValid(
+    typedData: Parameters<SignTypedData>,
+    signature: unknown,
+    signers: (string | undefined)[],
+  ) {
+    let signer: string | undefined;
+    try {
+      signer = ethers.verifyTypedData(...typedData, signature as string);
+    } catch {
+      signer = undefined;
+    }
+
+    if (!signers.some((address) => isSameAddress(address, signer))) {
+      throw new MockIDEXServerRequestError(
+        401,
+        'INVALID_WALLET_SIGNATURE',
+        'Invalid wallet signature',
+      );
+    }
+  }
+
+  private getAssociatedWallet(wallet: unknown, wallets: Set<string>) {
+    if (typeof wallet !== 'string' || !wallet) {
+      throw new MockIDEXServerRequestError(
+        400,
+        'REQUIRED_PARAMETER',
+        '"wallet" is required',
+      );
+    }
+    if (!wallets.has(wallet.toLowerCase())) {
+      throw new MockIDEXServerRequestError(
+        401,
+        'WALLET_NOT_ASSOCIATED',
+        `Wallet ${wallet} is not associated with the API key`,
+      );
+    }
+    return wallet;
+  }
+
+  private getExchange(): idex.IDEXExchange {
+    return {
+      timeZone: 'UTC',
+      serverTime: Date.now(),
+      exchangeContractAddress: ethers.ZeroAddress,
+      stargateBridgeAdapterContractAddress: ethers.ZeroAddress,
+      chainId: 1,
+      quoteTokenAddress: ethers.ZeroAddress,
+      totalOpenInterest: '0.00000000',
+      volume24h: '0.00000000',
+      totalVolume: '0.00000000',
+      totalTrades: 0,
+      idexTokenAddressEthereum: ethers.ZeroAddress,
+      idexTokenAddressArbitrum: ethers.ZeroAddress,
+      idexTokenAddressPolygon: ethers.ZeroAddress,
+      idexTokenPrice: '0.00000000',
+      idexMarketCap: '0.00000000',
+      defaultMakerFeeRate: '0.00010000',
+      defaultTakerFeeRate: '0.00050000',
+      withdrawalMinimum: '1.00000000',
+      depositEnabled: true,
+      withdrawEnabled: true,
+      ...this.fixtures.exchange,
+    };
+  }
+
+  private getWallets(query: URLSearchParams, wallets: Set<string>) {
+    const requested = [...query.getAll('wallet'), ...query.getAll('wallets')]
+      .flatMap((value) => value.split(','))
+      .filter(Boolean)
+      .map((wallet) => this.getAssociatedWallet(wallet, wallets));
+
+    const includePositions = query.get('includePositions') !== 'false';
+
+    return this.fixtures.wallets
+      .filter((item) =>
+        requested.length ?
+          requested.some((wallet) => isSameAddress(wallet, item.wallet))
+        : wallets.has(item.wallet.toLowerCase()),
+      )
+      .map(({ positions, ...wallet }) =>
+        includePositions ? { ...wallet, positions: positions ?? [] } : wallet,
+      );
+  }
+
+  private associateWallet(body: AnyObj, wallets: Set<string>) {
+    const parameters: idex.RestRequestAssociateWallet = body.parameters ?? {};
+    const { chainId, exchangeContractAddress } = this.getExchange();
+
+    this.assertSignatureIsValid(
+      getWalletAssociationSignatureTypedData(
+        parameters,
+        exchangeContractAddress,
+        chainId,
+        !!this.options.sandbox,
+      ),
+      body.signature,
+      [parameters.wallet],
+    );
+    wallets.add(parameters.wallet.toLowerCase());
+
+    let wallet = this.fixtures.wallets.find((item) =>
+      isSameAddress(item.wallet, parameters.wallet),
+    );
+    if (!wallet) {
+      const exchange = this.getExchange();
+      wallet = {
+        wallet: parameters.wallet,
+        equity: '0.00000000',
+        freeCollateral: '0.00000000',
+        heldCollateral: '0.00000000',
+        availableCollateral: '0.00000000',
+        buyingPower: '0.00000000',
+        leverage: '0.00000000',
+        marginRatio: '0.00000000',
+        quoteBalance: '0.00000000',
+        unrealizedPnL: '0.00000000',
+        makerFeeRate: exchange.defaultMakerFeeRate,
+        takerFeeRate: exchange.defaultTakerFeeRate,
+        positions: [],
+      };
+      this.fixtures.wallets.push(wallet);
+    }
+    return wallet;
+  }
+
+  private findOrder(wallet: string, orderId: string) {
+    return this.fixtures.orders.find(
+      (order) =>
+        isSameAddress(order.wallet, wallet) &&
+        (order.orderId === orderId ||
+          (!!order.clientOrderId &&
+            `client:${order.clientOrderId}` === orderId)),
+    );
+  }
+
+  private getOrders(query: URLSearchParams, wallets: Set<string>) {
+    const wallet = this.getAssociatedWallet(query.get('wallet'), wallets);
+
+    const orderId = query.get('orderId');
+    if (orderId) {
+      const order = this.findOrder(wallet, orderId);
+      if (!order) {
+        throw new MockIDEXServerRequestError(
+          404,
+          'ORDER_NOT_FOUND',
+          `Order ${orderId} not found`,
+        );
+      }
+      return order;
+    }
+
+    const market = query.get('market');
+    const closed = query.get('closed');
+    return paginateItems(
+      this.fixtures.orders.filter(
+        (order) =>
+          isSameAddress(order.wallet, wallet) &&
+          (!market || order.market === market) &&
+          (closed === null ||
+            openOrderStatuses.includes(order.status) === (closed === 'false')),
+      ),
+      query,
+      (order) => order.orderId,
+      (order) => order.time,
+    );
+  }
+
+  private async createOrder(body: AnyObj, wallets: Set<string>) {
+    const parameters: idex.RestRequestOrder = body.parameters ?? {};
+    const wallet = this.getAssociatedWallet(parameters.wallet, wallets);
+    const { chainId, exchangeContractAddress } = this.getExchange();
+
+    this.assertSignatureIsValid(
+      getOrderSignatureTypedData(
+        parameters,
+        exchangeContractAddress,
+        chainId,
+        !!this.options.sandbox,
+      ),
+      body.signature,
+      [parameters.wallet, parameters.delegatedKey],
+    );
+
+    if (
+      !this.fixtures.markets.some(({ market }) => market === parameters.market)
+    ) {
+      throw new MockIDEXServerRequestError(
+        404,
+        'MARKET_NOT_FOUND',
+        `Market ${parameters.market} not found`,
+      );
+    }
+
+    let order: idex.IDEXOrder = {
+      market: parameters.market,
+      orderId: uuidv1(),
+      ...(parameters.clientOrderId && {
+        clientOrderId: parameters.clientOrderId,
+      }),
+      wallet,
+      time: Date.now(),
+      status: parameters.triggerPrice ? OrderStatus.active : OrderStatus.open,
+      type: parameters.type,
+      side: parameters.side,
+      originalQuantity: parameters.quantity,
+      executedQuantity: '0.00000000',
+      cumulativeQuoteQuantity: '0.00000000',
+      ...(parameters.price && { price: parameters.price }),
+      ...(parameters.triggerPrice && {
+        triggerPrice: parameters.triggerPrice,
+      }),
+      ...(parameters.triggerType &&
+        parameters.triggerType !== 'none' && {
+          triggerType: parameters.triggerType,
+        }),
+      ...(parameters.callbackRate && {
+        callbackRate: parameters.callbackRate,
+      }),
+      ...(parameters.conditionalOrderId && {
+        conditionalOrderId: parameters.conditionalOrderId,
+      }),
+      reduceOnly: !!parameters.reduceOnly,
+      ...(parameters.timeInForce && { timeInForce: parameters.timeInForce }),
+      selfTradePrevention:
+        parameters.selfTradePrevention ?? SelfTradePrevention.dc,
+      ...(parameters.delegatedKey && {
+        delegatedKey: parameters.delegatedKey,
+      }),
+      ...(parameters.isLiquidationAcquisitionOnly && {
+        isLiquidationAcquisitionOnly: true,
+      }),
+    };
+    order = (await this.options.onOrder?.(order, parameters)) ?? order;
+
+    this.fixtures.orders.push(order);
+    this.publishOrder(order, OrderStateChange.new);
+
+    return order;
+  }
+
+  private cancelOrders(body: AnyObj, wallets: Set<string>) {
+    const parameters: idex.RestRequestCancelOrders = body.parameters ?? {};
+    const wallet = this.getAssociatedWallet(parameters.wallet, wallets);
+    const { chainId, exchangeContractAddress } = this.getExchange();
+
+    this.assertSignatureIsValid(
+      getOrderCancellationSignatureTypedData(
+        parameters,
+        exchangeContractAddress,
+        chainId,
+        !!this.options.sandbox,
+      ),
+      body.signature,
+      [parameters.wallet, parameters.delegatedKey],
+    );
+
+    const cancel = (order: idex.IDEXOrder): idex.IDEXCanceledOrder => {
+      const index = this.fixtures.orders.indexOf(order);
+      const canceled = { ...order, status: OrderStatus.canceled };
+      this.fixtures.orders[index] = canceled;
+      this.publishOrder(canceled, OrderStateChange.canceled);
+
+      return {
+        orderId: order.orderId,
+        ...(order.clientOrderId && { clientOrderId: order.clientOrderId }),
+        status: OrderStatus.canceled,
+      };
+    };
+
+    if (parameters.orderIds) {
+      return parameters.orderIds.map((orderId): idex.IDEXCanceledOrder => {
+        const order = this.findOrder(wallet, orderId);
+        return order && openOrderStatuses.includes(order.status) ?
+            cancel(order)
+          : { orderId, status: OrderStatus.notFound };
+      });
+    }
+
+    return this.fixtures.orders
+      .filter(
+        (order) =>
+          isSameAddress(order.wallet, wallet) &&
+          openOrderStatuses.includes(order.status) &&
+          (!parameters.market || order.market === parameters.market) &&
+          (!parameters.orderDelegatedKey ||
+            isSameAddress(order.delegatedKey, parameters.orderDelegatedKey)),
+      )
+      .map(cancel);
+  }
+
+  private getFills(query: URLSearchParams, wallets: Set<string>) {
+    const wallet = this.getAssociatedWallet(query.get('wallet'), wallets);
+    const fills = this.fixtures.fills
+      .filter((fill) => isSameAddress(fill.wallet, wallet))
+      .map(({ wallet: _wallet, ...fill }): idex.IDEXFill => fill);
+
+    const fillId = query.get('fillId');
+    if (fillId) {
+      const fill = fills.find((item) => item.fillId === fillId);
+      if (!fill) {
+        throw new MockIDEXServerRequestError(
+          404,
+          'FILL_NOT_FOUND',
+          `Fill ${fillId} not found`,
+        );
+      }
+      return fill;
+    }
+
+    const market = query.get('market');
+    return paginateItems(
+      fills.filter((fill) => !market || fill.market === market),
+      query,
+      (fill) => fill.fillId,
+      (fill) => fill.time,
+    );
+  }
+
+  private publishOrder(order: idex.IDEXOrder, update: idex.OrderStateChange) {
+    this.publish({
+      type: MessageEventType.orders,
+      data: {
+        ...order,
+        executionTime: Date.now(),
+        update,
+      },
+    });
+  }
+}
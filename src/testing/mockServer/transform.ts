@@ -0,0 +1,361 @@
+import { UnreachableCaseError } from '#utils';
+
+import { MessageEventType } from '#types/enums/response';
+
+import type * as idex from '#types/index';
+import type { AnyObj } from '#types/utils';
+
+type KeysOfUnion<T> = T extends T ? keyof T : never;
+
+/**
+ * Maps each property of a subscription event's data to its short-form property.
+ *
+ * - `Omitted` properties are not included in short-form messages.
+ */
+type ShortKeys<L, S, Omitted extends PropertyKey = never> = Record<
+  Exclude<KeysOfUnion<L>, 'fills' | Omitted>,
+  KeysOfUnion<S>
+>;
+
+const tickerKeys = {
+  market: 'm',
+  time: 't',
+  open: 'o',
+  high: 'h',
+  low: 'l',
+  close: 'c',
+  closeQuantity: 'Q',
+  baseVolume: 'v',
+  quoteVolume: 'q',
+  percentChange: 'P',
+  trades: 'n',
+  ask: 'a',
+  bid: 'b',
+  markPrice: 'mp',
+  indexPrice: 'ip',
+  indexPrice24h: 'id',
+  indexPricePercentChange: 'iP',
+  lastFundingRate: 'lf',
+  currentFundingRate: 'nf',
+  nextFundingTime: 'ft',
+  openInterest: 'oi',
+  sequence: 'u',
+} satisfies ShortKeys<
+  idex.IDEXTickerEventData,
+  idex.WebSocketResponseTickerShort
+>;
+
+const tradeKeys = {
+  market: 'm',
+  fillId: 'i',
+  price: 'p',
+  quantity: 'q',
+  quoteQuantity: 'Q',
+  time: 't',
+  makerSide: 's',
+  sequence: 'u',
+} satisfies ShortKeys<
+  idex.IDEXTradeEventData,
+  idex.WebSocketResponseTradeShort
+>;
+
+const liquidationKeys = {
+  market: 'm',
+  fillId: 'i',
+  price: 'p',
+  quantity: 'q',
+  quoteQuantity: 'Q',
+  time: 't',
+  liquidationSide: 's',
+} satisfies ShortKeys<
+  idex.IDEXLiquidationEventData,
+  idex.WebSocketResponseLiquidationsShort
+>;
+
+const candleKeys = {
+  market: 'm',
+  time: 't',
+  interval: 'i',
+  start: 's',
+  end: 'e',
+  open: 'o',
+  high: 'h',
+  low: 'l',
+  close: 'c',
+  baseVolume: 'v',
+  quoteVolume: 'q',
+  trades: 'n',
+  sequence: 'u',
+} satisfies ShortKeys<
+  idex.IDEXCandleEventData,
+  idex.WebSocketResponseCandleShort
+>;
+
+const l1orderbookKeys = {
+  market: 'm',
+  time: 't',
+  bidPrice: 'b',
+  bidQuantity: 'B',
+  askPrice: 'a',
+  askQuantity: 'A',
+  lastPrice: 'lp',
+  markPrice: 'mp',
+  indexPrice: 'ip',
+} satisfies ShortKeys<
+  idex.IDEXOrderBookLevel1EventData,
+  idex.WebSocketResponseL1OrderBookShort
+>;
+
+const l2orderbookKeys = {
+  market: 'm',
+  time: 't',
+  sequence: 'u',
+  bids: 'b',
+  asks: 'a',
+  lastPrice: 'lp',
+  markPrice: 'mp',
+  indexPrice: 'ip',
+} satisfies ShortKeys<
+  idex.IDEXOrderBookLevel2EventData,
+  idex.WebSocketResponseL2OrderBookShort
+>;
+
+const orderFillKeys = {
+  type: 'y',
+  fillId: 'i',
+  price: 'p',
+  quantity: 'q',
+  quoteQuantity: 'Q',
+  realizedPnL: 'rn',
+  time: 't',
+  makerSide: 's',
+  sequence: 'u',
+  fee: 'f',
+  liquidity: 'l',
+  action: 'a',
+  position: 'P',
+  txId: 'T',
+  txStatus: 'S',
+} satisfies ShortKeys<
+  idex.IDEXOrderFillEventData,
+  idex.WebSocketResponseOrderFillShort,
+  'indexPrice'
+>;
+
+const orderKeys = {
+  market: 'm',
+  orderId: 'i',
+  clientOrderId: 'c',
+  wallet: 'w',
+  executionTime: 't',
+  time: 'T',
+  update: 'x',
+  status: 'X',
+  sequence: 'u',
+  errorCode: 'ec',
+  errorMessage: 'em',
+  type: 'o',
+  subType: 'O',
+  side: 's',
+  originalQuantity: 'q',
+  executedQuantity: 'z',
+  cumulativeQuoteQuantity: 'Z',
+  avgExecutionPrice: 'v',
+  price: 'p',
+  triggerPrice: 'P',
+  triggerType: 'tt',
+  callbackRate: 'cr',
+  conditionalOrderId: 'ci',
+  reduceOnly: 'r',
+  timeInForce: 'f',
+  selfTradePrevention: 'V',
+  delegatedKey: 'dk',
+  isLiquidationAcquisitionOnly: 'la',
+} satisfies ShortKeys<
+  idex.IDEXOrderEventData,
+  idex.WebSocketResponseOrderShort
+>;
+
+const depositKeys = {
+  wallet: 'w',
+  depositId: 'i',
+  asset: 'a',
+  quantity: 'q',
+  quoteBalance: 'qb',
+  time: 't',
+} satisfies ShortKeys<
+  idex.IDEXDepositEventData,
+  idex.WebSocketResponseDepositsShort
+>;
+
+const withdrawalKeys = {
+  wallet: 'w',
+  withdrawalId: 'i',
+  asset: 'a',
+  quantity: 'q',
+  gas: 'g',
+  quoteBalance: 'qb',
+  time: 't',
+} satisfies ShortKeys<
+  idex.IDEXWithdrawalEventData,
+  idex.WebSocketResponseWithdrawalsShort
+>;
+
+const positionKeys = {
+  wallet: 'w',
+  market: 'm',
+  status: 'X',
+  quantity: 'q',
+  maximumQuantity: 'mq',
+  entryPrice: 'np',
+  exitPrice: 'xp',
+  realizedPnL: 'rn',
+  totalFunding: 'f',
+  totalOpen: 'to',
+  totalClose: 'tc',
+  openedByFillId: 'of',
+  lastFillId: 'lf',
+  quoteBalance: 'qb',
+  time: 't',
+} satisfies ShortKeys<
+  idex.IDEXPositionEventData,
+  idex.WebSocketResponsePositionsShort
+>;
+
+const fundingPaymentKeys = {
+  wallet: 'w',
+  market: 'm',
+  paymentQuantity: 'Q',
+  positionQuantity: 'q',
+  fundingRate: 'f',
+  indexPrice: 'ip',
+  time: 't',
+} satisfies ShortKeys<
+  idex.IDEXFundingPaymentEventData,
+  idex.WebSocketResponseFundingPaymentsShort
+>;
+
+function toShort<S>(long: object, keys: Readonly<Record<string, string>>): S {
+  return Object.fromEntries(
+    Object.entries(long)
+      .filter(([key, value]) => value !== undefined && key in keys)
+      .map(([key, value]) => [keys[key], value]),
+  ) as S;
+}
+
+function transformOrderData(
+  long: idex.IDEXOrderEventData,
+): idex.WebSocketResponseOrderShort {
+  const short: AnyObj = toShort(long, orderKeys);
+
+  if (long.fills) {
+    short.F = long.fills.map((fill) =>
+      toShort<idex.WebSocketResponseOrderFillShort>(fill, orderFillKeys),
+    );
+  }
+
+  return short as idex.WebSocketResponseOrderShort;
+}
+
+/**
+ * @internal
+ *
+ * The inverse of `transformWebsocketShortResponseMessage`, converts subscription events into the
+ * short-form messages sent by the WebSocket API.
+ */
+export function transformWebSocketLongResponseMessage(
+  message: idex.IDEXSubscriptionEvent,
+): idex.WebSocketResponseSubscriptionMessageShort {
+  switch (message.type) {
+    case MessageEventType.tickers:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponseTickerShort>(
+          message.data,
+          tickerKeys,
+        ),
+      };
+    case MessageEventType.trades:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponseTradeShort>(
+          message.data,
+          tradeKeys,
+        ),
+      };
+    case MessageEventType.liquidations:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponseLiquidationsShort>(
+          message.data,
+          liquidationKeys,
+        ),
+      };
+    case MessageEventType.candles:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponseCandleShort>(
+          message.data,
+          candleKeys,
+        ),
+      };
+    case MessageEventType.l1orderbook:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponseL1OrderBookShort>(
+          message.data,
+          l1orderbookKeys,
+        ),
+      };
+    case MessageEventType.l2orderbook:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponseL2OrderBookShort>(
+          message.data,
+          l2orderbookKeys,
+        ),
+      };
+    case MessageEventType.orders:
+      return { ...message, data: transformOrderData(message.data) };
+    case MessageEventType.deposits:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponseDepositsShort>(
+          message.data,
+          depositKeys,
+        ),
+      };
+    case MessageEventType.withdrawals:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponseWithdrawalsShort>(
+          message.data,
+          withdrawalKeys,
+        ),
+      };
+    case MessageEventType.positions:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponsePositionsShort>(
+          message.data,
+          positionKeys,
+        ),
+      };
+    case MessageEventType.fundingPayments:
+      return {
+        ...message,
+        data: toShort<idex.WebSocketResponseFundingPaymentsShort>(
+          message.data,
+          fundingPaymentKeys,
+        ),
+      };
+    // webclient events are not transformed by the client
+    case MessageEventType.webclient:
+      return message;
+    default:
+      throw new UnreachableCaseError(
+        message,
+        'transformWebSocketLongResponseMessage',
+      );
+  }
+}
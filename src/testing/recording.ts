@@ -0,0 +1,251 @@
+import { once } from 'node:events';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+
+import Axios, { AxiosHeaders } from 'axios';
+import WebSocket from 'isomorphic-ws';
+
+import { isNode } from '#utils';
+
+import type {
+  AxiosAdapter,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import type { Readable, Writable } from 'node:stream';
+
+/**
+ * A WebSocket connection event of a {@link TrafficRecorder} recording.
+ */
+export interface TrafficRecordingWebSocketEntry {
+  type: 'webSocket';
+  time: number;
+  /**
+   * Identifies the connection, starting at `1` and incremented each time the client
+   * (re)connects
+   */
+  connection: number;
+  event: 'open' | 'message' | 'close';
+  /**
+   * The raw short-form frame of `message` events, exactly as received
+   */
+  data?: string;
+  /**
+   * Close code of `close` events
+   */
+  code?: number;
+  /**
+   * Close reason of `close` events
+   */
+  reason?: string;
+}
+
+/**
+ * A REST API request and response pair of a {@link TrafficRecorder} recording.
+ *
+ * - Response data is recorded as received, before it is parsed.
+ */
+export interface TrafficRecordingRestEntry {
+  type: 'rest';
+  /**
+   * Time the request was sent
+   */
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    params?: string;
+    data?: string;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    data: unknown;
+  };
+}
+
+/**
+ * A line of a {@link TrafficRecorder} NDJSON recording.
+ */
+export type TrafficRecordingEntry =
+  | TrafficRecordingWebSocketEntry
+  | TrafficRecordingRestEntry;
+
+/**
+ * Records the raw WebSocket frames and REST request/response pairs of the SDK clients to
+ * an NDJSON file or stream, one {@link TrafficRecordingEntry} per line, for later replay
+ * with {@link TrafficReplay}.
+ *
+ * - Provide {@link createWebSocket} as the `createWebSocket` option of a
+ *   {@link WebSocketClient} or {@link OrderBookRealTimeClient}.
+ * - Provide {@link axiosAdapter} as the `axiosConfig.adapter` option of a REST client or
+ *   {@link OrderBookRealTimeClient}.
+ * - WebSocket frames are recorded before they are transformed from their short-form, only
+ *   frames received from the server are recorded.
+ * - Recordings of authenticated clients include wallet data, and signed REST requests include
+ *   their `nonce` and `wallet`, API keys and secrets are not recorded.
+ *
+ * @example
+ * ```typescript
+ * import { TrafficRecorder } from '@idexio/idex-sdk/testing';
+ *
+ * const recorder = new TrafficRecorder('./session.ndjson');
+ *
+ * const client = new OrderBookRealTimeClient({
+ *   createWebSocket: recorder.createWebSocket,
+ *   axiosConfig: { adapter: recorder.axiosAdapter },
+ * });
+ * await client.start(['ETH-USD']);
+ *
+ * // ...
+ *
+ * client.stop();
+ * await recorder.close();
+ * ```
+ */
+export class TrafficRecorder {
+  private readonly output: Writable;
+
+  private readonly isOutputOwned: boolean;
+
+  private connectionCount = 0;
+
+  /**
+   * @param output - Path of the file to write, or a stream which is not ended by
+   *   {@link close}
+   */
+  constructor(output: string | Writable) {
+    this.isOutputOwned = typeof output === 'string';
+    this.output =
+      typeof output === 'string' ? createWriteStream(output) : output;
+  }
+
+  /**
+   * Creates a WebSocket connection to `url` whose received frames are recorded.
+   */
+  public readonly createWebSocket = (url: string): WebSocket => {
+    this.connectionCount += 1;
+    const connection = this.connectionCount;
+
+    const ws = new WebSocket(
+      url,
+      isNode ? { headers: { 'User-Agent': 'idex-sdk-js' } } : undefined,
+    );
+
+    // listeners are added before the client's, so frames are recorded before they are handled
+    ws.addEventListener('open', () => {
+      this.write({
+        type: 'webSocket',
+        time: Date.now(),
+        connection,
+        event: 'open',
+      });
+    });
+    ws.addEventListener('message', (event) => {
+      this.write({
+        type: 'webSocket',
+        time: Date.now(),
+        connection,
+        event: 'message',
+        data: String(event.data),
+      });
+    });
+    ws.addEventListener('close', (event) => {
+      this.write({
+        type: 'webSocket',
+        time: Date.now(),
+        connection,
+        event: 'close',
+        code: event.code,
+        reason: event.reason,
+      });
+    });
+
+    return ws;
+  };
+
+  /**
+   * An axios adapter which sends requests using the default adapter and records them along
+   * with their responses, including error responses.
+   */
+  public readonly axiosAdapter: AxiosAdapter = async (config) => {
+    const adapter = Axios.getAdapter(Axios.defaults.adapter);
+    const time = Date.now();
+
+    try {
+      const response = await adapter(config);
+      this.writeRestEntry(time, config, response);
+      return response;
+    } catch (error) {
+      if (Axios.isAxiosError(error) && error.response) {
+        this.writeRestEntry(time, config, error.response);
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Waits for all entries to be written, and closes the file if a path was provided.
+   */
+  public async close() {
+    if (this.isOutputOwned) {
+      this.output.end();
+      await once(this.output, 'finish');
+    } else if (this.output.writableNeedDrain) {
+      await once(this.output, 'drain');
+    }
+  }
+
+  private writeRestEntry(
+    time: number,
+    config: InternalAxiosRequestConfig,
+    response: AxiosResponse,
+  ) {
+    const params =
+      config.params ? new URLSearchParams(config.params).toString() : '';
+
+    this.write({
+      type: 'rest',
+      time,
+      request: {
+        method: (config.method ?? 'get').toUpperCase(),
+        url: config.url ?? '',
+        params: params || undefined,
+        data: typeof config.data === 'string' ? config.data : undefined,
+      },
+      response: {
+        status: response.status,
+        headers: AxiosHeaders.from(
+          response.headers as Parameters<typeof AxiosHeaders.from>[0],
+        ).toJSON(true) as Record<string, string>,
+        data: response.data,
+      },
+    });
+  }
+
+  private write(entry: TrafficRecordingEntry) {
+    this.output.write(`${JSON.stringify(entry)}\n`);
+  }
+}
+
+/**
+ * Reads the entries of an NDJSON recording written by {@link TrafficRecorder}.
+ *
+ * @param input - Path of the recording, or a stream of its contents
+ */
+export async function readTrafficRecording(
+  input: string | Readable,
+): Promise<TrafficRecordingEntry[]> {
+  const lines = createInterface({
+    input: typeof input === 'string' ? createReadStream(input) : input,
+    crlfDelay: Infinity,
+  });
+
+  const entries: TrafficRecordingEntry[] = [];
+  for await (const line of lines) {
+    if (line.trim()) {
+      entries.push(JSON.parse(line));
+    }
+  }
+  return entries;
+}
@@ -0,0 +1,295 @@
+/* eslint-disable max-classes-per-file */
+import { EventEmitter } from 'events';
+
+import { AxiosError, AxiosHeaders } from 'axios';
+
+import { readTrafficRecording } from '#testing/recording';
+
+import type {
+  TrafficRecordingEntry,
+  TrafficRecordingRestEntry,
+  TrafficRecordingWebSocketEntry,
+} from '#testing/recording';
+import type { AxiosAdapter, AxiosResponse } from 'axios';
+import type WebSocket from 'isomorphic-ws';
+import type { Readable } from 'node:stream';
+
+/**
+ * Options of {@link TrafficReplay}
+ */
+export interface TrafficReplayOptions {
+  /**
+   * Playback speed of WebSocket frames relative to the recording, `2` replays twice as
+   * fast and `Infinity` replays without delays.
+   *
+   * @defaultValue 1
+   */
+  speed?: number;
+}
+
+/**
+ * @private
+ *
+ * The subset of a WebSocket used by the SDK clients, emitting the frames of a single
+ * recorded connection.
+ */
+class ReplayWebSocket {
+  public readonly CONNECTING = 0;
+
+  public readonly OPEN = 1;
+
+  public readonly CLOSING = 2;
+
+  public readonly CLOSED = 3;
+
+  public readyState = 0;
+
+  private readonly emitter = new EventEmitter();
+
+  private timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(
+    private readonly entries: TrafficRecordingWebSocketEntry[],
+    private readonly speed: number,
+    private readonly onReplayed: () => void,
+  ) {
+    this.schedule(0);
+  }
+
+  public addEventListener(type: string, listener: (event: unknown) => void) {
+    this.emitter.on(type, listener);
+  }
+
+  public removeEventListener(type: string, listener: (event: unknown) => void) {
+    this.emitter.off(type, listener);
+  }
+
+  /**
+   * Frames sent by the client are ignored, the recorded responses are replayed instead.
+   */
+  public send() {
+    if (this.readyState !== this.OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+  }
+
+  public close(code = 1000, reason = '') {
+    if (this.readyState === this.CLOSED) {
+      return;
+    }
+    clearTimeout(this.timeoutId);
+    this.readyState = this.CLOSED;
+    setImmediate(() => {
+      this.emitter.emit('close', { code, reason, target: this });
+      this.onReplayed();
+    });
+  }
+
+  private schedule(index: number) {
+    const entry = this.entries[index];
+    if (!entry) {
+      this.onReplayed();
+      return;
+    }
+
+    const previous = this.entries[index - 1] ?? entry;
+    const delay =
+      Number.isFinite(this.speed) ?
+        (entry.time - previous.time) / this.speed
+      : 0;
+
+    this.timeoutId = setTimeout(() => {
+      if (this.readyState === this.CLOSED) {
+        return;
+      }
+      this.emit(entry);
+      this.schedule(index + 1);
+    }, delay);
+  }
+
+  private emit(entry: TrafficRecordingWebSocketEntry) {
+    switch (entry.event) {
+      case 'open':
+        this.readyState = this.OPEN;
+        this.emitter.emit('open', { target: this });
+        break;
+      case 'message':
+        this.emitter.emit('message', { data: entry.data, target: this });
+        break;
+      case 'close':
+        this.readyState = this.CLOSED;
+        this.emitter.emit('close', {
+          code: entry.code,
+          reason: entry.reason,
+          target: this,
+        });
+        break;
+      default:
+        break;
+    }
+  }
+}
+
+/**
+ * Replays a recording made by {@link TrafficRecorder} into the SDK clients, allowing
+ * regression tests to be written against real sessions.
+ *
+ * - Provide {@link createWebSocket} as the `createWebSocket` option of a
+ *   {@link WebSocketClient} or {@link OrderBookRealTimeClient}, each connection the client
+ *   creates replays the next recorded connection with the recorded timing, scaled by
+ *   {@link TrafficReplayOptions.speed speed}.
+ * - Provide {@link axiosAdapter} as the `axiosConfig.adapter` option of a REST client or
+ *   {@link OrderBookRealTimeClient}. Each request receives the next unused recorded response
+ *   of the same method and URL, regardless of its parameters, so signed requests match
+ *   despite their new `nonce`.
+ * - Frames sent by the client are ignored, so the promise-returning WebSocket request
+ *   methods such as `subscribePublicAsync` do not receive their recorded responses.
+ *
+ * @example
+ * ```typescript
+ * import { TrafficReplay } from '@idexio/idex-sdk/testing';
+ *
+ * const replay = await TrafficReplay.load('./session.ndjson', { speed: Infinity });
+ *
+ * const client = new OrderBookRealTimeClient({
+ *   createWebSocket: replay.createWebSocket,
+ *   axiosConfig: { adapter: replay.axiosAdapter },
+ * });
+ * await client.start(['ETH-USD']);
+ * await replay.whenReplayed();
+ *
+ * console.log(await client.getOrderBookL2('ETH-USD'));
+ * client.stop();
+ * ```
+ */
+export class TrafficReplay {
+  private readonly connections: TrafficRecordingWebSocketEntry[][];
+
+  private readonly restResponses = new Map<
+    string,
+    TrafficRecordingRestEntry[]
+  >();
+
+  private readonly speed: number;
+
+  private connectionIndex = 0;
+
+  private pendingConnections = 0;
+
+  private readonly replayedHandlers = new Set<() => void>();
+
+  /**
+   * Reads a recording from a file or stream, see {@link readTrafficRecording}.
+   */
+  public static async load(
+    input: string | Readable,
+    options?: TrafficReplayOptions,
+  ) {
+    return new TrafficReplay(await readTrafficRecording(input), options);
+  }
+
+  constructor(
+    entries: TrafficRecordingEntry[],
+    options: TrafficReplayOptions = {},
+  ) {
+    this.speed = options.speed ?? 1;
+
+    const connections = new Map<number, TrafficRecordingWebSocketEntry[]>();
+    for (const entry of entries) {
+      if (entry.type === 'webSocket') {
+        const connection = connections.get(entry.connection) ?? [];
+        connection.push(entry);
+        connections.set(entry.connection, connection);
+      } else {
+        const key = `${entry.request.method} ${entry.request.url}`;
+        const responses = this.restResponses.get(key) ?? [];
+        responses.push(entry);
+        this.restResponses.set(key, responses);
+      }
+    }
+    this.connections = Array.from(connections.values());
+    this.pendingConnections = this.connections.length;
+  }
+
+  /**
+   * Creates a WebSocket which replays the next recorded connection.
+   *
+   * - Throws if all recorded connections have been replayed.
+   */
+  public readonly createWebSocket = (_url: string): WebSocket => {
+    const entries = this.connections[this.connectionIndex];
+    if (!entries) {
+      throw new Error('All recorded WebSocket connections have been replayed');
+    }
+    this.connectionIndex += 1;
+
+    let isReplayed = false;
+    const ws = new ReplayWebSocket(entries, this.speed, () => {
+      if (!isReplayed) {
+        isReplayed = true;
+        this.pendingConnections -= 1;
+        if (this.pendingConnections === 0) {
+          this.replayedHandlers.forEach((handler) => handler());
+        }
+      }
+    });
+
+    return ws as unknown as WebSocket;
+  };
+
+  /**
+   * An axios adapter which responds to requests with their recorded responses.
+   *
+   * - Throws if no unused response was recorded for the method and URL of a request.
+   */
+  public readonly axiosAdapter: AxiosAdapter = async (config) => {
+    const method = (config.method ?? 'get').toUpperCase();
+    const entry = this.restResponses.get(`${method} ${config.url}`)?.shift();
+    if (!entry) {
+      throw new Error(`No recorded response for ${method} ${config.url}`);
+    }
+
+    const response: AxiosResponse = {
+      data: entry.response.data,
+      status: entry.response.status,
+      statusText: '',
+      headers: new AxiosHeaders(entry.response.headers),
+      config,
+      request: {},
+    };
+
+    const { validateStatus } = config;
+    if (
+      validateStatus ?
+        validateStatus(response.status)
+      : response.status >= 200 && response.status < 300
+    ) {
+      return response;
+    }
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ?
+        AxiosError.ERR_BAD_RESPONSE
+      : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response,
+    );
+  };
+
+  /**
+   * Resolves once every recorded WebSocket connection has been replayed or closed.
+   */
+  public async whenReplayed() {
+    if (this.pendingConnections === 0) {
+      return;
+    }
+    await new Promise<void>((resolve) => {
+      const handler = () => {
+        this.replayedHandlers.delete(handler);
+        resolve();
+      };
+      this.replayedHandlers.add(handler);
+    });
+  }
+}
@@ -0,0 +1,199 @@
+import { Writable } from 'node:stream';
+
+import * as chai from 'chai';
+
+import * as accounting from '#accounting/index';
+import { BridgeTarget, OrderSide } from '#types/enums/request';
+import {
+  ChainTransactionStatus,
+  FillAction,
+  FillType,
+  LiquidityProvider,
+  PositionSide,
+} from '#types/enums/response';
+
+import type {
+  IDEXDeposit,
+  IDEXFill,
+  IDEXWithdrawal,
+} from '#types/rest/endpoints/index';
+
+const { expect } = chai;
+
+const wallet = '0xA71C4aeeAabBBB8D2910F41C2ca3964b81F7310d';
+
+const fill: IDEXFill = {
+  fillId: 'f1',
+  orderId: 'o1',
+  clientOrderId: 'my "order", 1',
+  market: 'ETH-USD',
+  side: OrderSide.buy,
+  type: FillType.market,
+  action: FillAction.open,
+  position: PositionSide.long,
+  liquidity: LiquidityProvider.taker,
+  price: '2000.12345678',
+  quantity: '1.50000000',
+  quoteQuantity: '3000.18518517',
+  realizedPnL: '0.00000000',
+  fee: '1.50009259',
+  time: Date.UTC(2024, 0, 31, 23, 30),
+  txId: null,
+  txStatus: ChainTransactionStatus.pending,
+};
+
+const deposit: IDEXDeposit = {
+  depositId: 'd1',
+  asset: 'USDC',
+  quantity: '1000.00000000',
+  bridgeSource: BridgeTarget.STARGATE_ARBITRUM,
+  time: Date.UTC(2024, 0, 1),
+  xchainTxId: '0x1',
+};
+
+const withdrawal: IDEXWithdrawal = {
+  withdrawalId: 'w1',
+  asset: 'USDC',
+  quantity: '100.00000000',
+  gas: '0.50000000',
+  bridgeTarget: BridgeTarget.XCHAIN_XCHAIN,
+  time: Date.UTC(2024, 0, 2),
+  xchainTxId: null,
+  xchainTxStatus: ChainTransactionStatus.pending,
+};
+
+async function* iterate<T>(items: T[]) {
+  yield* items;
+}
+
+const client = {
+  iterateFills: () => iterate([fill]),
+  iterateFundingPayments: () => iterate([]),
+  iterateDeposits: () => iterate([deposit]),
+  iterateWithdrawals: () => iterate([withdrawal]),
+  getPayouts: () => {
+    throw new Error('Not implemented');
+  },
+} as unknown as accounting.WalletHistoryExportClient;
+
+function createOutput() {
+  const chunks: string[] = [];
+  const output = new Writable({
+    // forces the export to wait for the output to drain
+    highWaterMark: 1,
+    write(chunk, _encoding, callback) {
+      chunks.push(String(chunk));
+      setImmediate(callback);
+    },
+  });
+  return { output, getText: () => chunks.join('') };
+}
+
+describe('accounting/export', () => {
+  describe('exportWalletHistory', () => {
+    it('should export csv with stable columns and formatting', async () => {
+      const { output, getText } = createOutput();
+
+      const { rowCount } = await accounting.exportWalletHistory(client, {
+        type: 'fills',
+        wallet,
+        format: 'csv',
+        output,
+        timeZone: 'Europe/Berlin',
+        decimals: 2,
+        decimalSeparator: ',',
+        delimiter: ';',
+      });
+
+      expect(rowCount).to.equal(1);
+      expect(getText().split('\n')).to.deep.equal([
+        accounting.WALLET_HISTORY_EXPORT_COLUMNS.fills.join(';'),
+        [
+          '2024-02-01T00:30:00.000+01:00',
+          String(fill.time),
+          'f1',
+          'o1',
+          '"my ""order"", 1"',
+          'ETH-USD',
+          'buy',
+          'market',
+          'open',
+          'long',
+          'taker',
+          '2000,12',
+          '1,50',
+          '3000,19',
+          '0,00',
+          '1,50',
+          '',
+          'pending',
+        ].join(';'),
+        '',
+      ]);
+    });
+
+    it('should export ndjson with bridge columns', async () => {
+      const { output, getText } = createOutput();
+
+      await accounting.exportWalletHistory(client, {
+        type: 'deposits',
+        wallet,
+        format: 'ndjson',
+        output,
+      });
+      await accounting.exportWalletHistory(client, {
+        type: 'withdrawals',
+        wallet,
+        format: 'ndjson',
+        output,
+      });
+
+      const [depositRow, withdrawalRow] = getText()
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+
+      expect(depositRow).to.deep.equal({
+        time: '2024-01-01T00:00:00.000Z',
+        timestamp: deposit.time,
+        depositId: 'd1',
+        asset: 'USDC',
+        quantity: '1000.00000000',
+        bridgeSource: 'stargate.arbitrum',
+        bridge: 'stargate',
+        sourceChain: 'arbitrum',
+        bridgeTxId: null,
+        xchainTxId: '0x1',
+      });
+      expect(withdrawalRow).to.deep.include({
+        bridgeTarget: 'xchain.xchain',
+        bridge: 'xchain',
+        targetChain: 'xchain',
+        gas: '0.50000000',
+      });
+    });
+
+    it('should await the writes of an async sink', async () => {
+      const chunks: string[] = [];
+      const output = {
+        async write(chunk: string) {
+          await new Promise((resolve) => {
+            setImmediate(resolve);
+          });
+          chunks.push(chunk);
+        },
+      };
+
+      const { rowCount } = await accounting.exportWalletHistory(client, {
+        type: 'deposits',
+        wallet,
+        format: 'csv',
+        output,
+      });
+
+      expect(rowCount).to.equal(1);
+      expect(chunks).to.have.length(2);
+      expect(chunks[0]).to.match(/^time,timestamp,depositId,/);
+    });
+  });
+});
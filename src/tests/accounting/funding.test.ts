@@ -0,0 +1,117 @@
+import * as chai from 'chai';
+
+import { decimalToPip } from '#pipmath';
+
+import * as accounting from '#accounting/index';
+import * as testHelpers from '#tests/testHelpers';
+
+import type { IDEXFundingPayment } from '#types/rest/endpoints/index';
+
+const { expect } = chai;
+
+function makePayment(
+  time: number,
+  market: string,
+  paymentQuantity: string,
+  fundingRate: string,
+): IDEXFundingPayment {
+  return {
+    time,
+    market,
+    paymentQuantity,
+    positionQuantity: '1',
+    fundingRate,
+    indexPrice: '2000',
+  };
+}
+
+describe('accounting/funding', () => {
+  describe('projectFundingPayments', () => {
+    it('should project payments from the current funding rate', () => {
+      const [long, short] = accounting.projectFundingPayments({
+        positions: [
+          { market: 'ETH-USD', quantity: '2' },
+          { market: 'BTC-USD', quantity: '-0.5' },
+        ],
+        markets: [
+          {
+            market: 'ETH-USD',
+            indexPrice: '2000',
+            currentFundingRate: '0.0001',
+            nextFundingTime: 1700000000000,
+          },
+          {
+            market: 'BTC-USD',
+            indexPrice: '40000',
+            currentFundingRate: '0.0002',
+            nextFundingTime: 1700000000000,
+          },
+        ],
+      });
+
+      testHelpers.assertBigintsEqual(
+        long.paymentQuantity,
+        decimalToPip('-0.4'),
+      );
+      testHelpers.assertBigintsEqual(
+        long.annualizedFundingRate,
+        decimalToPip('0.1095'),
+      );
+      testHelpers.assertBigintsEqual(short.paymentQuantity, decimalToPip('4'));
+      expect(long.time).to.equal(1700000000000);
+    });
+  });
+
+  describe('aggregateFundingPayments', () => {
+    async function* iteratePayments() {
+      yield makePayment(Date.UTC(2024, 0, 31, 16), 'ETH-USD', '-1', '0.0001');
+      yield makePayment(Date.UTC(2024, 1, 1, 0), 'ETH-USD', '0.5', '-0.0001');
+      yield makePayment(Date.UTC(2024, 1, 1, 8), 'ETH-USD', '-0.25', '0.0003');
+      yield makePayment(Date.UTC(2024, 1, 1, 8), 'BTC-USD', '2', '-0.0002');
+    }
+
+    it('should aggregate payments per market', async () => {
+      const [btc, eth] =
+        await accounting.aggregateFundingPayments(iteratePayments());
+
+      expect(btc.market).to.equal('BTC-USD');
+      expect(eth).to.deep.include({
+        market: 'ETH-USD',
+        periodStart: null,
+        paymentCount: 3,
+        firstPaymentTime: Date.UTC(2024, 0, 31, 16),
+        lastPaymentTime: Date.UTC(2024, 1, 1, 8),
+      });
+      testHelpers.assertBigintsEqual(eth.paid, decimalToPip('1.25'));
+      testHelpers.assertBigintsEqual(eth.received, decimalToPip('0.5'));
+      testHelpers.assertBigintsEqual(eth.net, decimalToPip('-0.75'));
+      testHelpers.assertBigintsEqual(
+        eth.averageFundingRate,
+        decimalToPip('0.0001'),
+      );
+    });
+
+    it('should aggregate payments per period', async () => {
+      const summaries = await accounting.aggregateFundingPayments(
+        iteratePayments(),
+        { period: 'month' },
+      );
+
+      expect(
+        summaries.map(({ market, periodStart, periodEnd }) => [
+          market,
+          periodStart,
+          periodEnd,
+        ]),
+      ).to.deep.equal([
+        ['ETH-USD', Date.UTC(2024, 0, 1), Date.UTC(2024, 1, 1)],
+        ['BTC-USD', Date.UTC(2024, 1, 1), Date.UTC(2024, 2, 1)],
+        ['ETH-USD', Date.UTC(2024, 1, 1), Date.UTC(2024, 2, 1)],
+      ]);
+      expect(accounting.convertPipsToDecimals(summaries[2])).to.deep.include({
+        net: '0.25000000',
+        paymentCount: 2,
+      });
+    });
+  });
+});
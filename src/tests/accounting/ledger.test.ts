@@ -0,0 +1,132 @@
+import * as chai from 'chai';
+
+import { decimalToPip } from '#pipmath';
+
+import * as accounting from '#accounting/index';
+import * as testHelpers from '#tests/testHelpers';
+import { OrderSide } from '#types/enums/request';
+
+const { expect } = chai;
+
+function makeFill(
+  fillId: string,
+  time: number,
+  side: OrderSide,
+  quantity: string,
+  price: string,
+  realizedPnL: string,
+  fee: string,
+): accounting.PnLLedgerFill {
+  return {
+    fillId,
+    time,
+    market: 'ETH-USD',
+    side,
+    quantity,
+    price,
+    quoteQuantity: (Number(quantity) * Number(price)).toString(),
+    realizedPnL,
+    fee,
+  };
+}
+
+describe('accounting/ledger', () => {
+  const ledger = accounting.buildPnLLedger({
+    // provided out of order to ensure items are sorted
+    fills: [
+      makeFill('f3', 5, OrderSide.buy, '0.25', '2000', '25', '0.25'),
+      makeFill('f1', 2, OrderSide.buy, '1', '2000', '0', '1'),
+      makeFill('f2', 4, OrderSide.sell, '1.5', '2100', '100', '1.5'),
+    ],
+    fundingPayments: [{ market: 'ETH-USD', time: 3, paymentQuantity: '-0.5' }],
+    deposits: [{ depositId: 'd1', time: 1, quantity: '1000' }],
+    withdrawals: [{ withdrawalId: 'w1', time: 6, quantity: '100' }],
+    markPrices: { 'ETH-USD': decimalToPip('2050') },
+  });
+
+  describe('buildPnLLedger', () => {
+    it('should replay all items in chronological order', () => {
+      expect(ledger.entries.map(({ type, id }) => [type, id])).to.deep.equal([
+        ['deposit', 'd1'],
+        ['fill', 'f1'],
+        ['fundingPayment', null],
+        ['fill', 'f2'],
+        ['fill', 'f3'],
+        ['withdrawal', 'w1'],
+      ]);
+      expect(
+        ledger.entries.map(({ quoteBalance }) => quoteBalance),
+      ).to.deep.equal(
+        ['1000', '-1001', '-1001.5', '2147', '1646.75', '1546.75'].map(
+          decimalToPip,
+        ),
+      );
+      expect(
+        accounting.convertPipsToDecimals(ledger.entries[3]),
+      ).to.deep.include({
+        positionQuantity: '-0.50000000',
+        entryPrice: '2100.00000000',
+        realizedPnL: '100.00000000',
+      });
+    });
+
+    it('should reconstruct positions and PnL per market', () => {
+      const [market] = ledger.markets;
+
+      expect(accounting.convertPipsToDecimals(market)).to.deep.equal({
+        market: 'ETH-USD',
+        quantity: '-0.25000000',
+        entryPrice: '2100.00000000',
+        realizedPnL: '125.00000000',
+        fees: '2.75000000',
+        funding: '-0.50000000',
+        netPnL: '121.75000000',
+        unrealizedPnL: '12.50000000',
+        openPosition: {
+          openedByFillId: 'f2',
+          realizedPnL: '25.00000000',
+          fees: '0.25000000',
+          funding: '0.00000000',
+          maximumQuantity: '0.50000000',
+          totalOpen: '0.50000000',
+          totalClose: '0.25000000',
+        },
+      });
+      testHelpers.assertBigintsEqual(ledger.netPnL, decimalToPip('121.75'));
+      testHelpers.assertBigintsEqual(ledger.withdrawals, decimalToPip('100'));
+    });
+  });
+
+  describe('reconcilePnLLedger', () => {
+    it('should compare open positions to the API positions', () => {
+      const [btc, eth] = accounting.reconcilePnLLedger(ledger, [
+        {
+          market: 'ETH-USD',
+          quantity: '-0.25',
+          entryPrice: '2100',
+          realizedPnL: '25',
+          totalFunding: '0',
+          openedByFillId: 'f2',
+        },
+        {
+          market: 'BTC-USD',
+          quantity: '1',
+          entryPrice: '40000',
+          realizedPnL: '0',
+          totalFunding: '-2',
+          openedByFillId: 'f0',
+        },
+      ]);
+
+      expect(eth).to.deep.include({ isSamePosition: true, isReconciled: true });
+      expect(btc).to.deep.include({
+        isSamePosition: false,
+        isReconciled: false,
+      });
+      testHelpers.assertBigintsEqual(
+        btc.totalFundingDifference,
+        decimalToPip('2'),
+      );
+    });
+  });
+});
@@ -0,0 +1,175 @@
+import * as chai from 'chai';
+
+import { decimalToPip } from '#pipmath';
+
+import { convertPipsToDecimals } from '#accounting/utils';
+import * as backtesting from '#backtesting/index';
+import * as testHelpers from '#tests/testHelpers';
+import { OrderSide, OrderType } from '#types/enums/request';
+import {
+  FillAction,
+  LiquidityProvider,
+  OrderBookLevelType,
+} from '#types/enums/response';
+
+import type { IDEXCandle, IDEXMarket } from '#types/rest/endpoints/index';
+
+const { expect } = chai;
+
+const HOUR = 60 * 60 * 1000;
+const start = Date.UTC(2024, 0, 1);
+
+const market: IDEXMarket = {
+  ...testHelpers.market,
+  // funding payments at 02:00, 10:00 and 18:00
+  nextFundingTime: start + 50 * HOUR,
+};
+
+function makeCandle(
+  hour: number,
+  high: string,
+  low: string,
+  close: string,
+): IDEXCandle {
+  return {
+    start: start + hour * HOUR,
+    open: close,
+    high,
+    low,
+    close,
+    baseVolume: null,
+    quoteVolume: null,
+    trades: null,
+    sequence: null,
+  };
+}
+
+const candles = [
+  makeCandle(0, '2010', '1990', '2000'),
+  makeCandle(1, '2120', '2050', '2100'),
+  makeCandle(2, '1950', '1880', '1900'),
+  makeCandle(3, '2250', '1900', '2200'),
+];
+
+describe('backtesting/engine', () => {
+  describe('runBacktest', () => {
+    it('should simulate fills, fees and funding and summarize the results', async () => {
+      const result = await backtesting.runBacktest({
+        data: [
+          {
+            market,
+            candles,
+            fundingRates: [
+              {
+                time: start + 2 * HOUR,
+                fundingRate: '0.00100000',
+                indexPrice: '2000.00000000',
+              },
+            ],
+          },
+        ],
+        initialQuoteBalance: '10000',
+        strategy: {
+          onEvent(event, context) {
+            if (event.time === start) {
+              context.createOrder({
+                market: 'ETH-USD',
+                type: OrderType.market,
+                side: OrderSide.buy,
+                quantity: '1.00000000',
+              });
+            } else if (event.time === start + HOUR) {
+              context.createOrder({
+                market: 'ETH-USD',
+                type: OrderType.limit,
+                side: OrderSide.sell,
+                quantity: '1.00000000',
+                price: '2150.00000000',
+              });
+            }
+          },
+        },
+      });
+
+      expect(
+        result.trades.map(({ price, liquidity, action }) => [
+          price,
+          liquidity,
+          action,
+        ]),
+      ).to.deep.equal([
+        [decimalToPip('2000'), LiquidityProvider.taker, FillAction.open],
+        [decimalToPip('2150'), LiquidityProvider.maker, FillAction.close],
+      ]);
+      expect(
+        result.fundingPayments.map(({ time, paymentQuantity }) => [
+          time,
+          paymentQuantity,
+        ]),
+      ).to.deep.equal([[start + 2 * HOUR, decimalToPip('-2')]]);
+      expect(result.equityCurve.map(({ equity }) => equity)).to.deep.equal(
+        ['9999', '10099', '9897', '10146.785'].map(decimalToPip),
+      );
+      expect(result.positions).to.have.length(0);
+
+      expect(convertPipsToDecimals(result.stats)).to.deep.equal({
+        initialEquity: '10000.00000000',
+        finalEquity: '10146.78500000',
+        netPnL: '146.78500000',
+        totalReturn: '0.01467850',
+        realizedPnL: '150.00000000',
+        fees: '1.21500000',
+        funding: '-2.00000000',
+        maxDrawdown: '202.00000000',
+        maxDrawdownFraction: '0.02000198',
+        tradeCount: 2,
+        winningTrades: 1,
+        losingTrades: 0,
+        winRate: '1.00000000',
+        liquidationCount: 0,
+      });
+    });
+
+    it('should fill against replayed order books using the depth fill model', async () => {
+      const level = (price: string) => ({
+        price: decimalToPip(price),
+        size: decimalToPip('1'),
+        numOrders: 1,
+        type: OrderBookLevelType.limit,
+      });
+
+      const result = await backtesting.runBacktest({
+        data: [
+          {
+            market,
+            candles: candles.slice(0, 1),
+            orderBooks: [
+              { time: start, asks: [level('2001'), level('2002')], bids: [] },
+            ],
+          },
+        ],
+        initialQuoteBalance: '10000',
+        fillModel: 'depth',
+        strategy: {
+          onEvent(_event, context) {
+            context.createOrder({
+              market: 'ETH-USD',
+              type: OrderType.market,
+              side: OrderSide.buy,
+              quantity: '3.00000000',
+            });
+          },
+        },
+      });
+
+      const [order] = result.orders;
+      const [trade] = result.trades;
+      // the remaining quantity the book cannot fill expires
+      expect(convertPipsToDecimals(order)).to.deep.include({
+        status: 'canceled',
+        executedQuantity: '2.00000000',
+      });
+      expect(trade.price).to.equal(decimalToPip('2001.5'));
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import * as chai from 'chai';
+
+import { OrderBookRealTimeClient } from '#client/orderBook/realTime';
+import * as testHelpers from '#tests/testHelpers';
+import { OrderBookRealTimeClientEvent } from '#types/enums/request';
+import { MessageEventType } from '#types/enums/response';
+
+import type {
+  RestResponseGetMarkets,
+  RestResponseGetOrderBookLevel2,
+} from '#types/rest/endpoints/index';
+import type { AxiosAdapter } from 'axios';
+import type WebSocket from 'isomorphic-ws';
+
+const { expect } = chai;
+
+const markets = ['ETH-USD', 'BTC-USD'];
+
+const marketsResponse = markets.map((market) => ({
+  market,
+  tickSize: '0.01000000',
+})) as RestResponseGetMarkets;
+
+function createSnapshot(sequence: number): RestResponseGetOrderBookLevel2 {
+  return {
+    sequence,
+    lastPrice: null,
+    markPrice: null,
+    indexPrice: null,
+    bids: [['1999.00000000', '1.00000000', 1]],
+    asks: [['2001.00000000', '1.00000000', 1]],
+  };
+}
+
+describe('client/orderBook/realTime', () => {
+  let ws: testHelpers.FakeWebSocket;
+  let client: OrderBookRealTimeClient;
+  let snapshots: Map<string, RestResponseGetOrderBookLevel2>;
+  let requests: Map<string, number>;
+  let holds: Map<string, Promise<void>>;
+  let events: string[][];
+
+  /**
+   * Delays the snapshot responses of a market until the returned function is called
+   */
+  function hold(market: string) {
+    let release = () => {};
+    holds.set(
+      market,
+      new Promise<void>((resolve) => {
+        release = resolve;
+      }),
+    );
+    return () => {
+      holds.delete(market);
+      release();
+    };
+  }
+
+  function publishUpdate(market: string, sequence: number) {
+    ws.receive({
+      type: MessageEventType.l2orderbook,
+      data: {
+        m: market,
+        t: Date.now(),
+        u: sequence,
+        b: [['1999.00000000', '2.00000000', 2]],
+        a: [],
+        lp: null,
+        mp: null,
+        ip: null,
+      },
+    });
+  }
+
+  const adapter: AxiosAdapter = async (config) => {
+    const market = new URLSearchParams(config.params).get('market') ?? '';
+    requests.set(market, (requests.get(market) ?? 0) + 1);
+    await holds.get(market);
+    return {
+      data: snapshots.get(market),
+      status: 200,
+      statusText: '',
+      headers: {},
+      config,
+    };
+  };
+
+  beforeEach(() => {
+    snapshots = new Map(markets.map((market) => [market, createSnapshot(1)]));
+    requests = new Map();
+    holds = new Map();
+    events = [];
+
+    client = new OrderBookRealTimeClient({
+      marketsResponse,
+      axiosConfig: { adapter },
+      createWebSocket: () => {
+        ws = new testHelpers.FakeWebSocket();
+        return ws as unknown as WebSocket;
+      },
+    });
+    client.on(OrderBookRealTimeClientEvent.error, () => {});
+    (
+      [
+        OrderBookRealTimeClientEvent.connected,
+        OrderBookRealTimeClientEvent.disconnected,
+        OrderBookRealTimeClientEvent.sync,
+        OrderBookRealTimeClientEvent.ready,
+      ] as const
+    ).forEach((event) => {
+      client.on(event, (market?: string) => {
+        events.push(market ? [event, market] : [event]);
+      });
+    });
+  });
+
+  afterEach(() => {
+    client.stop();
+  });
+
+  async function start() {
+    const connected = new Promise<void>((resolve) => {
+      client.once(OrderBookRealTimeClientEvent.connected, resolve);
+    });
+    await client.start(markets);
+    await connected;
+    events.length = 0;
+  }
+
+  it('should report the synchronization state of each market', async () => {
+    expect(client.getMarketState('ETH-USD')).to.equal('inactive');
+
+    const release = hold('ETH-USD');
+    const ready = new Promise((resolve) => {
+      client.on(OrderBookRealTimeClientEvent.ready, (market) => {
+        if (market === 'BTC-USD') {
+          resolve(market);
+        }
+      });
+    });
+    await client.start(markets);
+    await ready;
+
+    expect(client.getMarketState('ETH-USD')).to.equal('syncing');
+    expect(client.getMarketState('BTC-USD')).to.equal('ready');
+    expect(client.getMarketState('SOL-USD')).to.equal('inactive');
+
+    release();
+    await client.getOrderBookL2('ETH-USD');
+
+    expect(client.getMarketState('ETH-USD')).to.equal('ready');
+
+    client.stop();
+    expect(client.getMarketState('ETH-USD')).to.equal('inactive');
+  });
+
+  it('should subscribe to the order book once after reconnecting', async () => {
+    await start();
+    const [subscribe] = ws.requests;
+    ws.receive({
+      type: MessageEventType.subscriptions,
+      cid: subscribe.cid,
+      subscriptions: [{ name: 'l2orderbook', markets }],
+    });
+
+    const reconnected = new Promise<void>((resolve) => {
+      client.once(OrderBookRealTimeClientEvent.connected, resolve);
+    });
+    ws.close(1006);
+    await reconnected;
+    await new Promise((resolve) => {
+      setImmediate(resolve);
+    });
+
+    expect(ws.requests).to.have.length(1);
+    expect(ws.requests[0]).to.include({ method: 'subscribe' });
+    expect(ws.requests[0].subscriptions).to.eql([
+      { name: 'l2orderbook', markets },
+    ]);
+  });
+
+  it('should only resynchronize the market with a sequence gap', async () => {
+    await start();
+    const updated: string[] = [];
+    client.on(OrderBookRealTimeClientEvent.l2, (market) => {
+      updated.push(market);
+    });
+
+    snapshots.set('ETH-USD', createSnapshot(5));
+    const release = hold('ETH-USD');
+    publishUpdate('ETH-USD', 3);
+
+    expect(client.getMarketState('ETH-USD')).to.equal('syncing');
+    expect(client.getMarketState('BTC-USD')).to.equal('ready');
+
+    publishUpdate('BTC-USD', 2);
+    expect(updated).to.eql(['BTC-USD']);
+    expect((await client.getOrderBookL2('BTC-USD')).bids).to.eql([
+      ['1999.00000000', '2.00000000', 2],
+    ]);
+
+    const book = client.getOrderBookL2('ETH-USD');
+    release();
+
+    expect((await book).sequence).to.equal(5);
+    expect(client.getMarketState('ETH-USD')).to.equal('ready');
+    expect(events).to.eql([
+      [OrderBookRealTimeClientEvent.sync, 'ETH-USD'],
+      [OrderBookRealTimeClientEvent.ready, 'ETH-USD'],
+    ]);
+  });
+
+  it('should wait for an in-flight resynchronization when loading a book', async () => {
+    await start();
+
+    snapshots.set('ETH-USD', createSnapshot(5));
+    const release = hold('ETH-USD');
+    publishUpdate('ETH-USD', 3);
+
+    const books = Promise.all([
+      client.getOrderBookL2('ETH-USD'),
+      client.estimateFill('ETH-USD', { side: 'buy', quantity: BigInt(1) }),
+    ]);
+    release();
+    await books;
+
+    expect(requests.get('ETH-USD')).to.equal(2);
+    expect(events).to.eql([
+      [OrderBookRealTimeClientEvent.sync, 'ETH-USD'],
+      [OrderBookRealTimeClientEvent.ready, 'ETH-USD'],
+    ]);
+  });
+});
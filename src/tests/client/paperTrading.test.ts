@@ -0,0 +1,238 @@
+import { EventEmitter } from 'events';
+
+import * as chai from 'chai';
+
+import {
+  PaperTradingClient,
+  type PaperTradingClientOptions,
+} from '#client/paperTrading/index';
+import * as testHelpers from '#tests/testHelpers';
+import {
+  OrderBookRealTimeClientEvent,
+  OrderSide,
+  OrderType,
+  PaperTradingClientEvent,
+  TimeInForce,
+} from '#types/enums/request';
+import {
+  FillAction,
+  FillType,
+  LiquidityProvider,
+  MessageEventType,
+  OrderStatus,
+  PositionEventStatus,
+} from '#types/enums/response';
+
+import type { OrderBookRealTimeClient } from '#client/orderBook/realTime';
+import type {
+  IDEXOrderEvent,
+  IDEXPositionEvent,
+  IDEXMarket,
+  RestResponseGetOrderBookLevel2,
+} from '#index';
+
+const { expect } = chai;
+
+const wallet = testHelpers.wallet.address;
+
+const market: IDEXMarket = {
+  ...testHelpers.market,
+  nextFundingTime: Date.now() + 60_000,
+};
+
+function createOrderBookClient() {
+  const orderBookClient = Object.assign(new EventEmitter(), {
+    market,
+    book: {
+      sequence: 1,
+      asks: [
+        ['2001.00000000', '1.00000000', 1],
+        ['2002.00000000', '1.00000000', 1],
+      ],
+      bids: [['1999.00000000', '1.00000000', 1]],
+      lastPrice: null,
+      markPrice: null,
+    } as unknown as RestResponseGetOrderBookLevel2,
+    public: { getMarkets: async () => [orderBookClient.market] },
+    getOrderBookL2: async () => orderBookClient.book,
+  });
+  return orderBookClient;
+}
+
+async function createClient(options: Partial<PaperTradingClientOptions> = {}) {
+  const orderBookClient = createOrderBookClient();
+  const client = new PaperTradingClient({
+    orderBookClient: orderBookClient as unknown as OrderBookRealTimeClient,
+    quoteBalance: '10000',
+    wallet,
+    marketRefreshIntervalMs: 0,
+    ...options,
+  });
+  const messages: (IDEXOrderEvent | IDEXPositionEvent)[] = [];
+  client.on(PaperTradingClientEvent.message, (message) => {
+    messages.push(message);
+  });
+  await client.start();
+  return { client, orderBookClient, messages };
+}
+
+describe('client/paperTrading', () => {
+  describe('PaperTradingClient', () => {
+    it('should fill taker orders against the order book', async () => {
+      const { client, messages } = await createClient();
+
+      const order = await client.createOrder({
+        wallet,
+        market: 'ETH-USD',
+        type: OrderType.market,
+        side: OrderSide.buy,
+        quantity: '2.00000000',
+      });
+
+      expect(order).to.deep.include({
+        status: OrderStatus.filled,
+        executedQuantity: '2.00000000',
+        cumulativeQuoteQuantity: '4003.00000000',
+        avgExecutionPrice: '2001.50000000',
+      });
+
+      const [fill] = await client.getFills({ wallet });
+      expect(fill).to.deep.include({
+        action: FillAction.open,
+        liquidity: LiquidityProvider.taker,
+        quantity: '2.00000000',
+        fee: '2.00150000',
+      });
+
+      const [position] = await client.getPositions({ wallet });
+      expect(position).to.deep.include({
+        quantity: '2.00000000',
+        entryPrice: '2001.50000000',
+        unrealizedPnL: '-3.00000000',
+      });
+
+      const [walletResponse] = await client.getWallets({ wallet });
+      expect(walletResponse.quoteBalance).to.equal('5994.99850000');
+
+      expect(messages.map(({ type }) => type)).to.deep.equal([
+        MessageEventType.orders,
+        MessageEventType.positions,
+      ]);
+    });
+
+    it('should fill resting limit orders as a maker when the book crosses', async () => {
+      const { client, orderBookClient } = await createClient();
+
+      const order = await client.createOrder({
+        wallet,
+        market: 'ETH-USD',
+        type: OrderType.limit,
+        side: OrderSide.sell,
+        quantity: '1.00000000',
+        price: '2010.00000000',
+        timeInForce: TimeInForce.gtx,
+      });
+      expect(order.status).to.equal(OrderStatus.open);
+
+      orderBookClient.book = {
+        ...orderBookClient.book,
+        bids: [['2015.00000000', '0.40000000', 1]],
+      };
+      orderBookClient.emit(OrderBookRealTimeClientEvent.l2, 'ETH-USD');
+      // order book updates are matched asynchronously
+      await new Promise((resolve) => {
+        setImmediate(resolve);
+      });
+
+      const updated = await client.getOrder({ wallet, orderId: order.orderId });
+      expect(updated).to.deep.include({
+        status: OrderStatus.partiallyFilled,
+        executedQuantity: '0.40000000',
+        avgExecutionPrice: '2010.00000000',
+      });
+      expect(updated.fills?.[0].liquidity).to.equal(LiquidityProvider.maker);
+
+      const [canceled] = await client.cancelOrders({ wallet });
+      expect(canceled.status).to.equal(OrderStatus.canceled);
+      expect(await client.getOrders({ wallet })).to.have.length(0);
+    });
+
+    it('should reject orders that exceed available collateral', async () => {
+      const { client } = await createClient();
+
+      let error: unknown;
+      try {
+        await client.createOrder({
+          wallet,
+          market: 'ETH-USD',
+          type: OrderType.market,
+          side: OrderSide.sell,
+          quantity: '200.00000000',
+        });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error)
+        .to.be.instanceOf(Error)
+        .with.property('message')
+        .that.matches(/^Insufficient collateral/);
+    });
+
+    it('should liquidate positions below the maintenance margin requirement', async () => {
+      const { client, orderBookClient } = await createClient({
+        marketRefreshIntervalMs: 10,
+      });
+
+      orderBookClient.book = {
+        ...orderBookClient.book,
+        asks: [['2001.00000000', '50.00000000', 1]],
+      };
+      await client.createOrder({
+        wallet,
+        market: 'ETH-USD',
+        type: OrderType.market,
+        side: OrderSide.buy,
+        quantity: '50.00000000',
+      });
+      const standingOrder = await client.createOrder({
+        wallet,
+        market: 'ETH-USD',
+        type: OrderType.limit,
+        side: OrderSide.sell,
+        quantity: '1.00000000',
+        price: '2100.00000000',
+      });
+
+      const closed = new Promise<void>((resolve) => {
+        client.on(PaperTradingClientEvent.message, (message) => {
+          if (
+            message.type === MessageEventType.positions &&
+            message.data.status === PositionEventStatus.closed
+          ) {
+            resolve();
+          }
+        });
+      });
+      orderBookClient.market = { ...market, indexPrice: '1800.00000000' };
+      await closed;
+      client.stop();
+
+      expect(await client.getPositions({ wallet })).to.have.length(0);
+      expect(
+        await client.getOrder({ wallet, orderId: standingOrder.orderId }),
+      ).to.deep.include({ status: OrderStatus.canceled });
+
+      const [liquidation] = await client.getFills({ wallet });
+      expect(liquidation).to.deep.include({
+        side: OrderSide.sell,
+        type: FillType.liquidation,
+        action: FillAction.close,
+        price: '1800.00000000',
+        quantity: '50.00000000',
+        fee: '0.00000000',
+      });
+      expect(liquidation.orderId).to.equal(undefined);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import * as chai from 'chai';
+
+import { assertNonceIsValid } from '#utils';
+
+import { RestServerClock, getServerTimeOffset } from '#client/rest/clock';
+
+const { expect } = chai;
+
+// milliseconds between the uuid epoch (1582-10-15) and the unix epoch
+const UUID_EPOCH_OFFSET_MS = 12_219_292_800_000;
+
+function getUuidV1Msecs(uuid: string) {
+  const [timeLow, timeMid, timeHigh] = uuid.split('-');
+  const timestamp = BigInt(`0x${timeHigh.slice(1)}${timeMid}${timeLow}`);
+  return Number(timestamp / 10_000n) - UUID_EPOCH_OFFSET_MS;
+}
+
+describe('client/rest/clock', () => {
+  it('should estimate the offset from the midpoint of the request', () => {
+    expect(getServerTimeOffset(1_000, 2_100, 1_200)).to.equal(1_000);
+    expect(getServerTimeOffset(1_000, 900, 1_200)).to.equal(-200);
+  });
+
+  it('should create nonces aligned with the server time', async () => {
+    const offset = 60 * 60 * 1000;
+    let requests = 0;
+    const clock = new RestServerClock({
+      getServerTime: async () => {
+        requests += 1;
+        return { serverTime: Date.now() + offset };
+      },
+    });
+
+    const nonce = await clock.createNonce();
+    await clock.createNonce();
+
+    expect(() => assertNonceIsValid(nonce)).not.to.throw();
+    expect(requests).to.equal(1);
+    expect(getUuidV1Msecs(nonce) - Date.now()).to.be.within(
+      offset - 1_000,
+      offset + 1_000,
+    );
+  });
+
+  it('should fall back to the last known offset when sampling fails', async () => {
+    const clock = new RestServerClock({
+      getServerTime: async () => {
+        throw new Error('ECONNRESET');
+      },
+    });
+
+    const nonce = await clock.createNonce();
+
+    expect(clock.offset).to.equal(0);
+    expect(Math.abs(getUuidV1Msecs(nonce) - Date.now())).to.be.below(1_000);
+  });
+
+  it('should back off from sampling after sampling fails', async () => {
+    let requests = 0;
+    const clock = new RestServerClock({
+      getServerTime: async () => {
+        requests += 1;
+        throw new Error('ECONNRESET');
+      },
+    });
+
+    await clock.createNonce();
+    await clock.createNonce();
+    await clock.createNonce();
+
+    expect(requests).to.equal(1);
+  });
+
+  it('should only sample on demand when the sync interval is 0', async () => {
+    let requests = 0;
+    const clock = new RestServerClock({
+      getServerTime: async () => {
+        requests += 1;
+        return { serverTime: Date.now() };
+      },
+      syncIntervalMs: 0,
+    });
+
+    await clock.createNonce();
+    expect(requests).to.equal(0);
+
+    await Promise.all([clock.sync(), clock.sync()]);
+    expect(requests).to.equal(1);
+  });
+});
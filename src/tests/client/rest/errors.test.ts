@@ -0,0 +1,111 @@
+import { AxiosError } from 'axios';
+import * as chai from 'chai';
+
+import {
+  IDEXApiError,
+  isIDEXAuthenticationError,
+  isIDEXInsufficientFundsError,
+  isIDEXNotFoundError,
+  isIDEXRateLimitError,
+  isIDEXServiceUnavailableError,
+  isIDEXValidationError,
+  toIDEXApiError,
+} from '#client/rest/errors';
+
+import type { AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+const { expect } = chai;
+
+function createAxiosError(
+  status: number,
+  data: unknown,
+  config: Partial<InternalAxiosRequestConfig> = {},
+) {
+  const requestConfig = {
+    headers: {},
+    method: 'post',
+    ...config,
+  } as InternalAxiosRequestConfig;
+
+  return new AxiosError(
+    `Request failed with status code ${status}`,
+    AxiosError.ERR_BAD_REQUEST,
+    requestConfig,
+    {},
+    {
+      status,
+      statusText: '',
+      headers: {},
+      config: requestConfig,
+      data,
+    } as AxiosResponse,
+  );
+}
+
+describe('client/rest/errors', () => {
+  describe('toIDEXApiError', () => {
+    it('should map the short code to the matching error class', () => {
+      const cases = [
+        ['EXCEEDED_RATE_LIMIT', 429, isIDEXRateLimitError],
+        ['INSUFFICIENT_FUNDS', 400, isIDEXInsufficientFundsError],
+        ['INVALID_HMAC_SIGNATURE', 401, isIDEXAuthenticationError],
+        ['INVALID_PARAMETER', 400, isIDEXValidationError],
+        ['ORDER_NOT_FOUND', 404, isIDEXNotFoundError],
+        ['SERVICE_UNAVAILABLE', 503, isIDEXServiceUnavailableError],
+      ] as const;
+
+      cases.forEach(([code, status, guard]) => {
+        const error = toIDEXApiError(
+          createAxiosError(status, { code, message: 'failed' }),
+          '/orders',
+          { method: 'POST' },
+        );
+        expect(guard(error), code).to.equal(true);
+        expect((error as IDEXApiError).code).to.equal(code);
+      });
+    });
+
+    it('should include the request details and the nonce of signed requests', () => {
+      const nonce = '9436afa0-9ee6-11ea-8a53-71994564322f';
+      const error = toIDEXApiError(
+        createAxiosError(
+          400,
+          { code: 'INSUFFICIENT_FUNDS', message: 'Insufficient funds' },
+          {
+            url: '/orders',
+            data: JSON.stringify({ parameters: { nonce }, signature: '0x' }),
+          },
+        ),
+        '/orders',
+        { method: 'POST' },
+      ) as IDEXApiError;
+
+      expect(error).to.be.instanceOf(IDEXApiError);
+      expect(error.message).to.equal('Insufficient funds');
+      expect(error.status).to.equal(400);
+      expect(error.endpoint).to.equal('/orders');
+      expect(error.method).to.equal('POST');
+      expect(error.nonce).to.equal(nonce);
+      expect(error.response.data.code).to.equal('INSUFFICIENT_FUNDS');
+    });
+
+    it('should derive the code from the HTTP status when not provided', () => {
+      const error = toIDEXApiError(createAxiosError(429, ''), '/markets', {
+        method: 'GET',
+      });
+
+      expect(isIDEXRateLimitError(error)).to.equal(true);
+      expect((error as IDEXApiError).code).to.equal('EXCEEDED_RATE_LIMIT');
+    });
+
+    it('should return errors without a response as-is', () => {
+      const networkError = new AxiosError('Network Error', 'ERR_NETWORK');
+      const otherError = new Error('other');
+
+      expect(toIDEXApiError(networkError, '/markets', {})).to.equal(
+        networkError,
+      );
+      expect(toIDEXApiError(otherError, '/markets', {})).to.equal(otherError);
+    });
+  });
+});
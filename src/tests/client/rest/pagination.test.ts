@@ -0,0 +1,95 @@
+import * as chai from 'chai';
+
+import { paginate } from '#client/rest/pagination';
+
+import type { RestRequestPaginationWithFromId } from '#types/rest/common/common';
+
+const { expect } = chai;
+
+interface Item {
+  id: string;
+  time: number;
+}
+
+// ids sort in the same order as their times, two items share each timestamp
+const items: Item[] = Array.from({ length: 10 }, (_, index) => ({
+  id: `id-${String(index).padStart(2, '0')}`,
+  time: 1000 + Math.floor(index / 2) * 10,
+}));
+
+/**
+ * Mimics the API where `fromId`, `start` and `end` are all inclusive.
+ */
+function createFetchPage(requests: RestRequestPaginationWithFromId[]) {
+  return async (params: RestRequestPaginationWithFromId) => {
+    requests.push(params);
+    return items
+      .filter(
+        (item) =>
+          (params.fromId === undefined || item.id >= params.fromId) &&
+          (params.start === undefined || item.time >= params.start) &&
+          (params.end === undefined || item.time <= params.end),
+      )
+      .slice(0, params.limit);
+  };
+}
+
+async function collect(
+  params: RestRequestPaginationWithFromId & { maxItems?: number },
+  cursor: 'fromId' | 'start',
+) {
+  const requests: RestRequestPaginationWithFromId[] = [];
+  const results: Item[] = [];
+
+  for await (const item of paginate(params, {
+    cursor,
+    fetchPage: createFetchPage(requests),
+    getKey: ({ id }) => id,
+    getTime: ({ time }) => time,
+  })) {
+    results.push(item);
+  }
+
+  return { ids: results.map((item) => item.id), requests };
+}
+
+describe('client/rest/pagination', () => {
+  it('should walk fromId cursors and dedupe the inclusive boundary item', async () => {
+    const { ids, requests } = await collect({ limit: 3 }, 'fromId');
+
+    expect(ids).to.deep.equal(items.map((item) => item.id));
+    expect(requests[0]).to.deep.equal({ start: 0, limit: 3 });
+    expect(requests[1]).to.deep.equal({ fromId: 'id-02', limit: 3 });
+  });
+
+  it('should walk start cursors and dedupe items sharing the boundary timestamp', async () => {
+    const { ids, requests } = await collect({ start: 1010, limit: 3 }, 'start');
+
+    expect(ids).to.deep.equal(items.slice(2).map((item) => item.id));
+    expect(requests[1]).to.deep.equal({ start: 1020, limit: 3 });
+  });
+
+  it('should stop at end and maxItems', async () => {
+    expect(
+      (await collect({ start: 0, end: 1020, limit: 2 }, 'fromId')).ids,
+    ).to.deep.equal(['id-00', 'id-01', 'id-02', 'id-03', 'id-04', 'id-05']);
+
+    const { ids, requests } = await collect(
+      { fromId: 'id-03', limit: 2, maxItems: 3 },
+      'fromId',
+    );
+    expect(ids).to.deep.equal(['id-03', 'id-04', 'id-05']);
+    expect(requests.every((request) => !('maxItems' in request))).to.equal(
+      true,
+    );
+  });
+
+  it('should throw when a full page can not advance the start cursor', async () => {
+    try {
+      await collect({ start: 1000, limit: 1 }, 'start');
+      expect.fail('expected an error');
+    } catch (error) {
+      expect((error as Error).message).to.contain('increase the "limit"');
+    }
+  });
+});
@@ -0,0 +1,187 @@
+import * as chai from 'chai';
+
+import {
+  IDEXApiError,
+  IDEXRateLimitError,
+  type IDEXApiErrorCode,
+} from '#client/rest/errors';
+import {
+  RestRateLimiter,
+  RestRequestPolicy,
+  getRetryDelayMs,
+  isRetryableRequestError,
+} from '#client/rest/retry';
+
+import type { AxiosResponse } from 'axios';
+
+const { expect } = chai;
+
+function createApiError(
+  code: IDEXApiErrorCode,
+  status: number,
+  headers: Record<string, string> = {},
+  ErrorClass = IDEXApiError,
+) {
+  return new ErrorClass({
+    code,
+    message: code,
+    status,
+    endpoint: '/orders',
+    method: 'POST',
+    nonce: undefined,
+    response: { status, headers, data: { code } } as AxiosResponse,
+    cause: undefined,
+  });
+}
+
+const retryOptions = { maxAttempts: 3, baseDelayMs: 100, maxDelayMs: 1_000 };
+
+describe('client/rest/retry', () => {
+  describe('isRetryableRequestError', () => {
+    const get = { method: 'GET', nonce: undefined };
+    const signedPost = { method: 'POST', nonce: 'a-nonce' };
+    const post = { method: 'POST', nonce: undefined };
+
+    it('should retry GET requests on rate limits, server and network errors', () => {
+      expect(
+        isRetryableRequestError(
+          createApiError('EXCEEDED_RATE_LIMIT', 429),
+          get,
+        ),
+      ).to.equal(true);
+      expect(
+        isRetryableRequestError(
+          createApiError('INTERNAL_SERVER_ERROR', 500),
+          get,
+        ),
+      ).to.equal(true);
+      expect(isRetryableRequestError(new Error('ECONNRESET'), get)).to.equal(
+        true,
+      );
+      expect(
+        isRetryableRequestError(createApiError('INVALID_PARAMETER', 400), get),
+      ).to.equal(false);
+    });
+
+    it('should only retry signed requests which were rejected before processing', () => {
+      expect(
+        isRetryableRequestError(
+          createApiError('EXCEEDED_RATE_LIMIT', 429),
+          signedPost,
+        ),
+      ).to.equal(true);
+      expect(
+        isRetryableRequestError(
+          createApiError('SERVICE_UNAVAILABLE', 503),
+          signedPost,
+        ),
+      ).to.equal(true);
+      expect(
+        isRetryableRequestError(
+          createApiError('INTERNAL_SERVER_ERROR', 500),
+          signedPost,
+        ),
+      ).to.equal(false);
+      expect(
+        isRetryableRequestError(new Error('ECONNRESET'), signedPost),
+      ).to.equal(false);
+      expect(
+        isRetryableRequestError(
+          createApiError('EXCEEDED_RATE_LIMIT', 429),
+          post,
+        ),
+      ).to.equal(false);
+    });
+  });
+
+  describe('getRetryDelayMs', () => {
+    it('should honor the Retry-After header', () => {
+      const error = createApiError('EXCEEDED_RATE_LIMIT', 429, {
+        'retry-after': '0.5',
+      });
+      expect(getRetryDelayMs(error, 1, retryOptions)).to.equal(500);
+    });
+
+    it('should cap the Retry-After header at maxDelayMs', () => {
+      const now = Date.now();
+      const error = createApiError('EXCEEDED_RATE_LIMIT', 429, {
+        'retry-after': new Date(now + 60_000).toUTCString(),
+      });
+      expect(getRetryDelayMs(error, 1, retryOptions, now)).to.equal(1_000);
+    });
+
+    it('should use exponential backoff with jitter', () => {
+      const error = new Error('ECONNRESET');
+      for (let attempt = 1; attempt <= 5; attempt += 1) {
+        const maxDelayMs = Math.min(1_000, 100 * 2 ** (attempt - 1));
+        const delayMs = getRetryDelayMs(error, attempt, retryOptions);
+        expect(delayMs).to.be.at.least(maxDelayMs / 2);
+        expect(delayMs).to.be.at.most(maxDelayMs);
+      }
+    });
+  });
+
+  describe('RestRequestPolicy', () => {
+    it('should retry until the request succeeds', async () => {
+      const policy = new RestRequestPolicy({
+        retry: { maxAttempts: 3, baseDelayMs: 1 },
+      });
+      let attempts = 0;
+
+      const result = await policy.execute(
+        async () => {
+          attempts += 1;
+          if (attempts < 3) {
+            throw createApiError(
+              'EXCEEDED_RATE_LIMIT',
+              429,
+              {},
+              IDEXRateLimitError,
+            );
+          }
+          return 'ok';
+        },
+        { method: 'POST', nonce: 'a-nonce' },
+      );
+
+      expect(result).to.equal('ok');
+      expect(attempts).to.equal(3);
+    });
+
+    it('should not retry when retries are not enabled', async () => {
+      const policy = new RestRequestPolicy({});
+      let attempts = 0;
+
+      try {
+        await policy.execute(
+          async () => {
+            attempts += 1;
+            throw new Error('ECONNRESET');
+          },
+          { method: 'GET', nonce: undefined },
+        );
+      } catch {
+        // expected
+      }
+
+      expect(attempts).to.equal(1);
+    });
+  });
+
+  describe('RestRateLimiter', () => {
+    it('should throttle requests beyond the burst', async () => {
+      const limiter = new RestRateLimiter({ requestsPerSecond: 100, burst: 2 });
+      const startedAt = Date.now();
+
+      await Promise.all([
+        limiter.acquire(),
+        limiter.acquire(),
+        limiter.acquire(),
+        limiter.acquire(),
+      ]);
+
+      // two requests over the burst at 100 requests per second
+      expect(Date.now() - startedAt).to.be.at.least(15);
+    });
+  });
+});
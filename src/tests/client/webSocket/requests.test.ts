@@ -0,0 +1,131 @@
+import * as chai from 'chai';
+
+import { WebSocketRequestError } from '#client/webSocket/errors';
+import { WebSocketClient } from '#client/webSocket/index';
+import * as testHelpers from '#tests/testHelpers';
+import { SubscriptionNamePublic } from '#types/enums/request';
+import { MessageEventType } from '#types/enums/response';
+
+import type WebSocket from 'isomorphic-ws';
+
+const { expect } = chai;
+
+/**
+ * Waits for requests to be sent
+ */
+function tick() {
+  return new Promise((resolve) => {
+    setImmediate(resolve);
+  });
+}
+
+async function getRejection(promise: Promise<unknown>) {
+  try {
+    await promise;
+  } catch (error) {
+    return error as WebSocketRequestError;
+  }
+  throw new Error('Expected the request to be rejected');
+}
+
+describe('client/webSocket/requests', () => {
+  let ws: testHelpers.FakeWebSocket;
+  let client: WebSocketClient;
+
+  beforeEach(async () => {
+    client = new WebSocketClient({
+      requestTimeoutMs: 50,
+      shouldReconnectAutomatically: false,
+      createWebSocket: () => {
+        ws = new testHelpers.FakeWebSocket();
+        return ws as unknown as WebSocket;
+      },
+    });
+    await client.connect();
+  });
+
+  afterEach(() => {
+    client.disconnect(true);
+  });
+
+  it('should resolve each request with the response matching its cid', async () => {
+    const subscribed = client.subscribePublicAsync(
+      [{ name: SubscriptionNamePublic.tickers }],
+      ['ETH-USD'],
+    );
+    const listed = client.listSubscriptionsAsync('list');
+    await tick();
+
+    const [subscribeRequest, listRequest] = ws.requests;
+    expect(listRequest).to.eql({ method: 'subscriptions', cid: 'list' });
+
+    const subscriptions = [
+      { name: SubscriptionNamePublic.tickers, markets: ['ETH-USD'] },
+    ];
+    ws.receive({ type: MessageEventType.subscriptions, cid: 'list' });
+    ws.receive({
+      type: MessageEventType.subscriptions,
+      cid: subscribeRequest.cid,
+      subscriptions,
+    });
+
+    expect(await listed).to.include({ cid: 'list' });
+    expect(await subscribed).to.eql({
+      type: MessageEventType.subscriptions,
+      cid: subscribeRequest.cid,
+      subscriptions,
+    });
+    expect(client.subscriptions).to.eql(subscriptions);
+  });
+
+  it('should reject with the error the server responds with', async () => {
+    const unsubscribed = client.unsubscribeAsync(
+      [SubscriptionNamePublic.tickers],
+      undefined,
+      'unsubscribe',
+    );
+    await tick();
+
+    ws.receive({
+      type: MessageEventType.error,
+      cid: 'unsubscribe',
+      data: { code: 'INVALID_PARAMETER', message: 'Invalid subscription' },
+    });
+
+    const error = await getRejection(unsubscribed);
+    expect(error).to.be.instanceOf(WebSocketRequestError);
+    expect(error).to.include({
+      code: 'INVALID_PARAMETER',
+      message: 'Invalid subscription',
+      cid: 'unsubscribe',
+    });
+  });
+
+  it('should reject when the server does not respond in time', async () => {
+    const error = await getRejection(client.listSubscriptionsAsync('list'));
+
+    expect(error).to.include({ code: 'REQUEST_TIMEOUT', cid: 'list' });
+  });
+
+  it('should reject pending requests when the connection is closed', async () => {
+    const subscribed = client.subscribePublicAsync(
+      [{ name: SubscriptionNamePublic.trades }],
+      ['ETH-USD'],
+      'subscribe',
+    );
+    const listed = client.listSubscriptionsAsync('list');
+    await tick();
+
+    client.disconnect();
+
+    expect(await getRejection(subscribed)).to.include({
+      code: 'CONNECTION_CLOSED',
+      cid: 'subscribe',
+    });
+    expect(await getRejection(listed)).to.include({
+      code: 'CONNECTION_CLOSED',
+      cid: 'list',
+    });
+    expect(client.subscriptions).to.eql([]);
+  });
+});
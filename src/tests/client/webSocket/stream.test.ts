@@ -0,0 +1,293 @@
+import * as chai from 'chai';
+
+import {
+  WebSocketRequestError,
+  WebSocketStreamOverflowError,
+} from '#client/webSocket/errors';
+import { WebSocketClient } from '#client/webSocket/index';
+import { WebSocketStream } from '#client/webSocket/stream';
+import * as testHelpers from '#tests/testHelpers';
+import {
+  SubscriptionNameAuthenticated,
+  SubscriptionNamePublic,
+} from '#types/enums/request';
+import { MessageEventType } from '#types/enums/response';
+
+import type { WebSocketStreamConfig } from '#client/webSocket/stream';
+import type { IDEXMessageEvent } from '#types/webSocket/index';
+import type WebSocket from 'isomorphic-ws';
+
+const { expect } = chai;
+
+function createStream(config: Partial<WebSocketStreamConfig> = {}) {
+  const calls = { subscribe: 0, unsubscribe: 0, isSubscribed: false };
+  const stream = new WebSocketStream<number>({
+    bufferSize: 2,
+    overflow: 'dropOldest',
+    subscribe: async () => {
+      calls.subscribe += 1;
+    },
+    unsubscribe: (isSubscribed) => {
+      calls.unsubscribe += 1;
+      calls.isSubscribed = isSubscribed;
+    },
+    ...config,
+  });
+  return { stream, calls };
+}
+
+async function start(stream: WebSocketStream<number>) {
+  const result = stream.next();
+  stream.push(0);
+  expect(await result).to.eql({ done: false, value: 0 });
+}
+
+describe('client/webSocket/stream', () => {
+  it('should subscribe on first iteration and unsubscribe on return', async () => {
+    const { stream, calls } = createStream();
+
+    expect(calls.subscribe).to.equal(0);
+
+    await start(stream);
+    expect(calls.subscribe).to.equal(1);
+
+    await stream.return();
+    expect(calls).to.include({ unsubscribe: 1, isSubscribed: true });
+    expect(await stream.next()).to.eql({ done: true, value: undefined });
+  });
+
+  it('should ignore updates before iteration starts', async () => {
+    const { stream } = createStream();
+
+    stream.push(1);
+    await start(stream);
+
+    stream.push(2);
+    expect(await stream.next()).to.eql({ done: false, value: 2 });
+  });
+
+  it('should drop the oldest updates when the buffer is full', async () => {
+    const { stream } = createStream({ overflow: 'dropOldest' });
+
+    await start(stream);
+    [1, 2, 3].forEach((value) => stream.push(value));
+
+    expect(await stream.next()).to.eql({ done: false, value: 2 });
+    expect(await stream.next()).to.eql({ done: false, value: 3 });
+  });
+
+  it('should drop the newest updates when the buffer is full', async () => {
+    const { stream } = createStream({ overflow: 'dropNewest' });
+
+    await start(stream);
+    [1, 2, 3].forEach((value) => stream.push(value));
+
+    expect(await stream.next()).to.eql({ done: false, value: 1 });
+    expect(await stream.next()).to.eql({ done: false, value: 2 });
+  });
+
+  it('should end with an error when the buffer overflows', async () => {
+    const { stream, calls } = createStream({ overflow: 'error' });
+
+    await start(stream);
+    [1, 2, 3].forEach((value) => stream.push(value));
+
+    let error: unknown;
+    try {
+      await stream.next();
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error).to.be.instanceOf(WebSocketStreamOverflowError);
+    expect(calls.unsubscribe).to.equal(1);
+    expect(await stream.next()).to.eql({ done: true, value: undefined });
+  });
+
+  it('should reject when subscribing fails', async () => {
+    const { stream, calls } = createStream({
+      subscribe: async () => {
+        throw new Error('subscribe failed');
+      },
+    });
+
+    let error: unknown;
+    try {
+      await stream.next();
+    } catch (err) {
+      error = err;
+    }
+
+    expect((error as Error).message).to.equal('subscribe failed');
+    expect(calls).to.include({ unsubscribe: 1, isSubscribed: false });
+    expect(stream.closed).to.equal(true);
+  });
+
+  it('should buffer updates once subscribed before iteration starts', async () => {
+    const { stream, calls } = createStream();
+
+    await stream.subscribe();
+    stream.push(1);
+    expect(calls.subscribe).to.equal(1);
+
+    expect(await stream.next()).to.eql({ done: false, value: 1 });
+    expect(calls.subscribe).to.equal(1);
+  });
+
+  it('should reject subscribe when subscribing fails', async () => {
+    const { stream, calls } = createStream({
+      subscribe: async () => {
+        throw new Error('subscribe failed');
+      },
+    });
+
+    let error: unknown;
+    try {
+      await stream.subscribe();
+    } catch (err) {
+      error = err;
+    }
+
+    expect((error as Error).message).to.equal('subscribe failed');
+    expect(calls).to.include({ unsubscribe: 1, isSubscribed: false });
+  });
+
+  describe('WebSocketClient.stream', () => {
+    let ws: testHelpers.FakeWebSocket;
+    let client: WebSocketClient;
+
+    /**
+     * Responds to the last request once it has been sent
+     */
+    async function respond(message: Omit<IDEXMessageEvent, 'cid'>) {
+      await new Promise((resolve) => {
+        setImmediate(resolve);
+      });
+      ws.receive({ ...message, cid: ws.requests[ws.requests.length - 1].cid });
+    }
+
+    function subscribed(markets: string[]) {
+      return respond({
+        type: MessageEventType.subscriptions,
+        subscriptions: [{ name: SubscriptionNamePublic.tickers, markets }],
+      });
+    }
+
+    beforeEach(async () => {
+      client = new WebSocketClient({
+        shouldReconnectAutomatically: false,
+        createWebSocket: () => {
+          ws = new testHelpers.FakeWebSocket();
+          return ws as unknown as WebSocket;
+        },
+      });
+      await client.connect();
+    });
+
+    afterEach(() => {
+      client.disconnect(true);
+    });
+
+    it('should not unsubscribe markets which were subscribed to directly', async () => {
+      const direct = client.subscribePublicAsync(
+        [{ name: SubscriptionNamePublic.tickers }],
+        ['ETH-USD'],
+      );
+      await subscribed(['ETH-USD']);
+      await direct;
+
+      const tickers = client.stream(SubscriptionNamePublic.tickers, {
+        markets: ['ETH-USD', 'BTC-USD'],
+      });
+      const next = tickers.next();
+      await subscribed(['ETH-USD', 'BTC-USD']);
+      ws.receive({
+        type: MessageEventType.tickers,
+        data: { m: 'BTC-USD' },
+      });
+      expect(await next).to.deep.include({
+        done: false,
+        value: { market: 'BTC-USD' },
+      });
+
+      await tickers.return();
+
+      expect(ws.requests[ws.requests.length - 1]).to.eql({
+        method: 'unsubscribe',
+        subscriptions: [
+          { name: SubscriptionNamePublic.tickers, markets: ['BTC-USD'] },
+        ],
+      });
+      expect(client.subscriptions).to.eql([
+        { name: SubscriptionNamePublic.tickers, markets: ['ETH-USD'] },
+      ]);
+    });
+
+    it('should end authenticated streams with an error when the buffer overflows', async () => {
+      client.disconnect(true);
+      client = new WebSocketClient({
+        wallet: testHelpers.wallet.address,
+        websocketAuthTokenFetch: () => 'token',
+        shouldReconnectAutomatically: false,
+        createWebSocket: () => {
+          ws = new testHelpers.FakeWebSocket();
+          return ws as unknown as WebSocket;
+        },
+      });
+      await client.connect();
+
+      const orders = client.stream(SubscriptionNameAuthenticated.orders, {
+        bufferSize: 1,
+      });
+      const next = orders.next();
+      await respond({
+        type: MessageEventType.subscriptions,
+        subscriptions: [{ name: SubscriptionNameAuthenticated.orders }],
+      });
+      const receiveOrder = (orderId: string) => {
+        ws.receive({
+          type: MessageEventType.orders,
+          data: { m: 'ETH-USD', i: orderId, o: 'limit' },
+        });
+      };
+      receiveOrder('1');
+      expect(await next).to.deep.include({
+        done: false,
+        value: { market: 'ETH-USD', orderId: '1', type: 'limit' },
+      });
+      receiveOrder('2');
+      receiveOrder('3');
+
+      let error: unknown;
+      try {
+        await orders.next();
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).to.be.instanceOf(WebSocketStreamOverflowError);
+    });
+
+    it('should not unsubscribe when the subscription was rejected', async () => {
+      const tickers = client.stream(SubscriptionNamePublic.tickers, {
+        markets: ['XYZ-USD'],
+      });
+      const next = tickers.next();
+      await respond({
+        type: MessageEventType.error,
+        data: { code: 'INVALID_PARAMETER', message: 'Invalid market' },
+      });
+
+      let error: unknown;
+      try {
+        await next;
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error).to.be.instanceOf(WebSocketRequestError);
+      expect(tickers.closed).to.equal(true);
+      expect(ws.requests.map(({ method }) => method)).to.eql(['subscribe']);
+    });
+  });
+});
@@ -0,0 +1,295 @@
+import * as chai from 'chai';
+
+import { WebSocketRequestError } from '#client/webSocket/errors';
+import { WebSocketClient } from '#client/webSocket/index';
+import {
+  trackSubscriptions,
+  untrackSubscriptions,
+} from '#client/webSocket/subscriptions';
+import * as testHelpers from '#tests/testHelpers';
+import {
+  CandleInterval,
+  SubscriptionNameAuthenticated,
+  SubscriptionNamePublic,
+} from '#types/enums/request';
+import { MessageEventType } from '#types/enums/response';
+
+import type { IDEXSubscribeType } from '#types/webSocket/index';
+import type WebSocket from 'isomorphic-ws';
+
+const { expect } = chai;
+
+/**
+ * Waits for requests to be sent
+ */
+function tick() {
+  return new Promise((resolve) => {
+    setImmediate(resolve);
+  });
+}
+
+/**
+ * Waits for the first request sent to the n-th WebSocket the client created
+ */
+async function waitForRequest(
+  sockets: testHelpers.FakeWebSocket[],
+  index: number,
+) {
+  while (!sockets[index]?.requests.length) {
+    await tick();
+  }
+  return sockets[index].requests[0];
+}
+
+describe('client/webSocket/subscriptions', () => {
+  describe('trackSubscriptions', () => {
+    it('should inherit top-level markets and merge markets', () => {
+      const tracked = new Map<string, IDEXSubscribeType>();
+
+      trackSubscriptions(
+        tracked,
+        [{ name: SubscriptionNamePublic.tickers }],
+        ['ETH-USD'],
+      );
+      trackSubscriptions(tracked, [
+        { name: SubscriptionNamePublic.tickers, markets: ['BTC-USD'] },
+      ]);
+
+      expect(Array.from(tracked.values())).to.eql([
+        {
+          name: SubscriptionNamePublic.tickers,
+          markets: ['ETH-USD', 'BTC-USD'],
+        },
+      ]);
+    });
+
+    it('should track candles intervals separately', () => {
+      const tracked = new Map<string, IDEXSubscribeType>();
+
+      trackSubscriptions(tracked, [
+        {
+          name: SubscriptionNamePublic.candles,
+          interval: CandleInterval.ONE_MINUTE,
+          markets: ['ETH-USD'],
+        },
+        {
+          name: SubscriptionNamePublic.candles,
+          interval: CandleInterval.ONE_HOUR,
+          markets: ['ETH-USD'],
+        },
+      ]);
+
+      expect(tracked.size).to.equal(2);
+    });
+
+    it('should track authenticated subscriptions without markets', () => {
+      const tracked = new Map<string, IDEXSubscribeType>();
+
+      trackSubscriptions(
+        tracked,
+        [{ name: SubscriptionNameAuthenticated.orders }],
+        ['ETH-USD'],
+      );
+
+      expect(Array.from(tracked.values())).to.eql([
+        { name: SubscriptionNameAuthenticated.orders },
+      ]);
+    });
+  });
+
+  describe('untrackSubscriptions', () => {
+    function createTracked() {
+      const tracked = new Map<string, IDEXSubscribeType>();
+      trackSubscriptions(
+        tracked,
+        [
+          { name: SubscriptionNamePublic.tickers },
+          {
+            name: SubscriptionNamePublic.candles,
+            interval: CandleInterval.ONE_MINUTE,
+          },
+          {
+            name: SubscriptionNamePublic.candles,
+            interval: CandleInterval.ONE_HOUR,
+          },
+          { name: SubscriptionNameAuthenticated.positions },
+        ],
+        ['ETH-USD', 'BTC-USD'],
+      );
+      return tracked;
+    }
+
+    it('should remove all subscriptions when none are given', () => {
+      const tracked = createTracked();
+      untrackSubscriptions(tracked);
+      expect(tracked.size).to.equal(0);
+    });
+
+    it('should only remove the given markets', () => {
+      const tracked = createTracked();
+
+      untrackSubscriptions(tracked, undefined, ['ETH-USD']);
+
+      expect(tracked.size).to.equal(4);
+      expect(tracked.get(SubscriptionNamePublic.tickers)?.markets).to.eql([
+        'BTC-USD',
+      ]);
+
+      untrackSubscriptions(
+        tracked,
+        [SubscriptionNamePublic.tickers],
+        ['BTC-USD'],
+      );
+
+      expect(tracked.has(SubscriptionNamePublic.tickers)).to.equal(false);
+    });
+
+    it('should remove every candles interval when no interval is given', () => {
+      const tracked = createTracked();
+
+      untrackSubscriptions(tracked, [{ name: SubscriptionNamePublic.candles }]);
+
+      expect(Array.from(tracked.keys())).to.eql([
+        SubscriptionNamePublic.tickers,
+        SubscriptionNameAuthenticated.positions,
+      ]);
+    });
+
+    it('should remove a single candles interval', () => {
+      const tracked = createTracked();
+
+      untrackSubscriptions(tracked, [
+        {
+          name: SubscriptionNamePublic.candles,
+          interval: CandleInterval.ONE_MINUTE,
+        },
+      ]);
+
+      expect(tracked.size).to.equal(3);
+    });
+  });
+
+  describe('WebSocketClient', () => {
+    it('should only replay confirmed subscriptions after reconnecting', async () => {
+      const sockets: testHelpers.FakeWebSocket[] = [];
+      const client = new WebSocketClient({
+        createWebSocket: () => {
+          const ws = new testHelpers.FakeWebSocket();
+          sockets.push(ws);
+          return ws as unknown as WebSocket;
+        },
+      });
+      await client.connect();
+
+      client
+        .subscribePublic(
+          [{ name: SubscriptionNamePublic.tickers }],
+          ['ETH-USD'],
+        )
+        .subscribePublic(
+          [{ name: SubscriptionNamePublic.trades }],
+          ['XYZ-USD'],
+        );
+      const [confirmed, rejected] = sockets[0].requests;
+
+      expect(client.subscriptions).to.eql([]);
+
+      sockets[0].receive({
+        type: MessageEventType.subscriptions,
+        cid: confirmed.cid,
+        subscriptions: [
+          { name: SubscriptionNamePublic.tickers, markets: ['ETH-USD'] },
+        ],
+      });
+      sockets[0].receive({
+        type: MessageEventType.error,
+        cid: rejected.cid,
+        data: { code: 'INVALID_PARAMETER', message: 'Invalid market' },
+      });
+
+      expect(client.subscriptions).to.eql([
+        { name: SubscriptionNamePublic.tickers, markets: ['ETH-USD'] },
+      ]);
+
+      const resubscribed: IDEXSubscribeType[][] = [];
+      client.onResubscribed((subscriptions) => {
+        resubscribed.push(subscriptions);
+      });
+      sockets[0].close(1006);
+
+      const request = await waitForRequest(sockets, 1);
+      expect(request).to.eql({
+        cid: request.cid,
+        method: 'subscribe',
+        subscriptions: [
+          { name: SubscriptionNamePublic.tickers, markets: ['ETH-USD'] },
+        ],
+      });
+      expect(resubscribed).to.eql([]);
+
+      sockets[1].receive({
+        type: MessageEventType.subscriptions,
+        cid: request.cid,
+        subscriptions: request.subscriptions,
+      });
+      await tick();
+
+      expect(resubscribed).to.eql([
+        [{ name: SubscriptionNamePublic.tickers, markets: ['ETH-USD'] }],
+      ]);
+
+      client.disconnect(true);
+    });
+
+    it('should report a rejected resubscribe to the error handlers', async () => {
+      const sockets: testHelpers.FakeWebSocket[] = [];
+      const client = new WebSocketClient({
+        createWebSocket: () => {
+          const ws = new testHelpers.FakeWebSocket();
+          sockets.push(ws);
+          return ws as unknown as WebSocket;
+        },
+      });
+      await client.connect();
+      const subscribed = client.subscribePublicAsync(
+        [{ name: SubscriptionNamePublic.tickers }],
+        ['ETH-USD'],
+        'subscribe',
+      );
+      await tick();
+      sockets[0].receive({
+        type: MessageEventType.subscriptions,
+        cid: 'subscribe',
+        subscriptions: [
+          { name: SubscriptionNamePublic.tickers, markets: ['ETH-USD'] },
+        ],
+      });
+      await subscribed;
+
+      const errors: unknown[] = [];
+      const resubscribed: IDEXSubscribeType[][] = [];
+      client.onError((error) => {
+        errors.push(error);
+      });
+      client.onResubscribed((subscriptions) => {
+        resubscribed.push(subscriptions);
+      });
+      sockets[0].close(1006);
+
+      const request = await waitForRequest(sockets, 1);
+      sockets[1].receive({
+        type: MessageEventType.error,
+        cid: request.cid,
+        data: { code: 'INVALID_PARAMETER', message: 'Invalid market' },
+      });
+      await tick();
+
+      expect(resubscribed).to.eql([]);
+      expect(errors).to.have.length(1);
+      expect(errors[0]).to.be.instanceOf(WebSocketRequestError);
+      expect(errors[0]).to.include({ code: 'INVALID_PARAMETER' });
+
+      client.disconnect(true);
+    });
+  });
+});
@@ -0,0 +1,229 @@
+import * as chai from 'chai';
+
+import { decimalToPip, multiplyPips, pipToDecimal } from '#pipmath';
+
+import { RestAuthenticatedClient } from '#client/rest/authenticated';
+import { WebSocketClient } from '#client/webSocket/index';
+import { IcebergOrder } from '#execution/iceberg';
+import * as testing from '#testing/index';
+import * as testHelpers from '#tests/testHelpers';
+import {
+  IcebergOrderEvent,
+  IcebergOrderStatus,
+  OrderSide,
+  TimeInForce,
+} from '#types/enums/request';
+import {
+  MessageEventType,
+  OrderStateChange,
+  OrderStatus,
+} from '#types/enums/response';
+
+import type { IcebergOrderProgress } from '#execution/iceberg';
+import type { IDEXMarket } from '#types/rest/endpoints/index';
+
+const { expect } = chai;
+
+const { apiKey, apiSecret, wallet } = testHelpers;
+
+const market: IDEXMarket = {
+  ...testHelpers.market,
+  makerOrderMinimum: '0.10000000',
+};
+
+describe('execution/iceberg', () => {
+  let server: testing.MockIDEXServer;
+  let client: RestAuthenticatedClient;
+  let webSocketClient: WebSocketClient;
+
+  /**
+   * Publishes an order event executing the given quantity of the n-th order
+   */
+  function publishFill(index: number, executedQuantity: string) {
+    const order = server.fixtures.orders[index];
+    const isFilled = executedQuantity === order.originalQuantity;
+    server.publish({
+      type: MessageEventType.orders,
+      data: {
+        ...order,
+        status: isFilled ? OrderStatus.filled : OrderStatus.partiallyFilled,
+        executedQuantity,
+        cumulativeQuoteQuantity: pipToDecimal(
+          multiplyPips(
+            decimalToPip(executedQuantity),
+            decimalToPip(order.price ?? '0'),
+          ),
+        ),
+        executionTime: Date.now(),
+        update: OrderStateChange.fill,
+      },
+    });
+  }
+
+  beforeEach(async () => {
+    server = await new testing.MockIDEXServer({
+      apiKeys: [{ apiKey, apiSecret, wallets: [wallet.address] }],
+      fixtures: { markets: [market] },
+    }).start();
+
+    client = new RestAuthenticatedClient({
+      apiKey,
+      apiSecret,
+      walletPrivateKey: wallet.privateKey,
+      baseURL: server.baseURL,
+    });
+    webSocketClient = new WebSocketClient({
+      auth: { apiKey, apiSecret, wallet: wallet.address },
+      baseRestApiURL: server.baseURL,
+      baseWebSocketURL: server.baseWebSocketURL,
+      shouldReconnectAutomatically: false,
+    });
+    await webSocketClient.connect();
+  });
+
+  afterEach(async () => {
+    webSocketClient.disconnect(true);
+    await server.stop();
+  });
+
+  it('should replenish randomized slices as they are filled', async () => {
+    const iceberg = new IcebergOrder({
+      client,
+      webSocketClient,
+      wallet: wallet.address,
+      market,
+      side: OrderSide.buy,
+      quantity: '2.50000000',
+      price: '2000.00000000',
+      displayQuantity: '1.00000000',
+      displayQuantityVariance: '0.20000000',
+      priceOffsetTicks: 2,
+      timeInForce: TimeInForce.gtx,
+      random: () => 0.75,
+    });
+    const done = new Promise<IcebergOrderProgress>((resolve) => {
+      iceberg.once(IcebergOrderEvent.done, resolve);
+    });
+
+    await iceberg.start();
+    expect(iceberg.getProgress()).to.include({
+      displayedQuantity: '1.10000000',
+      slices: 1,
+    });
+
+    publishFill(0, '0.50000000');
+    await testHelpers.waitForEvent<IcebergOrderProgress>(
+      iceberg,
+      IcebergOrderEvent.progress,
+      ({ executedQuantity }) => executedQuantity === '0.50000000',
+    );
+    expect(server.fixtures.orders).to.have.length(1);
+
+    publishFill(0, '1.10000000');
+    await testHelpers.waitForEvent<IcebergOrderProgress>(
+      iceberg,
+      IcebergOrderEvent.progress,
+      ({ slices }) => slices === 2,
+    );
+    publishFill(1, '1.10000000');
+    await testHelpers.waitForEvent<IcebergOrderProgress>(
+      iceberg,
+      IcebergOrderEvent.progress,
+      ({ slices }) => slices === 3,
+    );
+    publishFill(2, '0.30000000');
+
+    expect(await done).to.include({
+      status: IcebergOrderStatus.completed,
+      executedQuantity: '2.50000000',
+      displayedQuantity: '0.00000000',
+      avgExecutionPrice: '1999.80000000',
+      slices: 3,
+    });
+    expect(
+      server.fixtures.orders.map(({ originalQuantity, price, timeInForce }) => [
+        originalQuantity,
+        price,
+        timeInForce,
+      ]),
+    ).to.eql([
+      ['1.10000000', '1999.80000000', TimeInForce.gtx],
+      ['1.10000000', '1999.80000000', TimeInForce.gtx],
+      ['0.30000000', '1999.80000000', TimeInForce.gtx],
+    ]);
+  });
+
+  it('should cancel the resting slice when stopped', async () => {
+    const iceberg = new IcebergOrder({
+      client,
+      webSocketClient,
+      wallet: wallet.address,
+      market,
+      side: OrderSide.sell,
+      quantity: '5.00000000',
+      price: '2000.00000000',
+      displayQuantity: '1.00000000',
+    });
+
+    await iceberg.start();
+    publishFill(0, '0.40000000');
+    await testHelpers.waitForEvent<IcebergOrderProgress>(
+      iceberg,
+      IcebergOrderEvent.progress,
+      ({ executedQuantity }) => executedQuantity === '0.40000000',
+    );
+
+    expect(await iceberg.stop()).to.include({
+      status: IcebergOrderStatus.stopped,
+      executedQuantity: '0.40000000',
+      remainingQuantity: '4.60000000',
+      displayedQuantity: '0.00000000',
+      slices: 1,
+    });
+    expect(server.fixtures.orders[0]).to.include({
+      status: OrderStatus.canceled,
+    });
+    expect(webSocketClient.subscriptions).to.eql([]);
+
+    const updates: IcebergOrderProgress[] = [];
+    iceberg.on(IcebergOrderEvent.progress, (progress) => {
+      updates.push(progress);
+    });
+    publishFill(0, '1.00000000');
+    await new Promise((resolve) => {
+      setTimeout(resolve, 50);
+    });
+    expect(updates).to.eql([]);
+  });
+
+  it('should fail when a slice is canceled before it is filled', async () => {
+    const iceberg = new IcebergOrder({
+      client,
+      webSocketClient,
+      wallet: wallet.address,
+      market,
+      side: OrderSide.sell,
+      quantity: '5.00000000',
+      price: '2000.00000000',
+      displayQuantity: '1.00000000',
+    });
+    const errors: Error[] = [];
+    iceberg.on(IcebergOrderEvent.error, (error) => {
+      errors.push(error);
+    });
+    const done = new Promise<IcebergOrderProgress>((resolve) => {
+      iceberg.once(IcebergOrderEvent.done, resolve);
+    });
+
+    await iceberg.start();
+    await client.cancelOrders({ wallet: wallet.address, market: 'ETH-USD' });
+
+    expect(await done).to.include({
+      status: IcebergOrderStatus.failed,
+      slices: 1,
+    });
+    expect(errors.map(({ message }) => message)).to.eql([
+      `Iceberg slice ${server.fixtures.orders[0].orderId} was closed before it was filled`,
+    ]);
+  });
+});
@@ -0,0 +1,311 @@
+import * as chai from 'chai';
+
+import { RestAuthenticatedClient } from '#client/rest/authenticated';
+import { WebSocketClient } from '#client/webSocket/index';
+import { OrderGroupManager } from '#execution/orderGroups';
+import * as testing from '#testing/index';
+import * as testHelpers from '#tests/testHelpers';
+import {
+  OrderGroupManagerEvent,
+  OrderGroupType,
+  OrderSide,
+  OrderType,
+} from '#types/enums/request';
+import {
+  MessageEventType,
+  OrderStateChange,
+  OrderStatus,
+  TriggerType,
+} from '#types/enums/response';
+
+import type { OrderGroup } from '#execution/orderGroups';
+
+const { expect } = chai;
+
+const { apiKey, apiSecret, market, wallet } = testHelpers;
+
+describe('execution/orderGroups', () => {
+  let server: testing.MockIDEXServer;
+  let client: RestAuthenticatedClient;
+  let webSocketClient: WebSocketClient;
+  let manager: OrderGroupManager;
+
+  /**
+   * Executes the given quantity of an order, publishing the order event unless the manager is
+   * offline
+   */
+  function fillOrder(
+    orderId: string | null,
+    executedQuantity: string,
+    shouldPublish = true,
+  ) {
+    const index = server.fixtures.orders.findIndex(
+      (order) => order.orderId === orderId,
+    );
+    const order = {
+      ...server.fixtures.orders[index],
+      executedQuantity,
+    };
+    order.status =
+      executedQuantity === order.originalQuantity ?
+        OrderStatus.filled
+      : OrderStatus.partiallyFilled;
+    server.fixtures.orders[index] = order;
+
+    if (shouldPublish) {
+      server.publish({
+        type: MessageEventType.orders,
+        data: {
+          ...order,
+          executionTime: Date.now(),
+          update: OrderStateChange.fill,
+        },
+      });
+    }
+  }
+
+  function getOrder(orderId: string | null) {
+    return server.fixtures.orders.find((order) => order.orderId === orderId);
+  }
+
+  beforeEach(async () => {
+    server = await new testing.MockIDEXServer({
+      apiKeys: [{ apiKey, apiSecret, wallets: [wallet.address] }],
+      fixtures: { markets: [market] },
+    }).start();
+
+    client = new RestAuthenticatedClient({
+      apiKey,
+      apiSecret,
+      walletPrivateKey: wallet.privateKey,
+      baseURL: server.baseURL,
+    });
+    webSocketClient = new WebSocketClient({
+      auth: { apiKey, apiSecret, wallet: wallet.address },
+      baseRestApiURL: server.baseURL,
+      baseWebSocketURL: server.baseWebSocketURL,
+      shouldReconnectAutomatically: false,
+    });
+    await webSocketClient.connect();
+
+    manager = new OrderGroupManager({
+      client,
+      webSocketClient,
+      wallet: wallet.address,
+    });
+    await manager.start();
+  });
+
+  afterEach(async () => {
+    await manager.stop();
+    webSocketClient.disconnect(true);
+    await server.stop();
+  });
+
+  it('should resize and cancel competing orders', async () => {
+    const group = await manager.createGroup({
+      type: OrderGroupType.oneCancelsOther,
+      orders: [
+        {
+          market: 'ETH-USD',
+          type: OrderType.limit,
+          side: OrderSide.buy,
+          quantity: '1.00000000',
+          price: '1990.00000000',
+        },
+        {
+          market: 'ETH-USD',
+          type: OrderType.limit,
+          side: OrderSide.buy,
+          quantity: '1.00000000',
+          price: '1980.00000000',
+        },
+      ],
+    });
+    const [first, second] = group.orders;
+
+    fillOrder(first.orderId, '0.30000000');
+    const resized = await testHelpers.waitForEvent<OrderGroup>(
+      manager,
+      OrderGroupManagerEvent.updated,
+      ({ orders }) => orders[1].orderId !== second.orderId,
+    );
+    expect(resized.orders[1]).to.include({
+      quantity: '0.70000000',
+      executedQuantity: '0.00000000',
+      isClosed: false,
+    });
+    expect(getOrder(second.orderId)).to.include({
+      status: OrderStatus.canceled,
+    });
+    expect(getOrder(resized.orders[1].orderId)).to.include({
+      originalQuantity: '0.70000000',
+      price: '1980.00000000',
+    });
+
+    const done = testHelpers.waitForEvent<OrderGroup>(
+      manager,
+      OrderGroupManagerEvent.done,
+    );
+    fillOrder(first.orderId, '1.00000000');
+
+    expect((await done).orders[1]).to.include({
+      isClosed: true,
+      isCanceledByGroup: true,
+    });
+    expect(getOrder(resized.orders[1].orderId)).to.include({
+      status: OrderStatus.canceled,
+    });
+    expect(manager.getGroups()).to.eql([]);
+  });
+
+  it('should resize bracket exits to the executed entry quantity', async () => {
+    const exit = {
+      market: 'ETH-USD',
+      side: OrderSide.sell,
+      quantity: '1.00000000',
+      triggerType: TriggerType.last,
+      reduceOnly: true,
+    };
+    const group = await manager.createGroup({
+      type: OrderGroupType.bracket,
+      entry: {
+        market: 'ETH-USD',
+        type: OrderType.limit,
+        side: OrderSide.buy,
+        quantity: '1.00000000',
+        price: '2000.00000000',
+      },
+      exits: [
+        {
+          ...exit,
+          type: OrderType.takeProfitLimit,
+          price: '2200.00000000',
+          triggerPrice: '2200.00000000',
+        },
+        {
+          ...exit,
+          type: OrderType.stopLossLimit,
+          price: '1900.00000000',
+          triggerPrice: '1900.00000000',
+        },
+      ],
+    });
+
+    fillOrder(group.entry?.orderId ?? null, '0.40000000');
+    const resized = testHelpers.waitForEvent<OrderGroup>(
+      manager,
+      OrderGroupManagerEvent.updated,
+      ({ orders }) =>
+        orders.every(
+          ({ quantity, orderId }) => quantity === '0.40000000' && orderId,
+        ),
+    );
+    await client.cancelOrders({
+      wallet: wallet.address,
+      orderIds: [group.entry?.orderId ?? ''],
+    });
+
+    const [takeProfit, stopLoss] = (await resized).orders;
+    expect(getOrder(takeProfit.orderId)).to.include({
+      type: OrderType.takeProfitLimit,
+      originalQuantity: '0.40000000',
+      triggerPrice: '2200.00000000',
+      reduceOnly: true,
+    });
+    expect(getOrder(stopLoss.orderId)).to.include({
+      type: OrderType.stopLossLimit,
+      originalQuantity: '0.40000000',
+      triggerPrice: '1900.00000000',
+    });
+
+    const done = testHelpers.waitForEvent<OrderGroup>(
+      manager,
+      OrderGroupManagerEvent.done,
+    );
+    fillOrder(takeProfit.orderId, '0.40000000');
+
+    expect((await done).orders[1]).to.include({
+      orderId: stopLoss.orderId,
+      isCanceledByGroup: true,
+    });
+    expect(getOrder(stopLoss.orderId)).to.include({
+      status: OrderStatus.canceled,
+    });
+  });
+
+  it('should reconcile restored groups with fills that occurred while offline', async () => {
+    const [first, second] = await Promise.all(
+      ['2100.00000000', '2200.00000000'].map(async (price) => {
+        const { orderId } = await client.createOrder({
+          wallet: wallet.address,
+          market: 'ETH-USD',
+          type: OrderType.limit,
+          side: OrderSide.sell,
+          quantity: '1.00000000',
+          price,
+        });
+        return {
+          orderId,
+          quantity: '1.00000000',
+          executedQuantity: '0.00000000',
+          replacedExecutedQuantity: '0.00000000',
+          isClosed: false,
+          isCanceledByGroup: false,
+        };
+      }),
+    );
+    const group: OrderGroup = {
+      groupId: 'c3ad3cb6-7e5b-4d0b-a5a1-6cdc2c1b2f4e',
+      type: OrderGroupType.oneCancelsOther,
+      orders: [first, second],
+    };
+
+    fillOrder(first.orderId, '1.00000000', false);
+    const done = testHelpers.waitForEvent<OrderGroup>(
+      manager,
+      OrderGroupManagerEvent.done,
+    );
+
+    expect(
+      await manager.restoreGroups([JSON.parse(JSON.stringify(group))]),
+    ).to.eql([]);
+    expect((await done).orders).to.eql([
+      { ...first, executedQuantity: '1.00000000', isClosed: true },
+      { ...second, isClosed: true, isCanceledByGroup: true },
+    ]);
+    expect(getOrder(second.orderId)).to.include({
+      status: OrderStatus.canceled,
+    });
+  });
+
+  it('should stop managing groups and release its subscription when stopped', async () => {
+    const group = await manager.createGroup({
+      type: OrderGroupType.oneCancelsOther,
+      orders: ['1990.00000000', '1980.00000000'].map((price) => ({
+        market: 'ETH-USD',
+        type: OrderType.limit,
+        side: OrderSide.buy,
+        quantity: '1.00000000',
+        price,
+      })),
+    });
+    const [first, second] = group.orders;
+
+    await manager.stop();
+    expect(manager.getGroups()).to.eql([]);
+    expect(webSocketClient.subscriptions).to.eql([]);
+
+    const updates: OrderGroup[] = [];
+    manager.on(OrderGroupManagerEvent.updated, (updated) => {
+      updates.push(updated);
+    });
+    fillOrder(first.orderId, '1.00000000');
+    await new Promise((resolve) => {
+      setTimeout(resolve, 50);
+    });
+
+    expect(updates).to.eql([]);
+    expect(getOrder(second.orderId)).to.include({ status: OrderStatus.open });
+  });
+});
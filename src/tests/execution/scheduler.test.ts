@@ -0,0 +1,331 @@
+import * as chai from 'chai';
+
+import { decimalToPip, multiplyPips, pipToDecimal } from '#pipmath';
+
+import { RestAuthenticatedClient } from '#client/rest/authenticated';
+import { WebSocketClient } from '#client/webSocket/index';
+import { ExecutionScheduler } from '#execution/scheduler';
+import * as testing from '#testing/index';
+import * as testHelpers from '#tests/testHelpers';
+import {
+  ExecutionAlgorithm,
+  ExecutionSchedulerEvent,
+  ExecutionSchedulerStatus,
+  OrderSide,
+  OrderType,
+} from '#types/enums/request';
+import {
+  MessageEventType,
+  OrderStateChange,
+  OrderStatus,
+} from '#types/enums/response';
+
+import type { ExecutionProgress } from '#execution/scheduler';
+
+const { expect } = chai;
+
+const { apiKey, apiSecret, market, wallet } = testHelpers;
+
+describe('execution/scheduler', () => {
+  let server: testing.MockIDEXServer;
+  let client: RestAuthenticatedClient;
+  let webSocketClient: WebSocketClient;
+
+  beforeEach(async () => {
+    server = await new testing.MockIDEXServer({
+      apiKeys: [{ apiKey, apiSecret, wallets: [wallet.address] }],
+      fixtures: { markets: [market] },
+      // market orders are filled at 2000
+      onOrder: (order) =>
+        order.type === OrderType.market ?
+          {
+            ...order,
+            status: OrderStatus.filled,
+            executedQuantity: order.originalQuantity,
+            cumulativeQuoteQuantity: pipToDecimal(
+              multiplyPips(
+                decimalToPip(order.originalQuantity),
+                decimalToPip('2000'),
+              ),
+            ),
+          }
+        : undefined,
+    }).start();
+
+    client = new RestAuthenticatedClient({
+      apiKey,
+      apiSecret,
+      walletPrivateKey: wallet.privateKey,
+      baseURL: server.baseURL,
+    });
+    webSocketClient = new WebSocketClient({
+      auth: { apiKey, apiSecret, wallet: wallet.address },
+      baseRestApiURL: server.baseURL,
+      baseWebSocketURL: server.baseWebSocketURL,
+      shouldReconnectAutomatically: false,
+    });
+    await webSocketClient.connect();
+  });
+
+  afterEach(async () => {
+    webSocketClient.disconnect(true);
+    await server.stop();
+  });
+
+  it('should reject quantities below the order minimum', () => {
+    expect(
+      () =>
+        new ExecutionScheduler({
+          algorithm: ExecutionAlgorithm.twap,
+          client,
+          webSocketClient,
+          wallet: wallet.address,
+          market,
+          side: OrderSide.buy,
+          quantity: '0.00500000',
+          durationMs: 1_000,
+        }),
+    ).to.throw('Invalid quantity 0.00500000, must be at least 0.01000000');
+  });
+
+  it('should slice a TWAP into step size multiples', async () => {
+    const scheduler = new ExecutionScheduler({
+      algorithm: ExecutionAlgorithm.twap,
+      client,
+      webSocketClient,
+      wallet: wallet.address,
+      market,
+      side: OrderSide.buy,
+      quantity: '1.00000000',
+      durationMs: 60,
+      intervalMs: 20,
+    });
+    const done = new Promise<ExecutionProgress>((resolve) => {
+      scheduler.once(ExecutionSchedulerEvent.done, resolve);
+    });
+
+    await scheduler.start();
+
+    expect(await done).to.include({
+      status: ExecutionSchedulerStatus.completed,
+      executedQuantity: '1.00000000',
+      remainingQuantity: '0.00000000',
+      cumulativeQuoteQuantity: '2000.00000000',
+      avgExecutionPrice: '2000.00000000',
+      childOrders: 3,
+    });
+    expect(
+      server.fixtures.orders.map(({ originalQuantity }) => originalQuantity),
+    ).to.eql(['0.33000000', '0.33000000', '0.34000000']);
+  });
+
+  it('should not place child orders while paused', async () => {
+    const scheduler = new ExecutionScheduler({
+      algorithm: ExecutionAlgorithm.twap,
+      client,
+      webSocketClient,
+      wallet: wallet.address,
+      market,
+      side: OrderSide.sell,
+      quantity: '0.50000000',
+      durationMs: 40,
+      intervalMs: 20,
+    });
+    const done = new Promise<ExecutionProgress>((resolve) => {
+      scheduler.once(ExecutionSchedulerEvent.done, resolve);
+    });
+
+    await scheduler.start();
+    await testHelpers.waitForEvent<ExecutionProgress>(
+      scheduler,
+      ExecutionSchedulerEvent.progress,
+      ({ childOrders }) => childOrders === 1,
+    );
+    scheduler.pause();
+
+    await new Promise((resolve) => {
+      setTimeout(resolve, 100);
+    });
+    expect(scheduler.getProgress()).to.include({
+      status: ExecutionSchedulerStatus.paused,
+      executedQuantity: '0.25000000',
+      childOrders: 1,
+    });
+
+    scheduler.resume();
+    expect(await done).to.include({
+      status: ExecutionSchedulerStatus.completed,
+      executedQuantity: '0.50000000',
+      childOrders: 2,
+    });
+  });
+
+  it('should participate in traded volume and cancel working child orders', async () => {
+    const scheduler = new ExecutionScheduler({
+      algorithm: ExecutionAlgorithm.vwap,
+      client,
+      webSocketClient,
+      wallet: wallet.address,
+      market,
+      side: OrderSide.buy,
+      quantity: '2.00000000',
+      price: '2000.00000000',
+      participationRate: '0.50000000',
+      intervalMs: 20,
+    });
+
+    await scheduler.start();
+    server.publish({
+      type: MessageEventType.trades,
+      data: {
+        market: 'ETH-USD',
+        fillId: 'fill-1',
+        price: '2000.00000000',
+        quantity: '2.00000000',
+        quoteQuantity: '4000.00000000',
+        time: Date.now(),
+        makerSide: OrderSide.sell,
+        sequence: 1,
+      },
+    });
+
+    const placed = await testHelpers.waitForEvent<ExecutionProgress>(
+      scheduler,
+      ExecutionSchedulerEvent.progress,
+      ({ childOrders }) => childOrders === 1,
+    );
+    expect(placed).to.include({ workingQuantity: '1.00000000' });
+
+    const [order] = server.fixtures.orders;
+    server.publish({
+      type: MessageEventType.orders,
+      data: {
+        ...order,
+        status: OrderStatus.partiallyFilled,
+        executedQuantity: '0.40000000',
+        cumulativeQuoteQuantity: '796.00000000',
+        executionTime: Date.now(),
+        update: OrderStateChange.fill,
+      },
+    });
+    await testHelpers.waitForEvent<ExecutionProgress>(
+      scheduler,
+      ExecutionSchedulerEvent.progress,
+      ({ executedQuantity }) => executedQuantity === '0.40000000',
+    );
+
+    expect(await scheduler.cancel()).to.include({
+      status: ExecutionSchedulerStatus.canceled,
+      executedQuantity: '0.40000000',
+      remainingQuantity: '1.60000000',
+      workingQuantity: '0.00000000',
+      avgExecutionPrice: '1990.00000000',
+      childOrders: 1,
+    });
+    expect(server.fixtures.orders[0]).to.include({
+      orderId: order.orderId,
+      status: OrderStatus.canceled,
+    });
+  });
+
+  it('should release its subscriptions once done', async () => {
+    const scheduler = new ExecutionScheduler({
+      algorithm: ExecutionAlgorithm.vwap,
+      client,
+      webSocketClient,
+      wallet: wallet.address,
+      market,
+      side: OrderSide.buy,
+      quantity: '1.00000000',
+      participationRate: '1.00000000',
+      intervalMs: 20,
+    });
+    const done = new Promise<ExecutionProgress>((resolve) => {
+      scheduler.once(ExecutionSchedulerEvent.done, resolve);
+    });
+
+    await scheduler.start();
+    expect(webSocketClient.subscriptions.map(({ name }) => name).sort()).to.eql(
+      ['orders', 'trades'],
+    );
+
+    expect(await scheduler.cancel()).to.include({
+      status: ExecutionSchedulerStatus.canceled,
+    });
+    await done;
+    expect(webSocketClient.subscriptions).to.eql([]);
+
+    const updates: ExecutionProgress[] = [];
+    scheduler.on(ExecutionSchedulerEvent.progress, (progress) => {
+      updates.push(progress);
+    });
+    server.publish({
+      type: MessageEventType.trades,
+      data: {
+        market: 'ETH-USD',
+        fillId: 'fill-1',
+        price: '2000.00000000',
+        quantity: '2.00000000',
+        quoteQuantity: '4000.00000000',
+        time: Date.now(),
+        makerSide: OrderSide.sell,
+        sequence: 1,
+      },
+    });
+    await new Promise((resolve) => {
+      setTimeout(resolve, 50);
+    });
+    expect(updates).to.eql([]);
+    expect(server.fixtures.orders).to.eql([]);
+  });
+
+  it('should not count its own fills as participated volume', async () => {
+    const scheduler = new ExecutionScheduler({
+      algorithm: ExecutionAlgorithm.vwap,
+      client,
+      webSocketClient,
+      wallet: wallet.address,
+      market,
+      side: OrderSide.buy,
+      quantity: '2.00000000',
+      participationRate: '0.50000000',
+      intervalMs: 20,
+    });
+    const publishTrade = (fillId: string, quantity: string) => {
+      server.publish({
+        type: MessageEventType.trades,
+        data: {
+          market: 'ETH-USD',
+          fillId,
+          price: '2000.00000000',
+          quantity,
+          quoteQuantity: pipToDecimal(
+            multiplyPips(decimalToPip(quantity), decimalToPip('2000')),
+          ),
+          time: Date.now(),
+          makerSide: OrderSide.sell,
+          sequence: 1,
+        },
+      });
+    };
+
+    await scheduler.start();
+    publishTrade('fill-1', '2.00000000');
+    await testHelpers.waitForEvent<ExecutionProgress>(
+      scheduler,
+      ExecutionSchedulerEvent.progress,
+      ({ executedQuantity }) => executedQuantity === '1.00000000',
+    );
+
+    // the trade of the scheduler's own child order fill
+    publishTrade('fill-2', '1.00000000');
+    await new Promise((resolve) => {
+      setTimeout(resolve, 100);
+    });
+
+    expect(await scheduler.cancel()).to.include({
+      executedQuantity: '1.00000000',
+      childOrders: 1,
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import * as chai from 'chai';
+
+import { decimalToPip } from '#pipmath';
+
+import * as orderbook from '#orderbook/index';
+import * as testHelpers from '#tests/testHelpers';
+
+const { expect } = chai;
+
+const market: orderbook.MarginMarket = {
+  ...testHelpers.market,
+  market: 'BTC-USD',
+  basePositionSize: '10',
+  incrementalPositionSize: '5',
+};
+
+function position(quantity: string, indexPrice = '10000') {
+  return { market: 'BTC-USD', quantity, indexPrice };
+}
+
+describe('orderbook/margin', () => {
+  describe('calculateWalletMargin', () => {
+    it('should calculate the margin of a long position', () => {
+      const margin = orderbook.calculateWalletMargin({
+        wallet: { quoteBalance: '-9000' },
+        positions: [position('1')],
+        markets: [market],
+      });
+
+      testHelpers.assertBigintsEqual(margin.accountValue, decimalToPip('1000'));
+      testHelpers.assertBigintsEqual(
+        margin.initialMarginRequirement,
+        decimalToPip('500'),
+      );
+      testHelpers.assertBigintsEqual(
+        margin.maintenanceMarginRequirement,
+        decimalToPip('300'),
+      );
+      testHelpers.assertBigintsEqual(
+        margin.freeCollateral,
+        decimalToPip('500'),
+      );
+      testHelpers.assertBigintsEqual(
+        margin.marginRatio as bigint,
+        decimalToPip('0.3'),
+      );
+      testHelpers.assertBigintsEqual(
+        margin.leverage as bigint,
+        decimalToPip('10'),
+      );
+      // 9000 / (1 - 0.03)
+      testHelpers.assertBigintsEqual(
+        margin.positions[0].liquidationPrice,
+        decimalToPip('9278.35051546'),
+      );
+      expect(margin.isLiquidatable).to.equal(false);
+    });
+
+    it('should calculate the liquidation price of a short position', () => {
+      const margin = orderbook.calculateWalletMargin({
+        wallet: { quoteBalance: '11000' },
+        positions: [position('-1')],
+        markets: [market],
+      });
+
+      // 11000 / (1 + 0.03)
+      testHelpers.assertBigintsEqual(
+        margin.positions[0].liquidationPrice,
+        decimalToPip('10679.61165048'),
+      );
+    });
+
+    it('should apply incremental margin tiers and overrides', () => {
+      const margin = orderbook.calculateWalletMargin({
+        wallet: { quoteBalance: '-100000' },
+        positions: [position('12')],
+        markets: [market],
+        initialMarginFractionOverrides: [
+          {
+            wallet: '0x',
+            market: 'BTC-USD',
+            initialMarginFractionOverride: '0.1',
+          },
+        ],
+      });
+      testHelpers.assertBigintsEqual(
+        margin.positions[0].initialMarginFraction,
+        decimalToPip('0.1'),
+      );
+
+      const withoutOverride = orderbook.calculateWalletMargin({
+        wallet: { quoteBalance: '-100000' },
+        positions: [position('12')],
+        markets: [market],
+      });
+      testHelpers.assertBigintsEqual(
+        withoutOverride.positions[0].initialMarginFraction,
+        decimalToPip('0.06'),
+      );
+    });
+
+    it('should value positions at hypothetical index prices', () => {
+      const margin = orderbook.calculateWalletMargin({
+        wallet: { quoteBalance: '-9000' },
+        positions: [position('1')],
+        markets: [market],
+        indexPrices: { 'BTC-USD': decimalToPip('9000') },
+      });
+
+      testHelpers.assertBigintsEqual(margin.accountValue, BigInt(0));
+      expect(margin.marginRatio).to.equal(null);
+      expect(margin.isLiquidatable).to.equal(true);
+    });
+
+    it('should throw if the leverage parameters of a market are missing', () => {
+      expect(() =>
+        orderbook.calculateWalletMargin({
+          wallet: { quoteBalance: '0' },
+          positions: [{ ...position('1'), market: 'ETH-USD' }],
+          markets: [market],
+        }),
+      ).to.throw('No leverage parameters for market ETH-USD');
+    });
+  });
+});
@@ -0,0 +1,119 @@
+import * as chai from 'chai';
+
+import { decimalToPip } from '#pipmath';
+
+import * as orderbook from '#orderbook/index';
+import * as testHelpers from '#tests/testHelpers';
+import { OrderSide } from '#types/enums/request';
+
+import type { L2OrderBook, OrderBookLevelL2 } from '#types/orderBook';
+
+const { expect } = chai;
+
+function level(price: string, size: string): OrderBookLevelL2 {
+  return {
+    price: decimalToPip(price),
+    size: decimalToPip(size),
+    numOrders: 1,
+    type: 'limit',
+  };
+}
+
+const book: L2OrderBook = {
+  sequence: 1,
+  lastPrice: null,
+  markPrice: null,
+  indexPrice: '100',
+  asks: [level('101', '1'), level('102', '2'), level('104', '10')],
+  bids: [level('99', '1'), level('98', '2'), level('96', '10')],
+};
+
+describe('orderbook/marketImpact', () => {
+  describe('estimateFillFromL2OrderBook', () => {
+    it('should estimate the average price, worst price and slippage of a buy', () => {
+      const estimate = orderbook.estimateFillFromL2OrderBook(book, {
+        side: OrderSide.buy,
+        quantity: decimalToPip('2'),
+      });
+
+      // 1 @ 101 + 1 @ 102
+      testHelpers.assertBigintsEqual(
+        estimate.quoteQuantity,
+        decimalToPip('203'),
+      );
+      testHelpers.assertBigintsEqual(
+        estimate.averagePrice,
+        decimalToPip('101.5'),
+      );
+      testHelpers.assertBigintsEqual(estimate.worstPrice, decimalToPip('102'));
+      testHelpers.assertBigintsEqual(estimate.midPrice, decimalToPip('100'));
+      testHelpers.assertBigintsEqual(
+        estimate.slippageFromMid,
+        decimalToPip('0.015'),
+      );
+      testHelpers.assertBigintsEqual(
+        estimate.slippageFromIndex,
+        decimalToPip('0.015'),
+      );
+      expect(estimate.levelsConsumed).to.equal(2);
+      expect(estimate.isFullyFilled).to.equal(true);
+    });
+
+    it('should estimate a sell by quote quantity', () => {
+      const estimate = orderbook.estimateFillFromL2OrderBook(book, {
+        side: OrderSide.sell,
+        quoteQuantity: decimalToPip('99'),
+      });
+
+      testHelpers.assertBigintsEqual(estimate.baseQuantity, decimalToPip('1'));
+      testHelpers.assertBigintsEqual(estimate.worstPrice, decimalToPip('99'));
+      testHelpers.assertBigintsEqual(
+        estimate.slippageFromMid,
+        decimalToPip('0.01'),
+      );
+      expect(estimate.levelsConsumed).to.equal(1);
+    });
+
+    it('should respect the limit price and report partial fills', () => {
+      const estimate = orderbook.estimateFillFromL2OrderBook(book, {
+        side: OrderSide.buy,
+        quantity: decimalToPip('5'),
+        limitPrice: decimalToPip('102'),
+      });
+
+      testHelpers.assertBigintsEqual(estimate.baseQuantity, decimalToPip('3'));
+      expect(estimate.levelsConsumed).to.equal(2);
+      expect(estimate.isFullyFilled).to.equal(false);
+    });
+  });
+
+  describe('calculateDepthFromL2OrderBook', () => {
+    it('should sum the liquidity within each band', () => {
+      const [narrow, wide] = orderbook.calculateDepthFromL2OrderBook(
+        book,
+        [100, 250],
+      );
+
+      testHelpers.assertBigintsEqual(
+        narrow.asks.baseQuantity,
+        decimalToPip('1'),
+      );
+      testHelpers.assertBigintsEqual(
+        narrow.bids.baseQuantity,
+        decimalToPip('1'),
+      );
+      testHelpers.assertBigintsEqual(wide.asks.baseQuantity, decimalToPip('3'));
+      testHelpers.assertBigintsEqual(
+        wide.asks.quoteQuantity,
+        decimalToPip('305'),
+      );
+      testHelpers.assertBigintsEqual(wide.bids.price, decimalToPip('98'));
+    });
+
+    it('should return no bands when a side of the book is empty', () => {
+      expect(
+        orderbook.calculateDepthFromL2OrderBook({ ...book, bids: [] }, 100),
+      ).to.deep.equal([]);
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import * as chai from 'chai';
+
+import { decimalToPip } from '#pipmath';
+
+import * as orderbook from '#orderbook/index';
+import * as testHelpers from '#tests/testHelpers';
+import { OrderSide } from '#types/enums/request';
+
+const { expect } = chai;
+
+const market = {
+  ...testHelpers.market,
+  market: 'BTC-USD',
+  indexPrice: '100',
+};
+
+describe('orderbook/maximumQuantity', () => {
+  describe('calculateMaximumOrderQuantity', () => {
+    it('should respect incremental initial margin fraction tiers', () => {
+      // 125 * 100 * (0.05 + ceil(25 / 10) * 0.01) = 1000
+      testHelpers.assertBigintsEqual(
+        orderbook.calculateMaximumOrderQuantity({
+          side: OrderSide.buy,
+          wallet: { quoteBalance: '1000' },
+          walletsStandingOrders: [],
+          market,
+        }),
+        decimalToPip('125'),
+      );
+    });
+
+    it('should account for held collateral and the maximum position size', () => {
+      testHelpers.assertBigintsEqual(
+        orderbook.calculateMaximumOrderQuantity({
+          side: OrderSide.buy,
+          wallet: { quoteBalance: '1000' },
+          walletsStandingOrders: [
+            {
+              market: 'BTC-USD',
+              side: OrderSide.buy,
+              originalQuantity: '10',
+              executedQuantity: '0',
+              price: '90',
+            },
+            // untriggered stop orders are not active
+            {
+              market: 'BTC-USD',
+              side: OrderSide.buy,
+              originalQuantity: '10',
+              executedQuantity: '0',
+            },
+          ],
+          market: { ...market, maximumPositionSize: '50' },
+        }),
+        decimalToPip('40'),
+      );
+
+      // (1000 - 10 * 90 * 0.05) / (100 * 0.05)
+      testHelpers.assertBigintsEqual(
+        orderbook.calculateMaximumOrderQuantity({
+          side: OrderSide.sell,
+          wallet: { quoteBalance: '1000' },
+          walletsStandingOrders: [
+            {
+              market: 'BTC-USD',
+              side: OrderSide.buy,
+              originalQuantity: '10',
+              executedQuantity: '0',
+              price: '90',
+            },
+          ],
+          market: { ...market, basePositionSize: '1000' },
+        }),
+        decimalToPip('191'),
+      );
+    });
+
+    it('should always allow reducing the position', () => {
+      const wallet = {
+        quoteBalance: '-995',
+        positions: [{ market: 'BTC-USD', quantity: '10', indexPrice: '100' }],
+      };
+
+      // the position of 10 is closed and 1 is opened with the remaining 5 of account value
+      testHelpers.assertBigintsEqual(
+        orderbook.calculateMaximumOrderQuantity({
+          side: OrderSide.sell,
+          wallet,
+          walletsStandingOrders: [],
+          market,
+        }),
+        decimalToPip('11'),
+      );
+      expect(
+        orderbook.calculateMaximumOrderQuantity({
+          side: OrderSide.buy,
+          wallet,
+          walletsStandingOrders: [],
+          market,
+        }),
+      ).to.equal(BigInt(0));
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import * as chai from 'chai';
+
+import { decimalToPip } from '#pipmath';
+
+import * as orderbook from '#orderbook/index';
+import * as testHelpers from '#tests/testHelpers';
+import { OrderSide } from '#types/enums/request';
+
+import type { L2OrderBook, OrderBookLevelL2 } from '#types/orderBook';
+
+const { expect } = chai;
+
+function level(price: string, size: string): OrderBookLevelL2 {
+  return {
+    price: decimalToPip(price),
+    size: decimalToPip(size),
+    numOrders: 1,
+    type: 'limit',
+  };
+}
+
+const book: L2OrderBook = {
+  sequence: 1,
+  lastPrice: null,
+  markPrice: null,
+  indexPrice: '100',
+  asks: [level('101', '1'), level('102', '2')],
+  bids: [level('99', '1'), level('98', '2'), level('96', '10')],
+};
+
+const market: orderbook.OrderImpactMarket = {
+  ...testHelpers.market,
+  market: 'BTC-USD',
+  indexPrice: '100',
+  makerOrderMinimum: '1',
+  takerOrderMinimum: '0.5',
+};
+
+const wallet = { quoteBalance: '1000', takerFeeRate: '0.001' };
+
+describe('orderbook/orderImpact', () => {
+  describe('calculateOrderImpact', () => {
+    it('should calculate the impact of a market order', () => {
+      const impact = orderbook.calculateOrderImpact({
+        order: { market: 'BTC-USD', side: OrderSide.buy, quantity: '2' },
+        wallet,
+        market,
+        book,
+      });
+
+      testHelpers.assertBigintsEqual(
+        impact.estimatedTakerFee,
+        decimalToPip('0.203'),
+      );
+      testHelpers.assertBigintsEqual(
+        impact.positionQuantity,
+        decimalToPip('2'),
+      );
+      testHelpers.assertBigintsEqual(
+        impact.entryPrice as bigint,
+        decimalToPip('101.5'),
+      );
+      testHelpers.assertBigintsEqual(
+        impact.initialMarginRequirement,
+        decimalToPip('10'),
+      );
+      // 1000 - 203 - 0.203 + 2 * 100 - 10
+      testHelpers.assertBigintsEqual(
+        impact.freeCollateral,
+        decimalToPip('986.797'),
+      );
+      testHelpers.assertBigintsEqual(impact.liquidationPrice, BigInt(0));
+      expect(impact.violations).to.deep.equal([]);
+    });
+
+    it('should assume the resting quantity of a limit order executes at its price', () => {
+      const impact = orderbook.calculateOrderImpact({
+        order: {
+          market: 'BTC-USD',
+          side: OrderSide.buy,
+          quantity: '2',
+          price: '101.05',
+        },
+        wallet,
+        market,
+        book,
+      });
+
+      testHelpers.assertBigintsEqual(
+        impact.fill.baseQuantity,
+        decimalToPip('1'),
+      );
+      testHelpers.assertBigintsEqual(impact.restingQuantity, decimalToPip('1'));
+      testHelpers.assertBigintsEqual(
+        impact.entryPrice as bigint,
+        decimalToPip('101.025'),
+      );
+      expect(impact.violations).to.deep.equal(['tickSize']);
+    });
+
+    it('should use the fill price as the entry price of a flipped position', () => {
+      const impact = orderbook.calculateOrderImpact({
+        order: { market: 'BTC-USD', side: OrderSide.sell, quantity: '3' },
+        wallet: {
+          ...wallet,
+          quoteBalance: '910',
+          positions: [
+            {
+              market: 'BTC-USD',
+              quantity: '1',
+              indexPrice: '100',
+              entryPrice: '90',
+            },
+          ],
+        },
+        market,
+        book,
+      });
+
+      testHelpers.assertBigintsEqual(
+        impact.positionQuantity,
+        decimalToPip('-2'),
+      );
+      // 295 / 3
+      testHelpers.assertBigintsEqual(
+        impact.entryPrice as bigint,
+        decimalToPip('98.33333333'),
+      );
+      expect(impact.liquidationPrice > BigInt(0)).to.equal(true);
+    });
+
+    it('should report breached market parameters', () => {
+      const impact = orderbook.calculateOrderImpact({
+        order: { market: 'BTC-USD', side: OrderSide.buy, quantity: '0.005' },
+        wallet,
+        market: { ...market, maximumPositionSize: '0.001' },
+        book,
+      });
+      expect(impact.violations).to.deep.equal([
+        'maximumPositionSize',
+        'takerOrderMinimum',
+        'stepSize',
+      ]);
+
+      const undercollateralized = orderbook.calculateOrderImpact({
+        order: { market: 'BTC-USD', side: OrderSide.buy, quantity: '2' },
+        wallet: { ...wallet, quoteBalance: '10' },
+        market,
+        book,
+      });
+      expect(undercollateralized.violations).to.deep.equal(['freeCollateral']);
+    });
+  });
+});
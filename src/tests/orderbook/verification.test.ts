@@ -0,0 +1,99 @@
+import * as chai from 'chai';
+
+import { decimalToPip } from '#pipmath';
+
+import * as orderbook from '#orderbook/index';
+import * as testHelpers from '#tests/testHelpers';
+
+import type { L2OrderBook, OrderBookLevelL2 } from '#types/orderBook';
+
+const { expect } = chai;
+
+function level(price: string, size: string, numOrders = 1): OrderBookLevelL2 {
+  return {
+    price: decimalToPip(price),
+    size: decimalToPip(size),
+    numOrders,
+    type: 'limit',
+  };
+}
+
+function createBook(
+  asks: OrderBookLevelL2[],
+  bids: OrderBookLevelL2[],
+): L2OrderBook {
+  return {
+    sequence: 10,
+    lastPrice: null,
+    markPrice: null,
+    indexPrice: null,
+    asks,
+    bids,
+  };
+}
+
+const snapshot = createBook(
+  [level('101', '1'), level('102', '2'), level('103', '3')],
+  [level('99', '1'), level('98', '2'), level('97', '3')],
+);
+
+describe('orderbook/verification', () => {
+  describe('compareL2OrderBooks', () => {
+    it('should report identical books as consistent', () => {
+      const comparison = orderbook.compareL2OrderBooks(
+        createBook([...snapshot.asks], [...snapshot.bids]),
+        snapshot,
+      );
+
+      expect(comparison.isConsistent).to.equal(true);
+      expect(comparison.comparedLevels).to.equal(6);
+      expect(comparison.mismatchedLevels).to.equal(0);
+    });
+
+    it('should report levels which are missing or have a different size', () => {
+      const comparison = orderbook.compareL2OrderBooks(
+        createBook(
+          [level('101', '1'), level('102', '2.5'), level('103', '3')],
+          [level('99', '1'), level('98.5', '4'), level('97', '3')],
+        ),
+        snapshot,
+      );
+
+      expect(comparison.isConsistent).to.equal(false);
+      // 102 differs, 98.5 is extra and 98 is missing
+      expect(comparison.mismatchedLevels).to.equal(3);
+      testHelpers.assertBigintsEqual(
+        comparison.maxSizeDifference,
+        decimalToPip('4'),
+      );
+    });
+
+    it('should only compare local levels within the depth of the snapshot', () => {
+      const comparison = orderbook.compareL2OrderBooks(
+        createBook(
+          [...snapshot.asks, level('110', '1')],
+          [...snapshot.bids, level('90', '1')],
+        ),
+        snapshot,
+        2,
+      );
+
+      expect(comparison.isConsistent).to.equal(true);
+      expect(comparison.comparedLevels).to.equal(4);
+    });
+
+    it('should detect crossed books and empty levels', () => {
+      const comparison = orderbook.compareL2OrderBooks(
+        createBook(
+          [level('101', '1'), level('102', '0', 0)],
+          [level('101.5', '1')],
+        ),
+        createBook([], []),
+      );
+
+      expect(comparison.isCrossed).to.equal(true);
+      expect(comparison.zeroSizeLevels).to.equal(1);
+      expect(comparison.isConsistent).to.equal(false);
+    });
+  });
+});
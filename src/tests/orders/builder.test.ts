@@ -0,0 +1,125 @@
+import { BigNumber } from 'bignumber.js';
+import * as chai from 'chai';
+
+import * as orders from '#orders/index';
+import {
+  OrderSide,
+  OrderType,
+  SelfTradePrevention,
+  TimeInForce,
+  TriggerType,
+} from '#types/enums/index';
+
+const { expect } = chai;
+
+const market = { market: 'ETH-USD', tickSize: '0.1', stepSize: '0.01' };
+const wallet = '0xA71C4aeeAabBBB8D2910F41C2ca3964b81F7310d';
+const nonce = '9436afa0-9ee6-11ea-8a53-71994564322f';
+
+describe('orders/builder', () => {
+  describe('OrderBuilder', () => {
+    it('should round prices per side and quantities down to the step size', () => {
+      const buy = orders.OrderBuilder.limit(market)
+        .buy()
+        .quantity(1.2399)
+        .price('2501.29')
+        .postOnly()
+        .wallet(wallet)
+        .build();
+
+      expect(buy).to.deep.equal({
+        wallet,
+        market: 'ETH-USD',
+        type: OrderType.limit,
+        side: OrderSide.buy,
+        quantity: '1.23000000',
+        price: '2501.20000000',
+        timeInForce: TimeInForce.gtx,
+      });
+
+      const sell = orders.OrderBuilder.limit(market)
+        .sell()
+        .quantity(new BigNumber('0.5'))
+        .price(BigInt(250_121_000_000))
+        .wallet(wallet)
+        .build();
+
+      expect(sell.price).to.equal('2501.30000000');
+      expect(sell.quantity).to.equal('0.50000000');
+    });
+
+    it('should build trigger orders', () => {
+      const order = orders.OrderBuilder.stopLossLimit('ETH-USD')
+        .sell()
+        .quantity('1')
+        .price(1900)
+        .triggerPrice('1950.123456789', TriggerType.index)
+        .fillOrKill()
+        .wallet(wallet)
+        .build();
+
+      expect(order).to.deep.include({
+        type: OrderType.stopLossLimit,
+        price: '1900.00000000',
+        triggerPrice: '1950.12345679',
+        triggerType: TriggerType.index,
+        timeInForce: TimeInForce.fok,
+        selfTradePrevention: SelfTradePrevention.cn,
+      });
+    });
+
+    it('should throw when required parameters are missing', () => {
+      expect(() =>
+        orders.OrderBuilder.market(market).quantity(1).wallet(wallet).build(),
+      ).to.throw('Order side is required');
+      expect(() =>
+        orders.OrderBuilder.limit(market)
+          .buy()
+          .quantity(1)
+          .wallet(wallet)
+          .build(),
+      ).to.throw('Order price is required for limit orders');
+      expect(() =>
+        orders.OrderBuilder.market(market)
+          .buy()
+          .quantity('0.001')
+          .wallet(wallet)
+          .build(),
+      ).to.throw('rounds down to zero');
+      expect(() =>
+        orders.OrderBuilder.limit(market)
+          .buy()
+          .quantity(1)
+          .price('0.05')
+          .wallet(wallet)
+          .build(),
+      ).to.throw('Order price 0.05 rounds to zero');
+      expect(() => orders.OrderBuilder.market(market).quantity(-1)).to.throw(
+        'Invalid quantity -1',
+      );
+    });
+
+    it('should fill in the nonce and wallet from the client', async () => {
+      const order = await orders.OrderBuilder.market(market)
+        .buy()
+        .quantity(1)
+        .buildFor({
+          walletAddress: wallet,
+          createNonce: async () => nonce,
+        });
+
+      expect(order).to.deep.include({ wallet, nonce });
+    });
+
+    it('should not change the wallet of the builder when building for a client', async () => {
+      const builder = orders.OrderBuilder.market(market).buy().quantity(1);
+
+      await builder.buildFor({
+        walletAddress: wallet,
+        createNonce: async () => nonce,
+      });
+
+      expect(() => builder.build()).to.throw('Order wallet is required');
+    });
+  });
+});
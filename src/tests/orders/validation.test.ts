@@ -0,0 +1,295 @@
+import * as chai from 'chai';
+import { ethers } from 'ethers';
+
+import { RestAuthenticatedClient } from '#client/rest/authenticated';
+import * as orders from '#orders/index';
+import {
+  MarketStatus,
+  OrderSide,
+  OrderType,
+  SelfTradePrevention,
+  TimeInForce,
+  TriggerType,
+} from '#types/enums/index';
+
+import type { IDEXMarket, RestRequestOrder } from '#types/rest/endpoints/index';
+
+const { expect } = chai;
+
+const market: orders.OrderValidationMarket = {
+  market: 'ETH-USD',
+  status: MarketStatus.active,
+  stepSize: '0.01',
+  tickSize: '0.1',
+  indexPrice: '2000',
+  makerOrderMinimum: '0.1',
+  takerOrderMinimum: '0.05',
+  maximumPositionSize: '1000',
+  marketOrderExecutionPriceLimit: '0.05',
+  limitOrderExecutionPriceLimit: '0.1',
+};
+
+const wallet = '0xA71C4aeeAabBBB8D2910F41C2ca3964b81F7310d';
+
+function getCodes(order: orders.OrderValidationOrder) {
+  return orders.validateOrder(order, market).map(({ code }) => code);
+}
+
+describe('orders/validation', () => {
+  describe('validateOrder', () => {
+    it('should accept valid orders', () => {
+      const limitOrder: RestRequestOrder = {
+        nonce: '9436afa0-9ee6-11ea-8a53-71994564322f',
+        wallet,
+        market: 'ETH-USD',
+        type: OrderType.limit,
+        side: OrderSide.buy,
+        quantity: '1.25',
+        price: '1999.9',
+      };
+
+      expect(orders.validateOrder(limitOrder, market)).to.deep.equal([]);
+      expect(
+        getCodes({
+          market: 'ETH-USD',
+          type: OrderType.stopLossMarket,
+          side: OrderSide.sell,
+          quantity: '0.05',
+          triggerPrice: '1900',
+          triggerType: TriggerType.last,
+        }),
+      ).to.deep.equal([]);
+    });
+
+    it('should check quantity and price increments and limits', () => {
+      expect(
+        getCodes({
+          market: 'ETH-USD',
+          type: OrderType.limit,
+          side: OrderSide.buy,
+          quantity: '0.015',
+          price: '2300.05',
+          timeInForce: TimeInForce.gtx,
+        }),
+      ).to.deep.equal([
+        'QUANTITY_STEP_SIZE',
+        'QUANTITY_BELOW_MINIMUM',
+        'PRICE_TICK_SIZE',
+        'PRICE_OUTSIDE_LIMIT',
+      ]);
+      expect(
+        getCodes({
+          market: 'ETH-USD',
+          type: OrderType.market,
+          side: OrderSide.sell,
+          quantity: '1000.01',
+        }),
+      ).to.deep.equal(['QUANTITY_ABOVE_MAXIMUM']);
+      expect(
+        getCodes({
+          market: 'ETH-USD',
+          type: OrderType.market,
+          side: OrderSide.sell,
+          quantity: '0.000000001',
+        }),
+      ).to.deep.equal(['INVALID_QUANTITY']);
+    });
+
+    it('should check the fields required by the order type', () => {
+      expect(
+        getCodes({
+          market: 'ETH-USD',
+          type: OrderType.market,
+          side: OrderSide.buy,
+          quantity: '1',
+          price: '2000',
+          timeInForce: TimeInForce.ioc,
+          triggerPrice: '2000',
+        }),
+      ).to.deep.equal([
+        'PRICE_NOT_ALLOWED',
+        'TRIGGER_NOT_ALLOWED',
+        'TIME_IN_FORCE',
+      ]);
+      expect(
+        getCodes({
+          market: 'ETH-USD',
+          type: OrderType.takeProfitLimit,
+          side: OrderSide.buy,
+          quantity: '1',
+          triggerPrice: '2100',
+        }),
+      ).to.deep.equal(['PRICE_REQUIRED', 'TRIGGER_REQUIRED']);
+      expect(
+        getCodes({
+          market: 'ETH-USD',
+          type: OrderType.trailingStopMarket,
+          side: OrderSide.sell,
+          quantity: '1',
+          triggerPrice: '2100',
+          triggerType: TriggerType.last,
+        }),
+      ).to.deep.equal(['CALLBACK_RATE_REQUIRED']);
+    });
+
+    it('should check time in force and self-trade prevention compatibility', () => {
+      expect(
+        getCodes({
+          market: 'ETH-USD',
+          type: OrderType.limit,
+          side: OrderSide.buy,
+          quantity: '1',
+          price: '2000',
+          timeInForce: TimeInForce.fok,
+          selfTradePrevention: SelfTradePrevention.co,
+        }),
+      ).to.deep.equal(['SELF_TRADE_PREVENTION']);
+      expect(
+        getCodes({
+          market: 'ETH-USD',
+          type: OrderType.limit,
+          side: OrderSide.buy,
+          quantity: '1',
+          price: '2000',
+          isLiquidationAcquisitionOnly: true,
+          reduceOnly: true,
+        }),
+      ).to.deep.equal(['TIME_IN_FORCE', 'REDUCE_ONLY']);
+    });
+
+    it('should check the market status', () => {
+      const order: orders.OrderValidationOrder = {
+        market: 'ETH-USD',
+        type: OrderType.limit,
+        side: OrderSide.buy,
+        quantity: '1',
+        price: '2000',
+      };
+
+      expect(
+        orders
+          .validateOrder(order, {
+            ...market,
+            status: MarketStatus.limitMakerOnly,
+          })
+          .map(({ code }) => code),
+      ).to.deep.equal(['MARKET_STATUS']);
+      expect(
+        orders.validateOrder(
+          { ...order, timeInForce: TimeInForce.gtx },
+          { ...market, status: MarketStatus.limitMakerOnly },
+        ),
+      ).to.deep.equal([]);
+    });
+  });
+
+  describe('assertOrderIsValid', () => {
+    it('should throw an OrderValidationError listing all violations', () => {
+      try {
+        orders.assertOrderIsValid(
+          {
+            market: 'BTC-USD',
+            type: OrderType.market,
+            side: OrderSide.buy,
+            quantity: '1',
+          },
+          market,
+        );
+        expect.fail('expected an OrderValidationError');
+      } catch (error) {
+        expect(orders.isOrderValidationError(error)).to.equal(true);
+        expect(
+          (error as orders.OrderValidationError).violations[0],
+        ).to.deep.include({ code: 'MARKET_MISMATCH', field: 'market' });
+      }
+    });
+  });
+
+  describe('RestAuthenticatedClient validateOrders', () => {
+    const invalidOrder = {
+      wallet,
+      market: 'ETH-USD',
+      type: OrderType.market,
+      side: OrderSide.buy,
+      quantity: '0.001',
+    };
+
+    let marketRequests: number;
+
+    function createClient(
+      validateOrders: orders.OrderValidationOptions | boolean,
+    ) {
+      marketRequests = 0;
+      const client = new RestAuthenticatedClient({
+        apiKey: '1f7c4f52-4af7-4e1b-aa94-94fac8d931aa',
+        apiSecret: 'axuh3ywgg854aq7m73oy6gnnpj5ar9a67szuw5lclbz77zqu0j',
+        walletPrivateKey: ethers.Wallet.createRandom().privateKey,
+        validateOrders,
+      });
+      client.public.getMarkets = async () => {
+        marketRequests += 1;
+        return [market as IDEXMarket];
+      };
+      return client;
+    }
+
+    async function getViolationCodes(promise: Promise<unknown>) {
+      try {
+        await promise;
+      } catch (error) {
+        if (orders.isOrderValidationError(error)) {
+          return error.violations.map(({ code }) => code);
+        }
+        throw error;
+      }
+      throw new Error('expected an OrderValidationError');
+    }
+
+    it('should load the markets once for all orders', async () => {
+      const client = createClient(true);
+
+      expect(
+        await getViolationCodes(client.createOrder(invalidOrder)),
+      ).to.include('QUANTITY_BELOW_MINIMUM');
+      await getViolationCodes(client.createOrder(invalidOrder));
+
+      expect(marketRequests).to.equal(1);
+    });
+
+    it('should load the markets again when they expire', async () => {
+      const client = createClient({ marketsRefreshIntervalMs: 0 });
+
+      await getViolationCodes(client.createOrder(invalidOrder));
+      await getViolationCodes(client.createOrder(invalidOrder));
+
+      expect(marketRequests).to.equal(2);
+    });
+
+    it('should report orders for unknown markets', async () => {
+      const client = createClient(true);
+
+      expect(
+        await getViolationCodes(
+          client.createOrder({ ...invalidOrder, market: 'SOL-USD' }),
+        ),
+      ).to.deep.equal(['UNKNOWN_MARKET']);
+      // unknown markets are loaded again in case they were listed since
+      await getViolationCodes(
+        client.createOrder({ ...invalidOrder, market: 'SOL-USD' }),
+      );
+      expect(marketRequests).to.equal(2);
+    });
+
+    it('should validate against the provided markets', async () => {
+      const client = createClient({ markets: [market] });
+
+      await getViolationCodes(client.createOrder(invalidOrder));
+      expect(
+        await getViolationCodes(
+          client.createOrder({ ...invalidOrder, market: 'SOL-USD' }),
+        ),
+      ).to.deep.equal(['UNKNOWN_MARKET']);
+      expect(marketRequests).to.equal(0);
+    });
+  });
+});
@@ -1,7 +1,57 @@
+import { EventEmitter } from 'events';
+
 import * as chai from 'chai';
+import { ethers } from 'ethers';
+
+import { MarketStatus } from '#types/enums/response';
+
+import type { IDEXMarket } from '#types/rest/endpoints/index';
+import type { AnyObj } from '#types/utils';
 
 const { expect } = chai;
 
+export const apiKey = '1f7c4f52-4af7-4e1b-aa94-94fac8d931aa';
+
+export const apiSecret = 'axuh3ywgg854aq7m73oy6gnnpj5ar9a67szuw5lclbz77zqu0j';
+
+export const wallet = ethers.Wallet.createRandom();
+
+/**
+ * An active `ETH-USD` perpetual market, tests depending on other values override them with a
+ * spread
+ */
+export const market: IDEXMarket = {
+  market: 'ETH-USD',
+  type: 'perpetual',
+  status: MarketStatus.active,
+  baseAsset: 'ETH',
+  quoteAsset: 'USD',
+  stepSize: '0.01000000',
+  tickSize: '0.10000000',
+  indexPrice: '2000.00000000',
+  indexPrice24h: '2000.00000000',
+  indexPricePercentChange: '0.00000000',
+  lastFundingRate: '0.00010000',
+  currentFundingRate: '0.00010000',
+  nextFundingTime: 0,
+  makerOrderMinimum: '0.01000000',
+  takerOrderMinimum: '0.01000000',
+  marketOrderExecutionPriceLimit: '0.10000000',
+  limitOrderExecutionPriceLimit: '0.40000000',
+  minimumPositionSize: '0.01000000',
+  maximumPositionSize: '1000.00000000',
+  initialMarginFraction: '0.05000000',
+  maintenanceMarginFraction: '0.03000000',
+  basePositionSize: '100.00000000',
+  incrementalPositionSize: '10.00000000',
+  incrementalInitialMarginFraction: '0.01000000',
+  makerFeeRate: '0.00010000',
+  takerFeeRate: '0.00050000',
+  volume24h: '0.00000000',
+  trades24h: 0,
+  openInterest: '0.00000000',
+};
+
 export const assertBigintsEqual = (
   a: unknown,
   b: unknown,
@@ -18,3 +68,91 @@ export const assertBigintsEqual = (
     `${message}Expected ${b.toString()}, got ${a.toString()}`,
   );
 };
+
+/**
+ * Resolves with the first value of `event` emitted by `emitter` which matches `predicate`
+ */
+export async function waitForEvent<T>(
+  emitter: Pick<EventEmitter, 'on' | 'off'>,
+  event: string,
+  predicate: (value: T) => boolean = () => true,
+) {
+  return new Promise<T>((resolve) => {
+    const listener = (value: T) => {
+      if (predicate(value)) {
+        emitter.off(event, listener);
+        resolve(value);
+      }
+    };
+    emitter.on(event, listener);
+  });
+}
+
+/**
+ * A WebSocket which can be provided to the `createWebSocket` option of a
+ * `WebSocketClient`, recording the requests it is sent and emitting the messages
+ * the test provides.
+ */
+export class FakeWebSocket {
+  public readonly CONNECTING = 0;
+
+  public readonly OPEN = 1;
+
+  public readonly CLOSING = 2;
+
+  public readonly CLOSED = 3;
+
+  public readyState = 0;
+
+  /**
+   * Requests sent by the client, excluding pings
+   */
+  public readonly requests: AnyObj[] = [];
+
+  private readonly emitter = new EventEmitter();
+
+  constructor() {
+    setImmediate(() => {
+      this.readyState = this.OPEN;
+      this.emitter.emit('open', { target: this });
+    });
+  }
+
+  public addEventListener(type: string, listener: (event: unknown) => void) {
+    this.emitter.on(type, listener);
+  }
+
+  public removeEventListener(type: string, listener: (event: unknown) => void) {
+    this.emitter.off(type, listener);
+  }
+
+  public send(data: string) {
+    if (this.readyState !== this.OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    const request = JSON.parse(data);
+    if (request.method !== 'ping') {
+      this.requests.push(request);
+    }
+  }
+
+  public close(code = 1000, reason = '') {
+    if (this.readyState === this.CLOSED) {
+      return;
+    }
+    this.readyState = this.CLOSED;
+    setImmediate(() => {
+      this.emitter.emit('close', { code, reason, target: this });
+    });
+  }
+
+  /**
+   * Emits a message from the server
+   */
+  public receive(message: AnyObj) {
+    this.emitter.emit('message', {
+      data: JSON.stringify(message),
+      target: this,
+    });
+  }
+}
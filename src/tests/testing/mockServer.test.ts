@@ -0,0 +1,209 @@
+import * as chai from 'chai';
+
+import { RestAuthenticatedClient } from '#client/rest/authenticated';
+import { IDEXAuthenticationError } from '#client/rest/errors';
+import { RestPublicClient } from '#client/rest/public';
+import { WebSocketClient } from '#client/webSocket/index';
+import * as testing from '#testing/index';
+import * as testHelpers from '#tests/testHelpers';
+import {
+  OrderSide,
+  OrderType,
+  SubscriptionNameAuthenticated,
+  SubscriptionNamePublic,
+} from '#types/enums/request';
+import {
+  ChainTransactionStatus,
+  FillAction,
+  FillType,
+  LiquidityProvider,
+  MessageEventType,
+  OrderStatus,
+  PositionSide,
+} from '#types/enums/response';
+
+import type { IDEXMessageEvent } from '#types/webSocket/index';
+
+const { expect } = chai;
+
+const { apiKey, apiSecret, market, wallet } = testHelpers;
+
+function makeFill(index: number): testing.MockIDEXServerFill {
+  return {
+    wallet: wallet.address,
+    market: 'ETH-USD',
+    side: OrderSide.buy,
+    fillId: `fill-${index}`,
+    price: '2000.00000000',
+    quantity: '1.00000000',
+    quoteQuantity: '2000.00000000',
+    realizedPnL: '0.00000000',
+    time: 1_000 * index,
+    fee: '1.00000000',
+    action: FillAction.open,
+    position: PositionSide.long,
+    liquidity: LiquidityProvider.taker,
+    type: FillType.market,
+    txId: null,
+    txStatus: ChainTransactionStatus.mined,
+  };
+}
+
+describe('testing/mockServer', () => {
+  let server: testing.MockIDEXServer;
+  let client: RestAuthenticatedClient;
+
+  beforeEach(async () => {
+    server = await new testing.MockIDEXServer({
+      apiKeys: [{ apiKey, apiSecret, wallets: [wallet.address] }],
+      fixtures: {
+        markets: [market],
+        fills: [1, 2, 3].map(makeFill),
+      },
+    }).start();
+    client = new RestAuthenticatedClient({
+      apiKey,
+      apiSecret,
+      walletPrivateKey: wallet.privateKey,
+      baseURL: server.baseURL,
+    });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('should serve public fixtures', async () => {
+    const publicClient = new RestPublicClient({ baseURL: server.baseURL });
+
+    expect(await publicClient.getMarkets()).to.eql([market]);
+  });
+
+  it('should create, list and cancel signed orders', async () => {
+    const order = await client.createOrder({
+      wallet: wallet.address,
+      market: 'ETH-USD',
+      type: OrderType.limit,
+      side: OrderSide.buy,
+      quantity: '1.00000000',
+      price: '2000.00000000',
+    });
+    expect(order).to.include({
+      wallet: wallet.address,
+      status: OrderStatus.open,
+      price: '2000.00000000',
+    });
+
+    expect(
+      await client.getOrders({ wallet: wallet.address, closed: false }),
+    ).to.eql([order]);
+
+    expect(
+      await client.cancelOrders({
+        wallet: wallet.address,
+        orderIds: [order.orderId, 'unknown'],
+      }),
+    ).to.eql([
+      { orderId: order.orderId, status: OrderStatus.canceled },
+      { orderId: 'unknown', status: OrderStatus.notFound },
+    ]);
+  });
+
+  it('should paginate fills', async () => {
+    const fillIds: string[] = [];
+    for await (const fill of client.iterateFills({
+      wallet: wallet.address,
+      limit: 2,
+    })) {
+      fillIds.push(fill.fillId);
+    }
+
+    expect(fillIds).to.eql(['fill-1', 'fill-2', 'fill-3']);
+  });
+
+  it('should reject requests with an invalid HMAC signature', async () => {
+    const invalidClient = new RestAuthenticatedClient({
+      apiKey,
+      apiSecret: 'invalid',
+      baseURL: server.baseURL,
+    });
+
+    let error: unknown;
+    try {
+      await invalidClient.getWallets({ wallet: wallet.address });
+    } catch (err) {
+      error = err;
+    }
+
+    expect(error)
+      .to.be.instanceOf(IDEXAuthenticationError)
+      .with.property('code', 'INVALID_HMAC_SIGNATURE');
+  });
+
+  it('should push subscription events to WebSocket subscribers', async () => {
+    const webSocketClient = new WebSocketClient({
+      auth: { apiKey, apiSecret, wallet: wallet.address },
+      baseRestApiURL: server.baseURL,
+      baseWebSocketURL: server.baseWebSocketURL,
+      shouldReconnectAutomatically: false,
+    });
+
+    const messages: IDEXMessageEvent[] = [];
+    const received = new Promise<void>((resolve) => {
+      webSocketClient.onMessage((message) => {
+        messages.push(message);
+        if (message.type === MessageEventType.orders) {
+          resolve();
+        }
+      });
+    });
+
+    try {
+      await webSocketClient.connect();
+      await webSocketClient.subscribePublicAsync(
+        [{ name: SubscriptionNamePublic.trades }],
+        ['ETH-USD'],
+      );
+      await webSocketClient.subscribeAuthenticatedAsync([
+        { name: SubscriptionNameAuthenticated.orders },
+      ]);
+
+      server.publish({
+        type: MessageEventType.trades,
+        data: {
+          market: 'ETH-USD',
+          fillId: 'fill-4',
+          price: '2000.00000000',
+          quantity: '1.00000000',
+          quoteQuantity: '2000.00000000',
+          time: 4_000,
+          makerSide: OrderSide.sell,
+          sequence: 4,
+        },
+      });
+      const order = await client.createOrder({
+        wallet: wallet.address,
+        market: 'ETH-USD',
+        type: OrderType.market,
+        side: OrderSide.buy,
+        quantity: '1.00000000',
+      });
+      await received;
+
+      const events = messages.filter(
+        ({ type }) => type !== MessageEventType.subscriptions,
+      );
+      expect(events.map(({ type }) => type)).to.eql([
+        MessageEventType.trades,
+        MessageEventType.orders,
+      ]);
+      expect(events[0].data).to.include({ fillId: 'fill-4', sequence: 4 });
+      expect(events[1].data).to.include({
+        orderId: order.orderId,
+        update: 'new',
+      });
+    } finally {
+      webSocketClient.disconnect(true);
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { Readable } from 'node:stream';
+
+import * as chai from 'chai';
+
+import { RestPublicClient } from '#client/rest/public';
+import { WebSocketClient } from '#client/webSocket/index';
+import * as testing from '#testing/index';
+import { MessageEventType } from '#types/enums/response';
+
+import type { IDEXMessageEvent } from '#types/webSocket/index';
+
+const { expect } = chai;
+
+const start = Date.UTC(2024, 0, 1);
+
+const trade = {
+  m: 'ETH-USD',
+  i: 'a0b6a470-a6bf-11ea-90a3-8de307b3b6da',
+  p: '2000.00000000',
+  q: '1.00000000',
+  Q: '2000.00000000',
+  t: start + 20,
+  s: 'sell',
+  u: 1,
+};
+
+const entries: testing.TrafficRecordingEntry[] = [
+  { type: 'webSocket', time: start, connection: 1, event: 'open' },
+  {
+    type: 'webSocket',
+    time: start + 10,
+    connection: 1,
+    event: 'message',
+    data: JSON.stringify({ type: MessageEventType.trades, data: trade }),
+  },
+  {
+    type: 'rest',
+    time: start + 15,
+    request: { method: 'GET', url: '/time' },
+    response: {
+      status: 200,
+      headers: { 'content-type': 'application/json' },
+      data: { serverTime: start },
+    },
+  },
+  {
+    type: 'webSocket',
+    time: start + 20,
+    connection: 1,
+    event: 'message',
+    data: JSON.stringify({
+      type: MessageEventType.trades,
+      data: { ...trade, u: 2 },
+    }),
+  },
+];
+
+describe('testing/replay', () => {
+  describe('readTrafficRecording', () => {
+    it('should parse NDJSON recordings', async () => {
+      const input = Readable.from(
+        entries.map((entry) => `${JSON.stringify(entry)}\n`),
+      );
+
+      expect(await testing.readTrafficRecording(input)).to.eql(entries);
+    });
+  });
+
+  describe('TrafficReplay', () => {
+    it('should replay WebSocket frames through the transform pipeline', async () => {
+      const replay = new testing.TrafficReplay(entries, { speed: Infinity });
+      const client = new WebSocketClient({
+        createWebSocket: replay.createWebSocket,
+        shouldReconnectAutomatically: false,
+      });
+
+      const messages: IDEXMessageEvent[] = [];
+      client.onMessage((message) => {
+        messages.push(message);
+      });
+
+      await client.connect();
+      await replay.whenReplayed();
+      client.disconnect(true);
+
+      expect(messages.map(({ type }) => type)).to.eql([
+        MessageEventType.trades,
+        MessageEventType.trades,
+      ]);
+      expect(messages[0].data).to.include({
+        market: 'ETH-USD',
+        price: '2000.00000000',
+        makerSide: 'sell',
+        sequence: 1,
+      });
+    });
+
+    it('should respond to REST requests with their recorded responses', async () => {
+      const replay = new testing.TrafficReplay(entries);
+      const client = new RestPublicClient({
+        axiosConfig: { adapter: replay.axiosAdapter },
+      });
+
+      expect(await client.getServerTime()).to.eql({ serverTime: start });
+
+      let error: unknown;
+      try {
+        await client.getServerTime();
+      } catch (err) {
+        error = err;
+      }
+      expect(error)
+        .to.be.instanceOf(Error)
+        .with.property('message')
+        .that.includes('No recorded response for GET /time');
+    });
+  });
+});
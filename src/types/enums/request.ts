@@ -640,15 +640,25 @@ export type StargateV2Target =
  */
 export const OrderBookRealTimeClientEvent = {
   /**
-   * Emitted when the client is ready to receive messages.
+   * Emitted when the order book of a market has been synchronized and is ready to
+   * receive updates.
+   *
+   * - Includes the market string as an argument made to the handler.
    */
   ready: 'ready',
   /**
-   * Emitted when the client connects to the WebSocket server.
+   * Emitted when the client connects to the WebSocket server and has synchronized
+   * the order books of all markets.
+   *
+   * - A sequence gap in the updates of a market is no longer reported as a
+   *   `disconnected` and `connected` pair, only that market is resynchronized and
+   *   emits {@link sync} followed by {@link ready}.
    */
   connected: 'connected',
   /**
    * Emitted when the client disconnects from the WebSocket server.
+   *
+   * - Only emitted when the WebSocket connection is lost, see {@link connected}.
    */
   disconnected: 'disconnected',
   /**
@@ -659,8 +669,11 @@ export const OrderBookRealTimeClientEvent = {
    */
   error: 'error',
   /**
-   * Emitted when the orderbook requires a sync from the REST API due to
+   * Emitted when the orderbook of a market requires a sync from the REST API due to
    * thrashing or an unexpected sequence number.
+   *
+   * - Includes the market string as an argument made to the handler, only the
+   *   order book of that market is resynchronized.
    */
   sync: 'sync',
   /**
@@ -679,11 +692,261 @@ export const OrderBookRealTimeClientEvent = {
    *   {@link OrderBookRealTimeClient.getOrderBookL2}
    */
   l2: 'l2',
+  /**
+   * Emitted when the order book of a market has been verified against a REST API snapshot.
+   *
+   * - Includes the market string and an {@link OrderBookVerificationResult} as arguments
+   *   made to the handler.
+   */
+  verified: 'verified',
 } as const;
 
 export type OrderBookRealTimeClientEvent =
   (typeof OrderBookRealTimeClientEvent)[keyof typeof OrderBookRealTimeClientEvent];
 
+/**
+ * An enumeration providing all possible events that the {@link PaperTradingClient} can emit.
+ *
+ * @enum
+ *
+ * @category Enums - Request Parameters
+ */
+export const PaperTradingClientEvent = {
+  /**
+   * Emitted when a simulated order or position changes.
+   *
+   * - Includes an {@link IDEXOrderEvent} or {@link IDEXPositionEvent} argument matching
+   *   the messages of the `orders` and `positions` WebSocket subscriptions.
+   */
+  message: 'message',
+  /**
+   * Emitted when processing an order book update or refreshing market data fails.
+   *
+   * - Includes an {@link Error} argument with more details about the error
+   *   that occurred.
+   */
+  error: 'error',
+} as const;
+
+export type PaperTradingClientEvent =
+  (typeof PaperTradingClientEvent)[keyof typeof PaperTradingClientEvent];
+
+/**
+ * Algorithms an {@link ExecutionScheduler} can use to slice a parent order into child orders.
+ *
+ * @enum
+ *
+ * @category Enums - Request Parameters
+ */
+export const ExecutionAlgorithm = {
+  /**
+   * Time-weighted average price, places equally sized child orders at a regular interval
+   * over a duration.
+   */
+  twap: 'twap',
+  /**
+   * Volume-weighted average price, places child orders to participate in a fixed share of
+   * the volume traded in the market, also known as a percentage-of-volume (POV) algorithm.
+   */
+  vwap: 'vwap',
+} as const;
+
+export type ExecutionAlgorithm =
+  (typeof ExecutionAlgorithm)[keyof typeof ExecutionAlgorithm];
+
+/**
+ * An enumeration providing all possible states of an {@link ExecutionScheduler}.
+ *
+ * @enum
+ *
+ * @category Enums - Request Parameters
+ */
+export const ExecutionSchedulerStatus = {
+  /**
+   * The scheduler has not been started.
+   */
+  pending: 'pending',
+  /**
+   * Child orders are being placed.
+   */
+  running: 'running',
+  /**
+   * No new child orders are placed until the scheduler is resumed, working child orders
+   * remain open.
+   */
+  paused: 'paused',
+  /**
+   * The parent quantity was executed or the duration elapsed.
+   */
+  completed: 'completed',
+  /**
+   * The scheduler was canceled.
+   */
+  canceled: 'canceled',
+  /**
+   * Placing a child order failed.
+   */
+  failed: 'failed',
+} as const;
+
+export type ExecutionSchedulerStatus =
+  (typeof ExecutionSchedulerStatus)[keyof typeof ExecutionSchedulerStatus];
+
+/**
+ * An enumeration providing all possible events that the {@link ExecutionScheduler} can emit.
+ *
+ * @enum
+ *
+ * @category Enums - Request Parameters
+ */
+export const ExecutionSchedulerEvent = {
+  /**
+   * Emitted when a child order is placed or filled, or the status of the scheduler changes.
+   *
+   * - Includes an {@link ExecutionProgress} argument.
+   */
+  progress: 'progress',
+  /**
+   * Emitted once when the scheduler is completed, canceled or failed.
+   *
+   * - Includes the final {@link ExecutionProgress} argument.
+   */
+  done: 'done',
+  /**
+   * Emitted when placing or canceling child orders fails.
+   *
+   * - Includes an {@link Error} argument with more details about the error
+   *   that occurred.
+   */
+  error: 'error',
+} as const;
+
+export type ExecutionSchedulerEvent =
+  (typeof ExecutionSchedulerEvent)[keyof typeof ExecutionSchedulerEvent];
+
+/**
+ * An enumeration providing all possible states of an {@link IcebergOrder}.
+ *
+ * @enum
+ *
+ * @category Enums - Request Parameters
+ */
+export const IcebergOrderStatus = {
+  /**
+   * The iceberg order has not been started.
+   */
+  pending: 'pending',
+  /**
+   * A visible slice is resting on the order book.
+   */
+  working: 'working',
+  /**
+   * The total quantity was executed.
+   */
+  completed: 'completed',
+  /**
+   * The iceberg order was stopped and its remaining slices canceled.
+   */
+  stopped: 'stopped',
+  /**
+   * Placing a slice failed or a slice was closed before it was filled.
+   */
+  failed: 'failed',
+} as const;
+
+export type IcebergOrderStatus =
+  (typeof IcebergOrderStatus)[keyof typeof IcebergOrderStatus];
+
+/**
+ * An enumeration providing all possible events that the {@link IcebergOrder} can emit.
+ *
+ * @enum
+ *
+ * @category Enums - Request Parameters
+ */
+export const IcebergOrderEvent = {
+  /**
+   * Emitted when a slice is placed or filled, or the status of the iceberg order changes.
+   *
+   * - Includes an {@link IcebergOrderProgress} argument.
+   */
+  progress: 'progress',
+  /**
+   * Emitted once when the iceberg order is completed, stopped or failed.
+   *
+   * - Includes the final {@link IcebergOrderProgress} argument.
+   */
+  done: 'done',
+  /**
+   * Emitted when placing or canceling slices fails, or a slice is closed before it was
+   * filled.
+   *
+   * - Includes an {@link Error} argument with more details about the error
+   *   that occurred.
+   */
+  error: 'error',
+} as const;
+
+export type IcebergOrderEvent =
+  (typeof IcebergOrderEvent)[keyof typeof IcebergOrderEvent];
+
+/**
+ * How the orders of an {@link OrderGroup} managed by an {@link OrderGroupManager} are linked.
+ *
+ * @enum
+ *
+ * @category Enums - Request Parameters
+ */
+export const OrderGroupType = {
+  /**
+   * Orders compete to execute the same quantity, fills of one order reduce the others and
+   * once one order is filled or canceled the others are canceled.
+   */
+  oneCancelsOther: 'oneCancelsOther',
+  /**
+   * An entry order with exit orders, such as a take profit and a stop loss, which are linked
+   * as {@link oneCancelsOther} and resized to the quantity executed by the entry order once it
+   * is closed. The entry order is canceled once all exit orders are closed.
+   */
+  bracket: 'bracket',
+} as const;
+
+export type OrderGroupType =
+  (typeof OrderGroupType)[keyof typeof OrderGroupType];
+
+/**
+ * An enumeration providing all possible events that the {@link OrderGroupManager} can emit.
+ *
+ * @enum
+ *
+ * @category Enums - Request Parameters
+ */
+export const OrderGroupManagerEvent = {
+  /**
+   * Emitted when an order of a group is filled, canceled or replaced.
+   *
+   * - Includes the {@link OrderGroup} argument, which should be persisted to restore the group
+   *   after a restart.
+   */
+  updated: 'updated',
+  /**
+   * Emitted when all orders of a group are closed and the group is no longer managed.
+   *
+   * - Includes the final {@link OrderGroup} argument.
+   */
+  done: 'done',
+  /**
+   * Emitted when canceling or replacing the orders of a group fails.
+   *
+   * - Includes an {@link Error} argument with more details about the error
+   *   that occurred.
+   */
+  error: 'error',
+} as const;
+
+export type OrderGroupManagerEvent =
+  (typeof OrderGroupManagerEvent)[keyof typeof OrderGroupManagerEvent];
+
 /**
  * All possible WebSocket Subscription Names that require authenticated
  * WebSocket connections.
@@ -32,6 +32,18 @@ export interface RestRequestByWalletOptional {
  */
 export type RestRequestByWallet = Required<RestRequestByWalletOptional>;
 
+/**
+ * The request parameters accepted by the `RestAuthenticatedClient` methods, where the
+ * {@link RestRequestByWalletOptional.nonce nonce} may be omitted.
+ *
+ * - When omitted, a nonce aligned with the server time is generated automatically.
+ *
+ * @see related {@link RestRequestByWallet}
+ * @category Base Types
+ */
+export type RestRequestWithOptionalNonce<R> =
+  R extends { nonce: string } ? Omit<R, 'nonce'> & { nonce?: string } : R;
+
 /**
  * [[include:base.md]]
  *
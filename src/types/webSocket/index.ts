@@ -3,3 +3,4 @@ export * from '#types/webSocket/base';
 export * from '#types/webSocket/response/index';
 export * from '#types/webSocket/constants';
 export * from '#types/webSocket/options';
+export * from '#types/webSocket/stream';
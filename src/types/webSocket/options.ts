@@ -4,6 +4,7 @@ import type {
   IDEXSubscribeTypeAuthenticated as _WebSocketSubscribeAuthenticatedType,
   IDEXSubscribeTypePublic as _WebSocketSubscribePublicType,
 } from '#types/webSocket/index';
+import type WebSocket from 'isomorphic-ws';
 
 /**
  * Providing the `auth` property to the {@link _WebSocketClient WebSocketClient} constructor will allow you
@@ -114,6 +115,33 @@ export interface WebSocketClientOptionsBase {
    */
   shouldReconnectAutomatically?: boolean;
 
+  /**
+   * If `true` (default), all active subscriptions are replayed once the client automatically
+   * reconnects after the connection was lost unexpectedly.
+   *
+   * - A fresh WebSocket Token is fetched when authenticated subscriptions are replayed.
+   * - Handlers registered with {@link _WebSocketClient.onResubscribed onResubscribed} are called once the
+   *   subscriptions have been replayed, updates which occurred while disconnected may have been missed.
+   *
+   * @defaultValue
+   * ```typescript
+   * true
+   * ```
+   */
+  shouldResubscribeAutomatically?: boolean;
+
+  /**
+   * How long (in milliseconds) the promise-returning request methods such as
+   * {@link _WebSocketClient.subscribePublicAsync subscribePublicAsync} will wait for the server
+   * to respond before rejecting.
+   *
+   * @defaultValue
+   * ```typescript
+   * 10_000
+   * ```
+   */
+  requestTimeoutMs?: number;
+
   /**
    * The base URL to use when connecting to the WebSocket API.
    *
@@ -145,6 +173,17 @@ export interface WebSocketClientOptionsBase {
    */
   baseRestApiURL?: string;
 
+  /**
+   * Creates the underlying WebSocket connection, defaults to creating an `isomorphic-ws`
+   * WebSocket connected to `url`.
+   *
+   * - Allows the connection to be observed or substituted, such as by
+   *   {@link TrafficRecorder} and {@link TrafficReplay}.
+   * - The returned object must implement the `addEventListener`, `removeEventListener`,
+   *   `send`, `close` and `readyState` members of a WebSocket.
+   */
+  createWebSocket?: (url: string) => WebSocket;
+
   /**
    * [INTERNAL USE ONLY] - Will not have any functionality in normal circumstances.
    *
@@ -306,5 +345,7 @@ export type WebSocketClientOptionsInitialized = AugmentedRequired<
   | 'baseRestApiURL'
   | 'sandbox'
   | 'shouldReconnectAutomatically'
+  | 'shouldResubscribeAutomatically'
+  | 'requestTimeoutMs'
   | 'clientId'
 >;
@@ -0,0 +1,110 @@
+import type * as _types from '#index';
+import type {
+  CandleInterval,
+  SubscriptionNameAuthenticated,
+  SubscriptionNamePublic,
+} from '#types/enums/request';
+import type { IDEXSubscriptionEvent } from '#types/webSocket/request/subscriptions';
+
+/**
+ * The subscription names which may be streamed using
+ * {@link _types.WebSocketClient.stream WebSocketClient.stream}
+ *
+ * @category WebSocket - Streams
+ */
+export type WebSocketStreamName = Exclude<
+  SubscriptionNamePublic | SubscriptionNameAuthenticated,
+  typeof SubscriptionNamePublic.webclient
+>;
+
+/**
+ * The subscription names which are public and filtered by `markets`.
+ *
+ * @category WebSocket - Streams
+ */
+export type WebSocketStreamNamePublic = Extract<
+  WebSocketStreamName,
+  SubscriptionNamePublic
+>;
+
+/**
+ * The `data` property of the {@link IDEXSubscriptionEvent} matching the given subscription name, this
+ * is the type of each value yielded by a {@link _types.WebSocketStream WebSocketStream}.
+ *
+ * @example
+ * ```typescript
+ * // IDEXTradeEventData
+ * type TradeData = WebSocketStreamEventData<typeof SubscriptionNamePublic.trades>;
+ * ```
+ *
+ * @category WebSocket - Streams
+ */
+export type WebSocketStreamEventData<N extends WebSocketStreamName> = Extract<
+  IDEXSubscriptionEvent,
+  { type: N }
+>['data'];
+
+/**
+ * Determines what happens when a stream receives an update while its buffer is full, which
+ * occurs when updates are received faster than they are consumed.
+ *
+ * - `dropOldest` - the oldest buffered update is discarded to make room for the new update.
+ * - `dropNewest` - the new update is discarded.
+ * - `error` - the stream ends and the next iteration rejects with a
+ *   {@link _types.WebSocketStreamOverflowError WebSocketStreamOverflowError}.
+ *
+ * @category WebSocket - Streams
+ */
+export type WebSocketStreamOverflowPolicy =
+  | 'dropOldest'
+  | 'dropNewest'
+  | 'error';
+
+/**
+ * @category WebSocket - Streams
+ */
+export interface WebSocketStreamOptionsBase {
+  /**
+   * The maximum number of updates which are buffered while waiting to be consumed.
+   *
+   * @defaultValue
+   * ```typescript
+   * 1_000
+   * ```
+   */
+  bufferSize?: number;
+  /**
+   * What to do when an update is received while the buffer is full.
+   *
+   * - Defaults to `'error'` for authenticated subscriptions so that account updates are never
+   *   silently lost.
+   *
+   * @see type {@link WebSocketStreamOverflowPolicy}
+   *
+   * @defaultValue
+   * ```typescript
+   * // public subscriptions
+   * 'dropOldest'
+   * // authenticated subscriptions
+   * 'error'
+   * ```
+   */
+  overflow?: WebSocketStreamOverflowPolicy;
+}
+
+/**
+ * Options for {@link _types.WebSocketClient.stream WebSocketClient.stream}
+ *
+ * - Public subscriptions require `markets`, only updates for those markets are yielded.
+ * - `candles` additionally requires the candle `interval`.
+ * - Authenticated subscriptions stream updates for the wallet the client was created with.
+ *
+ * @category WebSocket - Streams
+ */
+export type WebSocketStreamOptions<N extends WebSocketStreamName> =
+  WebSocketStreamOptionsBase &
+    (N extends typeof SubscriptionNamePublic.candles ?
+      { markets: string[]; interval: CandleInterval }
+    : N extends WebSocketStreamNamePublic ?
+      { markets: string[]; interval?: undefined }
+    : { markets?: undefined; interval?: undefined });